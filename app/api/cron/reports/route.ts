@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { hasCronSecret } from "@/lib/auth"
+import { sendDueReports } from "@/lib/services/report-subscriptions"
+
+// Scheduler entry point for email reports, called hourly by Vercel Cron
+export async function GET(request: NextRequest) {
+  if (!hasCronSecret(request)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const results = await sendDueReports()
+    const failed = results.filter((result) => !result.success)
+
+    return NextResponse.json(
+      {
+        success: failed.length === 0,
+        sent: results.length - failed.length,
+        failed: failed.length,
+        results,
+      },
+      { status: failed.length === 0 ? 200 : 500 }
+    )
+  } catch (error) {
+    console.error("❌ Scheduled reports failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
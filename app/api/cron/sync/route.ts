@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { hasCronSecret } from "@/lib/auth"
+import {
+  SCHEDULED_JOBS,
+  isScheduledJob,
+  runScheduledJob,
+} from "@/lib/services/scheduled-jobs"
+
+// Scheduler entry point (Vercel Cron sends GET), ?job= defaults to incremental
+export async function GET(request: NextRequest) {
+  if (!hasCronSecret(request)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const job = request.nextUrl.searchParams.get("job") || "incremental"
+
+    if (!isScheduledJob(job)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `job must be one of: ${SCHEDULED_JOBS.join(", ")}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await runScheduledJob(job)
+
+    if (result.alreadyRunning) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, apiUsage: result.apiUsage },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+      ordersProcessed: result.ordersProcessed,
+      transactionsProcessed: result.transactionsProcessed,
+      apiUsage: result.apiUsage,
+    })
+  } catch (error) {
+    console.error("❌ Scheduled job failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
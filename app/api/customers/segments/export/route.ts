@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isValid, parseISO } from "date-fns"
+import { hasUserSession } from "@/lib/auth"
+import {
+  getCustomerSegments,
+  RFM_SEGMENTS,
+  type RfmSegment,
+} from "@/lib/services/get-customer-segments"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+
+// Exports the customers of one RFM segment (or all with ?segment=all) as CSV
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await hasUserSession())) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const fromDate = searchParams.get("fromDate")
+    const toDate = searchParams.get("toDate")
+    const segment = searchParams.get("segment") || "all"
+
+    const isStoreDay = (date: string | null): date is string =>
+      !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date))
+
+    if (!isStoreDay(fromDate) || !isStoreDay(toDate) || fromDate > toDate) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "fromDate and toDate must be YYYY-MM-DD, fromDate first",
+        },
+        { status: 400 }
+      )
+    }
+
+    if (segment !== "all" && !Object.hasOwn(RFM_SEGMENTS, segment)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown segment: ${segment}` },
+        { status: 400 }
+      )
+    }
+
+    const data = await getCustomerSegments(
+      fromDate,
+      toDate,
+      getReportFiltersFromParams(searchParams)
+    )
+    const customers =
+      segment === "all"
+        ? data.customers
+        : data.customers.filter((c) => c.segment === (segment as RfmSegment))
+
+    const rows = [
+      [
+        "shopify_customer_id",
+        "segment",
+        "acquisition_channel",
+        "last_order_at",
+        "recency_days",
+        "orders",
+        "net_revenue",
+        "rfm_score",
+      ],
+      ...customers.map((c) => [
+        c.shopifyCustomerId,
+        c.segment,
+        c.acquisitionChannel,
+        c.lastOrderAt,
+        String(c.recencyDays),
+        String(c.frequency),
+        c.monetary.toFixed(2),
+        `${c.recencyScore}${c.frequencyScore}${c.monetaryScore}`,
+      ]),
+    ]
+
+    // Quote every field, channel names may contain commas
+    const csv = rows
+      .map((row) =>
+        row.map((value) => `"${value.replace(/"/g, '""')}"`).join(",")
+      )
+      .join("\n")
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="customers-${segment}-${fromDate}-to-${toDate}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("❌ Customer segment export failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isValid, parseISO } from "date-fns"
+import { authorizeSyncRequest } from "@/lib/auth"
+import { isCurrencyCode } from "@/lib/currency"
+import { upsertFxRates } from "@/lib/supabase/operations"
+import type { DatabaseFxRate } from "@/lib/supabase/types"
+
+const CSV_HEADER = "date,base_currency,quote_currency,rate"
+
+// Rows per upsert, keeps each request body small
+const UPSERT_BATCH_SIZE = 500
+
+// Loads daily exchange rates from a CSV body with the header
+// date,base_currency,quote_currency,rate and an optional ?source= label
+// Requires an admin session or the cron bearer secret
+export async function POST(request: NextRequest) {
+  if (!(await authorizeSyncRequest(request))) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const source = request.nextUrl.searchParams.get("source")
+    const lines = (await request.text())
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+
+    if (lines[0]?.toLowerCase().replace(/\s/g, "") !== CSV_HEADER) {
+      return NextResponse.json(
+        { success: false, error: `Expected the CSV header ${CSV_HEADER}` },
+        { status: 400 }
+      )
+    }
+
+    const rates: DatabaseFxRate[] = []
+    const errors: string[] = []
+
+    lines.slice(1).forEach((line, index) => {
+      const [date, baseCurrency, quoteCurrency, rate] = line
+        .split(",")
+        .map((value) => value.trim().replace(/^"|"$/g, ""))
+      const rowNumber = index + 2
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date))) {
+        errors.push(`Row ${rowNumber}: invalid date "${date}"`)
+      } else if (
+        !isCurrencyCode(baseCurrency?.toUpperCase() || "") ||
+        !isCurrencyCode(quoteCurrency?.toUpperCase() || "")
+      ) {
+        errors.push(`Row ${rowNumber}: invalid currency code`)
+      } else if (!(Number(rate) > 0)) {
+        errors.push(`Row ${rowNumber}: rate must be a positive number`)
+      } else {
+        rates.push({
+          rate_date: date,
+          base_currency: baseCurrency.toUpperCase(),
+          quote_currency: quoteCurrency.toUpperCase(),
+          rate: Number(rate),
+          source,
+        })
+      }
+    })
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: "Invalid rows in CSV", errors },
+        { status: 400 }
+      )
+    }
+
+    for (let i = 0; i < rates.length; i += UPSERT_BATCH_SIZE) {
+      const saved = await upsertFxRates(rates.slice(i, i + UPSERT_BATCH_SIZE))
+      if (!saved) {
+        throw new Error("Failed to save FX rates")
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "FX rates loaded successfully",
+      ratesLoaded: rates.length,
+    })
+  } catch (error) {
+    console.error("❌ FX rate load failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
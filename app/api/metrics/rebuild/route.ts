@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorizeSyncRequest } from "@/lib/auth"
+import { rebuildDailyMetrics } from "@/lib/services/daily-channel-metrics"
+
+// Recompute the daily_channel_metrics rollup from all synced orders
+// Requires an admin session or the cron bearer secret
+export async function POST(request: NextRequest) {
+  if (!(await authorizeSyncRequest(request))) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  const result = await rebuildDailyMetrics()
+
+  if (result.success) {
+    return NextResponse.json({
+      success: true,
+      message: "Daily metrics rebuilt successfully",
+      daysRefreshed: result.daysRefreshed,
+      rowsWritten: result.rowsWritten,
+    })
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: result.error,
+    },
+    { status: 500 }
+  )
+}
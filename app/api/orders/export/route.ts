@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isValid, parseISO } from "date-fns"
+import { hasUserSession } from "@/lib/auth"
+import {
+  getIndividualOrderPagesForExport,
+  getOrdersExportTables,
+} from "@/lib/services/get-individual-orders"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { streamWorkbook } from "@/lib/services/export-workbook"
+import { EXPORT_CONTENT_TYPES } from "@/lib/export"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+
+// Downloads orders with transactions processed between fromDate and toDate (store days) as XLSX
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await hasUserSession())) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const fromDate = searchParams.get("fromDate")
+    const toDate = searchParams.get("toDate")
+
+    const isStoreDay = (date: string | null): date is string =>
+      !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date))
+
+    if (!isStoreDay(fromDate) || !isStoreDay(toDate) || fromDate > toDate) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "fromDate and toDate must be YYYY-MM-DD, fromDate first",
+        },
+        { status: 400 }
+      )
+    }
+
+    const filters = getReportFiltersFromParams(searchParams)
+    const timeZone = await getStoreTimezone()
+
+    // Each page of orders is written to the workbook as it is fetched
+    const tables = getOrdersExportTables(() =>
+      getIndividualOrderPagesForExport(fromDate, toDate, filters)
+    )
+
+    return new Response(streamWorkbook(tables, timeZone), {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES.xlsx,
+        "Content-Disposition": `attachment; filename="orders-${fromDate}-to-${toDate}.xlsx"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("❌ Orders export failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server"
+import { differenceInCalendarDays, isValid, parseISO } from "date-fns"
+import {
+  authorizeSyncRequest,
+  hasUserSession,
+  isAdminSession,
+} from "@/lib/auth"
+import {
+  getReconciliation,
+  MAX_RECONCILIATION_DAYS,
+} from "@/lib/services/get-reconciliation"
+import { resyncOrders } from "@/lib/services/sync-orders"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+
+// Compares stored orders processed between fromDate and toDate with Shopify
+// Requires a signed-in session, and an admin for ranges longer than
+// MAX_RECONCILIATION_DAYS since every order in the range is fetched
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await hasUserSession())) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const fromDate = searchParams.get("fromDate")
+    const toDate = searchParams.get("toDate")
+
+    const isStoreDay = (date: string | null): date is string =>
+      !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date))
+
+    if (!isStoreDay(fromDate) || !isStoreDay(toDate) || fromDate > toDate) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "fromDate and toDate must be YYYY-MM-DD, fromDate first",
+        },
+        { status: 400 }
+      )
+    }
+
+    const days =
+      differenceInCalendarDays(parseISO(toDate), parseISO(fromDate)) + 1
+    if (days > MAX_RECONCILIATION_DAYS && !(await isAdminSession())) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Ranges longer than ${MAX_RECONCILIATION_DAYS} days need an admin`,
+        },
+        { status: 403 }
+      )
+    }
+
+    const report = await getReconciliation(
+      fromDate,
+      toDate,
+      getReportFiltersFromParams(searchParams)
+    )
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error("❌ Reconciliation failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Re-syncs the orders in { "orderIds": [...] } (Shopify order GIDs)
+// Requires an admin session or the cron bearer secret
+export async function POST(request: NextRequest) {
+  const trigger = await authorizeSyncRequest(request)
+  if (!trigger) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const orderIds: unknown = body?.orderIds
+
+    if (
+      !Array.isArray(orderIds) ||
+      orderIds.length === 0 ||
+      !orderIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { success: false, error: "orderIds must be a non-empty string array" },
+        { status: 400 }
+      )
+    }
+
+    const result = await resyncOrders({ orderIds, trigger })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, apiUsage: result.apiUsage },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Orders re-synced successfully",
+      ordersProcessed: result.ordersProcessed,
+      transactionsProcessed: result.transactionsProcessed,
+      apiUsage: result.apiUsage,
+    })
+  } catch (error) {
+    console.error("❌ Reconciliation re-sync failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
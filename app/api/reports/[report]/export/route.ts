@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { format } from "date-fns"
+import { hasUserSession } from "@/lib/auth"
+import {
+  EXPORT_CONTENT_TYPES,
+  isExportFormat,
+  isReportKey,
+  toCsv,
+  toJson,
+} from "@/lib/export"
+import { streamWorkbook } from "@/lib/services/export-workbook"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { REPORT_EXPORTS } from "@/lib/services/report-exports"
+import { getComparisonDates, getDateRangeFromParams } from "@/lib/utils"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+
+// Downloads a report's tables as ?format=csv|xlsx|json, reading the same
+// from, to, compare and filter params as the report page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ report: string }> }
+) {
+  try {
+    if (!(await hasUserSession())) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { report } = await params
+    if (!isReportKey(report)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown report: ${report}` },
+        { status: 404 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const exportFormat = searchParams.get("format") || "csv"
+    if (!isExportFormat(exportFormat)) {
+      return NextResponse.json(
+        { success: false, error: "format must be csv, xlsx or json" },
+        { status: 400 }
+      )
+    }
+
+    const timeZone = await getStoreTimezone()
+    const dateRange = getDateRangeFromParams(searchParams, timeZone)
+    const fromDate = format(dateRange.from, "yyyy-MM-dd")
+    const toDate = format(dateRange.to, "yyyy-MM-dd")
+
+    const tables = await REPORT_EXPORTS[report].getTables({
+      fromDate,
+      toDate,
+      compareTo: getComparisonDates(dateRange),
+      filters: getReportFiltersFromParams(searchParams),
+    })
+
+    const body =
+      exportFormat === "xlsx"
+        ? streamWorkbook(tables, timeZone)
+        : exportFormat === "json"
+          ? toJson(tables)
+          : toCsv(tables)
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[exportFormat],
+        "Content-Disposition": `attachment; filename="${report}-${fromDate}-to-${toDate}.${exportFormat}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("❌ Report export failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
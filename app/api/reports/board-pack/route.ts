@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { format } from "date-fns"
+import { hasCronSecret, hasUserSession } from "@/lib/auth"
+import { BOARD_PACK_SECTIONS, isBoardPackSection } from "@/lib/export"
+import { renderBoardPack } from "@/lib/services/board-pack"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import {
+  formatComparisonMode,
+  getComparisonDates,
+  getDateRangeFromParams,
+} from "@/lib/utils"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+
+// Downloads the Overview board pack as a PDF. Reads the Overview page's from,
+// to, compare (defaults to the previous period) and filter params and
+// ?sections=kpis,sales-trend,... (all sections by default). Accepts a
+// signed-in session or the cron bearer token, for scheduled jobs.
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasCronSecret(request) && !(await hasUserSession())) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams)
+    if (!searchParams.has("compare")) {
+      searchParams.set("compare", "previous_period")
+    }
+
+    const sectionsParam = searchParams.get("sections")
+    const sections = sectionsParam
+      ? sectionsParam.split(",").map((section) => section.trim())
+      : Object.keys(BOARD_PACK_SECTIONS)
+    if (sections.length === 0 || !sections.every(isBoardPackSection)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `sections must be a comma-separated list of: ${Object.keys(BOARD_PACK_SECTIONS).join(", ")}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const dateRange = getDateRangeFromParams(
+      searchParams,
+      await getStoreTimezone()
+    )
+    const fromDate = format(dateRange.from, "yyyy-MM-dd")
+    const toDate = format(dateRange.to, "yyyy-MM-dd")
+
+    const pdf = await renderBoardPack({
+      fromDate,
+      toDate,
+      compareTo: getComparisonDates(dateRange),
+      comparisonLabel: dateRange.comparison
+        ? formatComparisonMode(dateRange.comparison.mode)
+        : undefined,
+      sections,
+      filters: getReportFiltersFromParams(searchParams),
+    })
+
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="board-pack-${fromDate}-to-${toDate}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("❌ Board pack export failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
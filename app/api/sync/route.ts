@@ -1,9 +1,72 @@
-import { NextResponse } from "next/server"
-import { syncOrders } from "@/lib/services/sync-orders"
+import { NextRequest, NextResponse } from "next/server"
+import { authorizeSyncRequest } from "@/lib/auth"
+import {
+  backfillOrders,
+  resyncOrders,
+  syncOrders,
+  type ResyncOrdersOptions,
+} from "@/lib/services/sync-orders"
+import type { BulkBackfillResult } from "@/lib/services/bulk-sync-orders"
+
+// Requires an admin session or the cron bearer secret
+export async function POST(request: NextRequest) {
+  const trigger = await authorizeSyncRequest(request)
+  if (!trigger) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
 
-export async function POST() {
   try {
-    const result = await syncOrders()
+    // ?mode=backfill runs the bulk operation backfill, optionally from ?from=YYYY-MM-DD
+    // ?mode=resync re-fetches ?orderIds=, ?names= (comma-separated) or a
+    // ?from=&to= window of ?dateField=updated_at|created_at
+    const searchParams = request.nextUrl.searchParams
+    const mode = searchParams.get("mode")
+    const list = (name: string) =>
+      searchParams
+        .get(name)
+        ?.split(",")
+        .map((value) => value.trim())
+        .filter(Boolean)
+
+    const dateField = searchParams.get("dateField")
+    if (
+      mode === "resync" &&
+      dateField &&
+      !["updated_at", "created_at"].includes(dateField)
+    ) {
+      return NextResponse.json(
+        { success: false, error: "dateField must be updated_at or created_at" },
+        { status: 400 }
+      )
+    }
+
+    const result: BulkBackfillResult =
+      mode === "backfill"
+        ? await backfillOrders({
+            fromDate: searchParams.get("from") || undefined,
+            trigger,
+          })
+        : mode === "resync"
+          ? await resyncOrders({
+              orderIds: list("orderIds"),
+              names: list("names"),
+              from: searchParams.get("from") || undefined,
+              to: searchParams.get("to") || undefined,
+              dateField: (dateField ||
+                undefined) as ResyncOrdersOptions["dateField"],
+              trigger,
+            })
+          : await syncOrders({ trigger })
+
+    if (result.alreadyRunning) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      )
+    }
 
     if (result.success) {
       return NextResponse.json({
@@ -11,12 +74,18 @@ export async function POST() {
         message: "Sync completed successfully",
         ordersProcessed: result.ordersProcessed,
         transactionsProcessed: result.transactionsProcessed,
+        apiUsage: result.apiUsage,
+        ...(result.bulkOperationId && {
+          bulkOperationId: result.bulkOperationId,
+          bulkOperationStatus: result.bulkOperationStatus,
+        }),
       })
     } else {
       return NextResponse.json(
         {
           success: false,
           error: result.error,
+          apiUsage: result.apiUsage,
         },
         { status: 500 }
       )
@@ -33,8 +102,3 @@ export async function POST() {
     )
   }
 }
-
-// Allow GET requests too for easier testing
-export async function GET() {
-  return POST()
-}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorizeSyncRequest } from "@/lib/auth"
+import { replayWebhookDeliveries } from "@/lib/services/process-shopify-webhook"
+
+// Requires an admin session or the cron bearer secret
+export async function POST(request: NextRequest) {
+  if (!(await authorizeSyncRequest(request))) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    // Replay a single delivery with ?webhookId=..., otherwise every failed one
+    const webhookId = request.nextUrl.searchParams.get("webhookId") || undefined
+    const result = await replayWebhookDeliveries(webhookId)
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      message: `Replayed ${result.replayed} webhook deliveries`,
+      replayed: result.replayed,
+      failed: result.failed,
+    })
+  } catch (error) {
+    console.error("❌ Webhook replay failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
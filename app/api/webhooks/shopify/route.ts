@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { verifyShopifyWebhook } from "@/lib/shopify/webhooks"
+import { handleShopifyWebhook } from "@/lib/services/process-shopify-webhook"
+
+export async function POST(request: NextRequest) {
+  // HMAC must be computed over the raw body, so read it as text first
+  const rawBody = await request.text()
+
+  if (
+    !verifyShopifyWebhook(rawBody, request.headers.get("x-shopify-hmac-sha256"))
+  ) {
+    return NextResponse.json(
+      { success: false, error: "Invalid webhook signature" },
+      { status: 401 }
+    )
+  }
+
+  const topic = request.headers.get("x-shopify-topic")
+  const webhookId = request.headers.get("x-shopify-webhook-id")
+
+  if (!topic || !webhookId) {
+    return NextResponse.json(
+      { success: false, error: "Missing webhook topic or id" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await handleShopifyWebhook({
+      webhookId,
+      topic,
+      shopDomain: request.headers.get("x-shopify-shop-domain"),
+      payload: JSON.parse(rawBody),
+    })
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        status: result.status,
+        ordersProcessed: result.ordersProcessed,
+        transactionsProcessed: result.transactionsProcessed,
+      })
+    } else {
+      // Non-2xx makes Shopify retry; the delivery is also kept for manual replay
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+        },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("❌ Webhook handling failed:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
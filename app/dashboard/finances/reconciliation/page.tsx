@@ -0,0 +1,255 @@
+import { Suspense } from "react"
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReconciliationChannelTable } from "@/components/modules/reconciliation-channel-table"
+import { OrderDiscrepancyTable } from "@/components/modules/order-discrepancy-table"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  getReconciliation,
+  MAX_RECONCILIATION_DAYS,
+} from "@/lib/services/get-reconciliation"
+import { isAdminSession } from "@/lib/auth"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getStoreLastDays } from "@/lib/date-range"
+import {
+  getReportFiltersFromParams,
+  type ReportFilters,
+} from "@/lib/report-filters"
+import { formatCurrency } from "@/lib/utils"
+
+interface ReconciliationPageProps {
+  searchParams: Promise<{
+    from?: string
+    to?: string
+    [key: string]: string | string[] | undefined
+  }>
+}
+
+async function ReconciliationReport({
+  from,
+  to,
+  filters,
+}: {
+  from: string
+  to: string
+  filters: ReportFilters
+}) {
+  const data = await getReconciliation(from, to, filters)
+  const { totals } = data
+
+  return (
+    <>
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Net Payments (Dashboard)
+            </CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Local
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatCurrency(totals.localNet, totals.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {totals.localOrders.toLocaleString()} orders in the database
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Net Payments (Shopify)
+            </CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Live
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatCurrency(totals.shopifyNet, totals.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {totals.shopifyOrders.toLocaleString()} orders fetched from
+              Shopify
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Difference</CardTitle>
+            <Badge
+              variant={
+                Math.abs(totals.difference) >= 0.01 ? "destructive" : "default"
+              }
+              className="text-xs"
+            >
+              Gap
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatCurrency(totals.difference, totals.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Dashboard less Shopify
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Orders to Review
+            </CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Orders
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {data.discrepancies.length.toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {totals.missing} missing, {totals.notInShopify} not in Shopify,{" "}
+              {totals.stale} stale, {totals.amountMismatch} with different
+              amounts
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Channel Totals */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Net Payments by Channel</CardTitle>
+          <CardDescription>
+            Successful sales and captures less refunds of orders processed from{" "}
+            {data.dateRange.from} to {data.dateRange.to}, stored versus fetched
+            from Shopify at {new Date(data.checkedAt).toLocaleTimeString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReconciliationChannelTable
+            data={data.channels}
+            currency={totals.currency}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Order Discrepancies */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Order Discrepancies</CardTitle>
+          <CardDescription>
+            Orders missing from the dashboard, no longer returned by Shopify,
+            updated since the last sync or with different totals. Amounts are in
+            each order&apos;s own currency.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OrderDiscrepancyTable data={data.discrepancies} />
+        </CardContent>
+      </Card>
+    </>
+  )
+}
+
+function ReconciliationLoading() {
+  return (
+    <>
+      {/* Summary Cards Skeletons */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Card key={i}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <Skeleton className="h-4 w-[120px]" />
+              <Skeleton className="h-5 w-[60px]" />
+            </CardHeader>
+            <CardContent>
+              <Skeleton className="h-8 w-[100px] mb-2" />
+              <Skeleton className="h-3 w-[160px]" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Table Skeletons */}
+      {Array.from({ length: 2 }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader>
+            <Skeleton className="h-6 w-[240px] mb-2" />
+            <Skeleton className="h-4 w-[320px]" />
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, j) => (
+                <Skeleton key={j} className="h-12 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  )
+}
+
+export default async function ReconciliationPage({
+  searchParams,
+}: ReconciliationPageProps) {
+  // Default to the last 7 store days, every order is fetched from Shopify
+  const defaults = getStoreLastDays(7, await getStoreTimezone())
+
+  const params = await searchParams
+  const from = params.from || defaults.from
+  const to = params.to || defaults.to
+  const filters = getReportFiltersFromParams(params)
+
+  // Long ranges fetch many orders from Shopify, only admins may run them
+  const days = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1
+  const isAllowed = days <= MAX_RECONCILIATION_DAYS || (await isAdminSession())
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">
+          Shopify Reconciliation
+        </h2>
+        <div className="flex items-center gap-2">
+          <DateRangePicker />
+          <ReportFilterBar />
+        </div>
+      </div>
+
+      {isAllowed ? (
+        <Suspense fallback={<ReconciliationLoading />}>
+          <ReconciliationReport from={from} to={to} filters={filters} />
+        </Suspense>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Range Too Long</CardTitle>
+            <CardDescription>
+              Reconciling more than {MAX_RECONCILIATION_DAYS} days needs an
+              admin. Pick a shorter date range.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -6,8 +6,19 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
-import { getDateRangeFromParams, formatCurrency } from "@/lib/utils"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
+import {
+  getDateRangeFromParams,
+  formatCurrency,
+  getComparisonDates,
+  formatComparisonMode,
+} from "@/lib/utils"
 import { getRevenueBreakdown } from "@/lib/services/get-revenue-breakdown"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
 import { format } from "date-fns"
 
 interface PageProps {
@@ -24,21 +35,37 @@ export default async function RevenueBreakdownPage({
   Object.entries(params).forEach(([key, value]) => {
     if (typeof value === "string") {
       urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
     }
   })
 
-  const dateRange = getDateRangeFromParams(urlSearchParams)
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(urlSearchParams)
 
   // Format dates for API (YYYY-MM-DD)
   const fromDate = format(dateRange.from, "yyyy-MM-dd")
   const toDate = format(dateRange.to, "yyyy-MM-dd")
+  const compareTo = getComparisonDates(dateRange)
+  const comparisonLabel = dateRange.comparison
+    ? formatComparisonMode(dateRange.comparison.mode)
+    : ""
 
   // Fetch revenue data
   let revenueData = null
   let error = null
 
   try {
-    revenueData = await getRevenueBreakdown(fromDate, toDate)
+    revenueData = await getRevenueBreakdown(
+      fromDate,
+      toDate,
+      compareTo,
+      filters
+    )
   } catch (err) {
     error = err instanceof Error ? err.message : "Unknown error"
   }
@@ -60,6 +87,13 @@ export default async function RevenueBreakdownPage({
             Showing data for:
           </span>
           <DateRangePicker />
+          <ReportFilterBar />
+          <ComparisonSelect />
+          <ReportExportMenu
+            report="revenue-breakdown"
+            fromDate={fromDate}
+            toDate={toDate}
+          />
         </div>
       </div>
 
@@ -93,6 +127,14 @@ export default async function RevenueBreakdownPage({
                     revenueData.totals.currency
                   )}
                 </p>
+                {revenueData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={revenueData.comparison.deltas.grossRevenue}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -104,6 +146,15 @@ export default async function RevenueBreakdownPage({
                     revenueData.totals.currency
                   )}
                 </p>
+                {revenueData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={revenueData.comparison.deltas.refunds}
+                      invert
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -115,6 +166,14 @@ export default async function RevenueBreakdownPage({
                     revenueData.totals.currency
                   )}
                 </p>
+                {revenueData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={revenueData.comparison.deltas.netRevenue}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -130,6 +189,14 @@ export default async function RevenueBreakdownPage({
                     revenueData.totals.currency
                   )}
                 </p>
+                {revenueData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={revenueData.comparison.deltas.taxes}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -141,6 +208,15 @@ export default async function RevenueBreakdownPage({
                     revenueData.totals.currency
                   )}
                 </p>
+                {revenueData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={revenueData.comparison.deltas.discounts}
+                      invert
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -154,6 +230,14 @@ export default async function RevenueBreakdownPage({
                     revenueData.totals.currency
                   )}
                 </p>
+                {revenueData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={revenueData.comparison.deltas.shipping}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -1,5 +1,9 @@
 import { Suspense } from "react"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
 import { TransactionTable } from "@/components/modules/transaction-table"
 import {
   Card,
@@ -11,23 +15,45 @@ import {
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { getTransactionAnalysis } from "@/lib/services/get-transaction-analysis"
-import { formatCurrency } from "@/lib/utils"
+import type { ComparisonPeriod } from "@/lib/services/comparison"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getStoreLastDays } from "@/lib/date-range"
+import {
+  getReportFiltersFromParams,
+  type ReportFilters,
+} from "@/lib/report-filters"
+import {
+  formatComparisonMode,
+  formatCurrency,
+  getComparisonDates,
+  getDateRangeFromParams,
+} from "@/lib/utils"
 
 interface TransactionsPageProps {
   searchParams: Promise<{
     from?: string
     to?: string
+    [key: string]: string | string[] | undefined
+    compare?: string
+    compareFrom?: string
+    compareTo?: string
   }>
 }
 
 async function TransactionAnalytics({
   from,
   to,
+  compareTo,
+  comparisonLabel,
+  filters,
 }: {
   from: string
   to: string
+  compareTo?: ComparisonPeriod
+  comparisonLabel: string
+  filters: ReportFilters
 }) {
-  const data = await getTransactionAnalysis(from, to)
+  const data = await getTransactionAnalysis(from, to, compareTo, filters)
 
   return (
     <>
@@ -50,6 +76,14 @@ async function TransactionAnalytics({
               {data.totals.successfulTransactions.toLocaleString()} successful,{" "}
               {data.totals.failedTransactions.toLocaleString()} failed
             </p>
+            {data.comparison && (
+              <p className="text-xs text-muted-foreground">
+                <ChangeIndicator
+                  delta={data.comparison.deltas.totalTransactions}
+                />{" "}
+                from {comparisonLabel}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -76,6 +110,15 @@ async function TransactionAnalytics({
             <p className="text-xs text-muted-foreground">
               Overall transaction success rate
             </p>
+            {data.comparison && (
+              <p className="text-xs text-muted-foreground">
+                <ChangeIndicator
+                  delta={data.comparison.deltas.successRate}
+                  formatValue={(value) => `${value.toFixed(1)} pts`}
+                />{" "}
+                from {comparisonLabel}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -93,6 +136,12 @@ async function TransactionAnalytics({
             <p className="text-xs text-muted-foreground">
               Total successful transaction volume
             </p>
+            {data.comparison && (
+              <p className="text-xs text-muted-foreground">
+                <ChangeIndicator delta={data.comparison.deltas.totalAmount} />{" "}
+                from {comparisonLabel}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -115,6 +164,14 @@ async function TransactionAnalytics({
             <p className="text-xs text-muted-foreground">
               Average successful transaction
             </p>
+            {data.comparison && (
+              <p className="text-xs text-muted-foreground">
+                <ChangeIndicator
+                  delta={data.comparison.deltas.averageTransactionAmount}
+                />{" "}
+                from {comparisonLabel}
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -129,7 +186,7 @@ async function TransactionAnalytics({
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <TransactionTable data={data.byType} />
+          <TransactionTable data={data.byType} comparison={data.comparison} />
         </CardContent>
       </Card>
     </>
@@ -176,24 +233,47 @@ function TransactionAnalyticsLoading() {
 export default async function TransactionsPage({
   searchParams,
 }: TransactionsPageProps) {
-  // Default to last 30 days
-  const defaultTo = new Date()
-  const defaultFrom = new Date()
-  defaultFrom.setDate(defaultTo.getDate() - 29)
+  // Default to the last 30 store days
+  const defaults = getStoreLastDays(30, await getStoreTimezone())
 
   const params = await searchParams
-  const from = params.from || defaultFrom.toISOString().split("T")[0]
-  const to = params.to || defaultTo.toISOString().split("T")[0]
+  const from = params.from || defaults.from
+  const to = params.to || defaults.to
+  const filters = getReportFiltersFromParams(params)
+
+  // Resolve the comparison period against the effective date range
+  const dateRange = getDateRangeFromParams(
+    new URLSearchParams(
+      Object.entries({ ...params, from, to }).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    )
+  )
+  const compareTo = getComparisonDates(dateRange)
+  const comparisonLabel = dateRange.comparison
+    ? formatComparisonMode(dateRange.comparison.mode)
+    : ""
 
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between space-y-2">
         <h2 className="text-3xl font-bold tracking-tight">Transactions</h2>
-        <DateRangePicker />
+        <div className="flex items-center gap-2">
+          <DateRangePicker />
+          <ReportFilterBar />
+          <ComparisonSelect />
+          <ReportExportMenu report="transactions" fromDate={from} toDate={to} />
+        </div>
       </div>
 
       <Suspense fallback={<TransactionAnalyticsLoading />}>
-        <TransactionAnalytics from={from} to={to} />
+        <TransactionAnalytics
+          from={from}
+          to={to}
+          compareTo={compareTo}
+          comparisonLabel={comparisonLabel}
+          filters={filters}
+        />
       </Suspense>
     </div>
   )
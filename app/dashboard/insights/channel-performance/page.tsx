@@ -1,5 +1,8 @@
 import { Suspense } from "react"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
 import { ChannelPerformanceTable } from "@/components/modules/channel-performance-table"
 import {
   Card,
@@ -11,23 +14,42 @@ import {
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { getChannelPerformance } from "@/lib/services/get-channel-performance"
-import { formatCurrency } from "@/lib/utils"
+import type { ComparisonPeriod } from "@/lib/services/comparison"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getStoreLastDays } from "@/lib/date-range"
+import {
+  getReportFiltersFromParams,
+  type ReportFilters,
+} from "@/lib/report-filters"
+import {
+  formatCurrency,
+  getComparisonDates,
+  getDateRangeFromParams,
+} from "@/lib/utils"
 
 interface ChannelPerformancePageProps {
   searchParams: Promise<{
     from?: string
     to?: string
+    [key: string]: string | string[] | undefined
+    compare?: string
+    compareFrom?: string
+    compareTo?: string
   }>
 }
 
 async function ChannelPerformanceAnalytics({
   from,
   to,
+  compareTo,
+  filters,
 }: {
   from: string
   to: string
+  compareTo?: ComparisonPeriod
+  filters: ReportFilters
 }) {
-  const data = await getChannelPerformance(from, to)
+  const data = await getChannelPerformance(from, to, compareTo, filters)
 
   return (
     <>
@@ -117,7 +139,10 @@ async function ChannelPerformanceAnalytics({
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <ChannelPerformanceTable data={data.channels} />
+          <ChannelPerformanceTable
+            data={data.channels}
+            comparison={data.comparison}
+          />
         </CardContent>
       </Card>
     </>
@@ -164,14 +189,24 @@ function ChannelPerformanceAnalyticsLoading() {
 export default async function ChannelPerformancePage({
   searchParams,
 }: ChannelPerformancePageProps) {
-  // Default to last 30 days
-  const defaultTo = new Date()
-  const defaultFrom = new Date()
-  defaultFrom.setDate(defaultTo.getDate() - 29)
+  // Default to the last 30 store days
+  const defaults = getStoreLastDays(30, await getStoreTimezone())
 
   const params = await searchParams
-  const from = params.from || defaultFrom.toISOString().split("T")[0]
-  const to = params.to || defaultTo.toISOString().split("T")[0]
+  const from = params.from || defaults.from
+  const to = params.to || defaults.to
+  const filters = getReportFiltersFromParams(params)
+
+  // Resolve the comparison period against the effective date range
+  const compareTo = getComparisonDates(
+    getDateRangeFromParams(
+      new URLSearchParams(
+        Object.entries({ ...params, from, to }).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string"
+        )
+      )
+    )
+  )
 
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
@@ -179,11 +214,25 @@ export default async function ChannelPerformancePage({
         <h2 className="text-3xl font-bold tracking-tight">
           Channel Performance
         </h2>
-        <DateRangePicker />
+        <div className="flex items-center gap-2">
+          <ComparisonSelect />
+          <DateRangePicker />
+          <ReportFilterBar />
+          <ReportExportMenu
+            report="channel-performance"
+            fromDate={from}
+            toDate={to}
+          />
+        </div>
       </div>
 
       <Suspense fallback={<ChannelPerformanceAnalyticsLoading />}>
-        <ChannelPerformanceAnalytics from={from} to={to} />
+        <ChannelPerformanceAnalytics
+          from={from}
+          to={to}
+          compareTo={compareTo}
+          filters={filters}
+        />
       </Suspense>
     </div>
   )
@@ -0,0 +1,180 @@
+import { Suspense } from "react"
+import Link from "next/link"
+import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import {
+  CohortRetentionGrid,
+  type CohortMetric,
+} from "@/components/modules/cohort-retention-grid"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getCohortRetention } from "@/lib/services/get-cohort-retention"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getStoreToday } from "@/lib/date-range"
+import {
+  getReportFiltersFromParams,
+  type ReportFilters,
+} from "@/lib/report-filters"
+
+interface CohortRetentionPageProps {
+  searchParams: Promise<{
+    from?: string
+    to?: string
+    split?: string
+    metric?: string
+    [key: string]: string | string[] | undefined
+  }>
+}
+
+async function CohortRetentionAnalytics({
+  from,
+  to,
+  filters,
+  splitByChannel,
+  metric,
+}: {
+  from: string
+  to: string
+  filters: ReportFilters
+  splitByChannel: boolean
+  metric: CohortMetric
+}) {
+  const data = await getCohortRetention(from, to, { splitByChannel, filters })
+
+  const totalCustomers = data.cohorts.reduce((sum, c) => sum + c.customers, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {metric === "repeatRate"
+            ? "Repeat-Purchase Rate"
+            : "Cumulative Revenue per Customer"}
+        </CardTitle>
+        <CardDescription>
+          {totalCustomers.toLocaleString()} customers grouped by the month of
+          their first order
+          {data.splitByChannel ? " and acquisition channel" : ""}. Filters apply
+          to the first order. M0 is the month of the first order; each column is
+          cumulative.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CohortRetentionGrid
+          cohorts={data.cohorts}
+          months={data.months}
+          metric={metric}
+          currency={data.currency}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+function CohortRetentionAnalyticsLoading() {
+  return (
+    <Card>
+      <CardHeader>
+        <Skeleton className="h-6 w-[280px] mb-2" />
+        <Skeleton className="h-4 w-[360px]" />
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default async function CohortRetentionPage({
+  searchParams,
+}: CohortRetentionPageProps) {
+  // Default to cohorts acquired over the last 12 months
+  const today = getStoreToday(await getStoreTimezone())
+  const [year, month] = today.split("-")
+
+  const params = await searchParams
+  const from = params.from || `${Number(year) - 1}-${month}-01`
+  const to = params.to || today
+  const filters = getReportFiltersFromParams(params)
+  const splitByChannel = params.split === "channel"
+  const metric: CohortMetric =
+    params.metric === "revenue" ? "revenuePerCustomer" : "repeatRate"
+
+  // Links that switch one view option while keeping the other filters
+  const viewHref = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(
+      Object.entries(params).flatMap(([key, value]) =>
+        [value ?? []].flat().map((item) => [key, item])
+      )
+    )
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value)
+      } else {
+        next.delete(key)
+      }
+    })
+    return `?${next.toString()}`
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Cohort Retention</h2>
+        <div className="flex items-center gap-2">
+          <DateRangePicker />
+          <ReportFilterBar />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          asChild
+          size="sm"
+          variant={metric === "repeatRate" ? "default" : "outline"}
+        >
+          <Link href={viewHref({ metric: null })}>Repeat rate</Link>
+        </Button>
+        <Button
+          asChild
+          size="sm"
+          variant={metric === "revenuePerCustomer" ? "default" : "outline"}
+        >
+          <Link href={viewHref({ metric: "revenue" })}>
+            Revenue per customer
+          </Link>
+        </Button>
+        <Button
+          asChild
+          size="sm"
+          variant={splitByChannel ? "default" : "outline"}
+        >
+          <Link href={viewHref({ split: splitByChannel ? null : "channel" })}>
+            Split by channel
+          </Link>
+        </Button>
+      </div>
+
+      <Suspense fallback={<CohortRetentionAnalyticsLoading />}>
+        <CohortRetentionAnalytics
+          from={from}
+          to={to}
+          filters={filters}
+          splitByChannel={splitByChannel}
+          metric={metric}
+        />
+      </Suspense>
+    </div>
+  )
+}
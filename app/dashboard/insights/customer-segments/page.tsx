@@ -0,0 +1,250 @@
+import { Suspense } from "react"
+import { Download } from "lucide-react"
+import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { CustomerSegmentTable } from "@/components/modules/customer-segment-table"
+import { ChannelLtvTable } from "@/components/modules/channel-ltv-table"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getCustomerSegments } from "@/lib/services/get-customer-segments"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getStoreLastDays } from "@/lib/date-range"
+import {
+  getReportFiltersFromParams,
+  setReportFilterParams,
+  type ReportFilters,
+} from "@/lib/report-filters"
+import { formatCurrency } from "@/lib/utils"
+
+interface CustomerSegmentsPageProps {
+  searchParams: Promise<{
+    from?: string
+    to?: string
+    [key: string]: string | string[] | undefined
+  }>
+}
+
+async function CustomerSegmentsAnalytics({
+  from,
+  to,
+  filters,
+}: {
+  from: string
+  to: string
+  filters: ReportFilters
+}) {
+  const data = await getCustomerSegments(from, to, filters)
+  const currency = data.totals.currency
+
+  const exportHref = (segment: string) => {
+    const params = new URLSearchParams({ fromDate: from, toDate: to, segment })
+    setReportFilterParams(params, filters)
+    return `/api/customers/segments/export?${params.toString()}`
+  }
+
+  const champions = data.segments.find((s) => s.segment === "champions")
+  const atRisk = data.segments.filter(
+    (s) => s.segment === "at_risk" || s.segment === "lapsed"
+  )
+
+  return (
+    <>
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Customers</CardTitle>
+            <Badge variant="outline" className="text-xs">
+              RFM
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {data.totals.customers.toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              With at least one order in range
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Net Revenue</CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Revenue
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatCurrency(data.totals.revenue, currency)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(
+                data.totals.customers > 0
+                  ? data.totals.revenue / data.totals.customers
+                  : 0,
+                currency
+              )}{" "}
+              per customer
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Champions</CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Segment
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {(champions?.customers || 0).toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {(champions?.revenueShare || 0).toFixed(1)}% of net revenue
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              At Risk &amp; Lapsed
+            </CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Segment
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {atRisk.reduce((sum, s) => sum + s.customers, 0).toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {atRisk.reduce((sum, s) => sum + s.revenueShare, 0).toFixed(1)}%
+              of net revenue
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>RFM Segments</CardTitle>
+            <CardDescription>
+              Customers scored 1-5 on recency, frequency and net spend, measured
+              at the end of the date range
+            </CardDescription>
+          </div>
+          <Button asChild size="sm" variant="outline">
+            <a href={exportHref("all")} download>
+              <Download className="h-4 w-4" />
+              Export all
+            </a>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <CustomerSegmentTable
+            data={data.segments}
+            currency={currency}
+            exportHref={exportHref}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lifetime Value by Acquisition Channel</CardTitle>
+          <CardDescription>
+            Customers in the date range, by the channel of their first order.
+            Historical LTV is net revenue per customer across all their orders
+            up to the end of the range. Projected LTV adds the next{" "}
+            {data.projectionMonths} months at the channel&apos;s observed repeat
+            order rate, for customers not at risk or lapsed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChannelLtvTable
+            data={data.channels}
+            currency={currency}
+            projectionMonths={data.projectionMonths}
+          />
+        </CardContent>
+      </Card>
+    </>
+  )
+}
+
+function CustomerSegmentsAnalyticsLoading() {
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Card key={i}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <Skeleton className="h-4 w-[100px]" />
+              <Skeleton className="h-5 w-[60px]" />
+            </CardHeader>
+            <CardContent>
+              <Skeleton className="h-8 w-[120px] mb-2" />
+              <Skeleton className="h-3 w-[140px]" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-[200px] mb-2" />
+          <Skeleton className="h-4 w-[320px]" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {Array.from({ length: 7 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
+
+export default async function CustomerSegmentsPage({
+  searchParams,
+}: CustomerSegmentsPageProps) {
+  // Default to the last 12 months so lapsed customers are visible
+  const defaults = getStoreLastDays(365, await getStoreTimezone())
+
+  const params = await searchParams
+  const from = params.from || defaults.from
+  const to = params.to || defaults.to
+  const filters = getReportFiltersFromParams(params)
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">
+          Customer Segments &amp; LTV
+        </h2>
+        <div className="flex items-center gap-2">
+          <DateRangePicker />
+          <ReportFilterBar />
+        </div>
+      </div>
+
+      <Suspense fallback={<CustomerSegmentsAnalyticsLoading />}>
+        <CustomerSegmentsAnalytics from={from} to={to} filters={filters} />
+      </Suspense>
+    </div>
+  )
+}
@@ -2,7 +2,16 @@ import { createClient } from "@/lib/supabase/server"
 import { redirect } from "next/navigation"
 import { SidebarProvider } from "@/components/ui/sidebar"
 import LogoutButton from "@/components/modules/logout-button"
+import { CurrencySelect } from "@/components/modules/currency-select"
 import { AppSidebar } from "@/components/layouts/app-sidebar"
+import { StoreTimezoneProvider } from "@/hooks/use-store-timezone"
+import { ReportFilterOptionsProvider } from "@/hooks/use-report-filter-options"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFilterOptions } from "@/lib/services/get-report-filter-options"
+import {
+  getAvailableReportingCurrencies,
+  getReportingCurrency,
+} from "@/lib/services/get-reporting-currency"
 
 export default async function DashboardLayout({
   children,
@@ -19,26 +28,46 @@ export default async function DashboardLayout({
     redirect("/login")
   }
 
+  const [timeZone, reportingCurrency, currencies, filterOptions] =
+    await Promise.all([
+      getStoreTimezone(),
+      getReportingCurrency(),
+      getAvailableReportingCurrencies(),
+      getReportFilterOptions(),
+    ])
+
   return (
-    <SidebarProvider>
-      <AppSidebar />
-      <main className="flex-1">
-        <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
-          <div className="flex flex-1 items-center justify-between">
-            <h1 className="text-xl font-semibold">
-              Venroy Analytics Dashboard
-            </h1>
-            <div className="flex items-center space-x-4">
-              <span className="text-sm text-muted-foreground">
-                Welcome, {user.email}
-              </span>
-              <LogoutButton />
-            </div>
-          </div>
-        </header>
+    <StoreTimezoneProvider timeZone={timeZone}>
+      <ReportFilterOptionsProvider options={filterOptions}>
+        <SidebarProvider>
+          <AppSidebar />
+          <main className="flex-1">
+            <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
+              <div className="flex flex-1 items-center justify-between">
+                <h1 className="text-xl font-semibold">
+                  Venroy Analytics Dashboard
+                </h1>
+                <div className="flex items-center space-x-4">
+                  <CurrencySelect
+                    currency={reportingCurrency}
+                    currencies={
+                      currencies.includes(reportingCurrency)
+                        ? currencies
+                        : [...currencies, reportingCurrency].sort()
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    Welcome, {user.email}
+                  </span>
+                  <LogoutButton />
+                </div>
+              </div>
+            </header>
 
-        <div className="gap-4 p-4">{children}</div>
-      </main>
-    </SidebarProvider>
+            <div className="gap-4 p-4">{children}</div>
+          </main>
+        </SidebarProvider>
+      </ReportFilterOptionsProvider>
+    </StoreTimezoneProvider>
   )
 }
@@ -6,9 +6,20 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
 import { OrderTimeSeriesChart } from "@/components/modules/order-time-series-chart"
-import { getDateRangeFromParams, formatCurrency } from "@/lib/utils"
+import {
+  getDateRangeFromParams,
+  formatCurrency,
+  getComparisonDates,
+  formatComparisonMode,
+} from "@/lib/utils"
 import { getOrdersOverTime } from "@/lib/services/get-orders-over-time"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
 import { format, parseISO } from "date-fns"
 
 interface PageProps {
@@ -23,21 +34,32 @@ export default async function OrdersOverTimePage({ searchParams }: PageProps) {
   Object.entries(params).forEach(([key, value]) => {
     if (typeof value === "string") {
       urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
     }
   })
 
-  const dateRange = getDateRangeFromParams(urlSearchParams)
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(urlSearchParams)
 
   // Format dates for API (YYYY-MM-DD)
   const fromDate = format(dateRange.from, "yyyy-MM-dd")
   const toDate = format(dateRange.to, "yyyy-MM-dd")
+  const compareTo = getComparisonDates(dateRange)
+  const comparisonLabel = dateRange.comparison
+    ? formatComparisonMode(dateRange.comparison.mode)
+    : ""
 
   // Fetch orders data
   let orderData = null
   let error = null
 
   try {
-    orderData = await getOrdersOverTime(fromDate, toDate)
+    orderData = await getOrdersOverTime(fromDate, toDate, compareTo, filters)
   } catch (err) {
     error = err instanceof Error ? err.message : "Unknown error"
   }
@@ -59,6 +81,13 @@ export default async function OrdersOverTimePage({ searchParams }: PageProps) {
             Showing data for:
           </span>
           <DateRangePicker />
+          <ReportFilterBar />
+          <ComparisonSelect />
+          <ReportExportMenu
+            report="orders-over-time"
+            fromDate={fromDate}
+            toDate={toDate}
+          />
         </div>
       </div>
 
@@ -89,6 +118,20 @@ export default async function OrdersOverTimePage({ searchParams }: PageProps) {
                 <p className="text-2xl font-bold">
                   {orderData.totals.totalOrders.toLocaleString()}
                 </p>
+                {orderData.totals.cancelledOrders > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {orderData.totals.cancelledOrders.toLocaleString()}{" "}
+                    cancelled not included
+                  </p>
+                )}
+                {orderData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={orderData.comparison.deltas.totalOrders}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -102,6 +145,14 @@ export default async function OrdersOverTimePage({ searchParams }: PageProps) {
                     orderData.totals.currency
                   )}
                 </p>
+                {orderData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={orderData.comparison.deltas.totalValue}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -115,6 +166,14 @@ export default async function OrdersOverTimePage({ searchParams }: PageProps) {
                     orderData.totals.currency
                   )}
                 </p>
+                {orderData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={orderData.comparison.deltas.averageOrderValue}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
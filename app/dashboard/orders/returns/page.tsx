@@ -0,0 +1,368 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReturnsReasonChart } from "@/components/modules/returns-reason-chart"
+import {
+  getDateRangeFromParams,
+  formatCurrency,
+  formatChannelName,
+} from "@/lib/utils"
+import { getReturnsAnalysis } from "@/lib/services/get-returns-analysis"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+import { format } from "date-fns"
+
+interface PageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+// Products listed in the return rate table
+const PRODUCT_ROWS = 25
+
+export default async function ReturnsPage({ searchParams }: PageProps) {
+  const params = await searchParams
+  const urlSearchParams = new URLSearchParams()
+
+  // Convert searchParams to URLSearchParams
+  Object.entries(params).forEach(([key, value]) => {
+    if (typeof value === "string") {
+      urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
+    }
+  })
+
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(urlSearchParams)
+
+  // Format dates for API (YYYY-MM-DD)
+  const fromDate = format(dateRange.from, "yyyy-MM-dd")
+  const toDate = format(dateRange.to, "yyyy-MM-dd")
+
+  // Fetch returns data
+  let returnsData = null
+  let error = null
+
+  try {
+    returnsData = await getReturnsAnalysis(fromDate, toDate, filters)
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Unknown error"
+  }
+
+  const currency = returnsData?.totals.currency || "USD"
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Returns</h1>
+          <p className="text-muted-foreground">
+            Return rates by product and channel, and why customers return items
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            Showing data for:
+          </span>
+          <DateRangePicker />
+          <ReportFilterBar />
+        </div>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Error Loading Data</CardTitle>
+            <CardDescription>Unable to fetch returns data</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+              <p className="text-sm text-red-600">
+                <strong>Error:</strong> {error}
+              </p>
+              <p className="mt-2 text-xs text-red-500">
+                Please check your data connection and try again.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : returnsData ? (
+        <div className="space-y-6">
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Units Returned</p>
+                <p className="text-2xl font-bold">
+                  {returnsData.totals.unitsReturned.toLocaleString()}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Return Rate</p>
+                <p className="text-2xl font-bold">
+                  {returnsData.totals.returnRate.toFixed(1)}%
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  of {returnsData.totals.unitsSold.toLocaleString()} units sold
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Refunds Issued</p>
+                <p className="text-2xl font-bold">
+                  {returnsData.totals.refundCount.toLocaleString()}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Amount Refunded</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(returnsData.totals.refundedAmount, currency)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Returns by Reason Over Time */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Returns by Reason</CardTitle>
+              <CardDescription>
+                Units returned per day, by the return reason given
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <ReturnsReasonChart
+                data={returnsData.dailyData}
+                reasons={returnsData.reasons}
+              />
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-3">Reason</th>
+                      <th className="text-right p-3">Units</th>
+                      <th className="text-right p-3">Share</th>
+                      <th className="text-right p-3">Refunded</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {returnsData.byReason.map((reason) => (
+                      <tr
+                        key={reason.reason}
+                        className="border-b hover:bg-gray-50"
+                      >
+                        <td className="p-3 font-medium">{reason.reason}</td>
+                        <td className="text-right p-3">
+                          {reason.unitsReturned.toLocaleString()}
+                        </td>
+                        <td className="text-right p-3">
+                          {reason.percentage.toFixed(1)}%
+                        </td>
+                        <td className="text-right p-3">
+                          {formatCurrency(reason.refundedAmount, currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Return Rate by Channel */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Return Rate by Channel</CardTitle>
+              <CardDescription>
+                Units returned compared with units sold through each channel
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-3">Channel</th>
+                      <th className="text-right p-3">Units Sold</th>
+                      <th className="text-right p-3">Units Returned</th>
+                      <th className="text-right p-3">Return Rate</th>
+                      <th className="text-right p-3">Orders with Returns</th>
+                      <th className="text-right p-3">Refunded</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {returnsData.byChannel.map((channel) => (
+                      <tr
+                        key={channel.channel}
+                        className="border-b hover:bg-gray-50"
+                      >
+                        <td className="p-3 font-medium">
+                          {formatChannelName(channel.channel)}
+                        </td>
+                        <td className="text-right p-3">
+                          {channel.unitsSold.toLocaleString()}
+                        </td>
+                        <td className="text-right p-3">
+                          {channel.unitsReturned.toLocaleString()}
+                        </td>
+                        <td className="text-right p-3">
+                          {channel.returnRate.toFixed(1)}%
+                        </td>
+                        <td className="text-right p-3">
+                          {channel.ordersWithReturns.toLocaleString()}
+                        </td>
+                        <td className="text-right p-3">
+                          {formatCurrency(channel.refundedAmount, currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Return Rate by Product */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Most Returned Products</CardTitle>
+              <CardDescription>
+                Top {PRODUCT_ROWS} products by units returned
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-3">Product</th>
+                      <th className="text-right p-3">Units Sold</th>
+                      <th className="text-right p-3">Units Returned</th>
+                      <th className="text-right p-3">Return Rate</th>
+                      <th className="text-right p-3">Refunded</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {returnsData.byProduct
+                      .slice(0, PRODUCT_ROWS)
+                      .map((product) => (
+                        <tr
+                          key={product.key}
+                          className="border-b hover:bg-gray-50"
+                        >
+                          <td className="p-3 font-medium">{product.title}</td>
+                          <td className="text-right p-3">
+                            {product.unitsSold.toLocaleString()}
+                          </td>
+                          <td className="text-right p-3">
+                            {product.unitsReturned.toLocaleString()}
+                          </td>
+                          <td className="text-right p-3">
+                            {product.unitsSold > 0
+                              ? `${product.returnRate.toFixed(1)}%`
+                              : "—"}
+                          </td>
+                          <td className="text-right p-3">
+                            {formatCurrency(product.refundedAmount, currency)}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Reconciliation with Revenue Breakdown */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Refund Reconciliation</CardTitle>
+              <CardDescription>
+                How refunded line items add up to the refund total on the
+                Revenue Breakdown report
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full border-collapse">
+                <tbody>
+                  <tr className="border-b">
+                    <td className="p-3">Refunded line items (incl. tax)</td>
+                    <td className="text-right p-3">
+                      {formatCurrency(
+                        returnsData.reconciliation.itemizedRefunds,
+                        currency
+                      )}
+                    </td>
+                  </tr>
+                  <tr className="border-b">
+                    <td className="p-3">Shipping, duties and adjustments</td>
+                    <td className="text-right p-3">
+                      {formatCurrency(
+                        returnsData.reconciliation.otherRefunds,
+                        currency
+                      )}
+                    </td>
+                  </tr>
+                  <tr className="border-b font-medium">
+                    <td className="p-3">Refunds issued in period</td>
+                    <td className="text-right p-3">
+                      {formatCurrency(
+                        returnsData.reconciliation.recordedRefunds,
+                        currency
+                      )}
+                    </td>
+                  </tr>
+                  <tr className="border-b">
+                    <td className="p-3">Refunds of cancelled orders</td>
+                    <td className="text-right p-3">
+                      {formatCurrency(
+                        returnsData.reconciliation.cancelledRefunds,
+                        currency
+                      )}
+                    </td>
+                  </tr>
+                  <tr className="border-b">
+                    <td className="p-3">
+                      Refund timing differences and unsynced refunds
+                    </td>
+                    <td className="text-right p-3">
+                      {formatCurrency(
+                        returnsData.reconciliation.unmatchedRefunds,
+                        currency
+                      )}
+                    </td>
+                  </tr>
+                  <tr className="font-semibold">
+                    <td className="p-3">Refunds on Revenue Breakdown</td>
+                    <td className="text-right p-3">
+                      {formatCurrency(
+                        returnsData.reconciliation.transactionRefunds,
+                        currency
+                      )}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  )
+}
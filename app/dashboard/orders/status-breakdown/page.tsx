@@ -6,8 +6,19 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
-import { getDateRangeFromParams, formatCurrency } from "@/lib/utils"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
+import {
+  getDateRangeFromParams,
+  formatCurrency,
+  getComparisonDates,
+  formatComparisonMode,
+} from "@/lib/utils"
 import { getOrderStatusBreakdown } from "@/lib/services/get-order-status"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
 import { format } from "date-fns"
 
 interface PageProps {
@@ -24,21 +35,37 @@ export default async function OrderStatusBreakdownPage({
   Object.entries(params).forEach(([key, value]) => {
     if (typeof value === "string") {
       urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
     }
   })
 
-  const dateRange = getDateRangeFromParams(urlSearchParams)
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(urlSearchParams)
 
   // Format dates for API (YYYY-MM-DD)
   const fromDate = format(dateRange.from, "yyyy-MM-dd")
   const toDate = format(dateRange.to, "yyyy-MM-dd")
+  const compareTo = getComparisonDates(dateRange)
+  const comparisonLabel = dateRange.comparison
+    ? formatComparisonMode(dateRange.comparison.mode)
+    : ""
 
   // Fetch order status data
   let orderData = null
   let error = null
 
   try {
-    orderData = await getOrderStatusBreakdown(fromDate, toDate)
+    orderData = await getOrderStatusBreakdown(
+      fromDate,
+      toDate,
+      compareTo,
+      filters
+    )
   } catch (err) {
     error = err instanceof Error ? err.message : "Unknown error"
   }
@@ -60,6 +87,13 @@ export default async function OrderStatusBreakdownPage({
             Showing data for:
           </span>
           <DateRangePicker />
+          <ReportFilterBar />
+          <ComparisonSelect />
+          <ReportExportMenu
+            report="order-status"
+            fromDate={fromDate}
+            toDate={toDate}
+          />
         </div>
       </div>
 
@@ -90,6 +124,20 @@ export default async function OrderStatusBreakdownPage({
                 <p className="text-2xl font-bold">
                   {orderData.totals.totalOrders.toLocaleString()}
                 </p>
+                {orderData.totals.cancelledOrders > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {orderData.totals.cancelledOrders.toLocaleString()}{" "}
+                    cancelled not included
+                  </p>
+                )}
+                {orderData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={orderData.comparison.deltas.totalOrders}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -101,6 +149,14 @@ export default async function OrderStatusBreakdownPage({
                     orderData.totals.currency
                   )}
                 </p>
+                {orderData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={orderData.comparison.deltas.totalAmount}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -172,6 +228,12 @@ export default async function OrderStatusBreakdownPage({
                       <th className="text-right p-3">Percentage</th>
                       <th className="text-right p-3">Total Value</th>
                       <th className="text-right p-3">Avg Order Value</th>
+                      {orderData.comparison && (
+                        <>
+                          <th className="text-right p-3">Prev. Orders</th>
+                          <th className="text-right p-3">Change (%)</th>
+                        </>
+                      )}
                     </tr>
                   </thead>
                   <tbody>
@@ -196,6 +258,24 @@ export default async function OrderStatusBreakdownPage({
                             status.currency
                           )}
                         </td>
+                        {orderData.comparison && (
+                          <>
+                            <td className="text-right p-3 text-gray-600">
+                              {(
+                                orderData.comparison.byStatus[status.status]
+                                  ?.count.previous || 0
+                              ).toLocaleString()}
+                            </td>
+                            <td className="text-right p-3">
+                              <ChangeIndicator
+                                delta={
+                                  orderData.comparison.byStatus[status.status]
+                                    ?.count
+                                }
+                              />
+                            </td>
+                          </>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -7,7 +7,15 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
-import { getDateRangeFromParams } from "@/lib/utils"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { BoardPackButton } from "@/components/modules/board-pack-button"
+import {
+  formatComparisonMode,
+  getComparisonDates,
+  getDateRangeFromParams,
+  type DateRange,
+} from "@/lib/utils"
 import { getSalesOverTime } from "@/lib/services/get-sales-over-time"
 import {
   getSalesByChannel,
@@ -18,18 +26,27 @@ import {
   getOrderStatusBreakdown,
   type OrderStatusData,
 } from "@/lib/services/get-order-status"
+import { getCustomerSummary } from "@/lib/services/get-customer-summary"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import {
+  getReportFiltersFromParams,
+  type ReportFilters,
+} from "@/lib/report-filters"
 import { SalesTimeSeriesChart } from "@/components/modules/sales-time-series-chart"
 import { SalesChannelChart } from "@/components/modules/sales-channel-chart"
+import { formatPercentChange } from "@/components/modules/change-indicator"
 import { formatCurrency } from "@/lib/utils"
 import { Skeleton } from "@/components/ui/skeleton"
 import {
   TrendingUp,
+  TrendingDown,
   ShoppingBag,
   Users,
   DollarSign,
   Package,
 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
+import { format } from "date-fns"
 
 interface DashboardPageProps {
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>
@@ -37,19 +54,23 @@ interface DashboardPageProps {
 
 async function DashboardMetrics({
   dateRange,
+  filters,
 }: {
-  dateRange: { from: Date; to: Date }
+  dateRange: DateRange
+  filters: ReportFilters
 }) {
-  const fromDate = dateRange.from.toISOString().split("T")[0]
-  const toDate = dateRange.to.toISOString().split("T")[0]
+  const fromDate = format(dateRange.from, "yyyy-MM-dd")
+  const toDate = format(dateRange.to, "yyyy-MM-dd")
+  const compareTo = getComparisonDates(dateRange)
 
   // Fetch all the data we need
-  const [salesData, ordersData, salesByChannel, orderStatus] =
+  const [salesData, ordersData, salesByChannel, orderStatus, customers] =
     await Promise.all([
-      getSalesOverTime(fromDate, toDate),
-      getOrdersOverTime(fromDate, toDate),
-      getSalesByChannel(fromDate, toDate),
-      getOrderStatusBreakdown(fromDate, toDate),
+      getSalesOverTime(fromDate, toDate, compareTo, filters),
+      getOrdersOverTime(fromDate, toDate, compareTo, filters),
+      getSalesByChannel(fromDate, toDate, undefined, filters),
+      getOrderStatusBreakdown(fromDate, toDate, undefined, filters),
+      getCustomerSummary(fromDate, toDate, filters),
     ])
 
   // Calculate summary metrics
@@ -62,24 +83,14 @@ async function DashboardMetrics({
     0
   )
   const averageOrderValue = totalOrders > 0 ? totalSales / totalOrders : 0
-  const currency = salesData.dailyData[0]?.currency || "USD"
+  const currency = salesData.totals.currency
 
-  // Calculate trends (comparing first and last periods)
-  const salesTrend =
-    salesData.dailyData.length > 1
-      ? ((salesData.dailyData[salesData.dailyData.length - 1].netSales -
-          salesData.dailyData[0].netSales) /
-          salesData.dailyData[0].netSales) *
-        100
-      : 0
-
-  const ordersTrend =
-    ordersData.dailyData.length > 1
-      ? ((ordersData.dailyData[ordersData.dailyData.length - 1].totalOrders -
-          ordersData.dailyData[0].totalOrders) /
-          ordersData.dailyData[0].totalOrders) *
-        100
-      : 0
+  // Trends against the comparison period
+  const salesDelta = salesData.comparison?.deltas.netSales
+  const ordersDelta = ordersData.comparison?.deltas.totalOrders
+  const comparisonLabel = dateRange.comparison
+    ? `from ${formatComparisonMode(dateRange.comparison.mode)}`
+    : ""
 
   // Get top performing channel
   const topChannel = salesByChannel.channels.reduce(
@@ -93,13 +104,10 @@ async function DashboardMetrics({
       discounts: 0,
       taxes: 0,
       shippingCharges: 0,
-      currency: "USD",
+      currency,
     }
   )
 
-  // For now, we'll calculate a rough customer estimate based on orders and AOV
-  const totalCustomers = Math.round(totalOrders * 0.8) // Rough estimate
-
   return (
     <>
       {/* Key Metrics Cards */}
@@ -114,11 +122,12 @@ async function DashboardMetrics({
               {formatCurrency(totalSales, currency)}
             </div>
             <div className="flex items-center text-xs text-muted-foreground">
-              <TrendingUp
-                className={`mr-1 h-3 w-3 ${salesTrend >= 0 ? "text-green-500" : "text-red-500"}`}
-              />
-              {salesTrend >= 0 ? "+" : ""}
-              {salesTrend.toFixed(1)}% from period start
+              {salesDelta && salesDelta.change < 0 ? (
+                <TrendingDown className="mr-1 h-3 w-3 text-red-500" />
+              ) : (
+                <TrendingUp className="mr-1 h-3 w-3 text-green-500" />
+              )}
+              {formatPercentChange(salesDelta)} {comparisonLabel}
             </div>
           </CardContent>
         </Card>
@@ -133,11 +142,12 @@ async function DashboardMetrics({
               {totalOrders.toLocaleString()}
             </div>
             <div className="flex items-center text-xs text-muted-foreground">
-              <TrendingUp
-                className={`mr-1 h-3 w-3 ${ordersTrend >= 0 ? "text-green-500" : "text-red-500"}`}
-              />
-              {ordersTrend >= 0 ? "+" : ""}
-              {ordersTrend.toFixed(1)}% from period start
+              {ordersDelta && ordersDelta.change < 0 ? (
+                <TrendingDown className="mr-1 h-3 w-3 text-red-500" />
+              ) : (
+                <TrendingUp className="mr-1 h-3 w-3 text-green-500" />
+              )}
+              {formatPercentChange(ordersDelta)} {comparisonLabel}
             </div>
           </CardContent>
         </Card>
@@ -164,9 +174,13 @@ async function DashboardMetrics({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {totalCustomers.toLocaleString()}
+              {customers.uniqueCustomers.toLocaleString()}
             </div>
-            <p className="text-xs text-muted-foreground">Across all channels</p>
+            <p className="text-xs text-muted-foreground">
+              {customers.newCustomers.toLocaleString()} new,{" "}
+              {customers.returningCustomers.toLocaleString()} returning (
+              {customers.returningCustomerRate.toFixed(1)}% returning)
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -184,6 +198,7 @@ async function DashboardMetrics({
             <SalesTimeSeriesChart
               data={salesData.dailyData}
               currency={currency}
+              comparisonData={salesData.comparison?.dailyData}
             />
           </CardContent>
         </Card>
@@ -373,12 +388,24 @@ export default async function DashboardPage({
   const resolvedSearchParams = await searchParams
   const searchParamsObj = new URLSearchParams()
   Object.entries(resolvedSearchParams).forEach(([key, value]) => {
-    if (value) {
-      searchParamsObj.set(key, Array.isArray(value) ? value[0] : value)
+    if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => searchParamsObj.append(key, item))
+    } else if (value) {
+      searchParamsObj.set(key, value)
     }
   })
 
-  const dateRange = getDateRangeFromParams(searchParamsObj)
+  // The overview trends always compare against something, default to the previous period
+  if (!searchParamsObj.has("compare")) {
+    searchParamsObj.set("compare", "previous_period")
+  }
+
+  const dateRange = getDateRangeFromParams(
+    searchParamsObj,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(searchParamsObj)
 
   return (
     <div className="space-y-6">
@@ -390,12 +417,20 @@ export default async function DashboardPage({
             Overview of your store&apos;s performance and key metrics
           </p>
         </div>
-        <DateRangePicker className="w-full sm:w-auto" />
+        <div className="flex flex-col sm:flex-row gap-2">
+          <ComparisonSelect defaultMode="previous_period" />
+          <DateRangePicker className="w-full sm:w-auto" />
+          <ReportFilterBar />
+          <BoardPackButton
+            fromDate={format(dateRange.from, "yyyy-MM-dd")}
+            toDate={format(dateRange.to, "yyyy-MM-dd")}
+          />
+        </div>
       </div>
 
       {/* Dashboard Content */}
       <Suspense fallback={<DashboardSkeleton />}>
-        <DashboardMetrics dateRange={dateRange} />
+        <DashboardMetrics dateRange={dateRange} filters={filters} />
       </Suspense>
     </div>
   )
@@ -0,0 +1,190 @@
+import Link from "next/link"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ProductSalesTable } from "@/components/modules/product-sales-table"
+import { getDateRangeFromParams, formatCurrency } from "@/lib/utils"
+import {
+  getTopProducts,
+  type ProductGrouping,
+} from "@/lib/services/get-top-products"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
+import { format } from "date-fns"
+
+interface PageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+export default async function TopProductsPage({ searchParams }: PageProps) {
+  const params = await searchParams
+  const urlSearchParams = new URLSearchParams()
+
+  // Convert searchParams to URLSearchParams
+  Object.entries(params).forEach(([key, value]) => {
+    if (typeof value === "string") {
+      urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
+    }
+  })
+
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+
+  // Format dates for API (YYYY-MM-DD)
+  const fromDate = format(dateRange.from, "yyyy-MM-dd")
+  const toDate = format(dateRange.to, "yyyy-MM-dd")
+
+  const filters = getReportFiltersFromParams(urlSearchParams)
+  const groupBy: ProductGrouping =
+    urlSearchParams.get("groupBy") === "variant" ? "variant" : "product"
+
+  // Links that switch grouping while keeping the other filters
+  const groupingHref = (grouping: ProductGrouping) => {
+    const next = new URLSearchParams(urlSearchParams)
+    next.set("groupBy", grouping)
+    return `?${next.toString()}`
+  }
+
+  // Fetch product sales data
+  let productData = null
+  let error = null
+
+  try {
+    productData = await getTopProducts(fromDate, toDate, { groupBy, filters })
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Unknown error"
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Top Products</h1>
+          <p className="text-muted-foreground">
+            Units and sales per product or variant
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            Showing data for:
+          </span>
+          <DateRangePicker />
+          <ReportFilterBar />
+          <div className="flex items-center gap-1">
+            <Button
+              asChild
+              size="sm"
+              variant={groupBy === "product" ? "default" : "outline"}
+            >
+              <Link href={groupingHref("product")}>By product</Link>
+            </Button>
+            <Button
+              asChild
+              size="sm"
+              variant={groupBy === "variant" ? "default" : "outline"}
+            >
+              <Link href={groupingHref("variant")}>By variant</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Error Loading Data</CardTitle>
+            <CardDescription>
+              Unable to fetch product sales data
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+              <p className="text-sm text-red-600">
+                <strong>Error:</strong> {error}
+              </p>
+              <p className="mt-2 text-xs text-red-500">
+                Please check your data connection and try again.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : productData ? (
+        <div className="space-y-6">
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Units Sold</p>
+                <p className="text-2xl font-bold">
+                  {productData.totals.unitsSold.toLocaleString()}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Gross Sales</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(
+                    productData.totals.grossSales,
+                    productData.totals.currency
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Discounts</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(
+                    productData.totals.discounts,
+                    productData.totals.currency
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Net Sales</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(
+                    productData.totals.netSales,
+                    productData.totals.currency
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Top {groupBy === "variant" ? "Variants" : "Products"}
+              </CardTitle>
+              <CardDescription>Ranked by net sales</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProductSalesTable
+                data={productData.products}
+                groupBy={productData.groupBy}
+                currency={productData.totals.currency}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -6,10 +6,22 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
 import { SalesChannelChart } from "@/components/modules/sales-channel-chart"
 import { SalesChannelTable } from "@/components/modules/sales-channel-table"
-import { getDateRangeFromParams, formatCurrency } from "@/lib/utils"
+import { CurrencyBreakdownTable } from "@/components/modules/currency-breakdown-table"
+import {
+  getDateRangeFromParams,
+  formatCurrency,
+  getComparisonDates,
+  formatComparisonMode,
+} from "@/lib/utils"
 import { getSalesByChannel } from "@/lib/services/get-sales-by-channel"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
 import { format } from "date-fns"
 import { IndividualOrdersSection } from "@/components/modules/individual-orders-section"
 
@@ -27,21 +39,32 @@ export default async function NetSalesByChannelPage({
   Object.entries(params).forEach(([key, value]) => {
     if (typeof value === "string") {
       urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
     }
   })
 
-  const dateRange = getDateRangeFromParams(urlSearchParams)
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(urlSearchParams)
 
   // Format dates for Shopify API (YYYY-MM-DD)
   const fromDate = format(dateRange.from, "yyyy-MM-dd")
   const toDate = format(dateRange.to, "yyyy-MM-dd")
+  const compareTo = getComparisonDates(dateRange)
+  const comparisonLabel = dateRange.comparison
+    ? formatComparisonMode(dateRange.comparison.mode)
+    : ""
 
   // Fetch sales data
   let salesData = null
   let error = null
 
   try {
-    salesData = await getSalesByChannel(fromDate, toDate)
+    salesData = await getSalesByChannel(fromDate, toDate, compareTo, filters)
   } catch (err) {
     error = err instanceof Error ? err.message : "Unknown error"
   }
@@ -63,6 +86,13 @@ export default async function NetSalesByChannelPage({
             Showing data for:
           </span>
           <DateRangePicker />
+          <ReportFilterBar />
+          <ComparisonSelect />
+          <ReportExportMenu
+            report="sales-by-channel"
+            fromDate={fromDate}
+            toDate={toDate}
+          />
         </div>
       </div>
 
@@ -98,6 +128,14 @@ export default async function NetSalesByChannelPage({
                     salesData.totals.currency
                   )}
                 </p>
+                {salesData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={salesData.comparison.deltas.grossSales}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -109,6 +147,15 @@ export default async function NetSalesByChannelPage({
                     salesData.totals.currency
                   )}
                 </p>
+                {salesData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={salesData.comparison.deltas.refunds}
+                      invert
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -120,6 +167,14 @@ export default async function NetSalesByChannelPage({
                     salesData.totals.currency
                   )}
                 </p>
+                {salesData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={salesData.comparison.deltas.netSales}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -154,12 +209,32 @@ export default async function NetSalesByChannelPage({
               <SalesChannelTable
                 data={salesData.channels}
                 currency={salesData.totals.currency}
+                comparison={salesData.comparison}
               />
             </CardContent>
           </Card>
 
+          {/* Currency Breakdown, only when orders came in several currencies */}
+          {salesData.totals.byCurrency.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Net Sales by Currency</CardTitle>
+                <CardDescription>
+                  Net sales in the currency customers paid in, converted to{" "}
+                  {salesData.totals.currency} at each day&apos;s rate
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CurrencyBreakdownTable
+                  data={salesData.totals.byCurrency}
+                  currency={salesData.totals.currency}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Individual Orders Section */}
-          <IndividualOrdersSection dateRange={dateRange} />
+          <IndividualOrdersSection dateRange={dateRange} filters={filters} />
         </div>
       ) : (
         <Card>
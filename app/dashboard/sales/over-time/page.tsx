@@ -6,9 +6,20 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { DateRangePicker } from "@/components/modules/date-range-picker"
+import { ReportFilterBar } from "@/components/modules/report-filter-bar"
+import { ReportExportMenu } from "@/components/modules/report-export-menu"
+import { ComparisonSelect } from "@/components/modules/comparison-select"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
 import { SalesTimeSeriesChart } from "@/components/modules/sales-time-series-chart"
-import { getDateRangeFromParams, formatCurrency } from "@/lib/utils"
+import {
+  getDateRangeFromParams,
+  formatCurrency,
+  getComparisonDates,
+  formatComparisonMode,
+} from "@/lib/utils"
 import { getSalesOverTime } from "@/lib/services/get-sales-over-time"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getReportFiltersFromParams } from "@/lib/report-filters"
 import { format, parseISO } from "date-fns"
 
 interface PageProps {
@@ -23,21 +34,32 @@ export default async function SalesOverTimePage({ searchParams }: PageProps) {
   Object.entries(params).forEach(([key, value]) => {
     if (typeof value === "string") {
       urlSearchParams.set(key, value)
+    } else if (Array.isArray(value)) {
+      // Repeated params, e.g. one per report filter value
+      value.forEach((item) => urlSearchParams.append(key, item))
     }
   })
 
-  const dateRange = getDateRangeFromParams(urlSearchParams)
+  const dateRange = getDateRangeFromParams(
+    urlSearchParams,
+    await getStoreTimezone()
+  )
+  const filters = getReportFiltersFromParams(urlSearchParams)
 
   // Format dates for API (YYYY-MM-DD)
   const fromDate = format(dateRange.from, "yyyy-MM-dd")
   const toDate = format(dateRange.to, "yyyy-MM-dd")
+  const compareTo = getComparisonDates(dateRange)
+  const comparisonLabel = dateRange.comparison
+    ? formatComparisonMode(dateRange.comparison.mode)
+    : ""
 
   // Fetch sales data
   let salesData = null
   let error = null
 
   try {
-    salesData = await getSalesOverTime(fromDate, toDate)
+    salesData = await getSalesOverTime(fromDate, toDate, compareTo, filters)
   } catch (err) {
     error = err instanceof Error ? err.message : "Unknown error"
   }
@@ -57,12 +79,19 @@ export default async function SalesOverTimePage({ searchParams }: PageProps) {
             Showing data for:
           </span>
           <DateRangePicker />
+          <ReportFilterBar />
+          <ComparisonSelect />
           {salesData && (
             <span className="text-sm text-muted-foreground">
               ({format(parseISO(salesData.dateRange.from), "MMM dd")} -{" "}
               {format(parseISO(salesData.dateRange.to), "MMM dd, yyyy")})
             </span>
           )}
+          <ReportExportMenu
+            report="sales-over-time"
+            fromDate={fromDate}
+            toDate={toDate}
+          />
         </div>
       </div>
 
@@ -96,6 +125,14 @@ export default async function SalesOverTimePage({ searchParams }: PageProps) {
                     salesData.totals.currency
                   )}
                 </p>
+                {salesData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={salesData.comparison.deltas.grossSales}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -107,6 +144,15 @@ export default async function SalesOverTimePage({ searchParams }: PageProps) {
                     salesData.totals.currency
                   )}
                 </p>
+                {salesData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={salesData.comparison.deltas.refunds}
+                      invert
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -118,6 +164,14 @@ export default async function SalesOverTimePage({ searchParams }: PageProps) {
                     salesData.totals.currency
                   )}
                 </p>
+                {salesData.comparison && (
+                  <p className="text-xs text-muted-foreground">
+                    <ChangeIndicator
+                      delta={salesData.comparison.deltas.netSales}
+                    />{" "}
+                    from {comparisonLabel}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -135,6 +189,7 @@ export default async function SalesOverTimePage({ searchParams }: PageProps) {
               <SalesTimeSeriesChart
                 data={salesData.dailyData}
                 currency={salesData.totals.currency}
+                comparisonData={salesData.comparison?.dailyData}
               />
             </CardContent>
           </Card>
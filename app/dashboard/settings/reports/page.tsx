@@ -0,0 +1,60 @@
+import { ReportSubscriptionForm } from "@/components/modules/report-subscription-form"
+import { ReportSubscriptionsTable } from "@/components/modules/report-subscriptions-table"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { getStoreTimezone } from "@/lib/services/get-store-timezone"
+import { getNextScheduledSend } from "@/lib/services/report-subscriptions"
+import { getReportSubscriptions } from "@/lib/supabase/operations"
+
+export default async function EmailReportsPage() {
+  const [subscriptions, timeZone] = await Promise.all([
+    getReportSubscriptions(),
+    getStoreTimezone(),
+  ])
+
+  const now = new Date()
+  const rows = subscriptions.map((subscription) => ({
+    ...subscription,
+    nextSendAt: getNextScheduledSend(subscription, now).toISOString(),
+  }))
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Email Reports</h2>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Reports</CardTitle>
+          <CardDescription>
+            Reports emailed with a CSV or Excel attachment. Send hours are in
+            each report&apos;s timezone and the date range covers complete days
+            before the send date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReportSubscriptionsTable data={rows} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a Report</CardTitle>
+          <CardDescription>
+            Weekly reports with the &quot;Last week&quot; range arrive on the
+            chosen day with Monday to Sunday figures
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReportSubscriptionForm timeZone={timeZone} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+import { SyncControls } from "@/components/modules/sync-controls"
+import { SyncRunsTable } from "@/components/modules/sync-runs-table"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { getRecentSyncRuns, getSyncState } from "@/lib/supabase/operations"
+
+// Runs shown on the page, newest first
+const RECENT_RUNS_LIMIT = 50
+
+export default async function SyncStatusPage() {
+  const [syncState, runs] = await Promise.all([
+    getSyncState("orders"),
+    getRecentSyncRuns(RECENT_RUNS_LIMIT),
+  ])
+
+  // A lease past its expiry belongs to a sync that stopped without releasing it
+  const leaseExpiresAt = syncState?.lease_expires_at
+    ? new Date(syncState.lease_expires_at)
+    : null
+  const leaseHeld = leaseExpiresAt !== null && leaseExpiresAt > new Date()
+
+  const lastCompleted = runs.find((run) => run.status === "completed")
+  const lastFailed = runs.find((run) => run.status === "failed")
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Sync Status</h2>
+        <SyncControls />
+      </div>
+
+      {/* Current Sync State */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Sync State</CardTitle>
+            <Badge
+              variant={
+                syncState?.sync_status === "failed"
+                  ? "destructive"
+                  : syncState?.sync_status === "running"
+                    ? "secondary"
+                    : "default"
+              }
+              className="text-xs capitalize"
+            >
+              {syncState?.sync_status || "Unknown"}
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {syncState?.last_sync_at
+                ? new Date(syncState.last_sync_at).toLocaleString()
+                : "Never"}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {leaseHeld
+                ? `Locked by a running sync until ${leaseExpiresAt.toLocaleTimeString()}`
+                : "Last sync state update"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Saved Cursor</CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Resume
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {syncState?.last_cursor
+                ? syncState.last_cursor.slice(-8)
+                : "None"}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              An interrupted sync resumes from here
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Last Successful Run
+            </CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Completed
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {lastCompleted
+                ? new Date(lastCompleted.started_at).toLocaleString()
+                : "None"}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {lastCompleted
+                ? `${lastCompleted.orders_processed.toLocaleString()} orders processed`
+                : `No completed run in the last ${RECENT_RUNS_LIMIT}`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last Failure</CardTitle>
+            <Badge
+              variant={lastFailed ? "destructive" : "outline"}
+              className="text-xs"
+            >
+              Failed
+            </Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {lastFailed
+                ? new Date(lastFailed.started_at).toLocaleString()
+                : "None"}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {lastFailed?.error_message ||
+                syncState?.error_message ||
+                "No recent errors"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Run History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Sync Runs</CardTitle>
+          <CardDescription>
+            The last {RECENT_RUNS_LIMIT} sync, re-sync and backfill runs with
+            their outcome, counts and Shopify API retries
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SyncRunsTable data={runs} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
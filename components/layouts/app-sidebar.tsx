@@ -11,6 +11,13 @@ import {
   TrendingUp,
   CreditCard,
   Package,
+  Shirt,
+  Undo2,
+  LayoutGrid,
+  UserCheck,
+  Scale,
+  RefreshCw,
+  Mail,
 } from "lucide-react"
 
 import {
@@ -49,6 +56,16 @@ const menuGroups = [
       },
     ],
   },
+  {
+    title: "Products",
+    items: [
+      {
+        title: "Top Products",
+        url: "/dashboard/products/top-products",
+        icon: Shirt,
+      },
+    ],
+  },
   {
     title: "Orders",
     items: [
@@ -62,6 +79,11 @@ const menuGroups = [
         url: "/dashboard/orders/status-breakdown",
         icon: ShoppingCart,
       },
+      {
+        title: "Returns",
+        url: "/dashboard/orders/returns",
+        icon: Undo2,
+      },
     ],
   },
   {
@@ -77,6 +99,11 @@ const menuGroups = [
         url: "/dashboard/finances/transactions",
         icon: CreditCard,
       },
+      {
+        title: "Reconciliation",
+        url: "/dashboard/finances/reconciliation",
+        icon: Scale,
+      },
     ],
   },
   {
@@ -87,6 +114,31 @@ const menuGroups = [
         url: "/dashboard/insights/channel-performance",
         icon: Users,
       },
+      {
+        title: "Cohort Retention",
+        url: "/dashboard/insights/cohort-retention",
+        icon: LayoutGrid,
+      },
+      {
+        title: "Customer Segments",
+        url: "/dashboard/insights/customer-segments",
+        icon: UserCheck,
+      },
+    ],
+  },
+  {
+    title: "Admin",
+    items: [
+      {
+        title: "Sync Status",
+        url: "/dashboard/sync-status",
+        icon: RefreshCw,
+      },
+      {
+        title: "Email Reports",
+        url: "/dashboard/settings/reports",
+        icon: Mail,
+      },
     ],
   },
 ]
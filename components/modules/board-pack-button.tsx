@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { FileText } from "lucide-react"
+import { useSearchParams } from "next/navigation"
+
+import { BOARD_PACK_SECTIONS, type BoardPackSection } from "@/lib/export"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+
+interface BoardPackButtonProps {
+  // The date range the page shows, YYYY-MM-DD
+  fromDate: string
+  toDate: string
+}
+
+const ALL_SECTIONS = Object.keys(BOARD_PACK_SECTIONS) as BoardPackSection[]
+
+export function BoardPackButton({ fromDate, toDate }: BoardPackButtonProps) {
+  const searchParams = useSearchParams()
+  const [sections, setSections] = useState<BoardPackSection[]>(ALL_SECTIONS)
+
+  const toggleSection = (section: BoardPackSection, checked: boolean) => {
+    // Keep the print order whatever order sections are ticked in
+    setSections(
+      ALL_SECTIONS.filter((key) =>
+        key === section ? checked : sections.includes(key)
+      )
+    )
+  }
+
+  // Keep the page's comparison params, pin the dates to what is shown
+  const params = new URLSearchParams(searchParams)
+  params.set("from", fromDate)
+  params.set("to", toDate)
+  params.set("sections", sections.join(","))
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          Board Pack
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60" align="end">
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Sections</p>
+          {ALL_SECTIONS.map((section) => (
+            <label
+              key={section}
+              className="flex items-center gap-2 text-sm cursor-pointer"
+            >
+              <Checkbox
+                checked={sections.includes(section)}
+                onCheckedChange={(checked) =>
+                  toggleSection(section, checked === true)
+                }
+              />
+              {BOARD_PACK_SECTIONS[section]}
+            </label>
+          ))}
+          <Button
+            className="w-full"
+            disabled={sections.length === 0}
+            asChild={sections.length > 0}
+          >
+            {sections.length > 0 ? (
+              <a href={`/api/reports/board-pack?${params.toString()}`} download>
+                Download PDF
+              </a>
+            ) : (
+              "Download PDF"
+            )}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
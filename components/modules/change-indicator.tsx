@@ -0,0 +1,53 @@
+import { TrendingDown, TrendingUp } from "lucide-react"
+import type { MetricDelta } from "@/lib/services/comparison"
+import { cn } from "@/lib/utils"
+
+interface ChangeIndicatorProps {
+  delta: MetricDelta | undefined
+  // Show the absolute change with this formatter instead of the percentage
+  formatValue?: (value: number) => string
+  // For metrics where a decrease is good, e.g. refunds
+  invert?: boolean
+  className?: string
+}
+
+export function formatPercentChange(delta: MetricDelta | undefined): string {
+  if (!delta || delta.changePercent === null) {
+    return "–"
+  }
+  return `${delta.changePercent >= 0 ? "+" : ""}${delta.changePercent.toFixed(1)}%`
+}
+
+export function ChangeIndicator({
+  delta,
+  formatValue,
+  invert = false,
+  className,
+}: ChangeIndicatorProps) {
+  if (!delta) {
+    return <span className={cn("text-muted-foreground", className)}>–</span>
+  }
+
+  const isUp = delta.change >= 0
+  const isGood = invert ? !isUp : isUp
+  const Icon = isUp ? TrendingUp : TrendingDown
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 tabular-nums",
+        delta.change === 0
+          ? "text-muted-foreground"
+          : isGood
+            ? "text-green-600"
+            : "text-red-600",
+        className
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {formatValue
+        ? `${isUp ? "+" : ""}${formatValue(delta.change)}`
+        : formatPercentChange(delta)}
+    </span>
+  )
+}
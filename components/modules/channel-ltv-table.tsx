@@ -0,0 +1,87 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { ChannelLifetimeValue } from "@/lib/services/get-customer-segments"
+import { formatChannelName, formatCurrency } from "@/lib/utils"
+
+interface ChannelLtvTableProps {
+  data: ChannelLifetimeValue[]
+  currency: string
+  projectionMonths: number
+}
+
+export function ChannelLtvTable({
+  data,
+  currency,
+  projectionMonths,
+}: ChannelLtvTableProps) {
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border">
+        <p className="text-muted-foreground">
+          No customer orders in the selected date range
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="font-bold text-gray-700">
+              Acquisition Channel
+            </TableHead>
+            <TableHead className="text-right text-gray-700">
+              Customers
+            </TableHead>
+            <TableHead className="text-right text-gray-700">Orders</TableHead>
+            <TableHead className="text-right text-gray-700">AOV</TableHead>
+            <TableHead className="text-right text-gray-700">
+              Net Revenue
+            </TableHead>
+            <TableHead className="text-right font-bold text-blue-600">
+              Historical LTV
+            </TableHead>
+            <TableHead className="text-right font-bold text-green-600">
+              Projected LTV (+{projectionMonths}m)
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((channel) => (
+            <TableRow key={channel.channel}>
+              <TableCell className="font-medium">
+                {formatChannelName(channel.channel)}
+              </TableCell>
+              <TableCell className="text-right">
+                {channel.customers.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">
+                {channel.orders.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(channel.averageOrderValue, currency)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(channel.revenue, currency)}
+              </TableCell>
+              <TableCell className="text-right font-medium text-blue-600">
+                {formatCurrency(channel.historicalLtv, currency)}
+              </TableCell>
+              <TableCell className="text-right font-medium text-green-600">
+                {formatCurrency(channel.projectedLtv, currency)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
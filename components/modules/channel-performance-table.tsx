@@ -9,15 +9,22 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
 import { formatCurrency } from "@/lib/utils"
-import type { ChannelPerformance } from "@/lib/services/get-channel-performance"
+import type {
+  ChannelPerformance,
+  CustomerAcquisition,
+} from "@/lib/services/get-channel-performance"
 
 interface ChannelPerformanceTableProps {
   data: ChannelPerformance[]
+  // Adds revenue change columns against the previous period
+  comparison?: CustomerAcquisition["comparison"]
 }
 
 export function ChannelPerformanceTable({
   data,
+  comparison,
 }: ChannelPerformanceTableProps) {
   if (!data || data.length === 0) {
     return (
@@ -38,6 +45,13 @@ export function ChannelPerformanceTable({
             <TableHead className="text-right">AOV</TableHead>
             <TableHead className="text-right">Order Share</TableHead>
             <TableHead className="text-right">Revenue Share</TableHead>
+            {comparison && (
+              <>
+                <TableHead className="text-right">Prev. Revenue</TableHead>
+                <TableHead className="text-right">Revenue Change</TableHead>
+                <TableHead className="text-right">Change (%)</TableHead>
+              </>
+            )}
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -84,6 +98,29 @@ export function ChannelPerformanceTable({
                   </div>
                 </div>
               </TableCell>
+              {comparison && (
+                <>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatCurrency(
+                      comparison.byChannel[row.channel]?.revenue.previous || 0,
+                      row.currency
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeIndicator
+                      delta={comparison.byChannel[row.channel]?.revenue}
+                      formatValue={(value) =>
+                        formatCurrency(value, row.currency)
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeIndicator
+                      delta={comparison.byChannel[row.channel]?.revenue}
+                    />
+                  </TableCell>
+                </>
+              )}
             </TableRow>
           ))}
         </TableBody>
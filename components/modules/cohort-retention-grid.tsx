@@ -0,0 +1,93 @@
+import type { CohortRow } from "@/lib/services/get-cohort-retention"
+import { formatChannelName, formatCurrency } from "@/lib/utils"
+import { format, parseISO } from "date-fns"
+
+export type CohortMetric = "repeatRate" | "revenuePerCustomer"
+
+interface CohortRetentionGridProps {
+  cohorts: CohortRow[]
+  months: number
+  metric: CohortMetric
+  currency: string
+}
+
+export function CohortRetentionGrid({
+  cohorts,
+  months,
+  metric,
+  currency,
+}: CohortRetentionGridProps) {
+  if (cohorts.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border">
+        <p className="text-muted-foreground">
+          No customers acquired in the selected date range
+        </p>
+      </div>
+    )
+  }
+
+  // Shade cells relative to the highest value in the grid
+  const maxValue = Math.max(
+    ...cohorts.flatMap((cohort) =>
+      cohort.cells.map((cell) => (cell ? cell[metric] : 0))
+    ),
+    1
+  )
+
+  const formatValue = (value: number) =>
+    metric === "repeatRate"
+      ? `${value.toFixed(1)}%`
+      : formatCurrency(value, currency)
+
+  return (
+    <div className="w-full overflow-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-2 whitespace-nowrap">Cohort</th>
+            <th className="text-right p-2">Customers</th>
+            {Array.from({ length: months + 1 }).map((_, offset) => (
+              <th key={offset} className="text-center p-2 whitespace-nowrap">
+                M{offset}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {cohorts.map((cohort) => (
+            <tr key={`${cohort.cohort}-${cohort.channel}`} className="border-b">
+              <td className="p-2 font-medium whitespace-nowrap">
+                {format(parseISO(`${cohort.cohort}-01`), "MMM yyyy")}
+                {cohort.channel && (
+                  <div className="text-xs text-muted-foreground">
+                    {formatChannelName(cohort.channel)}
+                  </div>
+                )}
+              </td>
+              <td className="text-right p-2">
+                {cohort.customers.toLocaleString()}
+              </td>
+              {cohort.cells.map((cell, offset) =>
+                cell ? (
+                  <td
+                    key={offset}
+                    className="text-center p-2 whitespace-nowrap"
+                    style={{
+                      backgroundColor: `color-mix(in oklch, var(--chart-2) ${Math.round((cell[metric] / maxValue) * 100)}%, transparent)`,
+                    }}
+                    title={`${cell.repeatCustomers} repeat customers, ${formatCurrency(cell.cumulativeRevenue, currency)} revenue`}
+                  >
+                    {formatValue(cell[metric])}
+                  </td>
+                ) : (
+                  <td key={offset} className="p-2" />
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useRouter, useSearchParams } from "next/navigation"
+
+import {
+  cn,
+  COMPARISON_MODES,
+  formatComparisonMode,
+  type ComparisonMode,
+} from "@/lib/utils"
+
+interface ComparisonSelectProps {
+  // Mode the page uses when no `compare` param is set
+  defaultMode?: ComparisonMode
+  className?: string
+}
+
+const selectClassName =
+  "h-9 rounded-md border bg-background px-3 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+export function ComparisonSelect({
+  defaultMode,
+  className,
+}: ComparisonSelectProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const selected = (searchParams.get("compare") || defaultMode || "") as
+    | ComparisonMode
+    | ""
+
+  const updateParams = (updates: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams)
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value)
+      } else {
+        params.delete(key)
+      }
+    })
+    router.push(`?${params.toString()}`)
+  }
+
+  const handleModeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = event.target.value
+    updateParams(
+      mode === "custom"
+        ? { compare: mode }
+        : { compare: mode, compareFrom: "", compareTo: "" }
+    )
+  }
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <select
+        value={selected}
+        onChange={handleModeChange}
+        aria-label="Compare to"
+        className={selectClassName}
+      >
+        {!defaultMode && <option value="">No comparison</option>}
+        {COMPARISON_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            Compare to {formatComparisonMode(mode)}
+          </option>
+        ))}
+      </select>
+      {selected === "custom" && (
+        <>
+          <input
+            type="date"
+            aria-label="Comparison start date"
+            value={searchParams.get("compareFrom") || ""}
+            onChange={(event) =>
+              updateParams({ compareFrom: event.target.value })
+            }
+            className={selectClassName}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <input
+            type="date"
+            aria-label="Comparison end date"
+            value={searchParams.get("compareTo") || ""}
+            onChange={(event) =>
+              updateParams({ compareTo: event.target.value })
+            }
+            className={selectClassName}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatCurrency } from "@/lib/utils"
+import type { CurrencyTotal } from "@/lib/currency"
+
+interface CurrencyBreakdownTableProps {
+  data: CurrencyTotal[]
+  // Reporting currency the converted amounts are in
+  currency: string
+}
+
+export function CurrencyBreakdownTable({
+  data,
+  currency,
+}: CurrencyBreakdownTableProps) {
+  const total = data.reduce((sum, row) => sum + row.convertedAmount, 0)
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[140px]">Currency</TableHead>
+            <TableHead className="text-right">Original Amount</TableHead>
+            <TableHead className="text-right">Converted ({currency})</TableHead>
+            <TableHead className="text-right">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((row) => (
+            <TableRow key={row.currency}>
+              <TableCell className="font-medium">{row.currency}</TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(row.amount, row.currency)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(row.convertedAmount, currency)}
+              </TableCell>
+              <TableCell className="text-right">
+                {total !== 0
+                  ? `${((row.convertedAmount / total) * 100).toFixed(1)}%`
+                  : "-"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+
+import { REPORTING_CURRENCY_COOKIE } from "@/lib/currency"
+import { cn } from "@/lib/utils"
+
+interface CurrencySelectProps {
+  currency: string
+  currencies: string[]
+  className?: string
+}
+
+const selectClassName =
+  "h-9 rounded-md border bg-background px-3 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+export function CurrencySelect({
+  currency,
+  currencies,
+  className,
+}: CurrencySelectProps) {
+  const router = useRouter()
+
+  const handleCurrencyChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    // Reports read the cookie on the server, refresh to re-render them
+    document.cookie = `${REPORTING_CURRENCY_COOKIE}=${event.target.value}; path=/; max-age=31536000; samesite=lax`
+    router.refresh()
+  }
+
+  return (
+    <select
+      value={currency}
+      onChange={handleCurrencyChange}
+      aria-label="Reporting currency"
+      className={cn(selectClassName, className)}
+    >
+      {currencies.map((code) => (
+        <option key={code} value={code}>
+          {code}
+        </option>
+      ))}
+    </select>
+  )
+}
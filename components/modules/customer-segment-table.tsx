@@ -0,0 +1,109 @@
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { RfmSegmentSummary } from "@/lib/services/get-customer-segments"
+import { formatCurrency } from "@/lib/utils"
+
+interface CustomerSegmentTableProps {
+  data: RfmSegmentSummary[]
+  currency: string
+  // Builds the CSV export URL for a segment
+  exportHref: (segment: string) => string
+}
+
+export function CustomerSegmentTable({
+  data,
+  currency,
+  exportHref,
+}: CustomerSegmentTableProps) {
+  if (data.every((segment) => segment.customers === 0)) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border">
+        <p className="text-muted-foreground">
+          No customer orders in the selected date range
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="font-bold text-gray-700">Segment</TableHead>
+            <TableHead className="text-right text-gray-700">
+              Customers
+            </TableHead>
+            <TableHead className="text-right text-gray-700">
+              % of Customers
+            </TableHead>
+            <TableHead className="text-right font-bold text-blue-600">
+              Net Revenue
+            </TableHead>
+            <TableHead className="text-right text-gray-700">
+              % of Revenue
+            </TableHead>
+            <TableHead className="text-right text-gray-700">
+              Avg. Orders
+            </TableHead>
+            <TableHead className="text-right text-gray-700">
+              Avg. Days Since Order
+            </TableHead>
+            <TableHead className="text-right text-gray-700">Export</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((segment) => (
+            <TableRow key={segment.segment}>
+              <TableCell>
+                <div className="font-medium">{segment.label}</div>
+                <div className="text-xs text-muted-foreground">
+                  {segment.description}
+                </div>
+              </TableCell>
+              <TableCell className="text-right">
+                {segment.customers.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">
+                {segment.customerShare.toFixed(1)}%
+              </TableCell>
+              <TableCell className="text-right font-medium text-blue-600">
+                {formatCurrency(segment.revenue, currency)}
+              </TableCell>
+              <TableCell className="text-right">
+                {segment.revenueShare.toFixed(1)}%
+              </TableCell>
+              <TableCell className="text-right">
+                {segment.averageOrders.toFixed(1)}
+              </TableCell>
+              <TableCell className="text-right">
+                {Math.round(segment.averageRecencyDays)}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  asChild
+                  size="sm"
+                  variant="outline"
+                  disabled={segment.customers === 0}
+                >
+                  <a href={exportHref(segment.segment)} download>
+                    <Download className="h-4 w-4" />
+                    CSV
+                  </a>
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
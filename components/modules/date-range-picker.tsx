@@ -2,22 +2,13 @@
 
 import * as React from "react"
 import { CalendarIcon } from "lucide-react"
-import {
-  format,
-  startOfDay,
-  endOfDay,
-  subDays,
-  startOfWeek,
-  endOfWeek,
-  startOfMonth,
-  endOfMonth,
-  subWeeks,
-  subMonths,
-} from "date-fns"
+import { format, parseISO } from "date-fns"
 import { DateRange } from "react-day-picker"
 import { useRouter, useSearchParams } from "next/navigation"
 
 import { cn } from "@/lib/utils"
+import { getDateRangePresets, getStoreLastDays } from "@/lib/date-range"
+import { useStoreTimezone } from "@/hooks/use-store-timezone"
 import { Button } from "@/components/ui/button"
 import { Calendar } from "@/components/ui/calendar"
 import {
@@ -33,19 +24,17 @@ interface DateRangePickerProps {
 export function DateRangePicker({ className }: DateRangePickerProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
+  const timeZone = useStoreTimezone()
 
   const fromParam = searchParams.get("from")
   const toParam = searchParams.get("to")
 
-  const defaultFrom = new Date()
-  defaultFrom.setDate(defaultFrom.getDate() - 6)
-  defaultFrom.setHours(0, 0, 0, 0)
-
-  const defaultTo = new Date()
-  defaultTo.setHours(23, 59, 59, 999)
+  // Default to the last 7 store days, matching getDateRangeFromParams
+  const lastWeek = getStoreLastDays(7, timeZone)
 
-  const initialFrom = fromParam ? new Date(fromParam) : defaultFrom
-  const initialTo = toParam ? new Date(toParam) : defaultTo
+  // Parse as local calendar days so the picker shows the store dates as-is
+  const initialFrom = parseISO(fromParam || lastWeek.from)
+  const initialTo = parseISO(toParam || lastWeek.to)
 
   const [date, setDate] = React.useState<DateRange | undefined>({
     from: initialFrom,
@@ -54,59 +43,14 @@ export function DateRangePicker({ className }: DateRangePickerProps) {
 
   const [isOpen, setIsOpen] = React.useState(false)
 
-  // Date range presets
-  const presets = [
-    {
-      label: "Today",
-      dateRange: { from: startOfDay(new Date()), to: endOfDay(new Date()) },
-    },
-    {
-      label: "Yesterday",
-      dateRange: {
-        from: startOfDay(subDays(new Date(), 1)),
-        to: endOfDay(subDays(new Date(), 1)),
-      },
-    },
-    {
-      label: "Last 7 days",
-      dateRange: {
-        from: startOfDay(subDays(new Date(), 6)),
-        to: endOfDay(new Date()),
-      },
-    },
-    {
-      label: "Last 30 days",
-      dateRange: {
-        from: startOfDay(subDays(new Date(), 29)),
-        to: endOfDay(new Date()),
-      },
-    },
-    {
-      label: "This week",
-      dateRange: {
-        from: startOfWeek(new Date(), { weekStartsOn: 1 }),
-        to: endOfWeek(new Date(), { weekStartsOn: 1 }),
-      },
-    },
-    {
-      label: "Last week",
-      dateRange: {
-        from: startOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 }),
-        to: endOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 }),
-      },
-    },
-    {
-      label: "This month",
-      dateRange: { from: startOfMonth(new Date()), to: endOfMonth(new Date()) },
-    },
-    {
-      label: "Last month",
-      dateRange: {
-        from: startOfMonth(subMonths(new Date(), 1)),
-        to: endOfMonth(subMonths(new Date(), 1)),
-      },
+  // Date range presets, relative to the store's today
+  const presets = getDateRangePresets(timeZone).map((preset) => ({
+    label: preset.label,
+    dateRange: {
+      from: parseISO(preset.range.from),
+      to: parseISO(preset.range.to),
     },
-  ]
+  }))
 
   const handlePresetSelect = (preset: { from: Date; to: Date }) => {
     setDate(preset)
@@ -3,28 +3,33 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { FileSpreadsheet } from "lucide-react"
+import { format } from "date-fns"
+import { setReportFilterParams, type ReportFilters } from "@/lib/report-filters"
 
 interface ExcelExportButtonProps {
   dateRange: { from: Date; to: Date }
+  filters?: ReportFilters
 }
 
-export function ExcelExportButton({ dateRange }: ExcelExportButtonProps) {
+export function ExcelExportButton({
+  dateRange,
+  filters = {},
+}: ExcelExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false)
 
   const handleExport = async () => {
     try {
       setIsExporting(true)
 
-      const fromDate = dateRange.from.toISOString().split("T")[0]
-      const toDate = dateRange.to.toISOString().split("T")[0]
+      const fromDate = format(dateRange.from, "yyyy-MM-dd")
+      const toDate = format(dateRange.to, "yyyy-MM-dd")
+      const params = new URLSearchParams({ fromDate, toDate })
+      setReportFilterParams(params, filters)
 
       // Call the export API
-      const response = await fetch(
-        `/api/orders/export?fromDate=${fromDate}&toDate=${toDate}`,
-        {
-          method: "GET",
-        }
-      )
+      const response = await fetch(`/api/orders/export?${params.toString()}`, {
+        method: "GET",
+      })
 
       if (!response.ok) {
         throw new Error(`Export failed: ${response.statusText}`)
@@ -19,29 +19,44 @@ import {
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { formatCurrency } from "@/lib/utils"
-import { Package, Download, ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  Package,
+  Download,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+} from "lucide-react"
 import { type IndividualOrdersResponse } from "@/lib/services/get-individual-orders"
 import {
   fetchIndividualOrdersAction,
   exportOrdersAction,
+  resyncOrderAction,
 } from "@/lib/actions/individual-orders-actions"
+import type { ReportFilters } from "@/lib/report-filters"
 import { format } from "date-fns"
 
 interface IndividualOrdersSectionProps {
   dateRange: { from: Date; to: Date }
+  filters?: ReportFilters
 }
 
 export function IndividualOrdersSection({
   dateRange,
+  filters = {},
 }: IndividualOrdersSectionProps) {
   const [data, setData] = useState<IndividualOrdersResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [isExporting, setIsExporting] = useState(false)
+  // Order being re-synced, and a counter that reloads the page after it
+  const [resyncingOrderId, setResyncingOrderId] = useState<string | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
 
   const fromDate = format(dateRange.from, "yyyy-MM-dd")
   const toDate = format(dateRange.to, "yyyy-MM-dd")
+  // A new filters object arrives on every render, compare by value
+  const filtersKey = JSON.stringify(filters)
 
   // Fetch data using server action
   useEffect(() => {
@@ -54,7 +69,8 @@ export function IndividualOrdersSection({
           fromDate,
           toDate,
           currentPage,
-          50
+          50,
+          JSON.parse(filtersKey)
         )
 
         if (result.success && result.data) {
@@ -70,14 +86,34 @@ export function IndividualOrdersSection({
     }
 
     fetchData()
-  }, [fromDate, toDate, currentPage])
+  }, [fromDate, toDate, filtersKey, currentPage, reloadCount])
+
+  // Fetch one order from Shopify again, then reload the table
+  const handleResync = async (shopifyOrderId: string) => {
+    try {
+      setResyncingOrderId(shopifyOrderId)
+
+      const result = await resyncOrderAction(shopifyOrderId)
+
+      if (result.success) {
+        setReloadCount((count) => count + 1)
+      } else {
+        alert(`Re-sync failed: ${result.error}`)
+      }
+    } catch (error) {
+      console.error("Re-sync failed:", error)
+      alert("Failed to re-sync order. Please try again.")
+    } finally {
+      setResyncingOrderId(null)
+    }
+  }
 
   // Export functionality using server action
   const handleExport = async () => {
     try {
       setIsExporting(true)
 
-      const result = await exportOrdersAction(fromDate, toDate)
+      const result = await exportOrdersAction(fromDate, toDate, filters)
 
       if (result.success && result.csvContent && result.filename) {
         // Create download
@@ -238,6 +274,7 @@ export function IndividualOrdersSection({
                 <TableHead className="text-right">Total Sales</TableHead>
                 <TableHead className="text-right">Net Amount</TableHead>
                 <TableHead className="text-center">Transactions</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -281,6 +318,15 @@ export function IndividualOrdersSection({
                   </TableCell>
                   <TableCell>
                     {getStatusBadge(order.financial_status)}
+                    {order.cancelled_at && (
+                      <Badge
+                        variant="secondary"
+                        className="ml-1 bg-red-100 text-red-800"
+                        title={order.cancel_reason || undefined}
+                      >
+                        Cancelled
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell className="text-right">
                     <div>
@@ -301,6 +347,24 @@ export function IndividualOrdersSection({
                   <TableCell className="text-center">
                     <Badge variant="outline">{order.transaction_count}</Badge>
                   </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleResync(order.shopify_order_id)}
+                      disabled={resyncingOrderId !== null}
+                      title="Re-sync this order"
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 ${
+                          resyncingOrderId === order.shopify_order_id
+                            ? "animate-spin"
+                            : ""
+                        }`}
+                      />
+                      <span className="sr-only">Re-sync this order</span>
+                    </Button>
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
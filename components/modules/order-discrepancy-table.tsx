@@ -0,0 +1,154 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { RefreshCw } from "lucide-react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatCurrency } from "@/lib/utils"
+import type {
+  OrderDiscrepancy,
+  ReconciliationIssue,
+} from "@/lib/services/get-reconciliation"
+
+interface OrderDiscrepancyTableProps {
+  data: OrderDiscrepancy[]
+}
+
+const ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+  missing: "Missing",
+  not_in_shopify: "Not in Shopify",
+  stale: "Stale",
+  amount_mismatch: "Amount differs",
+}
+
+export function OrderDiscrepancyTable({ data }: OrderDiscrepancyTableProps) {
+  const router = useRouter()
+  const [isResyncing, setIsResyncing] = useState(false)
+
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-muted-foreground">
+        Every order matches Shopify
+      </div>
+    )
+  }
+
+  const handleResync = async () => {
+    try {
+      setIsResyncing(true)
+
+      const response = await fetch("/api/reconciliation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderIds: data.map((order) => order.shopifyOrderId),
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Re-sync failed: ${response.statusText}`)
+      }
+
+      // Reconcile again with the refreshed orders
+      router.refresh()
+    } catch (error) {
+      console.error("Re-sync failed:", error)
+      alert("Failed to re-sync orders. Please try again.")
+    } finally {
+      setIsResyncing(false)
+    }
+  }
+
+  const amount = (value: number | null, currency: string) =>
+    value === null ? "-" : formatCurrency(value, currency)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button
+          onClick={handleResync}
+          disabled={isResyncing}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${isResyncing ? "animate-spin" : ""}`}
+          />
+          {isResyncing
+            ? "Re-syncing..."
+            : `Re-sync ${data.length.toLocaleString()} orders`}
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>Issues</TableHead>
+              <TableHead>Updated (Dashboard)</TableHead>
+              <TableHead>Updated (Shopify)</TableHead>
+              <TableHead className="text-right">Total (Dashboard)</TableHead>
+              <TableHead className="text-right">Total (Shopify)</TableHead>
+              <TableHead className="text-right">Net (Dashboard)</TableHead>
+              <TableHead className="text-right">Net (Shopify)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.map((row) => (
+              <TableRow key={row.shopifyOrderId}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell>{row.channel}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {row.issues.map((issue) => (
+                      <Badge
+                        key={issue}
+                        variant={
+                          issue === "stale" ? "secondary" : "destructive"
+                        }
+                      >
+                        {ISSUE_LABELS[issue]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {row.localUpdatedAt
+                    ? new Date(row.localUpdatedAt).toLocaleString()
+                    : "-"}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {row.shopifyUpdatedAt
+                    ? new Date(row.shopifyUpdatedAt).toLocaleString()
+                    : "-"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {amount(row.localTotal, row.currency)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {amount(row.shopifyTotal, row.currency)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {amount(row.localNet, row.currency)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {amount(row.shopifyNet, row.currency)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type {
+  ProductGrouping,
+  ProductSalesData,
+} from "@/lib/services/get-top-products"
+import { getCurrencySymbol } from "@/lib/utils"
+
+interface ProductSalesTableProps {
+  data: ProductSalesData[]
+  groupBy: ProductGrouping
+  currency: string
+}
+
+export function ProductSalesTable({
+  data,
+  groupBy,
+  currency,
+}: ProductSalesTableProps) {
+  const currencySymbol = getCurrencySymbol(currency)
+
+  const formatCurrency = (value: number) => {
+    return value.toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border">
+        <p className="text-muted-foreground">
+          No product sales available for the selected filters
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12 text-gray-700">#</TableHead>
+            <TableHead className="font-bold text-gray-700">Product</TableHead>
+            {groupBy === "variant" && (
+              <TableHead className="text-gray-700">SKU</TableHead>
+            )}
+            <TableHead className="text-gray-700">Vendor</TableHead>
+            <TableHead className="text-right text-gray-700">Orders</TableHead>
+            <TableHead className="text-right font-bold text-gray-700">
+              Units
+            </TableHead>
+            <TableHead className="text-right font-bold text-blue-600">
+              Gross Sales ({currencySymbol})
+            </TableHead>
+            <TableHead className="text-right text-orange-600">
+              Discounts ({currencySymbol})
+            </TableHead>
+            <TableHead className="text-right font-bold text-green-600">
+              Net Sales ({currencySymbol})
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((product, index) => (
+            <TableRow key={product.key} className="hover:bg-gray-50">
+              <TableCell className="text-muted-foreground">
+                {index + 1}
+              </TableCell>
+              <TableCell className="font-medium text-gray-700">
+                <div>{product.title}</div>
+                {product.variantTitle && (
+                  <div className="text-xs text-muted-foreground">
+                    {product.variantTitle}
+                  </div>
+                )}
+              </TableCell>
+              {groupBy === "variant" && (
+                <TableCell className="text-gray-600">
+                  {product.sku || "—"}
+                </TableCell>
+              )}
+              <TableCell className="text-gray-600">
+                {product.vendor || "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                {product.orderCount.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right font-semibold">
+                {product.unitsSold.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right font-semibold text-blue-600">
+                {formatCurrency(product.grossSales)}
+              </TableCell>
+              <TableCell className="text-right text-orange-600">
+                {formatCurrency(product.discounts)}
+              </TableCell>
+              <TableCell className="text-right font-semibold text-green-600">
+                {formatCurrency(product.netSales)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatCurrency } from "@/lib/utils"
+import type { ChannelReconciliation } from "@/lib/services/get-reconciliation"
+
+interface ReconciliationChannelTableProps {
+  data: ChannelReconciliation[]
+  currency: string
+}
+
+export function ReconciliationChannelTable({
+  data,
+  currency,
+}: ReconciliationChannelTableProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-muted-foreground">
+        No orders in this date range
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[140px]">Channel</TableHead>
+            <TableHead className="text-right">Orders (Dashboard)</TableHead>
+            <TableHead className="text-right">Orders (Shopify)</TableHead>
+            <TableHead className="text-right">Net (Dashboard)</TableHead>
+            <TableHead className="text-right">Net (Shopify)</TableHead>
+            <TableHead className="text-right">Difference</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((row) => (
+            <TableRow key={row.channel}>
+              <TableCell className="font-medium">{row.channel}</TableCell>
+              <TableCell className="text-right">
+                {row.localOrders.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">
+                {row.shopifyOrders.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(row.localNet, currency)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(row.shopifyNet, currency)}
+              </TableCell>
+              <TableCell
+                className={`text-right font-medium ${
+                  Math.abs(row.difference) >= 0.01 ? "text-red-600" : ""
+                }`}
+              >
+                {formatCurrency(row.difference, currency)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { Download } from "lucide-react"
+import { useSearchParams } from "next/navigation"
+
+import { EXPORT_FORMATS, type ReportKey } from "@/lib/export"
+import { Button } from "@/components/ui/button"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+
+interface ReportExportMenuProps {
+  report: ReportKey
+  // The date range the page shows, YYYY-MM-DD
+  fromDate: string
+  toDate: string
+}
+
+const FORMAT_LABELS = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+}
+
+export function ReportExportMenu({
+  report,
+  fromDate,
+  toDate,
+}: ReportExportMenuProps) {
+  const searchParams = useSearchParams()
+
+  // Keep the page's comparison params, pin the dates to what is shown
+  const getHref = (format: string) => {
+    const params = new URLSearchParams(searchParams)
+    params.set("from", fromDate)
+    params.set("to", toDate)
+    params.set("format", format)
+    return `/api/reports/${report}/export?${params.toString()}`
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-44 p-1" align="end">
+        <div className="flex flex-col">
+          {EXPORT_FORMATS.map((format) => (
+            <Button
+              key={format}
+              variant="ghost"
+              className="justify-start"
+              asChild
+            >
+              <a href={getHref(format)} download>
+                {FORMAT_LABELS[format]}
+              </a>
+            </Button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
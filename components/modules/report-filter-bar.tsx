@@ -0,0 +1,178 @@
+"use client"
+
+import * as React from "react"
+import { Filter } from "lucide-react"
+import { useRouter, useSearchParams } from "next/navigation"
+
+import { cn, formatChannelName } from "@/lib/utils"
+import {
+  REPORT_FILTER_LISTS,
+  countReportFilters,
+  formatReportFilterValue,
+  getReportFiltersFromParams,
+  setReportFilterParams,
+  type ReportFilterList,
+  type ReportFilters,
+} from "@/lib/report-filters"
+import { useReportFilterOptions } from "@/hooks/use-report-filter-options"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+
+interface ReportFilterBarProps {
+  className?: string
+}
+
+const FILTER_LISTS = Object.keys(REPORT_FILTER_LISTS) as ReportFilterList[]
+
+export function ReportFilterBar({ className }: ReportFilterBarProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const options = useReportFilterOptions()
+
+  const applied = getReportFiltersFromParams(searchParams)
+  const appliedCount = countReportFilters(applied)
+
+  const [filters, setFilters] = React.useState<ReportFilters>(applied)
+  const [isOpen, setIsOpen] = React.useState(false)
+
+  // Start from the applied filters each time the bar opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setFilters(getReportFiltersFromParams(searchParams))
+    }
+    setIsOpen(open)
+  }
+
+  const toggleValue = (key: ReportFilterList, value: string) => {
+    setFilters((current) => {
+      const values = current[key] || []
+      return {
+        ...current,
+        [key]: values.includes(value)
+          ? values.filter((v) => v !== value)
+          : [...values, value],
+      }
+    })
+  }
+
+  const setOrderValue = (
+    key: "minOrderValue" | "maxOrderValue",
+    value: string
+  ) => {
+    const amount = Number(value)
+    setFilters((current) => ({
+      ...current,
+      [key]: value !== "" && Number.isFinite(amount) ? amount : undefined,
+    }))
+  }
+
+  const updateUrlParams = (next: ReportFilters) => {
+    const params = new URLSearchParams(searchParams)
+    setReportFilterParams(params, next)
+    router.push(`?${params.toString()}`)
+    setIsOpen(false)
+  }
+
+  const formatValue = (key: ReportFilterList, value: string) =>
+    key === "channels"
+      ? formatChannelName(value)
+      : formatReportFilterValue(key, value)
+
+  return (
+    <div className={cn("grid gap-2", className)}>
+      <Popover open={isOpen} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="justify-start font-normal">
+            <Filter className="mr-2 h-4 w-4" />
+            {appliedCount > 0 ? `Filters (${appliedCount})` : "Filters"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[360px] p-0" align="end">
+          <div className="max-h-[420px] space-y-4 overflow-y-auto p-3">
+            {FILTER_LISTS.map((key) => {
+              // Keep selected values visible even when no synced order has them
+              const values = [
+                ...new Set([...options[key], ...(filters[key] || [])]),
+              ]
+
+              return (
+                <div key={key} className="space-y-2">
+                  <div className="text-sm font-medium">
+                    {REPORT_FILTER_LISTS[key].label}
+                  </div>
+                  {values.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">
+                      No values in synced orders
+                    </div>
+                  ) : (
+                    <div className="max-h-[140px] space-y-1 overflow-y-auto">
+                      {values.map((value) => (
+                        <label
+                          key={value}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={filters[key]?.includes(value) ?? false}
+                            onCheckedChange={() => toggleValue(key, value)}
+                          />
+                          {formatValue(key, value)}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">
+                Order value (shop currency)
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Min"
+                  value={filters.minOrderValue ?? ""}
+                  onChange={(event) =>
+                    setOrderValue("minOrderValue", event.target.value)
+                  }
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Max"
+                  value={filters.maxOrderValue ?? ""}
+                  onChange={(event) =>
+                    setOrderValue("maxOrderValue", event.target.value)
+                  }
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => updateUrlParams({})}
+              disabled={appliedCount === 0}
+            >
+              Clear
+            </Button>
+            <Button size="sm" onClick={() => updateUrlParams(filters)}>
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
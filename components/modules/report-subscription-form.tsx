@@ -0,0 +1,234 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Plus } from "lucide-react"
+
+import { REPORT_DATE_RANGES } from "@/lib/date-range"
+import { EXPORT_REPORTS } from "@/lib/export"
+import {
+  createReportSubscriptionAction,
+  type ReportSubscriptionInput,
+} from "@/lib/actions/report-subscription-actions"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface ReportSubscriptionFormProps {
+  // The store timezone, used as the default schedule timezone
+  timeZone: string
+}
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+]
+
+const selectClassName =
+  "h-9 w-full rounded-md border bg-background px-3 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+const labelClassName = "text-sm font-medium"
+
+// Monday-morning weekly summary of last week
+const getDefaultInput = (timeZone: string): ReportSubscriptionInput => ({
+  name: "",
+  report: "sales-by-channel",
+  recipients: "",
+  cadence: "weekly",
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  sendHour: 7,
+  dateRange: "previous_week",
+  timeZone,
+  attachmentFormat: "xlsx",
+})
+
+export function ReportSubscriptionForm({
+  timeZone,
+}: ReportSubscriptionFormProps) {
+  const router = useRouter()
+  const [input, setInput] = useState(() => getDefaultInput(timeZone))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const update = <Key extends keyof ReportSubscriptionInput>(
+    key: Key,
+    value: ReportSubscriptionInput[Key]
+  ) => setInput((current) => ({ ...current, [key]: value }))
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    try {
+      setIsSaving(true)
+
+      const result = await createReportSubscriptionAction(input)
+
+      if (!result.success) {
+        alert(`Could not save the report: ${result.error}`)
+        return
+      }
+
+      setInput(getDefaultInput(timeZone))
+      router.refresh()
+    } catch (error) {
+      console.error("Saving report subscription failed:", error)
+      alert("Failed to save the report. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <label className="space-y-1">
+          <span className={labelClassName}>Name</span>
+          <Input
+            value={input.name}
+            onChange={(event) => update("name", event.target.value)}
+            placeholder="Monday sales summary"
+            required
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className={labelClassName}>Report</span>
+          <select
+            value={input.report}
+            onChange={(event) => update("report", event.target.value)}
+            className={selectClassName}
+          >
+            {Object.entries(EXPORT_REPORTS).map(([key, title]) => (
+              <option key={key} value={key}>
+                {title}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <span className={labelClassName}>Date range</span>
+          <select
+            value={input.dateRange}
+            onChange={(event) => update("dateRange", event.target.value)}
+            className={selectClassName}
+          >
+            {Object.entries(REPORT_DATE_RANGES).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1 md:col-span-2 lg:col-span-3">
+          <span className={labelClassName}>Recipients</span>
+          <Input
+            value={input.recipients}
+            onChange={(event) => update("recipients", event.target.value)}
+            placeholder="finance@example.com, merchandising@example.com"
+            required
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className={labelClassName}>Cadence</span>
+          <select
+            value={input.cadence}
+            onChange={(event) => update("cadence", event.target.value)}
+            className={selectClassName}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </label>
+
+        {input.cadence === "weekly" && (
+          <label className="space-y-1">
+            <span className={labelClassName}>Day</span>
+            <select
+              value={input.dayOfWeek}
+              onChange={(event) =>
+                update("dayOfWeek", Number(event.target.value))
+              }
+              className={selectClassName}
+            >
+              {WEEKDAYS.map((weekday, index) => (
+                <option key={weekday} value={index}>
+                  {weekday}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {input.cadence === "monthly" && (
+          <label className="space-y-1">
+            <span className={labelClassName}>Day of month</span>
+            <Input
+              type="number"
+              min={1}
+              max={28}
+              value={input.dayOfMonth}
+              onChange={(event) =>
+                update("dayOfMonth", Number(event.target.value))
+              }
+            />
+          </label>
+        )}
+
+        <label className="space-y-1">
+          <span className={labelClassName}>Send at</span>
+          <select
+            value={input.sendHour}
+            onChange={(event) => update("sendHour", Number(event.target.value))}
+            className={selectClassName}
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>
+                {`${String(hour).padStart(2, "0")}:00`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <span className={labelClassName}>Timezone</span>
+          <Input
+            value={input.timeZone}
+            onChange={(event) => update("timeZone", event.target.value)}
+            placeholder="Australia/Melbourne"
+            required
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className={labelClassName}>Attachment</span>
+          <select
+            value={input.attachmentFormat}
+            onChange={(event) => update("attachmentFormat", event.target.value)}
+            className={selectClassName}
+          >
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="csv">CSV</option>
+            <option value="pdf">PDF board pack</option>
+          </select>
+        </label>
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSaving}
+        className="flex items-center gap-2"
+      >
+        <Plus className="h-4 w-4" />
+        {isSaving ? "Saving..." : "Add Report"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,217 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Pause, Play, Send, Trash2 } from "lucide-react"
+
+import { REPORT_DATE_RANGES } from "@/lib/date-range"
+import { EXPORT_REPORTS, isReportKey } from "@/lib/export"
+import {
+  deleteReportSubscriptionAction,
+  sendReportNowAction,
+  setReportSubscriptionEnabledAction,
+} from "@/lib/actions/report-subscription-actions"
+import type { ReportSubscription } from "@/lib/supabase/types"
+import { WEEKDAYS } from "@/components/modules/report-subscription-form"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+
+interface ReportSubscriptionsTableProps {
+  // Subscriptions with their next scheduled send as an ISO timestamp
+  data: (ReportSubscription & { nextSendAt: string })[]
+}
+
+function formatSchedule(subscription: ReportSubscription): string {
+  const time = `${String(subscription.send_hour).padStart(2, "0")}:00`
+
+  switch (subscription.cadence) {
+    case "daily":
+      return `Daily at ${time}`
+    case "weekly":
+      return `${WEEKDAYS[subscription.day_of_week ?? 1]}s at ${time}`
+    case "monthly":
+      return `Monthly on day ${subscription.day_of_month} at ${time}`
+  }
+}
+
+export function ReportSubscriptionsTable({
+  data,
+}: ReportSubscriptionsTableProps) {
+  const router = useRouter()
+  const [pendingId, setPendingId] = useState<number | null>(null)
+
+  const runAction = async (
+    id: number,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    failureMessage: string
+  ) => {
+    try {
+      setPendingId(id)
+
+      const result = await action()
+
+      if (!result.success) {
+        alert(`${failureMessage}: ${result.error}`)
+      }
+    } catch (error) {
+      console.error(`${failureMessage}:`, error)
+      alert(`${failureMessage}. Please try again.`)
+    } finally {
+      setPendingId(null)
+      router.refresh()
+    }
+  }
+
+  const handleDelete = (subscription: ReportSubscription) => {
+    if (!confirm(`Delete the "${subscription.name}" email report?`)) {
+      return
+    }
+
+    runAction(
+      subscription.id,
+      () => deleteReportSubscriptionAction(subscription.id),
+      "Failed to delete the report"
+    )
+  }
+
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-muted-foreground">
+        No email reports scheduled yet
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Recipients</TableHead>
+            <TableHead>Schedule</TableHead>
+            <TableHead>Next Send</TableHead>
+            <TableHead>Last Sent</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((subscription) => (
+            <TableRow key={subscription.id}>
+              <TableCell>
+                <div className="font-medium">{subscription.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {isReportKey(subscription.report)
+                    ? EXPORT_REPORTS[subscription.report]
+                    : subscription.report}
+                  {" · "}
+                  {REPORT_DATE_RANGES[subscription.date_range]}
+                  {" · "}
+                  {subscription.attachment_format.toUpperCase()}
+                </div>
+              </TableCell>
+              <TableCell className="max-w-[220px] whitespace-normal text-sm">
+                {subscription.recipients.join(", ")}
+              </TableCell>
+              <TableCell>
+                <div>{formatSchedule(subscription)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {subscription.time_zone}
+                </div>
+              </TableCell>
+              <TableCell>
+                {subscription.enabled
+                  ? new Date(subscription.nextSendAt).toLocaleString()
+                  : "-"}
+              </TableCell>
+              <TableCell>
+                {subscription.last_sent_at
+                  ? new Date(subscription.last_sent_at).toLocaleString()
+                  : "Never"}
+              </TableCell>
+              <TableCell className="max-w-[240px] whitespace-normal">
+                {subscription.last_error ? (
+                  <div className="space-y-1">
+                    <Badge variant="destructive" className="text-xs">
+                      Failed
+                    </Badge>
+                    <div className="text-xs text-destructive">
+                      {subscription.last_error}
+                    </div>
+                  </div>
+                ) : (
+                  <Badge
+                    variant={subscription.enabled ? "default" : "secondary"}
+                    className="text-xs"
+                  >
+                    {subscription.enabled ? "Active" : "Paused"}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Send now"
+                    disabled={pendingId !== null}
+                    onClick={() =>
+                      runAction(
+                        subscription.id,
+                        () => sendReportNowAction(subscription.id),
+                        "Failed to send the report"
+                      )
+                    }
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={subscription.enabled ? "Pause" : "Resume"}
+                    disabled={pendingId !== null}
+                    onClick={() =>
+                      runAction(
+                        subscription.id,
+                        () =>
+                          setReportSubscriptionEnabledAction(
+                            subscription.id,
+                            !subscription.enabled
+                          ),
+                        "Failed to update the report"
+                      )
+                    }
+                  >
+                    {subscription.enabled ? (
+                      <Pause className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    disabled={pendingId !== null}
+                    onClick={() => handleDelete(subscription)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts"
+import type { DailyReturnsData } from "@/lib/services/get-returns-analysis"
+import { format, parseISO } from "date-fns"
+
+interface ReturnsReasonChartProps {
+  data: DailyReturnsData[]
+  reasons: string[]
+}
+
+export function ReturnsReasonChart({ data, reasons }: ReturnsReasonChartProps) {
+  if (reasons.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+        No returns for the selected date range
+      </div>
+    )
+  }
+
+  // Reason labels contain spaces, so chart series use positional keys
+  const chartConfig = Object.fromEntries(
+    reasons.map((reason, index) => [
+      `reason${index}`,
+      { label: reason, color: `var(--chart-${(index % 5) + 1})` },
+    ])
+  ) satisfies ChartConfig
+
+  const chartData = data.map((day) => ({
+    date: format(parseISO(day.date), "MMM dd"),
+    fullDate: day.date,
+    ...Object.fromEntries(
+      reasons.map((reason, index) => [
+        `reason${index}`,
+        day.reasons[reason] || 0,
+      ])
+    ),
+  }))
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[300px] w-full">
+      <BarChart
+        data={chartData}
+        margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+      >
+        <CartesianGrid vertical={false} className="stroke-muted" />
+        <XAxis
+          dataKey="date"
+          className="text-muted-foreground"
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis
+          allowDecimals={false}
+          className="text-muted-foreground"
+          tick={{ fontSize: 12 }}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => [
+                `${value} units `,
+                chartConfig[name as keyof typeof chartConfig]?.label || name,
+              ]}
+              labelFormatter={(_, payload) => {
+                if (payload?.[0]) {
+                  return format(parseISO(payload[0].payload.fullDate), "PPP")
+                }
+                return ""
+              }}
+            />
+          }
+        />
+        {reasons.map((reason, index) => (
+          <Bar
+            key={reason}
+            dataKey={`reason${index}`}
+            stackId="returns"
+            fill={`var(--chart-${(index % 5) + 1})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  )
+}
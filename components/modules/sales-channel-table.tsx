@@ -6,15 +6,25 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import type { SalesChannelData } from "@/lib/services/get-sales-by-channel"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
+import type {
+  SalesChannelAnalytics,
+  SalesChannelData,
+} from "@/lib/services/get-sales-by-channel"
 import { formatChannelName, getCurrencySymbol } from "@/lib/utils"
 
 interface SalesChannelTableProps {
   data: SalesChannelData[]
   currency: string
+  // Adds previous-period net sales and change columns
+  comparison?: SalesChannelAnalytics["comparison"]
 }
 
-export function SalesChannelTable({ data, currency }: SalesChannelTableProps) {
+export function SalesChannelTable({
+  data,
+  currency,
+  comparison,
+}: SalesChannelTableProps) {
   const currencySymbol = getCurrencySymbol(currency)
 
   const formatCurrency = (value: number) => {
@@ -63,6 +73,19 @@ export function SalesChannelTable({ data, currency }: SalesChannelTableProps) {
             <TableHead className="text-right text-cyan-600">
               Shipping ({currencySymbol})
             </TableHead>
+            {comparison && (
+              <>
+                <TableHead className="text-right text-gray-700">
+                  Prev. Net Sales ({currencySymbol})
+                </TableHead>
+                <TableHead className="text-right text-gray-700">
+                  Change ({currencySymbol})
+                </TableHead>
+                <TableHead className="text-right text-gray-700">
+                  Change (%)
+                </TableHead>
+              </>
+            )}
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -89,6 +112,27 @@ export function SalesChannelTable({ data, currency }: SalesChannelTableProps) {
               <TableCell className="text-right text-cyan-600">
                 {formatCurrency(channel.shippingCharges)}
               </TableCell>
+              {comparison && (
+                <>
+                  <TableCell className="text-right text-gray-600">
+                    {formatCurrency(
+                      comparison.byChannel[channel.channel]?.netSales
+                        .previous || 0
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeIndicator
+                      delta={comparison.byChannel[channel.channel]?.netSales}
+                      formatValue={formatCurrency}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeIndicator
+                      delta={comparison.byChannel[channel.channel]?.netSales}
+                    />
+                  </TableCell>
+                </>
+              )}
             </TableRow>
           ))}
         </TableBody>
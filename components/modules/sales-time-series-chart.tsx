@@ -21,6 +21,8 @@ import { formatCurrency } from "@/lib/utils"
 interface SalesTimeSeriesChartProps {
   data: DailySalesData[]
   currency: string
+  // Previous period, plotted day-by-day against the current period
+  comparisonData?: DailySalesData[]
 }
 
 const chartConfig = {
@@ -36,11 +38,16 @@ const chartConfig = {
     label: "Refunds",
     color: "var(--chart-3)",
   },
+  previousNetSales: {
+    label: "Net Sales (previous)",
+    color: "var(--chart-4)",
+  },
 } satisfies ChartConfig
 
 export function SalesTimeSeriesChart({
   data,
   currency,
+  comparisonData,
 }: SalesTimeSeriesChartProps) {
   if (data.length === 0) {
     return (
@@ -50,12 +57,13 @@ export function SalesTimeSeriesChart({
     )
   }
 
-  const chartData = data.map((day) => ({
+  const chartData = data.map((day, index) => ({
     date: format(parseISO(day.date), "MMM dd"),
     fullDate: day.date,
     netSales: day.netSales,
     grossSales: day.grossSales,
     refunds: day.refunds,
+    previousNetSales: comparisonData?.[index]?.netSales,
   }))
 
   return (
@@ -116,6 +124,16 @@ export function SalesTimeSeriesChart({
             strokeDasharray="3 3"
             dot={false}
           />
+          {comparisonData && (
+            <Line
+              type="monotone"
+              dataKey="previousNetSales"
+              stroke="var(--chart-4)"
+              strokeWidth={2}
+              strokeOpacity={0.6}
+              dot={false}
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
     </ChartContainer>
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Play, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  resetSyncCursorAction,
+  triggerSyncAction,
+} from "@/lib/actions/sync-actions"
+
+export function SyncControls() {
+  const router = useRouter()
+  const [pendingAction, setPendingAction] = useState<"sync" | "reset" | null>(
+    null
+  )
+
+  const handleSync = async () => {
+    try {
+      setPendingAction("sync")
+
+      const result = await triggerSyncAction()
+
+      if (!result.success) {
+        alert(`Sync failed: ${result.error}`)
+      }
+    } catch (error) {
+      console.error("Sync failed:", error)
+      alert("Failed to run sync. Please try again.")
+    } finally {
+      setPendingAction(null)
+      // Show the new run either way
+      router.refresh()
+    }
+  }
+
+  const handleReset = async () => {
+    if (
+      !confirm(
+        "Reset the sync cursor? The next sync starts from the last completed sync time instead of resuming."
+      )
+    ) {
+      return
+    }
+
+    try {
+      setPendingAction("reset")
+
+      const result = await resetSyncCursorAction()
+
+      if (!result.success) {
+        alert(`Reset failed: ${result.error}`)
+      }
+    } catch (error) {
+      console.error("Reset failed:", error)
+      alert("Failed to reset the sync cursor. Please try again.")
+    } finally {
+      setPendingAction(null)
+      router.refresh()
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        onClick={handleReset}
+        disabled={pendingAction !== null}
+        className="flex items-center gap-2"
+      >
+        <RotateCcw className="h-4 w-4" />
+        {pendingAction === "reset" ? "Resetting..." : "Reset Cursor"}
+      </Button>
+      <Button
+        onClick={handleSync}
+        disabled={pendingAction !== null}
+        className="flex items-center gap-2"
+      >
+        {pendingAction === "sync" ? (
+          <>
+            <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-300 border-t-white" />
+            Syncing...
+          </>
+        ) : (
+          <>
+            <Play className="h-4 w-4" />
+            Run Sync
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
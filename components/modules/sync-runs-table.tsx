@@ -0,0 +1,135 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import type { SyncRun } from "@/lib/supabase/types"
+
+interface SyncRunsTableProps {
+  data: SyncRun[]
+}
+
+const STATUS_VARIANTS: Record<
+  SyncRun["status"],
+  "default" | "secondary" | "destructive"
+> = {
+  completed: "default",
+  running: "secondary",
+  pending: "secondary",
+  failed: "destructive",
+}
+
+function formatDuration(run: SyncRun): string {
+  if (!run.finished_at) return "-"
+
+  const seconds = Math.round(
+    (new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) /
+      1000
+  )
+  if (seconds < 60) return `${seconds}s`
+
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}m ${seconds % 60}s`
+}
+
+export function SyncRunsTable({ data }: SyncRunsTableProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-muted-foreground">
+        No sync runs recorded yet
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Started</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Mode</TableHead>
+            <TableHead>Trigger</TableHead>
+            <TableHead className="text-right">Duration</TableHead>
+            <TableHead className="text-right">Orders</TableHead>
+            <TableHead className="text-right">Transactions</TableHead>
+            <TableHead className="text-right">Batches</TableHead>
+            <TableHead className="text-right">Retries</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((run) => (
+            <TableRow key={run.id}>
+              <TableCell className="whitespace-nowrap">
+                {new Date(run.started_at).toLocaleString()}
+              </TableCell>
+              <TableCell>
+                <Badge
+                  variant={STATUS_VARIANTS[run.status]}
+                  className="capitalize"
+                >
+                  {run.status}
+                </Badge>
+              </TableCell>
+              <TableCell className="capitalize">{run.mode}</TableCell>
+              <TableCell className="capitalize">{run.trigger}</TableCell>
+              <TableCell className="text-right">
+                {formatDuration(run)}
+              </TableCell>
+              <TableCell className="text-right">
+                {run.orders_processed.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">
+                {run.transactions_processed.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right">{run.batches}</TableCell>
+              <TableCell className="text-right">
+                {run.throttle_retries}
+                {run.throttled_requests > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {" "}
+                    ({run.throttled_requests} throttled)
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="max-w-[360px] text-xs">
+                {run.error_message && (
+                  <p className="text-red-600 break-words">
+                    {run.error_message}
+                  </p>
+                )}
+                {run.warnings.length > 0 && (
+                  <p
+                    className="text-yellow-700"
+                    title={run.warnings.join("\n")}
+                  >
+                    {run.warnings.length.toLocaleString()} warning
+                    {run.warnings.length === 1 ? "" : "s"}: {run.warnings[0]}
+                  </p>
+                )}
+                {run.search_query && (
+                  <p className="text-muted-foreground break-all">
+                    Query: {run.search_query}
+                  </p>
+                )}
+                {(run.cursor_start || run.cursor_end) && (
+                  <p className="text-muted-foreground">
+                    Cursor: {run.cursor_start?.slice(-8) || "start"} →{" "}
+                    {run.cursor_end?.slice(-8) || "-"}
+                  </p>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
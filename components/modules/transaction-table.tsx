@@ -9,14 +9,20 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { ChangeIndicator } from "@/components/modules/change-indicator"
 import { formatCurrency } from "@/lib/utils"
-import type { TransactionTypeData } from "@/lib/services/get-transaction-analysis"
+import type {
+  TransactionAnalytics,
+  TransactionTypeData,
+} from "@/lib/services/get-transaction-analysis"
 
 interface TransactionTableProps {
   data: TransactionTypeData[]
+  // Adds count and amount change columns against the previous period
+  comparison?: TransactionAnalytics["comparison"]
 }
 
-export function TransactionTable({ data }: TransactionTableProps) {
+export function TransactionTable({ data, comparison }: TransactionTableProps) {
   if (!data || data.length === 0) {
     return (
       <div className="flex items-center justify-center h-32 text-muted-foreground">
@@ -35,6 +41,13 @@ export function TransactionTable({ data }: TransactionTableProps) {
             <TableHead className="text-right">Total Amount</TableHead>
             <TableHead className="text-right">Average Amount</TableHead>
             <TableHead className="text-right">Success Rate</TableHead>
+            {comparison && (
+              <>
+                <TableHead className="text-right">Prev. Count</TableHead>
+                <TableHead className="text-right">Count Change (%)</TableHead>
+                <TableHead className="text-right">Amount Change (%)</TableHead>
+              </>
+            )}
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -68,6 +81,25 @@ export function TransactionTable({ data }: TransactionTableProps) {
                   {row.successRate.toFixed(1)}%
                 </Badge>
               </TableCell>
+              {comparison && (
+                <>
+                  <TableCell className="text-right text-muted-foreground">
+                    {(
+                      comparison.byKind[row.kind]?.count.previous || 0
+                    ).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeIndicator
+                      delta={comparison.byKind[row.kind]?.count}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeIndicator
+                      delta={comparison.byKind[row.kind]?.totalAmount}
+                    />
+                  </TableCell>
+                </>
+              )}
             </TableRow>
           ))}
         </TableBody>
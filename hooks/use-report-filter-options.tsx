@@ -0,0 +1,30 @@
+"use client"
+
+import * as React from "react"
+import type { ReportFilterOptions } from "@/lib/report-filters"
+
+const ReportFilterOptionsContext = React.createContext<ReportFilterOptions>({
+  channels: [],
+  financialStatuses: [],
+  gateways: [],
+  currencies: [],
+  tags: [],
+})
+
+export function ReportFilterOptionsProvider({
+  options,
+  children,
+}: {
+  options: ReportFilterOptions
+  children: React.ReactNode
+}) {
+  return (
+    <ReportFilterOptionsContext.Provider value={options}>
+      {children}
+    </ReportFilterOptionsContext.Provider>
+  )
+}
+
+export function useReportFilterOptions() {
+  return React.useContext(ReportFilterOptionsContext)
+}
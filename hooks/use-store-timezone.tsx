@@ -0,0 +1,24 @@
+"use client"
+
+import * as React from "react"
+import { DEFAULT_STORE_TIMEZONE } from "@/lib/date-range"
+
+const StoreTimezoneContext = React.createContext<string>(DEFAULT_STORE_TIMEZONE)
+
+export function StoreTimezoneProvider({
+  timeZone,
+  children,
+}: {
+  timeZone: string
+  children: React.ReactNode
+}) {
+  return (
+    <StoreTimezoneContext.Provider value={timeZone}>
+      {children}
+    </StoreTimezoneContext.Provider>
+  )
+}
+
+export function useStoreTimezone() {
+  return React.useContext(StoreTimezoneContext)
+}
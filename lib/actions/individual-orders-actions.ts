@@ -5,15 +5,25 @@ import {
   getAllIndividualOrdersForExport,
   generateOrdersCSV,
 } from "@/lib/services/get-individual-orders"
+import { isAdminSession } from "@/lib/auth"
+import { resyncOrders } from "@/lib/services/sync-orders"
+import type { ReportFilters } from "@/lib/report-filters"
 
 export async function fetchIndividualOrdersAction(
   fromDate: string,
   toDate: string,
   page: number = 1,
-  pageSize: number = 50
+  pageSize: number = 50,
+  filters: ReportFilters = {}
 ) {
   try {
-    const result = await getIndividualOrders(fromDate, toDate, page, pageSize)
+    const result = await getIndividualOrders(
+      fromDate,
+      toDate,
+      page,
+      pageSize,
+      filters
+    )
     return { success: true, data: result }
   } catch (error) {
     console.error("Failed to fetch individual orders:", error)
@@ -24,10 +34,18 @@ export async function fetchIndividualOrdersAction(
   }
 }
 
-export async function exportOrdersAction(fromDate: string, toDate: string) {
+export async function exportOrdersAction(
+  fromDate: string,
+  toDate: string,
+  filters: ReportFilters = {}
+) {
   try {
     // Get ALL orders for export (no pagination)
-    const allOrders = await getAllIndividualOrdersForExport(fromDate, toDate)
+    const allOrders = await getAllIndividualOrdersForExport(
+      fromDate,
+      toDate,
+      filters
+    )
     const csvContent = generateOrdersCSV(allOrders)
 
     // Format dates for filename (extract just the date part)
@@ -52,3 +70,22 @@ export async function exportOrdersAction(fromDate: string, toDate: string) {
     }
   }
 }
+
+// Re-fetching from Shopify needs an admin, as for the sync actions
+export async function resyncOrderAction(shopifyOrderId: string) {
+  if (!(await isAdminSession())) {
+    return { success: false, error: "Only admins can re-sync orders" }
+  }
+
+  const result = await resyncOrders({
+    orderIds: [shopifyOrderId],
+    trigger: "dashboard",
+  })
+
+  if (!result.success) {
+    console.error("Failed to re-sync order:", result.error)
+    return { success: false, error: result.error }
+  }
+
+  return { success: true, ordersProcessed: result.ordersProcessed }
+}
@@ -0,0 +1,183 @@
+"use server"
+
+import { isAdminSession } from "@/lib/auth"
+import { isReportDateRange } from "@/lib/date-range"
+import { isReportKey } from "@/lib/export"
+import { sendReportNow } from "@/lib/services/report-subscriptions"
+import {
+  createReportSubscription,
+  deleteReportSubscription,
+  updateReportSubscription,
+} from "@/lib/supabase/operations"
+
+export interface ReportSubscriptionInput {
+  name: string
+  report: string
+  // Comma or newline separated email addresses
+  recipients: string
+  cadence: string
+  dayOfWeek: number
+  dayOfMonth: number
+  sendHour: number
+  dateRange: string
+  timeZone: string
+  attachmentFormat: string
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Subscriptions email reports to any address, so managing them needs an admin
+export async function createReportSubscriptionAction(
+  input: ReportSubscriptionInput
+) {
+  if (!(await isAdminSession())) {
+    return { success: false, error: "Only admins can add report subscriptions" }
+  }
+
+  const recipients = input.recipients
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean)
+
+  const name = input.name.trim()
+  if (!name) {
+    return { success: false, error: "Name is required" }
+  }
+  if (!isReportKey(input.report)) {
+    return { success: false, error: `Unknown report: ${input.report}` }
+  }
+  if (recipients.length === 0) {
+    return { success: false, error: "Add at least one recipient" }
+  }
+  const invalidRecipient = recipients.find(
+    (recipient) => !EMAIL_PATTERN.test(recipient)
+  )
+  if (invalidRecipient) {
+    return {
+      success: false,
+      error: `Invalid email address: ${invalidRecipient}`,
+    }
+  }
+  if (
+    input.cadence !== "daily" &&
+    input.cadence !== "weekly" &&
+    input.cadence !== "monthly"
+  ) {
+    return { success: false, error: "Cadence must be daily, weekly or monthly" }
+  }
+  if (
+    input.cadence === "weekly" &&
+    !(
+      Number.isInteger(input.dayOfWeek) &&
+      input.dayOfWeek >= 0 &&
+      input.dayOfWeek <= 6
+    )
+  ) {
+    return { success: false, error: "Choose a day of the week" }
+  }
+  if (
+    input.cadence === "monthly" &&
+    !(
+      Number.isInteger(input.dayOfMonth) &&
+      input.dayOfMonth >= 1 &&
+      input.dayOfMonth <= 28
+    )
+  ) {
+    return { success: false, error: "Day of the month must be 1 to 28" }
+  }
+  if (
+    !Number.isInteger(input.sendHour) ||
+    input.sendHour < 0 ||
+    input.sendHour > 23
+  ) {
+    return { success: false, error: "Send hour must be 0 to 23" }
+  }
+  if (!isReportDateRange(input.dateRange)) {
+    return { success: false, error: `Unknown date range: ${input.dateRange}` }
+  }
+  if (!isTimeZone(input.timeZone)) {
+    return { success: false, error: `Unknown timezone: ${input.timeZone}` }
+  }
+  if (
+    input.attachmentFormat !== "csv" &&
+    input.attachmentFormat !== "xlsx" &&
+    input.attachmentFormat !== "pdf"
+  ) {
+    return { success: false, error: "Attachment must be CSV, XLSX or PDF" }
+  }
+
+  const success = await createReportSubscription({
+    name,
+    report: input.report,
+    recipients,
+    cadence: input.cadence,
+    day_of_week: input.cadence === "weekly" ? input.dayOfWeek : null,
+    day_of_month: input.cadence === "monthly" ? input.dayOfMonth : null,
+    send_hour: input.sendHour,
+    date_range: input.dateRange,
+    time_zone: input.timeZone,
+    attachment_format: input.attachmentFormat,
+    enabled: true,
+  })
+
+  return success
+    ? { success: true }
+    : { success: false, error: "Failed to save the report subscription" }
+}
+
+export async function setReportSubscriptionEnabledAction(
+  id: number,
+  enabled: boolean
+) {
+  if (!(await isAdminSession())) {
+    return {
+      success: false,
+      error: "Only admins can change report subscriptions",
+    }
+  }
+
+  const success = await updateReportSubscription(id, { enabled })
+
+  return success
+    ? { success: true }
+    : { success: false, error: "Failed to update the report subscription" }
+}
+
+export async function deleteReportSubscriptionAction(id: number) {
+  if (!(await isAdminSession())) {
+    return {
+      success: false,
+      error: "Only admins can delete report subscriptions",
+    }
+  }
+
+  const success = await deleteReportSubscription(id)
+
+  return success
+    ? { success: true }
+    : { success: false, error: "Failed to delete the report subscription" }
+}
+
+export async function sendReportNowAction(id: number) {
+  if (!(await isAdminSession())) {
+    return { success: false, error: "Only admins can send reports" }
+  }
+
+  const result = await sendReportNow(id)
+
+  if (!result.success) {
+    console.error("Failed to send report:", result.error)
+    return { success: false, error: result.error }
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,36 @@
+"use server"
+
+import { isAdminSession } from "@/lib/auth"
+import { resetSyncCursor, syncOrders } from "@/lib/services/sync-orders"
+
+// Starting a sync or moving its cursor needs an admin, as for POST /api/sync
+export async function triggerSyncAction() {
+  if (!(await isAdminSession())) {
+    return { success: false, error: "Only admins can start a sync" }
+  }
+
+  const result = await syncOrders({ trigger: "dashboard" })
+
+  if (!result.success) {
+    console.error("Failed to run sync:", result.error)
+    return { success: false, error: result.error }
+  }
+
+  return {
+    success: true,
+    ordersProcessed: result.ordersProcessed,
+    transactionsProcessed: result.transactionsProcessed,
+  }
+}
+
+export async function resetSyncCursorAction() {
+  if (!(await isAdminSession())) {
+    return { success: false, error: "Only admins can reset the sync cursor" }
+  }
+
+  const success = await resetSyncCursor()
+
+  return success
+    ? { success: true }
+    : { success: false, error: "Failed to reset the sync cursor" }
+}
@@ -0,0 +1,84 @@
+/**
+ * API route authorization
+ *
+ * Routes that start Shopify syncs or change stored data (metrics rebuild, FX
+ * rates, webhook replay) accept either a signed-in admin (a Supabase session
+ * whose email is listed in ADMIN_EMAILS) or a scheduler sending
+ * `Authorization: Bearer <CRON_SECRET_TOKEN>`. Data exports need any signed-in
+ * user.
+ */
+
+import { createHash, timingSafeEqual } from "crypto"
+import type { NextRequest } from "next/server"
+import { createClient } from "./supabase/server"
+import type { SyncTrigger } from "./supabase/types"
+
+/**
+ * Whether the request carries the cron bearer secret
+ */
+export function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET_TOKEN
+  const header = request.headers.get("authorization")
+
+  if (!secret || !header?.startsWith("Bearer ")) {
+    return false
+  }
+
+  // Compare digests so the check takes the same time whatever the token length
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(header.slice("Bearer ".length)), digest(secret))
+}
+
+/**
+ * Whether the request comes from a signed-in user
+ */
+export async function hasUserSession(): Promise<boolean> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return Boolean(user)
+}
+
+/**
+ * Whether the current session belongs to a user listed in ADMIN_EMAILS
+ */
+export async function isAdminSession(): Promise<boolean> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const email = user?.email?.toLowerCase()
+  if (!email) {
+    return false
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((adminEmail) => adminEmail.trim().toLowerCase())
+    .filter(Boolean)
+
+  return adminEmails.includes(email)
+}
+
+/**
+ * Authorize a request that starts a sync
+ * Returns the trigger to record the run under, or null when unauthorized
+ */
+export async function authorizeSyncRequest(
+  request: NextRequest
+): Promise<SyncTrigger | null> {
+  if (hasCronSecret(request)) {
+    return "cron"
+  }
+
+  if (await isAdminSession()) {
+    return "api"
+  }
+
+  return null
+}
@@ -0,0 +1,139 @@
+/**
+ * Reporting currency conversion
+ *
+ * Orders are stored in the currency the customer paid in. Reports convert each
+ * amount into the reporting currency at the rate for the store day it happened
+ * on, and keep a per-currency breakdown of the original amounts. Amounts with
+ * stored shop money are reported as Shopify converted them when the reporting
+ * currency is the shop currency. This module
+ * has no server dependencies so client components can use it too.
+ */
+
+import type { DatabaseFxRate } from "./supabase/types"
+
+// Cookie holding the reporting currency picked in the dashboard header
+export const REPORTING_CURRENCY_COOKIE = "reporting_currency"
+
+export interface CurrencyTotal {
+  currency: string
+  // In the original currency
+  amount: number
+  // In the reporting currency
+  convertedAmount: number
+}
+
+export interface CurrencyConverter {
+  // The reporting currency amounts are converted into
+  currency: string
+  /**
+   * Convert an amount at the latest rate on or before the store day (YYYY-MM-DD)
+   * The amount's shop money, when known, is used as is in the shop currency
+   */
+  convert(
+    amount: number,
+    fromCurrency: string,
+    day: string,
+    shopAmount?: number | null
+  ): number
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value)
+}
+
+/**
+ * Build a converter into `reportingCurrency` from daily rates. Rates quoted
+ * the other way round (reporting currency as the base) are inverted.
+ */
+export function createCurrencyConverter(
+  reportingCurrency: string,
+  rates: Pick<
+    DatabaseFxRate,
+    "rate_date" | "base_currency" | "quote_currency" | "rate"
+  >[],
+  shopCurrency?: string
+): CurrencyConverter {
+  // Rates into the reporting currency per source currency, oldest first
+  const ratesByCurrency = new Map<
+    string,
+    Array<{ day: string; rate: number }>
+  >()
+
+  rates.forEach((rate) => {
+    const isDirect = rate.quote_currency === reportingCurrency
+    const isInverse = rate.base_currency === reportingCurrency
+    if (!isDirect && !isInverse) return
+
+    const currency = isDirect ? rate.base_currency : rate.quote_currency
+    if (!ratesByCurrency.has(currency)) {
+      ratesByCurrency.set(currency, [])
+    }
+    ratesByCurrency.get(currency)!.push({
+      day: rate.rate_date,
+      rate: isDirect ? Number(rate.rate) : 1 / Number(rate.rate),
+    })
+  })
+
+  ratesByCurrency.forEach((currencyRates) =>
+    currencyRates.sort((a, b) => a.day.localeCompare(b.day))
+  )
+
+  return {
+    currency: reportingCurrency,
+    convert(amount, fromCurrency, day, shopAmount) {
+      if (fromCurrency === reportingCurrency || amount === 0) return amount
+      if (
+        reportingCurrency === shopCurrency &&
+        shopAmount !== null &&
+        shopAmount !== undefined
+      ) {
+        return Number(shopAmount)
+      }
+
+      // Latest rate on or before the day
+      const currencyRates = ratesByCurrency.get(fromCurrency) || []
+      let low = 0
+      let high = currencyRates.length - 1
+      let match: number | null = null
+      while (low <= high) {
+        const middle = Math.floor((low + high) / 2)
+        if (currencyRates[middle].day <= day) {
+          match = currencyRates[middle].rate
+          low = middle + 1
+        } else {
+          high = middle - 1
+        }
+      }
+
+      if (match === null) {
+        throw new Error(
+          `No exchange rate from ${fromCurrency} to ${reportingCurrency} on or before ${day}. Load rates into fx_rates with POST /api/fx-rates.`
+        )
+      }
+
+      return amount * match
+    },
+  }
+}
+
+/**
+ * Sum amounts per original currency, largest converted total first
+ */
+export function sumByCurrency(entries: CurrencyTotal[]): CurrencyTotal[] {
+  const totals = new Map<string, CurrencyTotal>()
+
+  entries.forEach((entry) => {
+    const total = totals.get(entry.currency) || {
+      currency: entry.currency,
+      amount: 0,
+      convertedAmount: 0,
+    }
+    total.amount += entry.amount
+    total.convertedAmount += entry.convertedAmount
+    totals.set(entry.currency, total)
+  })
+
+  return Array.from(totals.values()).sort(
+    (a, b) => b.convertedAmount - a.convertedAmount
+  )
+}
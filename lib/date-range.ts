@@ -0,0 +1,205 @@
+/**
+ * Store-timezone-aware date ranges
+ *
+ * Report dates (YYYY-MM-DD) are calendar days in the store's timezone, not the
+ * server's or UTC. This module turns them into UTC instants for database
+ * queries, buckets timestamps into store days and builds the picker presets.
+ * It has no server dependencies so client components can use it too.
+ */
+
+import { TZDate } from "@date-fns/tz"
+import {
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths,
+  subWeeks,
+} from "date-fns"
+
+// Used when neither SHOPIFY_STORE_TIMEZONE nor the Shopify shop settings are available
+export const DEFAULT_STORE_TIMEZONE = "UTC"
+
+export interface StoreDateRange {
+  // Store calendar days, YYYY-MM-DD
+  from: string
+  to: string
+}
+
+export interface DateRangePreset {
+  label: string
+  range: StoreDateRange
+}
+
+/**
+ * Midnight at the start of a store day, as a date in the store's timezone
+ */
+function storeDay(date: string, timeZone: string): TZDate {
+  const [year, month, day] = date.split("-").map(Number)
+  return new TZDate(year, month - 1, day, timeZone)
+}
+
+/**
+ * UTC instants bounding the store days `fromDate` to `toDate` inclusive.
+ * Full timestamps (containing "T") are passed through unchanged.
+ */
+export function getStoreDayBounds(
+  fromDate: string,
+  toDate: string,
+  timeZone: string
+): { fromUTC: string; toUTC: string } {
+  return {
+    fromUTC: fromDate.includes("T")
+      ? fromDate
+      : new Date(storeDay(fromDate, timeZone).getTime()).toISOString(),
+    toUTC: toDate.includes("T")
+      ? toDate
+      : new Date(endOfDay(storeDay(toDate, timeZone)).getTime()).toISOString(),
+  }
+}
+
+/**
+ * The store day (YYYY-MM-DD) a timestamp falls on
+ */
+export function toStoreDate(
+  timestamp: string | Date,
+  timeZone: string
+): string {
+  const date = typeof timestamp === "string" ? parseISO(timestamp) : timestamp
+  return format(new TZDate(date.getTime(), timeZone), "yyyy-MM-dd")
+}
+
+/**
+ * Every store day in the range, for filling gaps in daily series
+ */
+export function eachStoreDay(fromDate: string, toDate: string): string[] {
+  // Plain calendar arithmetic, the timezone does not change which days exist
+  return eachDayOfInterval({
+    start: parseISO(fromDate.split("T")[0]),
+    end: parseISO(toDate.split("T")[0]),
+  }).map((day) => format(day, "yyyy-MM-dd"))
+}
+
+/**
+ * Today's date in the store's timezone
+ */
+export function getStoreToday(timeZone: string): string {
+  return toStoreDate(new Date(), timeZone)
+}
+
+/**
+ * The last `days` store days, ending today
+ */
+export function getStoreLastDays(
+  days: number,
+  timeZone: string
+): StoreDateRange {
+  const today = getStoreToday(timeZone)
+  return {
+    from: format(subDays(parseISO(today), days - 1), "yyyy-MM-dd"),
+    to: today,
+  }
+}
+
+/**
+ * Date picker presets, relative to the store's today rather than the browser's
+ */
+export function getDateRangePresets(timeZone: string): DateRangePreset[] {
+  const today = parseISO(getStoreToday(timeZone))
+  const toRange = (from: Date, to: Date): StoreDateRange => ({
+    from: format(from, "yyyy-MM-dd"),
+    to: format(to, "yyyy-MM-dd"),
+  })
+
+  return [
+    { label: "Today", range: toRange(today, today) },
+    {
+      label: "Yesterday",
+      range: toRange(subDays(today, 1), subDays(today, 1)),
+    },
+    { label: "Last 7 days", range: toRange(subDays(today, 6), today) },
+    { label: "Last 30 days", range: toRange(subDays(today, 29), today) },
+    {
+      label: "This week",
+      range: toRange(
+        startOfWeek(today, { weekStartsOn: 1 }),
+        endOfWeek(today, { weekStartsOn: 1 })
+      ),
+    },
+    {
+      label: "Last week",
+      range: toRange(
+        startOfWeek(subWeeks(today, 1), { weekStartsOn: 1 }),
+        endOfWeek(subWeeks(today, 1), { weekStartsOn: 1 })
+      ),
+    },
+    {
+      label: "This month",
+      range: toRange(startOfMonth(today), endOfMonth(today)),
+    },
+    {
+      label: "Last month",
+      range: toRange(
+        startOfMonth(subMonths(today, 1)),
+        endOfMonth(subMonths(today, 1))
+      ),
+    },
+  ]
+}
+
+// Date ranges for scheduled reports, made of complete days before the send date
+export const REPORT_DATE_RANGES = {
+  yesterday: "Yesterday",
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  previous_week: "Last week (Monday to Sunday)",
+  previous_month: "Last month",
+  month_to_date: "Month to date",
+} as const
+
+export type ReportDateRange = keyof typeof REPORT_DATE_RANGES
+
+export function isReportDateRange(value: string): value is ReportDateRange {
+  return Object.hasOwn(REPORT_DATE_RANGES, value)
+}
+
+/**
+ * The days a scheduled report covers when sent on `sendDate` (YYYY-MM-DD)
+ */
+export function resolveReportDateRange(
+  rule: ReportDateRange,
+  sendDate: string
+): StoreDateRange {
+  const yesterday = subDays(parseISO(sendDate), 1)
+  const toRange = (from: Date, to: Date): StoreDateRange => ({
+    from: format(from, "yyyy-MM-dd"),
+    to: format(to, "yyyy-MM-dd"),
+  })
+
+  switch (rule) {
+    case "yesterday":
+      return toRange(yesterday, yesterday)
+    case "last_7_days":
+      return toRange(subDays(yesterday, 6), yesterday)
+    case "last_30_days":
+      return toRange(subDays(yesterday, 29), yesterday)
+    case "previous_week": {
+      const lastWeek = subWeeks(parseISO(sendDate), 1)
+      return toRange(
+        startOfWeek(lastWeek, { weekStartsOn: 1 }),
+        endOfWeek(lastWeek, { weekStartsOn: 1 })
+      )
+    }
+    case "previous_month": {
+      const lastMonth = subMonths(parseISO(sendDate), 1)
+      return toRange(startOfMonth(lastMonth), endOfMonth(lastMonth))
+    }
+    case "month_to_date":
+      return toRange(startOfMonth(yesterday), yesterday)
+  }
+}
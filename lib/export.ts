@@ -0,0 +1,171 @@
+/**
+ * Report exports
+ *
+ * Report services declare the columns of the tables they return, and exports
+ * write those tables as CSV, XLSX or JSON. Column types tell each format how
+ * to write a value. This module has no server dependencies so client
+ * components can use it too.
+ */
+
+// Reports with an export, by key, with their titles
+export const EXPORT_REPORTS = {
+  "sales-by-channel": "Net Sales by Channel",
+  "sales-over-time": "Sales Over Time",
+  "orders-over-time": "Orders Over Time",
+  "order-status": "Order Status Breakdown",
+  "revenue-breakdown": "Revenue Breakdown",
+  transactions: "Transaction Analysis",
+  "channel-performance": "Channel Performance",
+} as const
+
+export type ReportKey = keyof typeof EXPORT_REPORTS
+
+// Sections of the PDF board pack, in print order, with their titles
+export const BOARD_PACK_SECTIONS = {
+  kpis: "Key Metrics",
+  "sales-trend": "Sales Trend",
+  "channel-breakdown": "Sales by Channel",
+  "revenue-breakdown": "Revenue Breakdown",
+  "order-status": "Order Status",
+} as const
+
+export type BoardPackSection = keyof typeof BOARD_PACK_SECTIONS
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/**
+ * - `date`: a store day (YYYY-MM-DD)
+ * - `datetime`: a UTC timestamp, shown in the store timezone
+ * - `currency`: an amount in the row's `currency`
+ * - `percent`: a percentage from 0 to 100
+ */
+export type ExportColumnType =
+  | "text"
+  | "number"
+  | "currency"
+  | "percent"
+  | "date"
+  | "datetime"
+
+export interface ExportColumn<Row> {
+  key: keyof Row & string
+  header: string
+  type: ExportColumnType
+}
+
+export interface ExportTable<Row> {
+  // Sheet name in XLSX, section title in CSV
+  name: string
+  columns: ExportColumn<Row>[]
+  rows: Row[]
+}
+
+// Column keys tie a table to its row type, so a list of tables from different
+// reports holds each table behind a function. Opening it passes the table to
+// a callback that works for any row type, which keeps column keys checked.
+export type SomeExportTable = <Result>(
+  open: <Row>(table: ExportTable<Row>) => Result
+) => Result
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+}
+
+export function isReportKey(value: string): value is ReportKey {
+  return Object.hasOwn(EXPORT_REPORTS, value)
+}
+
+export function isBoardPackSection(value: string): value is BoardPackSection {
+  return Object.hasOwn(BOARD_PACK_SECTIONS, value)
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Pair rows with their columns, keeping the row type checked
+ */
+export function exportTable<Row>(
+  name: string,
+  columns: ExportColumn<Row>[],
+  rows: Row[]
+): SomeExportTable {
+  const table: ExportTable<Row> = { name, columns, rows }
+  return (open) => open(table)
+}
+
+/**
+ * The currency a row's `currency` columns are in, from its `currency` field
+ */
+export function getRowCurrency<Row>(row: Row): string | null {
+  const { currency } = row as { currency?: unknown }
+  return typeof currency === "string" ? currency : null
+}
+
+/**
+ * Write tables as CSV. Several tables are separated by a blank line and each
+ * starts with its name.
+ */
+export function toCsv(tables: SomeExportTable[]): string {
+  const sections = tables.map((open) =>
+    open((table) => {
+      const lines = table.rows.map((row) =>
+        table.columns.map((column) => csvValue(row[column.key])).join(",")
+      )
+      lines.unshift(
+        table.columns.map((column) => csvValue(column.header)).join(",")
+      )
+      if (tables.length > 1) {
+        lines.unshift(csvValue(table.name))
+      }
+      return lines.join("\n")
+    })
+  )
+
+  return sections.join("\n\n")
+}
+
+// A table as written to JSON, with the row type no longer needed
+interface JsonExportTable {
+  name: string
+  columns: { key: string; header: string; type: ExportColumnType }[]
+  rows: Record<string, unknown>[]
+}
+
+/**
+ * Write tables as JSON with their columns and rows, values keyed by column
+ */
+export function toJson(tables: SomeExportTable[]): string {
+  return JSON.stringify(
+    {
+      tables: tables.map((open) =>
+        open<JsonExportTable>((table) => ({
+          name: table.name,
+          columns: table.columns,
+          rows: table.rows.map((row) =>
+            Object.fromEntries(
+              table.columns.map((column) => [
+                column.key,
+                row[column.key] ?? null,
+              ])
+            )
+          ),
+        }))
+      ),
+    },
+    null,
+    2
+  )
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "number") return String(value)
+
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,129 @@
+/**
+ * Mail transports
+ *
+ * Scheduled reports are sent through the transport named by MAIL_TRANSPORT:
+ *
+ * - smtp: sends through SMTP_HOST / SMTP_PORT with SMTP_USER / SMTP_PASSWORD
+ * - file: writes each message as an .eml file under MAIL_FILE_DIR, for
+ *   checking emails locally without a mail server
+ * - memory: keeps messages in `memoryOutbox` for the life of the process
+ *
+ * Messages come from MAIL_FROM.
+ */
+
+import { mkdir, writeFile } from "fs/promises"
+import path from "path"
+import nodemailer from "nodemailer"
+
+export const MAIL_TRANSPORTS = ["smtp", "file", "memory"] as const
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number]
+
+const DEFAULT_MAIL_FILE_DIR = ".mail"
+
+export interface MailAttachment {
+  filename: string
+  content: Buffer
+  contentType: string
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  html: string
+  // Plain text alternative
+  text: string
+  attachments: MailAttachment[]
+}
+
+export interface MailTransport {
+  name: MailTransportName
+  send(message: MailMessage): Promise<void>
+}
+
+// Messages sent with the memory transport, oldest first
+export const memoryOutbox: MailMessage[] = []
+
+/**
+ * The transport configured by MAIL_TRANSPORT, defaulting to smtp
+ */
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || "smtp"
+
+  switch (name) {
+    case "smtp":
+      return createSmtpTransport()
+    case "file":
+      return createFileTransport(
+        process.env.MAIL_FILE_DIR || DEFAULT_MAIL_FILE_DIR
+      )
+    case "memory":
+      return {
+        name: "memory",
+        async send(message) {
+          memoryOutbox.push(message)
+        },
+      }
+    default:
+      throw new Error(
+        `MAIL_TRANSPORT must be one of: ${MAIL_TRANSPORTS.join(", ")}`
+      )
+  }
+}
+
+function getSender(): string {
+  const from = process.env.MAIL_FROM
+  if (!from) {
+    throw new Error("MAIL_FROM is not configured")
+  }
+  return from
+}
+
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    throw new Error("SMTP_HOST is not configured")
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587)
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    // Port 465 speaks TLS from the start, other ports upgrade with STARTTLS
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ ...message, from: getSender() })
+    },
+  }
+}
+
+/**
+ * Build the full MIME message as SMTP would send it and write it to `directory`
+ */
+function createFileTransport(directory: string): MailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  })
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({
+        ...message,
+        from: getSender(),
+      })
+
+      await mkdir(directory, { recursive: true })
+      const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^\w.-]/g, "")}.eml`
+      await writeFile(path.join(directory, filename), info.message)
+    },
+  }
+}
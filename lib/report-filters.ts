@@ -0,0 +1,222 @@
+/**
+ * Report filters
+ *
+ * The filter bar narrows every report to orders matching all of its filters:
+ * sales channels, financial statuses, payment gateways, currencies, order
+ * tags and an order value range. Filters live in the URL next to `from` and
+ * `to`, lists as one param per value, so values may contain commas, e.g.
+ * `?channel=Online%20Store&channel=POS&tag=wholesale`.
+ * Within one filter any listed value matches. This module has no server
+ * dependencies so client components can use it too.
+ */
+
+export interface ReportFilters {
+  // Channel display name with fallback to source name, as in the reports
+  channels?: string[]
+  // Shopify display financial status, e.g. PAID, PARTIALLY_REFUNDED
+  financialStatuses?: string[]
+  // Payment gateways used on the order, e.g. shopify_payments, paypal
+  gateways?: string[]
+  // Presentment currency the order was placed in
+  currencies?: string[]
+  tags?: string[]
+  // Order total in the shop currency, inclusive. Orders synced before shop
+  // money compare their presentment total
+  minOrderValue?: number
+  maxOrderValue?: number
+}
+
+export type ReportFilterList = Exclude<
+  keyof ReportFilters,
+  "minOrderValue" | "maxOrderValue"
+>
+
+// Search param and label per list filter, in filter bar order
+export const REPORT_FILTER_LISTS: Record<
+  ReportFilterList,
+  { param: string; label: string }
+> = {
+  channels: { param: "channel", label: "Channel" },
+  financialStatuses: { param: "status", label: "Financial status" },
+  gateways: { param: "gateway", label: "Payment gateway" },
+  currencies: { param: "currency", label: "Currency" },
+  tags: { param: "tag", label: "Order tag" },
+}
+
+export const MIN_ORDER_VALUE_PARAM = "minValue"
+export const MAX_ORDER_VALUE_PARAM = "maxValue"
+
+// Values the filter bar offers, from the synced orders
+export type ReportFilterOptions = Record<ReportFilterList, string[]>
+
+// Order fields the filters look at, for filtering orders already in memory
+export interface FilterableOrder {
+  channel: string
+  financialStatus: string | null
+  gateways: string[]
+  currency: string
+  tags: string[]
+  // Presentment total, compared when the order has no shop money
+  total: number
+  shopTotal: number | null
+}
+
+const FILTER_LISTS = Object.keys(REPORT_FILTER_LISTS) as ReportFilterList[]
+
+/**
+ * Parse the report filters from search params, leaving out empty ones
+ */
+export function getReportFiltersFromParams(
+  searchParams: URLSearchParams | Record<string, string | string[] | undefined>
+): ReportFilters {
+  const readAll = (param: string): string[] => {
+    if (searchParams instanceof URLSearchParams) {
+      return searchParams.getAll(param)
+    }
+    const value = searchParams[param]
+    return Array.isArray(value) ? value : value ? [value] : []
+  }
+  const read = (param: string): string | null => readAll(param)[0] ?? null
+
+  const filters: ReportFilters = {}
+
+  FILTER_LISTS.forEach((key) => {
+    const values = readAll(REPORT_FILTER_LISTS[key].param)
+      .map((value) => value.trim())
+      .filter(Boolean)
+    if (values.length > 0) {
+      filters[key] = [...new Set(values)]
+    }
+  })
+
+  const minOrderValue = parseOrderValue(read(MIN_ORDER_VALUE_PARAM))
+  const maxOrderValue = parseOrderValue(read(MAX_ORDER_VALUE_PARAM))
+  if (minOrderValue !== undefined) filters.minOrderValue = minOrderValue
+  if (maxOrderValue !== undefined) filters.maxOrderValue = maxOrderValue
+
+  return filters
+}
+
+/**
+ * Write the filters into search params, replacing any filters already there
+ */
+export function setReportFilterParams(
+  searchParams: URLSearchParams,
+  filters: ReportFilters
+): void {
+  FILTER_LISTS.forEach((key) => {
+    const { param } = REPORT_FILTER_LISTS[key]
+    searchParams.delete(param)
+    filters[key]?.forEach((value) => searchParams.append(param, value))
+  })
+
+  const setValue = (param: string, value: number | undefined) => {
+    if (value === undefined) {
+      searchParams.delete(param)
+    } else {
+      searchParams.set(param, String(value))
+    }
+  }
+  setValue(MIN_ORDER_VALUE_PARAM, filters.minOrderValue)
+  setValue(MAX_ORDER_VALUE_PARAM, filters.maxOrderValue)
+}
+
+/**
+ * How many filters are set, for the filter bar button
+ */
+export function countReportFilters(filters: ReportFilters): number {
+  return (
+    FILTER_LISTS.filter((key) => (filters[key]?.length ?? 0) > 0).length +
+    (filters.minOrderValue !== undefined || filters.maxOrderValue !== undefined
+      ? 1
+      : 0)
+  )
+}
+
+export function hasReportFilters(filters: ReportFilters): boolean {
+  return countReportFilters(filters) > 0
+}
+
+/**
+ * Whether an order matches every filter. Mirrors the database side in
+ * lib/supabase/order-filters.ts for orders that are filtered in memory.
+ */
+export function matchesReportFilters(
+  order: FilterableOrder,
+  filters: ReportFilters
+): boolean {
+  const { channels, financialStatuses, gateways, currencies, tags } = filters
+
+  if (channels?.length && !channels.includes(order.channel)) return false
+  if (
+    financialStatuses?.length &&
+    !financialStatuses.includes(order.financialStatus ?? "")
+  ) {
+    return false
+  }
+  if (gateways?.length && !order.gateways.some((g) => gateways.includes(g))) {
+    return false
+  }
+  if (currencies?.length && !currencies.includes(order.currency)) return false
+  if (tags?.length && !order.tags.some((tag) => tags.includes(tag))) {
+    return false
+  }
+
+  const orderValue = order.shopTotal ?? order.total
+  if (
+    filters.minOrderValue !== undefined &&
+    orderValue < filters.minOrderValue
+  ) {
+    return false
+  }
+  if (
+    filters.maxOrderValue !== undefined &&
+    orderValue > filters.maxOrderValue
+  ) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * One line per filter that is set, e.g. "Channel: Online Store, POS"
+ */
+export function describeReportFilters(filters: ReportFilters): string[] {
+  const lines = FILTER_LISTS.filter((key) => filters[key]?.length).map(
+    (key) =>
+      `${REPORT_FILTER_LISTS[key].label}: ${filters[key]!.map((value) =>
+        formatReportFilterValue(key, value)
+      ).join(", ")}`
+  )
+
+  const { minOrderValue, maxOrderValue } = filters
+  if (minOrderValue !== undefined && maxOrderValue !== undefined) {
+    lines.push(`Order value: ${minOrderValue} to ${maxOrderValue}`)
+  } else if (minOrderValue !== undefined) {
+    lines.push(`Order value: at least ${minOrderValue}`)
+  } else if (maxOrderValue !== undefined) {
+    lines.push(`Order value: at most ${maxOrderValue}`)
+  }
+
+  return lines
+}
+
+/**
+ * Label for a filter value, e.g. PARTIALLY_REFUNDED as "Partially refunded"
+ */
+export function formatReportFilterValue(
+  key: ReportFilterList,
+  value: string
+): string {
+  if (key !== "financialStatuses" && key !== "gateways") return value
+
+  const label = value.toLowerCase().replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function parseOrderValue(value: string | null): number | undefined {
+  if (!value) return undefined
+  const amount = Number(value)
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
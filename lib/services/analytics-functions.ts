@@ -0,0 +1,254 @@
+/**
+ * Analytics Database Functions
+ *
+ * Typed wrappers for the Postgres functions in
+ * supabase/migrations/008_create_analytics_functions.sql and reads of the
+ * daily_channel_metrics rollup. Aggregation happens in the database, the
+ * reports only fetch the summary rows. Every function takes the report
+ * filters, which the database applies to the orders it aggregates.
+ */
+
+import { createClient } from "../supabase/server"
+import { eachStoreDay, getStoreToday } from "../date-range"
+import { hasReportFilters, type ReportFilters } from "../report-filters"
+import {
+  toOrderFilterArgs,
+  type OrderFilterArgs,
+} from "../supabase/order-filters"
+import { format, parseISO, subDays } from "date-fns"
+import type {
+  AnalyticsDailyChannelSales,
+  AnalyticsDailyOrders,
+  AnalyticsOrderStatus,
+  AnalyticsReportFilterOption,
+  AnalyticsTransactionKind,
+  DailyChannelMetrics,
+} from "../supabase/types"
+
+// PostgREST caps each response, long ranges page through the rows
+const PAGE_SIZE = 1000
+
+// Store days per live metrics call, keeps each call well inside the statement timeout
+const LIVE_DAYS_PER_CALL = 31
+
+/**
+ * Call a set-returning analytics function and collect every row
+ */
+async function callAnalyticsFunction<T>(
+  name: string,
+  args: Record<string, string | string[] | OrderFilterArgs | null>
+): Promise<T[]> {
+  const supabase = await createClient()
+
+  let page = 1
+  let hasMore = true
+  const rows: T[] = []
+
+  while (hasMore) {
+    const { data: pageData, error } = await supabase
+      .rpc(name, args)
+      .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1)
+
+    if (error) {
+      console.error(`❌ ${name} error:`, error)
+      throw new Error(`${name} failed: ${error.message}`)
+    }
+
+    if (pageData && pageData.length > 0) {
+      rows.push(...(pageData as T[]))
+      hasMore = pageData.length === PAGE_SIZE
+      page++
+    } else {
+      hasMore = false
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Sales per store day, channel and currency from successful transactions on non-test orders
+ * Cancelled orders add no order-level amounts, deleted orders are left out
+ */
+export function fetchDailyChannelSales(
+  fromUTC: string,
+  toUTC: string,
+  timeZone: string,
+  filters: ReportFilters = {}
+): Promise<AnalyticsDailyChannelSales[]> {
+  return callAnalyticsFunction("analytics_daily_channel_sales", {
+    p_from: fromUTC,
+    p_to: toUTC,
+    p_timezone: timeZone,
+    p_filters: toOrderFilterArgs(filters),
+  })
+}
+
+/**
+ * Order counts and totals per store day of creation, source name and currency
+ */
+export function fetchDailyOrders(
+  fromUTC: string,
+  toUTC: string,
+  timeZone: string,
+  filters: ReportFilters = {}
+): Promise<AnalyticsDailyOrders[]> {
+  return callAnalyticsFunction("analytics_daily_orders", {
+    p_from: fromUTC,
+    p_to: toUTC,
+    p_timezone: timeZone,
+    p_filters: toOrderFilterArgs(filters),
+  })
+}
+
+/**
+ * Non-test orders processed in the range, per store day, financial status and currency
+ * Cancelled orders are grouped under a CANCELLED status
+ */
+export function fetchOrderStatusBreakdown(
+  fromUTC: string,
+  toUTC: string,
+  timeZone: string,
+  filters: ReportFilters = {}
+): Promise<AnalyticsOrderStatus[]> {
+  return callAnalyticsFunction("analytics_order_status_breakdown", {
+    p_from: fromUTC,
+    p_to: toUTC,
+    p_timezone: timeZone,
+    p_filters: toOrderFilterArgs(filters),
+  })
+}
+
+/**
+ * Transactions processed in the range, per store day, kind and currency
+ */
+export function fetchTransactionKindSummary(
+  fromUTC: string,
+  toUTC: string,
+  timeZone: string,
+  filters: ReportFilters = {}
+): Promise<AnalyticsTransactionKind[]> {
+  return callAnalyticsFunction("analytics_transaction_kind_summary", {
+    p_from: fromUTC,
+    p_to: toUTC,
+    p_timezone: timeZone,
+    p_filters: toOrderFilterArgs(filters),
+  })
+}
+
+/**
+ * Every value each report filter can take, from non-test orders
+ */
+export function fetchReportFilterOptions(): Promise<
+  AnalyticsReportFilterOption[]
+> {
+  return callAnalyticsFunction("analytics_report_filter_options", {})
+}
+
+/**
+ * Daily channel metrics for a range of store days. Days before today come from
+ * the daily_channel_metrics rollup, today is computed live because the sync
+ * may not have caught up with it yet. The rollup covers every order, so with
+ * filters set each day is computed live.
+ */
+export async function fetchDailyChannelMetrics(
+  fromDate: string,
+  toDate: string,
+  timeZone: string,
+  filters: ReportFilters = {}
+): Promise<DailyChannelMetrics[]> {
+  const fromDay = fromDate.split("T")[0]
+  const toDay = toDate.split("T")[0]
+
+  if (hasReportFilters(filters)) {
+    return fetchLiveRows(eachStoreDay(fromDay, toDay), timeZone, filters)
+  }
+
+  const today = getStoreToday(timeZone)
+  const yesterday = format(subDays(parseISO(today), 1), "yyyy-MM-dd")
+
+  const rows: DailyChannelMetrics[] = []
+
+  if (fromDay <= yesterday) {
+    rows.push(
+      ...(await fetchRollupRows(fromDay, toDay < yesterday ? toDay : yesterday))
+    )
+  }
+
+  if (toDay >= today) {
+    rows.push(
+      ...(await fetchLiveRows([fromDay > today ? fromDay : today], timeZone))
+    )
+  }
+
+  return rows
+}
+
+/**
+ * Daily channel metrics computed from the orders for the given store days
+ */
+async function fetchLiveRows(
+  days: string[],
+  timeZone: string,
+  filters: ReportFilters = {}
+): Promise<DailyChannelMetrics[]> {
+  const rows: DailyChannelMetrics[] = []
+
+  for (let i = 0; i < days.length; i += LIVE_DAYS_PER_CALL) {
+    rows.push(
+      ...(await callAnalyticsFunction<DailyChannelMetrics>(
+        "analytics_daily_channel_metrics",
+        {
+          p_days: days.slice(i, i + LIVE_DAYS_PER_CALL),
+          p_timezone: timeZone,
+          p_filters: toOrderFilterArgs(filters),
+        }
+      ))
+    )
+  }
+
+  return rows
+}
+
+/**
+ * Stored rollup rows for a range of store days
+ */
+async function fetchRollupRows(
+  fromDay: string,
+  toDay: string
+): Promise<DailyChannelMetrics[]> {
+  const supabase = await createClient()
+
+  let page = 1
+  let hasMore = true
+  const rows: DailyChannelMetrics[] = []
+
+  while (hasMore) {
+    const { data: pageData, error } = await supabase
+      .from("daily_channel_metrics")
+      .select(
+        "day, channel, currency, gross_sales, refunds, net_sales, discounts, taxes, shipping, order_count, order_value, transaction_count, cancelled_order_count, shop_gross_sales, shop_refunds, shop_net_sales, shop_discounts, shop_taxes, shop_shipping, shop_order_value"
+      )
+      .gte("day", fromDay)
+      .lte("day", toDay)
+      .order("day")
+      .order("channel")
+      .order("currency")
+      .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("❌ daily_channel_metrics error:", error)
+      throw new Error(`daily_channel_metrics query failed: ${error.message}`)
+    }
+
+    if (pageData && pageData.length > 0) {
+      rows.push(...pageData)
+      hasMore = pageData.length === PAGE_SIZE
+      page++
+    } else {
+      hasMore = false
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,794 @@
+/**
+ * PDF Board Pack
+ *
+ * Renders the Overview page's figures as a printable A4 PDF for trading
+ * meetings. The pack holds the chosen sections in BOARD_PACK_SECTIONS order,
+ * each compared with the comparison period when one is given. Charts are
+ * drawn as PDF vector graphics on the server, so the pack looks the same
+ * from the download button and from scheduled email reports.
+ */
+
+import PDFDocument from "pdfkit"
+import { format, parseISO } from "date-fns"
+import { BOARD_PACK_SECTIONS, type BoardPackSection } from "../export"
+import { formatChannelName, formatCurrency } from "../utils"
+import { describeReportFilters, type ReportFilters } from "../report-filters"
+import type { ComparisonPeriod, MetricDelta } from "./comparison"
+import { getDelta } from "./comparison"
+import { getCustomerSummary } from "./get-customer-summary"
+import { getOrderStatusBreakdown } from "./get-order-status"
+import { getOrdersOverTime } from "./get-orders-over-time"
+import { getRevenueBreakdown } from "./get-revenue-breakdown"
+import { getSalesByChannel } from "./get-sales-by-channel"
+import { getSalesOverTime } from "./get-sales-over-time"
+
+export interface BoardPackParams {
+  fromDate: string
+  toDate: string
+  compareTo?: ComparisonPeriod
+  // How the comparison is described, e.g. "previous period"
+  comparisonLabel?: string
+  sections: BoardPackSection[]
+  filters?: ReportFilters
+}
+
+type PDFDoc = PDFKit.PDFDocument
+
+interface TableColumn {
+  header: string
+  width: number
+  align?: "left" | "right"
+}
+
+// A4 in points
+const PAGE_MARGIN = 40
+const CONTENT_WIDTH = 595.28 - PAGE_MARGIN * 2
+const FOOTER_HEIGHT = 20
+
+const COLORS = {
+  text: "#111827",
+  muted: "#6b7280",
+  border: "#e5e7eb",
+  current: "#2563eb",
+  comparison: "#9ca3af",
+  positive: "#16a34a",
+  negative: "#dc2626",
+}
+
+/**
+ * Render the board pack as a PDF
+ */
+export async function renderBoardPack(
+  params: BoardPackParams
+): Promise<Buffer> {
+  try {
+    const { fromDate, toDate, compareTo, sections, filters = {} } = params
+    const has = (section: BoardPackSection) => sections.includes(section)
+
+    const [
+      sales,
+      orders,
+      customers,
+      previousCustomers,
+      channels,
+      revenue,
+      orderStatus,
+    ] = await Promise.all([
+      has("kpis") || has("sales-trend")
+        ? getSalesOverTime(fromDate, toDate, compareTo, filters)
+        : undefined,
+      has("kpis")
+        ? getOrdersOverTime(fromDate, toDate, compareTo, filters)
+        : undefined,
+      has("kpis") ? getCustomerSummary(fromDate, toDate, filters) : undefined,
+      has("kpis") && compareTo
+        ? getCustomerSummary(compareTo.from, compareTo.to, filters)
+        : undefined,
+      has("channel-breakdown")
+        ? getSalesByChannel(fromDate, toDate, compareTo, filters)
+        : undefined,
+      has("revenue-breakdown")
+        ? getRevenueBreakdown(fromDate, toDate, compareTo, filters)
+        : undefined,
+      has("order-status")
+        ? getOrderStatusBreakdown(fromDate, toDate, compareTo, filters)
+        : undefined,
+    ])
+
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Board Pack ${fromDate} to ${toDate}`,
+      },
+    })
+
+    const chunks: Buffer[] = []
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk))
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on("end", () => resolve(Buffer.concat(chunks)))
+      doc.on("error", reject)
+    })
+
+    const comparisonText =
+      compareTo && params.comparisonLabel
+        ? `vs ${params.comparisonLabel}`
+        : undefined
+
+    drawHeader(doc, params)
+
+    for (const section of Object.keys(
+      BOARD_PACK_SECTIONS
+    ) as BoardPackSection[]) {
+      if (!has(section)) continue
+
+      switch (section) {
+        case "kpis":
+          if (sales && orders && customers) {
+            const averageOrderValue = (salesTotal: number, count: number) =>
+              count > 0 ? salesTotal / count : 0
+            const aovDelta =
+              sales.comparison && orders.comparison
+                ? getDelta(
+                    averageOrderValue(
+                      sales.totals.netSales,
+                      orders.totals.totalOrders
+                    ),
+                    averageOrderValue(
+                      sales.comparison.totals.netSales,
+                      orders.comparison.totals.totalOrders
+                    )
+                  )
+                : undefined
+            const currency = sales.totals.currency
+
+            drawSectionTitle(doc, section, comparisonText)
+            drawKpiCards(doc, [
+              {
+                label: "Net Sales",
+                value: formatPdfCurrency(sales.totals.netSales, currency),
+                delta: sales.comparison?.deltas.netSales,
+              },
+              {
+                label: "Orders",
+                value: orders.totals.totalOrders.toLocaleString(),
+                delta: orders.comparison?.deltas.totalOrders,
+                note: orders.totals.cancelledOrders
+                  ? `${orders.totals.cancelledOrders.toLocaleString()} cancelled not included`
+                  : undefined,
+              },
+              {
+                label: "Avg Order Value",
+                value: formatPdfCurrency(
+                  averageOrderValue(
+                    sales.totals.netSales,
+                    orders.totals.totalOrders
+                  ),
+                  currency
+                ),
+                delta: aovDelta,
+              },
+              {
+                label: "Customers",
+                value: customers.uniqueCustomers.toLocaleString(),
+                delta: previousCustomers
+                  ? getDelta(
+                      customers.uniqueCustomers,
+                      previousCustomers.uniqueCustomers
+                    )
+                  : undefined,
+                note: `${customers.newCustomers.toLocaleString()} new, ${customers.returningCustomerRate.toFixed(1)}% returning`,
+              },
+            ])
+          }
+          break
+
+        case "sales-trend":
+          if (sales) {
+            drawSectionTitle(doc, section, comparisonText)
+            drawLineChart(doc, {
+              labels: sales.dailyData.map((day) => day.date),
+              current: sales.dailyData.map((day) => day.netSales),
+              comparison: sales.comparison?.dailyData.map(
+                (day) => day.netSales
+              ),
+              formatValue: (value) =>
+                formatPdfCurrency(value, sales.totals.currency),
+            })
+          }
+          break
+
+        case "channel-breakdown":
+          if (channels) {
+            const currency = channels.totals.currency
+            const rows = [...channels.channels].sort(
+              (a, b) => b.netSales - a.netSales
+            )
+
+            drawSectionTitle(doc, section, comparisonText)
+            drawBarChart(
+              doc,
+              rows.map((row) => ({
+                label: formatChannelName(row.channel),
+                value: row.netSales,
+              })),
+              (value) => formatPdfCurrency(value, currency)
+            )
+            drawTable(
+              doc,
+              [
+                { header: "Channel", width: 135 },
+                { header: "Gross Sales", width: 95, align: "right" },
+                { header: "Refunds", width: 90, align: "right" },
+                { header: "Net Sales", width: 95, align: "right" },
+                { header: "Change", width: 100, align: "right" },
+              ],
+              [
+                ...rows.map((row) => [
+                  formatChannelName(row.channel),
+                  formatPdfCurrency(row.grossSales, currency),
+                  formatPdfCurrency(row.refunds, currency),
+                  formatPdfCurrency(row.netSales, currency),
+                  formatChange(
+                    channels.comparison?.byChannel[row.channel]?.netSales
+                  ),
+                ]),
+                [
+                  "Total",
+                  formatPdfCurrency(channels.totals.grossSales, currency),
+                  formatPdfCurrency(channels.totals.refunds, currency),
+                  formatPdfCurrency(channels.totals.netSales, currency),
+                  formatChange(channels.comparison?.deltas.netSales),
+                ],
+              ]
+            )
+          }
+          break
+
+        case "revenue-breakdown":
+          if (revenue) {
+            const currency = revenue.totals.currency
+
+            drawSectionTitle(doc, section, comparisonText)
+            drawBarChart(
+              doc,
+              revenue.breakdown.map((row) => ({
+                label: row.category,
+                value: row.amount,
+              })),
+              (value) => formatPdfCurrency(value, currency)
+            )
+            drawTable(
+              doc,
+              [
+                { header: "", width: 175 },
+                { header: "Amount", width: 120, align: "right" },
+                { header: "Previous", width: 120, align: "right" },
+                { header: "Change", width: 100, align: "right" },
+              ],
+              (
+                [
+                  ["Gross Revenue", "grossRevenue"],
+                  ["Refunds", "refunds"],
+                  ["Discounts", "discounts"],
+                  ["Taxes", "taxes"],
+                  ["Shipping", "shipping"],
+                  ["Net Revenue", "netRevenue"],
+                ] as const
+              ).map(([label, key]) => [
+                label,
+                formatPdfCurrency(revenue.totals[key], currency),
+                revenue.comparison
+                  ? formatPdfCurrency(
+                      revenue.comparison.totals[key],
+                      revenue.comparison.totals.currency
+                    )
+                  : "–",
+                formatChange(revenue.comparison?.deltas[key]),
+              ])
+            )
+          }
+          break
+
+        case "order-status":
+          if (orderStatus) {
+            const currency = orderStatus.totals.currency
+
+            drawSectionTitle(doc, section, comparisonText)
+            drawTable(
+              doc,
+              [
+                { header: "Status", width: 150 },
+                { header: "Orders", width: 85, align: "right" },
+                { header: "Share", width: 80, align: "right" },
+                { header: "Total Amount", width: 110, align: "right" },
+                { header: "Change", width: 90, align: "right" },
+              ],
+              [
+                ...orderStatus.statusBreakdown.map((row) => [
+                  formatStatus(row.status),
+                  row.count.toLocaleString(),
+                  `${row.percentage.toFixed(1)}%`,
+                  formatPdfCurrency(row.totalAmount, row.currency),
+                  formatChange(
+                    orderStatus.comparison?.byStatus[row.status]?.count
+                  ),
+                ]),
+                [
+                  "Total (excluding cancelled)",
+                  orderStatus.totals.totalOrders.toLocaleString(),
+                  "",
+                  formatPdfCurrency(orderStatus.totals.totalAmount, currency),
+                  formatChange(orderStatus.comparison?.deltas.totalOrders),
+                ],
+              ]
+            )
+          }
+          break
+      }
+    }
+
+    drawPageNumbers(doc)
+    doc.end()
+
+    return await finished
+  } catch (error) {
+    console.error("Error in renderBoardPack:", error)
+    throw error
+  }
+}
+
+/**
+ * The built-in PDF fonts only cover Latin-1 (plus €), fall back to the
+ * currency code for symbols outside it such as ₹ or zł
+ */
+function formatPdfCurrency(amount: number, currency: string): string {
+  const formatted = formatCurrency(amount, currency)
+  if (/^[\x20-\xff\u20ac]*$/.test(formatted)) {
+    return formatted
+  }
+
+  return `${currency} ${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`
+}
+
+function formatChange(delta: MetricDelta | undefined): string {
+  if (!delta || delta.changePercent === null) {
+    return "–"
+  }
+  return `${delta.changePercent >= 0 ? "+" : ""}${delta.changePercent.toFixed(1)}%`
+}
+
+function formatStatus(status: string): string {
+  const label = status.toLowerCase().replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), "d MMM yyyy")
+}
+
+/**
+ * Start a new page when fewer than `height` points are left
+ */
+function ensureSpace(doc: PDFDoc, height: number) {
+  const bottom = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT
+  if (doc.y + height > bottom) {
+    doc.addPage()
+  }
+}
+
+function drawHeader(doc: PDFDoc, params: BoardPackParams) {
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(22)
+    .fillColor(COLORS.text)
+    .text("Board Pack", PAGE_MARGIN, PAGE_MARGIN)
+
+  const range =
+    params.fromDate === params.toDate
+      ? formatDay(params.fromDate)
+      : `${formatDay(params.fromDate)} to ${formatDay(params.toDate)}`
+  const comparison = params.compareTo
+    ? `Compared with ${params.comparisonLabel || "comparison period"} (${formatDay(params.compareTo.from)} to ${formatDay(params.compareTo.to)})`
+    : "No comparison period"
+
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(range)
+    .text(comparison)
+
+  // One line per report filter so the pack says which orders it covers
+  describeReportFilters(params.filters || {}).forEach((line) => doc.text(line))
+
+  doc.text(`Generated ${format(new Date(), "d MMM yyyy HH:mm")}`)
+
+  doc.moveDown(1)
+}
+
+function drawSectionTitle(
+  doc: PDFDoc,
+  section: BoardPackSection,
+  subtitle?: string
+) {
+  // Keep the title with at least the start of its content
+  ensureSpace(doc, 120)
+
+  doc.moveDown(0.5)
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor(COLORS.text)
+    .text(BOARD_PACK_SECTIONS[section], PAGE_MARGIN, doc.y, {
+      continued: Boolean(subtitle),
+    })
+
+  if (subtitle) {
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(`  ${subtitle}`)
+  }
+
+  doc.moveDown(0.5)
+}
+
+function drawKpiCards(
+  doc: PDFDoc,
+  cards: {
+    label: string
+    value: string
+    delta?: MetricDelta
+    note?: string
+  }[]
+) {
+  const gap = 10
+  const height = 72
+  const width = (CONTENT_WIDTH - gap * (cards.length - 1)) / cards.length
+  const top = doc.y
+
+  cards.forEach((card, index) => {
+    const x = PAGE_MARGIN + index * (width + gap)
+
+    doc
+      .roundedRect(x, top, width, height, 4)
+      .strokeColor(COLORS.border)
+      .stroke()
+
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(card.label, x + 8, top + 8, { width: width - 16 })
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(14)
+      .fillColor(COLORS.text)
+      .text(card.value, x + 8, top + 22, {
+        width: width - 16,
+        lineBreak: false,
+      })
+
+    if (card.delta) {
+      doc
+        .font("Helvetica")
+        .fontSize(8)
+        .fillColor(card.delta.change < 0 ? COLORS.negative : COLORS.positive)
+        .text(formatChange(card.delta), x + 8, top + 42, { width: width - 16 })
+    }
+
+    if (card.note) {
+      doc
+        .font("Helvetica")
+        .fontSize(7)
+        .fillColor(COLORS.muted)
+        .text(card.note, x + 8, top + 54, { width: width - 16 })
+    }
+  })
+
+  doc.x = PAGE_MARGIN
+  doc.y = top + height + 10
+}
+
+/**
+ * Daily values as a line, with the comparison period as a dashed line
+ * matched day by day from the start of each period
+ */
+function drawLineChart(
+  doc: PDFDoc,
+  chart: {
+    labels: string[]
+    current: number[]
+    comparison?: number[]
+    formatValue: (value: number) => string
+  }
+) {
+  const height = 200
+  ensureSpace(doc, height + 50)
+
+  const axisWidth = 70
+  const left = PAGE_MARGIN + axisWidth
+  const width = CONTENT_WIDTH - axisWidth
+  // Room for the top axis label
+  const top = doc.y + 8
+  const values = [...chart.current, ...(chart.comparison || [])]
+
+  if (chart.labels.length === 0) {
+    drawEmpty(doc, "No sales in this period")
+    return
+  }
+
+  const { min, max, step } = getAxisBounds(values)
+  const points = Math.max(chart.current.length, chart.comparison?.length || 0)
+  const xAt = (index: number) =>
+    left + (points > 1 ? (index / (points - 1)) * width : width / 2)
+  const yAt = (value: number) =>
+    top + height - ((value - min) / (max - min)) * height
+
+  // Gridlines with axis labels
+  for (let value = min; value <= max + step / 2; value += step) {
+    const y = yAt(value)
+
+    doc
+      .moveTo(left, y)
+      .lineTo(left + width, y)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.border)
+      .stroke()
+    doc
+      .font("Helvetica")
+      .fontSize(7)
+      .fillColor(COLORS.muted)
+      .text(chart.formatValue(value), PAGE_MARGIN, y - 4, {
+        width: axisWidth - 6,
+        align: "right",
+        lineBreak: false,
+      })
+  }
+
+  const drawSeries = (series: number[], color: string, dashed: boolean) => {
+    if (series.length === 0) return
+
+    series.forEach((value, index) => {
+      if (index === 0) {
+        doc.moveTo(xAt(index), yAt(value))
+      } else {
+        doc.lineTo(xAt(index), yAt(value))
+      }
+    })
+    if (series.length === 1) {
+      doc.circle(xAt(0), yAt(series[0]), 2)
+    }
+
+    doc.lineWidth(1.5).strokeColor(color)
+    if (dashed) {
+      doc.dash(4, { space: 3 })
+    }
+    doc.stroke().undash()
+  }
+
+  if (chart.comparison) {
+    drawSeries(chart.comparison, COLORS.comparison, true)
+  }
+  drawSeries(chart.current, COLORS.current, false)
+
+  // First, middle and last day of the current period
+  const labelIndexes = [
+    ...new Set([
+      0,
+      Math.floor((chart.labels.length - 1) / 2),
+      chart.labels.length - 1,
+    ]),
+  ]
+  for (const index of labelIndexes) {
+    doc
+      .font("Helvetica")
+      .fontSize(7)
+      .fillColor(COLORS.muted)
+      .text(formatDay(chart.labels[index]), xAt(index) - 40, top + height + 4, {
+        width: 80,
+        align: "center",
+        lineBreak: false,
+      })
+  }
+
+  // Legend
+  const legendY = top + height + 18
+  const legend: [string, string][] = [["Current period", COLORS.current]]
+  if (chart.comparison) {
+    legend.push(["Comparison period", COLORS.comparison])
+  }
+  legend.forEach(([label, color], index) => {
+    const x = left + index * 110
+    doc
+      .rect(x, legendY + 2, 10, 3)
+      .fillColor(color)
+      .fill()
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(label, x + 14, legendY, { lineBreak: false })
+  })
+
+  doc.x = PAGE_MARGIN
+  doc.y = legendY + 20
+}
+
+/**
+ * Horizontal bars, one per row, scaled to the largest value
+ */
+function drawBarChart(
+  doc: PDFDoc,
+  rows: { label: string; value: number }[],
+  formatValue: (value: number) => string
+) {
+  if (rows.length === 0) {
+    drawEmpty(doc, "No data in this period")
+    return
+  }
+
+  const rowHeight = 18
+  const labelWidth = 130
+  const valueWidth = 95
+  const barWidth = CONTENT_WIDTH - labelWidth - valueWidth - 10
+  const largest = Math.max(...rows.map((row) => Math.abs(row.value)), 1)
+
+  for (const row of rows) {
+    ensureSpace(doc, rowHeight)
+    const y = doc.y
+
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(row.label, PAGE_MARGIN, y + 4, {
+        width: labelWidth - 6,
+        lineBreak: false,
+        height: 10,
+        ellipsis: true,
+      })
+    doc
+      .rect(
+        PAGE_MARGIN + labelWidth,
+        y + 3,
+        Math.max((Math.abs(row.value) / largest) * barWidth, 1),
+        rowHeight - 6
+      )
+      .fillColor(row.value < 0 ? COLORS.negative : COLORS.current)
+      .fill()
+    doc
+      .fillColor(COLORS.text)
+      .text(
+        formatValue(row.value),
+        PAGE_MARGIN + labelWidth + barWidth + 10,
+        y + 4,
+        { width: valueWidth, align: "right", lineBreak: false }
+      )
+
+    doc.y = y + rowHeight
+  }
+
+  doc.x = PAGE_MARGIN
+  doc.y += 10
+}
+
+/**
+ * A table whose last row is the total, repeating the header on new pages
+ */
+function drawTable(doc: PDFDoc, columns: TableColumn[], rows: string[][]) {
+  const rowHeight = 18
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    const y = doc.y
+    let x = PAGE_MARGIN
+
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8)
+    columns.forEach((column, index) => {
+      doc.fillColor(COLORS.text).text(cells[index] ?? "", x + 4, y + 5, {
+        width: column.width - 8,
+        align: column.align || "left",
+        lineBreak: false,
+        height: 10,
+        ellipsis: true,
+      })
+      x += column.width
+    })
+
+    doc
+      .moveTo(PAGE_MARGIN, y + rowHeight)
+      .lineTo(PAGE_MARGIN + CONTENT_WIDTH, y + rowHeight)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.border)
+      .stroke()
+
+    doc.y = y + rowHeight
+  }
+
+  // Keep short tables on one page
+  ensureSpace(doc, rowHeight * Math.min(rows.length + 1, 10))
+  drawRow(
+    columns.map((column) => column.header),
+    true
+  )
+
+  rows.forEach((row, index) => {
+    if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+      doc.addPage()
+      drawRow(
+        columns.map((column) => column.header),
+        true
+      )
+    }
+    drawRow(row, index === rows.length - 1)
+  })
+
+  doc.x = PAGE_MARGIN
+  doc.moveDown(1)
+}
+
+function drawEmpty(doc: PDFDoc, message: string) {
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor(COLORS.muted)
+    .text(message, PAGE_MARGIN, doc.y)
+  doc.moveDown(1)
+}
+
+/**
+ * Axis bounds that include zero, on round steps of about a quarter of the range
+ */
+function getAxisBounds(values: number[]): {
+  min: number
+  max: number
+  step: number
+} {
+  const low = Math.min(0, ...values)
+  const high = Math.max(0, ...values)
+  if (low === high) {
+    return { min: 0, max: 1, step: 0.25 }
+  }
+
+  const roughStep = (high - low) / 4
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep))
+  const step =
+    [1, 2, 2.5, 5, 10]
+      .map((multiple) => multiple * magnitude)
+      .find((candidate) => candidate >= roughStep) || roughStep
+
+  return {
+    min: Math.floor(low / step) * step,
+    max: Math.ceil(high / step) * step,
+    step,
+  }
+}
+
+function drawPageNumbers(doc: PDFDoc) {
+  const { start, count } = doc.bufferedPageRange()
+
+  for (let index = start; index < start + count; index++) {
+    doc.switchToPage(index)
+
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottomMargin = doc.page.margins.bottom
+    doc.page.margins.bottom = 0
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        `Page ${index - start + 1} of ${count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN,
+        { width: CONTENT_WIDTH, align: "right", lineBreak: false }
+      )
+    doc.page.margins.bottom = bottomMargin
+  }
+}
@@ -0,0 +1,490 @@
+/**
+ * Shopify Bulk Operations Backfill
+ *
+ * Historical backfill that submits a bulkOperationRunQuery for orders with their
+ * transactions and line items, polls it, then streams the resulting JSONL file
+ * line by line into the same processBatch path used by the incremental sync.
+ * Line items arrive as separate lines carrying __parentId and are reattached to
+ * their order before processing. Refund and return line items are not in the
+ * export, processBatch fetches them like the paged sync does.
+ *
+ * Features:
+ * - Configurable start date (SYNC_BACKFILL_START_DATE or an explicit fromDate)
+ * - Bulk operation id and import progress persisted in sync_state
+ * - A restarted process resumes the same operation and skips lines already imported
+ * - Started by backfillOrders or a resumed sync, always under the sync lease,
+ *   so it never overlaps the paged sync and is recorded in sync_runs
+ */
+
+import {
+  Kind,
+  print,
+  visit,
+  type FieldNode,
+  type SelectionSetNode,
+} from "graphql"
+import { shopifyFetch, type ShopifyFetchStats } from "../shopify/client"
+import {
+  BulkOperationRunQueryDocument,
+  CurrentBulkOperationDocument,
+  SyncOrdersDocument,
+  type ShopifyBulkOperationRunQueryMutation,
+  type ShopifyBulkOperationRunQueryMutationVariables,
+  type ShopifyCurrentBulkOperationQuery,
+  type ShopifyCurrentBulkOperationQueryVariables,
+} from "../shopify/types"
+import { getSyncState, updateSyncState } from "../supabase/operations"
+import {
+  processBatch,
+  type SyncLineItem,
+  type SyncOrderEdge,
+} from "./process-orders-batch"
+import type { SyncResult } from "./sync-orders"
+
+type CurrentBulkOperation = NonNullable<
+  ShopifyCurrentBulkOperationQuery["currentBulkOperation"]
+>
+
+// A JSONL line belonging to the line items connection
+type BulkChildLine = { __parentId: string } & SyncLineItem
+
+export interface BulkBackfillResult extends SyncResult {
+  bulkOperationId?: string
+  bulkOperationStatus?: string
+  // Set while Shopify is still running the operation, a later sync imports it
+  pending?: boolean
+}
+
+// Orders fed to processBatch per batch
+const BATCH_SIZE = 250
+const POLL_INTERVAL_MS = 5000
+const DEFAULT_POLL_TIMEOUT_MS = 10 * 60 * 1000
+
+// Bulk operation statuses that still need polling or importing
+const PENDING_STATUSES = ["CREATED", "RUNNING", "COMPLETED"]
+// Marker stored once the JSONL file has been fully imported
+const IMPORTED_STATUS = "IMPORTED"
+
+/**
+ * Start date for historical syncs
+ * Configurable via SYNC_BACKFILL_START_DATE (YYYY-MM-DD), defaults to one year ago
+ */
+export function getBackfillStartDate(override?: string): string {
+  const configured = override || process.env.SYNC_BACKFILL_START_DATE
+
+  if (configured) {
+    const parsed = new Date(configured)
+    if (isNaN(parsed.getTime())) {
+      throw new Error(`Invalid backfill start date: ${configured}`)
+    }
+    return parsed.toISOString()
+  }
+
+  const oneYearAgo = new Date()
+  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1)
+  return oneYearAgo.toISOString()
+}
+
+/**
+ * Whether sync_state references a bulk operation that has not been imported yet
+ */
+export async function hasPendingBulkBackfill(): Promise<boolean> {
+  const syncState = await getSyncState("orders")
+
+  return Boolean(
+    syncState?.bulk_operation_id &&
+      syncState.bulk_operation_status &&
+      PENDING_STATUSES.includes(syncState.bulk_operation_status)
+  )
+}
+
+export interface BulkBackfillOptions {
+  // Backfill start date, ignored when resuming a persisted operation
+  fromDate?: string
+  // How long to wait for Shopify before returning; the next call resumes
+  pollTimeoutMs?: number
+}
+
+/**
+ * Run (or resume) a bulk operation backfill for a caller already holding the sync lease
+ * Shopify usage is reported from the caller's withShopifyFetchStats counters,
+ * and the backfill stops when signal reports the lease lost
+ */
+export async function performBulkBackfill(
+  { fromDate, pollTimeoutMs = DEFAULT_POLL_TIMEOUT_MS }: BulkBackfillOptions,
+  apiStats: ShopifyFetchStats,
+  signal: AbortSignal
+): Promise<BulkBackfillResult> {
+  console.log("📦 Starting bulk operation backfill...")
+
+  try {
+    const syncState = await getSyncState("orders")
+    let bulkOperationId: string
+    let objectsProcessed = 0
+
+    if (
+      syncState?.bulk_operation_id &&
+      syncState.bulk_operation_status &&
+      PENDING_STATUSES.includes(syncState.bulk_operation_status)
+    ) {
+      bulkOperationId = syncState.bulk_operation_id
+      objectsProcessed = syncState.bulk_objects_processed || 0
+      console.log(
+        `🔄 Resuming bulk operation ${bulkOperationId} (${objectsProcessed} lines already imported)`
+      )
+    } else {
+      const backfillFrom = getBackfillStartDate(fromDate)
+      console.log("📅 Backfilling orders created since:", backfillFrom)
+
+      const operation = await submitBulkOrdersQuery(backfillFrom)
+      bulkOperationId = operation.id
+
+      await updateSyncState("orders", {
+        sync_status: "running",
+        error_message: null,
+        last_cursor: null,
+        cursor_query: null,
+        bulk_operation_id: operation.id,
+        bulk_operation_status: operation.status,
+        bulk_objects_processed: 0,
+        backfill_from: backfillFrom,
+      })
+    }
+
+    const operation = await waitForBulkOperation(
+      bulkOperationId,
+      pollTimeoutMs,
+      signal
+    )
+
+    if (operation.status !== "COMPLETED") {
+      if (PENDING_STATUSES.includes(operation.status)) {
+        console.log(
+          `⏳ Bulk operation ${operation.id} still ${operation.status} - will resume on next sync`
+        )
+        await updateSyncState("orders", {
+          sync_status: "running",
+          bulk_operation_status: operation.status,
+        })
+
+        return {
+          success: true,
+          ordersProcessed: 0,
+          transactionsProcessed: 0,
+          apiUsage: { ...apiStats },
+          bulkOperationId: operation.id,
+          bulkOperationStatus: operation.status,
+          pending: true,
+        }
+      }
+
+      // Terminal failure - record it so the next sync does not try to resume it
+      await updateSyncState("orders", {
+        bulk_operation_status: operation.status,
+      })
+
+      throw new Error(
+        `Bulk operation ${operation.id} ended with status ${operation.status}${operation.errorCode ? ` (${operation.errorCode})` : ""}`
+      )
+    }
+
+    await updateSyncState("orders", {
+      sync_status: "running",
+      bulk_operation_status: operation.status,
+    })
+
+    const { ordersCount, transactionsCount } = operation.url
+      ? await importBulkOperationResults(
+          operation.url,
+          objectsProcessed,
+          signal
+        )
+      : { ordersCount: 0, transactionsCount: 0 }
+
+    // Incremental syncs continue from when Shopify took the bulk snapshot
+    await updateSyncState("orders", {
+      sync_status: "completed",
+      error_message: null,
+      bulk_operation_status: IMPORTED_STATUS,
+      last_sync_at: operation.createdAt,
+    })
+
+    console.log("🎉 Bulk backfill completed successfully!")
+    console.log(
+      `📊 Final totals: ${ordersCount} orders, ${transactionsCount} transactions processed`
+    )
+
+    return {
+      success: true,
+      ordersProcessed: ordersCount,
+      transactionsProcessed: transactionsCount,
+      apiUsage: { ...apiStats },
+      bulkOperationId: operation.id,
+      bulkOperationStatus: IMPORTED_STATUS,
+    }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error"
+    console.error("❌ Bulk backfill failed:", errorMessage)
+
+    // After losing the lease sync_state belongs to the sync that took over
+    if (!signal.aborted) {
+      await updateSyncState("orders", {
+        sync_status: "failed",
+        error_message: errorMessage,
+      })
+    }
+
+    return {
+      success: false,
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+      apiUsage: { ...apiStats },
+      error: errorMessage,
+    }
+  }
+}
+
+/**
+ * Submit the bulk query for all orders created since the given date
+ */
+async function submitBulkOrdersQuery(fromDate: string) {
+  const response = await shopifyFetch<
+    ShopifyBulkOperationRunQueryMutation,
+    ShopifyBulkOperationRunQueryMutationVariables
+  >({
+    query: BulkOperationRunQueryDocument,
+    variables: { query: buildBulkOrdersQuery(`created_at:>='${fromDate}'`) },
+    cache: "no-store",
+  })
+
+  const payload = response.bulkOperationRunQuery
+  if (payload?.userErrors.length) {
+    throw new Error(
+      `Bulk operation rejected: ${payload.userErrors.map((e) => e.message).join(", ")}`
+    )
+  }
+
+  if (!payload?.bulkOperation) {
+    throw new Error("Shopify did not return a bulk operation")
+  }
+
+  console.log(`🆕 Submitted bulk operation ${payload.bulkOperation.id}`)
+  return payload.bulkOperation
+}
+
+/**
+ * Poll the current bulk operation until it finishes or the timeout elapses
+ */
+async function waitForBulkOperation(
+  bulkOperationId: string,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<CurrentBulkOperation> {
+  const deadline = Date.now() + timeoutMs
+
+  while (true) {
+    signal.throwIfAborted()
+
+    const response = await shopifyFetch<
+      ShopifyCurrentBulkOperationQuery,
+      ShopifyCurrentBulkOperationQueryVariables
+    >({
+      query: CurrentBulkOperationDocument,
+      cache: "no-store",
+    })
+
+    const operation = response.currentBulkOperation
+    if (!operation || operation.id !== bulkOperationId) {
+      throw new Error(
+        `Bulk operation ${bulkOperationId} is no longer the current operation`
+      )
+    }
+
+    console.log(
+      `⏱️ Bulk operation ${operation.status}: ${operation.objectCount} objects`
+    )
+
+    if (
+      operation.status !== "CREATED" &&
+      operation.status !== "RUNNING" &&
+      operation.status !== "CANCELING"
+    ) {
+      return operation
+    }
+
+    if (Date.now() + POLL_INTERVAL_MS > deadline) {
+      return operation
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
+
+/**
+ * Stream the JSONL result file into processBatch, saving progress after every batch
+ * Progress is only saved at order boundaries so a resumed import never starts on a child line
+ */
+async function importBulkOperationResults(
+  url: string,
+  skipLines: number,
+  signal: AbortSignal
+): Promise<{ ordersCount: number; transactionsCount: number }> {
+  let ordersCount = 0
+  let transactionsCount = 0
+  let linesRead = 0
+  let batch: SyncOrderEdge[] = []
+  let current: SyncOrderEdge["node"] | null = null
+
+  const flush = async (linesImported: number) => {
+    if (batch.length === 0) return
+
+    const result = await processBatch(batch)
+    ordersCount += result.ordersCount
+    transactionsCount += result.transactionsCount
+    batch = []
+
+    signal.throwIfAborted()
+    await updateSyncState("orders", {
+      sync_status: "running",
+      bulk_objects_processed: linesImported,
+    })
+    console.log(
+      `✨ Imported ${linesImported} lines (Total: ${ordersCount}/${transactionsCount})`
+    )
+  }
+
+  for await (const line of readJsonlLines(url)) {
+    linesRead++
+    if (linesRead <= skipLines) continue
+
+    const object = JSON.parse(line)
+
+    if (object.__parentId) {
+      if (current) attachBulkChild(current, object)
+      continue
+    }
+
+    // A new order line means the previous order has all its children
+    if (current) {
+      batch.push({ node: current })
+      if (batch.length >= BATCH_SIZE) {
+        await flush(linesRead - 1)
+      }
+    }
+
+    // Line items are not part of the order line, start them empty
+    current = {
+      ...object,
+      lineItems: { edges: [], pageInfo: { hasNextPage: false } },
+    }
+  }
+
+  if (current) batch.push({ node: current })
+  await flush(linesRead)
+
+  return { ordersCount, transactionsCount }
+}
+
+/**
+ * Attach a line item line to the order it belongs to
+ */
+function attachBulkChild(order: SyncOrderEdge["node"], child: BulkChildLine) {
+  if (child.__parentId === order.id) {
+    order.lineItems.edges.push({ node: child })
+    return
+  }
+
+  console.warn(`⚠️ Bulk line ${child.id} does not belong to ${order.id}`)
+}
+
+/**
+ * Read a remote JSONL file line by line without buffering the whole file
+ */
+async function* readJsonlLines(url: string): AsyncGenerator<string> {
+  const response = await fetch(url, { cache: "no-store" })
+
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Failed to download bulk operation results: ${response.status}`
+    )
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+
+    for (const line of lines) {
+      if (line.trim()) yield line
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) yield buffer
+}
+
+/**
+ * Build the bulk query from the SyncOrders node selection so both paths stay in step
+ * Bulk operations return every nested connection item, so paging arguments and
+ * pageInfo are stripped from nested connections
+ */
+function buildBulkOrdersQuery(search: string): string {
+  const operation = SyncOrdersDocument.definitions[0]
+  if (operation.kind !== Kind.OPERATION_DEFINITION) {
+    throw new Error("SyncOrders document has no operation")
+  }
+
+  const orders = findField(operation.selectionSet, "orders")
+  const edges = findField(orders.selectionSet, "edges")
+  const node = findField(edges.selectionSet, "node")
+
+  const selection = visit(node.selectionSet!, {
+    Field(field) {
+      if (field.name.value === "pageInfo") return null
+
+      const isConnection = field.selectionSet?.selections.some(
+        (s) => s.kind === Kind.FIELD && s.name.value === "edges"
+      )
+      if (!isConnection) return undefined
+
+      return {
+        ...field,
+        arguments: field.arguments?.filter(
+          (argument) => !["first", "after"].includes(argument.name.value)
+        ),
+      }
+    },
+  })
+
+  return `{
+  orders(query: ${JSON.stringify(search)}, sortKey: CREATED_AT) {
+    edges {
+      node ${print(selection)}
+    }
+  }
+}`
+}
+
+function findField(
+  selectionSet: SelectionSetNode | undefined,
+  name: string
+): FieldNode {
+  const field = selectionSet?.selections.find(
+    (selection): selection is FieldNode =>
+      selection.kind === Kind.FIELD && selection.name.value === name
+  )
+
+  if (!field) {
+    throw new Error(`SyncOrders document is missing the ${name} field`)
+  }
+
+  return field
+}
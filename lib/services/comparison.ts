@@ -0,0 +1,83 @@
+/**
+ * Period-over-period comparison helpers shared by the analytics services
+ */
+
+export interface ComparisonPeriod {
+  from: string
+  to: string
+}
+
+export interface MetricDelta {
+  current: number
+  previous: number
+  change: number
+  // null when the previous value is zero
+  changePercent: number | null
+}
+
+/**
+ * The previous period's data for a report, with deltas for its totals
+ */
+export type PeriodComparison<T, K extends string> = T & {
+  dateRange: ComparisonPeriod
+  deltas: Record<K, MetricDelta>
+}
+
+export function getDelta(current: number, previous: number): MetricDelta {
+  return {
+    current,
+    previous,
+    change: current - previous,
+    changePercent:
+      previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+  }
+}
+
+/**
+ * Deltas for the given numeric fields of two periods' totals
+ */
+export function getDeltas<K extends string>(
+  current: Record<K, number>,
+  previous: Record<K, number>,
+  keys: readonly K[]
+): Record<K, MetricDelta> {
+  return Object.fromEntries(
+    keys.map((key) => [key, getDelta(current[key], previous[key])])
+  ) as Record<K, MetricDelta>
+}
+
+/**
+ * Deltas per row (e.g. per channel), matching rows on `rowKey`.
+ * Rows missing from one period count as zero in that period.
+ */
+export function getDeltasByRow<
+  R extends Record<K, number>,
+  K extends string,
+  RK extends keyof R,
+>(
+  current: R[],
+  previous: R[],
+  rowKey: RK,
+  keys: readonly K[]
+): Record<string, Record<K, MetricDelta>> {
+  const zero = Object.fromEntries(keys.map((key) => [key, 0])) as Record<
+    K,
+    number
+  >
+  const currentByKey = new Map(current.map((row) => [String(row[rowKey]), row]))
+  const previousByKey = new Map(
+    previous.map((row) => [String(row[rowKey]), row])
+  )
+  const rowKeys = new Set([...currentByKey.keys(), ...previousByKey.keys()])
+
+  return Object.fromEntries(
+    [...rowKeys].map((key) => [
+      key,
+      getDeltas(
+        currentByKey.get(key) || zero,
+        previousByKey.get(key) || zero,
+        keys
+      ),
+    ])
+  )
+}
@@ -0,0 +1,97 @@
+/**
+ * Daily Channel Metrics Rollup
+ *
+ * Keeps the daily_channel_metrics table in step with ingested orders.
+ * processBatch refreshes the store days each batch touched; a rebuild
+ * recomputes every day since the first synced order, e.g. after applying the
+ * migration to existing data or changing the store timezone.
+ */
+
+import { eachStoreDay, getStoreToday, toStoreDate } from "../date-range"
+import { getStoreTimezone } from "./get-store-timezone"
+import {
+  getFirstOrderCreatedAt,
+  refreshDailyChannelMetrics,
+} from "../supabase/operations"
+
+// Store days per refresh call, keeps each call well inside the statement timeout
+const DAYS_PER_REFRESH = 31
+
+export interface DailyMetricsRebuildResult {
+  success: boolean
+  daysRefreshed: number
+  rowsWritten: number
+  error?: string
+}
+
+/**
+ * Refresh the rollup for the store days the given timestamps fall on
+ */
+export async function refreshDailyMetrics(
+  timestamps: string[]
+): Promise<number> {
+  if (timestamps.length === 0) return 0
+
+  const timeZone = await getStoreTimezone()
+  const days = [
+    ...new Set(timestamps.map((timestamp) => toStoreDate(timestamp, timeZone))),
+  ].sort()
+
+  const rowsWritten = await refreshDays(days, timeZone)
+  console.log(
+    `📈 Refreshed daily metrics for ${days.length} days (${rowsWritten} rows)`
+  )
+  return rowsWritten
+}
+
+/**
+ * Recompute the rollup for every store day from the first synced order to today
+ */
+export async function rebuildDailyMetrics(): Promise<DailyMetricsRebuildResult> {
+  try {
+    const timeZone = await getStoreTimezone()
+    const firstOrderCreatedAt = await getFirstOrderCreatedAt()
+
+    if (!firstOrderCreatedAt) {
+      return { success: true, daysRefreshed: 0, rowsWritten: 0 }
+    }
+
+    const days = eachStoreDay(
+      toStoreDate(firstOrderCreatedAt, timeZone),
+      getStoreToday(timeZone)
+    )
+
+    console.log(
+      `🔄 Rebuilding daily metrics for ${days.length} days from ${days[0]} (${timeZone})`
+    )
+    const rowsWritten = await refreshDays(days, timeZone)
+    console.log(`✅ Daily metrics rebuilt: ${rowsWritten} rows`)
+
+    return { success: true, daysRefreshed: days.length, rowsWritten }
+  } catch (error) {
+    console.error("❌ Daily metrics rebuild failed:", error)
+    return {
+      success: false,
+      daysRefreshed: 0,
+      rowsWritten: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+async function refreshDays(days: string[], timeZone: string): Promise<number> {
+  let rowsWritten = 0
+
+  for (let i = 0; i < days.length; i += DAYS_PER_REFRESH) {
+    const rows = await refreshDailyChannelMetrics(
+      days.slice(i, i + DAYS_PER_REFRESH),
+      timeZone
+    )
+    if (rows === null) {
+      throw new Error("Failed to refresh daily channel metrics")
+    }
+    rowsWritten += rows
+  }
+
+  return rowsWritten
+}
@@ -0,0 +1,180 @@
+/**
+ * XLSX Export Writer
+ *
+ * Writes export tables as an XLSX workbook, one worksheet per table with a
+ * frozen header row. Rows are committed to the output stream as they are
+ * written, so the workbook is never held in memory as a whole. Paged tables
+ * are fetched while they are written, a page at a time.
+ */
+
+import { PassThrough, Readable } from "stream"
+import ExcelJS from "exceljs"
+import { TZDate } from "@date-fns/tz"
+import {
+  getRowCurrency,
+  type ExportColumn,
+  type ExportColumnType,
+  type ExportTable,
+} from "../export"
+
+// A table whose rows are fetched page by page as the worksheet is written
+export interface PagedExportTable<Row> {
+  name: string
+  columns: ExportColumn<Row>[]
+  pages: AsyncIterable<Row[]>
+}
+
+// A plain or paged table with its row type hidden, as in SomeExportTable. A
+// SomeExportTable is a SomeWorkbookTable too
+export type SomeWorkbookTable = <Result>(
+  open: <Row>(table: ExportTable<Row> | PagedExportTable<Row>) => Result
+) => Result
+
+const HEADER_FONT = { bold: true }
+
+// Number formats per column type, currency cells add the row's currency
+const NUMBER_FORMATS: Partial<Record<ExportColumnType, string>> = {
+  number: "#,##0.##",
+  percent: "0.0%",
+  date: "yyyy-mm-dd",
+  datetime: "yyyy-mm-dd hh:mm",
+}
+
+/**
+ * Stream the workbook for `tables`, with timestamps shown in the store timezone
+ */
+export function streamWorkbook(
+  tables: SomeWorkbookTable[],
+  timeZone: string
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough()
+
+  writeWorkbook(tables, timeZone, output).catch((error) => {
+    console.error("Error in streamWorkbook:", error)
+    output.destroy(error instanceof Error ? error : new Error(String(error)))
+  })
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>
+}
+
+/**
+ * Pair pages of rows with their columns, keeping the row type checked
+ */
+export function pagedExportTable<Row>(
+  name: string,
+  columns: ExportColumn<Row>[],
+  pages: AsyncIterable<Row[]>
+): SomeWorkbookTable {
+  const table: PagedExportTable<Row> = { name, columns, pages }
+  return (open) => open(table)
+}
+
+function toCellValue(
+  value: unknown,
+  type: ExportColumnType,
+  timeZone: string
+): ExcelJS.CellValue {
+  if (value === null || value === undefined || value === "") return null
+
+  switch (type) {
+    case "number":
+    case "currency":
+      return Number(value)
+    case "percent":
+      return Number(value) / 100
+    case "date":
+      return new Date(`${value}T00:00:00Z`)
+    case "datetime":
+      return toSheetDate(String(value), timeZone)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Excel dates carry no timezone, so write the store's wall-clock time
+ */
+function toSheetDate(timestamp: string, timeZone: string): Date {
+  const local = new TZDate(new Date(timestamp).getTime(), timeZone)
+  return new Date(
+    Date.UTC(
+      local.getFullYear(),
+      local.getMonth(),
+      local.getDate(),
+      local.getHours(),
+      local.getMinutes(),
+      local.getSeconds()
+    )
+  )
+}
+
+// Excel limits sheet names to 31 characters without []:*?/\
+function toSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31)
+}
+
+async function writeWorkbook(
+  tables: SomeWorkbookTable[],
+  timeZone: string,
+  output: PassThrough
+): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  })
+
+  // Worksheets are committed in turn so each one is flushed before the next
+  for (const open of tables) {
+    await open((table) => writeWorksheet(workbook, table, timeZone))
+  }
+
+  await workbook.commit()
+}
+
+async function writeWorksheet<Row>(
+  workbook: ExcelJS.stream.xlsx.WorkbookWriter,
+  table: ExportTable<Row> | PagedExportTable<Row>,
+  timeZone: string
+): Promise<void> {
+  const sheet = workbook.addWorksheet(toSheetName(table.name), {
+    views: [{ state: "frozen", ySplit: 1 }],
+  })
+
+  sheet.columns = table.columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(12, column.header.length + 2),
+    style: NUMBER_FORMATS[column.type]
+      ? { numFmt: NUMBER_FORMATS[column.type] }
+      : {},
+  }))
+  sheet.getRow(1).font = HEADER_FONT
+
+  const pages = "pages" in table ? table.pages : [table.rows]
+  for await (const rows of pages) {
+    rows.forEach((source) => {
+      const row = sheet.addRow(
+        Object.fromEntries(
+          table.columns.map((column) => [
+            column.key,
+            toCellValue(source[column.key], column.type, timeZone),
+          ])
+        )
+      )
+
+      const currency = getRowCurrency(source)
+      if (currency) {
+        table.columns.forEach((column) => {
+          if (column.type === "currency") {
+            row.getCell(column.key).numFmt = `#,##0.00 "${currency}"`
+          }
+        })
+      }
+
+      row.commit()
+    })
+  }
+
+  sheet.commit()
+}
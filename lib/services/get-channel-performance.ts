@@ -3,7 +3,19 @@
  * Analyzes    // Query all orders with paginationmer acquisition channels and their performance metrics
  */
 
-import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { fetchDailyOrders } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  getDeltasByRow,
+  type ComparisonPeriod,
+  type MetricDelta,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
 
 export interface ChannelPerformance {
   channel: string
@@ -26,70 +38,103 @@ export interface CustomerAcquisition {
     totalRevenue: number
     averageOrderValue: number
     currency: string
+    // Revenue per original currency
+    byCurrency: CurrencyTotal[]
+  }
+  comparison?: PeriodComparison<
+    Pick<CustomerAcquisition, "channels" | "totals">,
+    "totalOrders" | "totalRevenue" | "averageOrderValue"
+  > & {
+    // Keyed by channel
+    byChannel: Record<
+      string,
+      Record<"orders" | "revenue" | "averageOrderValue", MetricDelta>
+    >
   }
 }
 
+export const CHANNEL_PERFORMANCE_COLUMNS: ExportColumn<ChannelPerformance>[] = [
+  { key: "channel", header: "Channel", type: "text" },
+  { key: "orders", header: "Orders", type: "number" },
+  { key: "revenue", header: "Revenue", type: "currency" },
+  { key: "averageOrderValue", header: "Average Order Value", type: "currency" },
+  { key: "orderShare", header: "Share of Orders", type: "percent" },
+  { key: "revenueShare", header: "Share of Revenue", type: "percent" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const CHANNEL_PERFORMANCE_TOTALS_COLUMNS: ExportColumn<
+  CustomerAcquisition["totals"]
+>[] = [
+  { key: "totalOrders", header: "Orders", type: "number" },
+  { key: "totalRevenue", header: "Revenue", type: "currency" },
+  { key: "averageOrderValue", header: "Average Order Value", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get channel performance analysis from database
  * Analyzes customer acquisition channels and their effectiveness
  */
 export async function getChannelPerformance(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<CustomerAcquisition> {
-  try {
-    const supabase = await createClient()
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getChannelPerformance(fromDate, toDate, undefined, filters),
+      getChannelPerformance(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        channels: previous.channels,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, [
+          "totalOrders",
+          "totalRevenue",
+          "averageOrderValue",
+        ]),
+        byChannel: getDeltasByRow(
+          current.channels,
+          previous.channels,
+          "channel",
+          ["orders", "revenue", "averageOrderValue"]
+        ),
+      },
+    }
+  }
 
-    // Ensure we're querying with proper UTC timestamps
-    const fromDateUTC = fromDate.includes("T")
-      ? fromDate
-      : `${fromDate}T00:00:00.000Z`
-    const toDateUTC = toDate.includes("T") ? toDate : `${toDate}T23:59:59.999Z`
+  try {
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
 
     console.log("📊 Fetching channel performance for date range:", {
       from: fromDateUTC,
       to: toDateUTC,
     })
 
-    // Query orders with pagination
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allOrders: Array<{
-      total_amount: number
-      source_name: string | null
-      currency: string
-      created_at: string
-    }> = []
-
-    while (hasMore) {
-      const from = (page - 1) * pageSize
-      const to = from + pageSize - 1
-
-      const { data: orders, error } = await supabase
-        .from("orders")
-        .select("total_amount, source_name, currency, created_at")
-        .gte("created_at", fromDateUTC)
-        .lte("created_at", toDateUTC)
-        .range(from, to)
-        .order("created_at", { ascending: true })
-
-      if (error) {
-        console.error("❌ Database error fetching orders:", error)
-        throw new Error(`Database error: ${error.message}`)
-      }
-
-      if (!orders || orders.length === 0) {
-        hasMore = false
-        break
-      }
-
-      allOrders.push(...orders)
-      hasMore = orders.length === pageSize
-      page++
-    }
+    // Daily order totals per source aggregated in the database
+    const dailyOrders = await fetchDailyOrders(
+      fromDateUTC,
+      toDateUTC,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      dailyOrders.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
 
-    if (allOrders.length === 0) {
+    if (dailyOrders.length === 0) {
       return {
         dateRange: { from: fromDate, to: toDate },
         channels: [],
@@ -97,54 +142,65 @@ export async function getChannelPerformance(
           totalOrders: 0,
           totalRevenue: 0,
           averageOrderValue: 0,
-          currency: "USD",
+          currency: converter.currency,
+          byCurrency: [],
         },
       }
     }
 
-    // Group orders by channel
+    const currencyTotals: CurrencyTotal[] = []
+
+    // Sum the days into one group per channel
     const channelGroups = new Map<
       string,
       {
-        orders: typeof allOrders
+        orders: number
         revenue: number
       }
     >()
 
-    allOrders.forEach((order) => {
-      const channel = order.source_name || "Direct"
+    dailyOrders.forEach((row) => {
+      const channel = row.source_name || "Direct"
 
       if (!channelGroups.has(channel)) {
         channelGroups.set(channel, {
-          orders: [],
+          orders: 0,
           revenue: 0,
         })
       }
 
+      const revenue = converter.convert(
+        Number(row.total_value || 0),
+        row.currency,
+        row.day,
+        row.shop_total_value
+      )
       const group = channelGroups.get(channel)!
-      group.orders.push(order)
-      group.revenue += order.total_amount
+      group.orders += Number(row.order_count)
+      group.revenue += revenue
+
+      currencyTotals.push({
+        currency: row.currency,
+        amount: Number(row.total_value || 0),
+        convertedAmount: revenue,
+      })
     })
 
     // Calculate totals
-    const totalOrders = allOrders.length
-    const totalRevenue = allOrders.reduce(
-      (sum, order) => sum + order.total_amount,
-      0
-    )
+    const groups = Array.from(channelGroups.values())
+    const totalOrders = groups.reduce((sum, group) => sum + group.orders, 0)
+    const totalRevenue = groups.reduce((sum, group) => sum + group.revenue, 0)
     const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0
-    const currency = allOrders[0]?.currency || "USD"
+    const currency = converter.currency
 
     // Calculate channel performance
     const channels: ChannelPerformance[] = Array.from(channelGroups.entries())
       .map(([channel, group]) => ({
         channel,
-        orders: group.orders.length,
+        orders: group.orders,
         revenue: group.revenue,
-        averageOrderValue:
-          group.orders.length > 0 ? group.revenue / group.orders.length : 0,
-        orderShare:
-          totalOrders > 0 ? (group.orders.length / totalOrders) * 100 : 0,
+        averageOrderValue: group.orders > 0 ? group.revenue / group.orders : 0,
+        orderShare: totalOrders > 0 ? (group.orders / totalOrders) * 100 : 0,
         revenueShare:
           totalRevenue > 0 ? (group.revenue / totalRevenue) * 100 : 0,
         currency,
@@ -159,6 +215,7 @@ export async function getChannelPerformance(
         totalRevenue,
         averageOrderValue,
         currency,
+        byCurrency: sumByCurrency(currencyTotals),
       },
     }
   } catch (error) {
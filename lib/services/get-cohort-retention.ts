@@ -0,0 +1,325 @@
+/**
+ * Cohort Retention Analytics Service
+ *
+ * Groups customers by the month of their first order (and optionally by the
+ * channel of that first order), then tracks the cumulative repeat-purchase rate
+ * and revenue per customer for each month after acquisition. Report filters
+ * pick customers by their first order; their later orders all count.
+ */
+
+import { createClient } from "../supabase/server"
+import { getStoreToday, toStoreDate } from "../date-range"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import { matchesReportFilters, type ReportFilters } from "../report-filters"
+import {
+  differenceInCalendarMonths,
+  format,
+  parseISO,
+  startOfMonth,
+} from "date-fns"
+
+export interface CohortCell {
+  monthOffset: number
+  // Customers with a second order by the end of this month
+  repeatCustomers: number
+  repeatRate: number
+  // Revenue from all cohort orders up to the end of this month
+  cumulativeRevenue: number
+  revenuePerCustomer: number
+}
+
+export interface CohortRow {
+  cohort: string // yyyy-MM of the first order
+  channel: string | null // acquisition channel, null when not split by channel
+  customers: number
+  // One cell per month since acquisition, null for months that have not happened yet
+  cells: Array<CohortCell | null>
+}
+
+export interface CohortRetentionAnalytics {
+  dateRange: {
+    from: string
+    to: string
+  }
+  months: number
+  splitByChannel: boolean
+  cohorts: CohortRow[]
+  currency: string
+  // Cohort revenue per original currency
+  byCurrency: CurrencyTotal[]
+}
+
+// Customer IDs per .in() query, keeps the PostgREST URL short
+const CUSTOMER_CHUNK_SIZE = 200
+
+/**
+ * Get cohort retention for customers whose first order falls in the date range
+ *
+ * @param options.filters - Only include customers whose first order matches these
+ * @param options.splitByChannel - One cohort per first-order month and acquisition channel
+ * @param options.months - Months after acquisition to track (default 12)
+ */
+export async function getCohortRetention(
+  fromDate: string,
+  toDate: string,
+  options: {
+    splitByChannel?: boolean
+    months?: number
+    filters?: ReportFilters
+  } = {}
+): Promise<CohortRetentionAnalytics> {
+  const { splitByChannel = false, months = 12, filters = {} } = options
+
+  try {
+    const supabase = await createClient()
+
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
+
+    // Query customers acquired within date range with pagination
+    const pageSize = 1000
+    let page = 1
+    let hasMore = true
+    const customerIds: number[] = []
+
+    while (hasMore) {
+      const { data: pageData, error: customersError } = await supabase
+        .from("customers")
+        .select("id")
+        .gte("first_order_at", fromDateUTC)
+        .lte("first_order_at", toDateUTC)
+        .order("id")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (customersError) {
+        console.error("❌ Customers query error:", customersError)
+        throw new Error(`Customers query failed: ${customersError.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        customerIds.push(...pageData.map((c) => c.id))
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+
+    // Query every order of those customers, including later repeat orders
+    const allOrders: Array<{
+      customer_id: number
+      processed_at: string
+      total_amount: number
+      currency: string
+      channel: string
+      financial_status: string | null
+      payment_gateway_names: string[]
+      tags: string[]
+      shop_total_amount: number | null
+    }> = []
+
+    for (let i = 0; i < customerIds.length; i += CUSTOMER_CHUNK_SIZE) {
+      const chunk = customerIds.slice(i, i + CUSTOMER_CHUNK_SIZE)
+      page = 1
+      hasMore = true
+
+      while (hasMore) {
+        const { data: pageData, error: ordersError } = await supabase
+          .from("orders")
+          .select(
+            "customer_id, processed_at, total_amount, currency, channel, financial_status, payment_gateway_names, tags, shop_total_amount"
+          )
+          .in("customer_id", chunk)
+          .eq("test", false)
+          .is("cancelled_at", null)
+          .is("deleted_at", null)
+          .not("processed_at", "is", null)
+          .order("id")
+          .range((page - 1) * pageSize, page * pageSize - 1)
+
+        if (ordersError) {
+          console.error("❌ Orders query error:", ordersError)
+          throw new Error(`Orders query failed: ${ordersError.message}`)
+        }
+
+        if (pageData && pageData.length > 0) {
+          allOrders.push(...pageData)
+          hasMore = pageData.length === pageSize
+          page++
+        } else {
+          hasMore = false
+        }
+      }
+    }
+
+    // Group orders per customer, oldest first
+    const ordersByCustomer = new Map<number, typeof allOrders>()
+    allOrders.forEach((order) => {
+      if (!ordersByCustomer.has(order.customer_id)) {
+        ordersByCustomer.set(order.customer_id, [])
+      }
+      ordersByCustomer.get(order.customer_id)!.push(order)
+    })
+
+    // Months are counted in the store's timezone
+    const storeDate = (timestamp: string) =>
+      parseISO(toStoreDate(timestamp, timeZone))
+
+    // Repeat orders run past the period, so rates are needed up to today
+    const converter = await getCurrencyConverter(
+      allOrders.map((order) => order.currency),
+      fromDate,
+      getStoreToday(timeZone)
+    )
+
+    const currencyTotals: CurrencyTotal[] = []
+    const cohortMap = new Map<
+      string,
+      {
+        cohort: string
+        channel: string | null
+        customers: number
+        repeatCustomers: number[]
+        cumulativeRevenue: number[]
+      }
+    >()
+
+    ordersByCustomer.forEach((orders) => {
+      orders.sort(
+        (a, b) =>
+          parseISO(a.processed_at).getTime() -
+          parseISO(b.processed_at).getTime()
+      )
+
+      const firstOrder = orders[0]
+      const acquisitionChannel = firstOrder.channel
+
+      if (
+        !matchesReportFilters(
+          {
+            channel: firstOrder.channel,
+            financialStatus: firstOrder.financial_status,
+            gateways: firstOrder.payment_gateway_names,
+            currency: firstOrder.currency,
+            tags: firstOrder.tags,
+            total: Number(firstOrder.total_amount || 0),
+            shopTotal: firstOrder.shop_total_amount,
+          },
+          filters
+        )
+      ) {
+        return
+      }
+
+      const firstOrderDate = storeDate(firstOrder.processed_at)
+      const cohort = format(firstOrderDate, "yyyy-MM")
+      const key = splitByChannel ? `${cohort}|${acquisitionChannel}` : cohort
+
+      if (!cohortMap.has(key)) {
+        cohortMap.set(key, {
+          cohort,
+          channel: splitByChannel ? acquisitionChannel : null,
+          customers: 0,
+          repeatCustomers: new Array(months + 1).fill(0),
+          cumulativeRevenue: new Array(months + 1).fill(0),
+        })
+      }
+
+      const cohortData = cohortMap.get(key)!
+      cohortData.customers += 1
+
+      // Revenue lands in the month it was earned, cumulated below
+      orders.forEach((order) => {
+        const offset = differenceInCalendarMonths(
+          storeDate(order.processed_at),
+          firstOrderDate
+        )
+        if (offset <= months) {
+          const amount = Number(order.total_amount || 0)
+          const convertedAmount = converter.convert(
+            amount,
+            order.currency,
+            toStoreDate(order.processed_at, timeZone),
+            order.shop_total_amount
+          )
+          cohortData.cumulativeRevenue[offset] += convertedAmount
+          currencyTotals.push({
+            currency: order.currency,
+            amount,
+            convertedAmount,
+          })
+        }
+      })
+
+      // A repeat customer counts from the month of their second order
+      if (orders.length > 1) {
+        const repeatOffset = differenceInCalendarMonths(
+          storeDate(orders[1].processed_at),
+          firstOrderDate
+        )
+        if (repeatOffset <= months) {
+          cohortData.repeatCustomers[repeatOffset] += 1
+        }
+      }
+    })
+
+    const now = storeDate(new Date().toISOString())
+
+    const cohorts: CohortRow[] = Array.from(cohortMap.values()).map(
+      (cohortData) => {
+        const elapsedMonths = differenceInCalendarMonths(
+          now,
+          startOfMonth(parseISO(`${cohortData.cohort}-01`))
+        )
+
+        let repeatCustomers = 0
+        let cumulativeRevenue = 0
+
+        const cells = cohortData.repeatCustomers.map((repeats, offset) => {
+          if (offset > elapsedMonths) return null
+
+          repeatCustomers += repeats
+          cumulativeRevenue += cohortData.cumulativeRevenue[offset]
+
+          return {
+            monthOffset: offset,
+            repeatCustomers,
+            repeatRate: (repeatCustomers / cohortData.customers) * 100,
+            cumulativeRevenue,
+            revenuePerCustomer: cumulativeRevenue / cohortData.customers,
+          }
+        })
+
+        return {
+          cohort: cohortData.cohort,
+          channel: cohortData.channel,
+          customers: cohortData.customers,
+          cells,
+        }
+      }
+    )
+
+    // Oldest cohort first, then largest channel
+    cohorts.sort(
+      (a, b) => a.cohort.localeCompare(b.cohort) || b.customers - a.customers
+    )
+
+    return {
+      dateRange: { from: fromDate, to: toDate },
+      months,
+      splitByChannel,
+      cohorts,
+      currency: converter.currency,
+      byCurrency: sumByCurrency(currencyTotals),
+    }
+  } catch (error) {
+    console.error("Error in getCohortRetention:", error)
+    throw error
+  }
+}
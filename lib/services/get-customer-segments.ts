@@ -0,0 +1,587 @@
+/**
+ * Customer Segmentation Analytics Service
+ *
+ * Scores every customer with an order in the date range on recency, frequency
+ * and monetary value (net of refunds, from successful transactions), assigns an
+ * RFM segment and estimates historical and projected lifetime value per
+ * acquisition channel. Lifetime value covers every order a customer placed up
+ * to the end of the range, not only the orders inside it.
+ */
+
+import { createClient } from "../supabase/server"
+import { toStoreDate } from "../date-range"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import { applyOrderFilters } from "../supabase/order-filters"
+import type { ReportFilters } from "../report-filters"
+import { differenceInCalendarDays, parseISO } from "date-fns"
+
+export type RfmSegment =
+  | "champions"
+  | "loyal"
+  | "potential_loyalists"
+  | "new"
+  | "needs_attention"
+  | "at_risk"
+  | "lapsed"
+
+export const RFM_SEGMENTS: Record<
+  RfmSegment,
+  { label: string; description: string }
+> = {
+  champions: {
+    label: "Champions",
+    description: "Ordered recently and often",
+  },
+  loyal: {
+    label: "Loyal",
+    description: "Order often, not quite as recently",
+  },
+  potential_loyalists: {
+    label: "Potential Loyalists",
+    description: "Recent repeat customers with a few orders",
+  },
+  new: {
+    label: "New",
+    description: "Recent first-time customers",
+  },
+  needs_attention: {
+    label: "Needs Attention",
+    description: "Average recency and frequency",
+  },
+  at_risk: {
+    label: "At Risk",
+    description: "Used to order often, nothing recently",
+  },
+  lapsed: {
+    label: "Lapsed",
+    description: "Few orders, none recently",
+  },
+}
+
+export interface CustomerRfm {
+  customerId: number
+  shopifyCustomerId: string
+  acquisitionChannel: string
+  lastOrderAt: string
+  recencyDays: number
+  frequency: number
+  monetary: number
+  recencyScore: number
+  frequencyScore: number
+  monetaryScore: number
+  segment: RfmSegment
+}
+
+export interface RfmSegmentSummary {
+  segment: RfmSegment
+  label: string
+  description: string
+  customers: number
+  customerShare: number
+  revenue: number
+  revenueShare: number
+  averageRecencyDays: number
+  averageOrders: number
+}
+
+export interface ChannelLifetimeValue {
+  channel: string
+  customers: number
+  orders: number
+  revenue: number
+  averageOrderValue: number
+  // Net revenue per customer across all their orders up to the end of the range
+  historicalLtv: number
+  // Historical LTV plus the expected value of the next PROJECTION_MONTHS
+  projectedLtv: number
+}
+
+export interface CustomerSegmentsAnalytics {
+  dateRange: {
+    from: string
+    to: string
+  }
+  projectionMonths: number
+  segments: RfmSegmentSummary[]
+  channels: ChannelLifetimeValue[]
+  customers: CustomerRfm[]
+  totals: {
+    customers: number
+    revenue: number
+    currency: string
+    // Net revenue per original currency
+    byCurrency: CurrencyTotal[]
+  }
+}
+
+// Order IDs per .in() query, keeps the PostgREST URL short
+const ORDER_CHUNK_SIZE = 200
+
+// How far ahead projected LTV looks
+const PROJECTION_MONTHS = 12
+
+/**
+ * Score values 1-5 by the share of customers with a strictly lower value,
+ * so ties (e.g. everyone with a single order) share a score
+ */
+function quintileScores(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b)
+
+  return values.map((value) => {
+    let low = 0
+    let high = sorted.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (sorted[mid] < value) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+    return 1 + Math.min(4, Math.floor((low / sorted.length) * 5))
+  })
+}
+
+function segmentFor(
+  recencyScore: number,
+  frequencyScore: number,
+  orders: number
+): RfmSegment {
+  if (recencyScore >= 4 && orders === 1) return "new"
+  if (recencyScore >= 4 && frequencyScore >= 4) return "champions"
+  if (recencyScore >= 3 && frequencyScore >= 4) return "loyal"
+  if (recencyScore >= 4) return "potential_loyalists"
+  if (recencyScore <= 2 && frequencyScore >= 3) return "at_risk"
+  if (recencyScore <= 2) return "lapsed"
+  return "needs_attention"
+}
+
+/**
+ * Get RFM segments and lifetime value per acquisition channel from database
+ *
+ * Recency is measured from the end of the date range. The acquisition channel
+ * is the channel of the customer's first order, as in the cohort report, even
+ * when that order falls before the range.
+ */
+export async function getCustomerSegments(
+  fromDate: string,
+  toDate: string,
+  filters: ReportFilters = {}
+): Promise<CustomerSegmentsAnalytics> {
+  try {
+    const supabase = await createClient()
+
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
+
+    // Query customer orders in range with pagination
+    const pageSize = 1000
+    let page = 1
+    let hasMore = true
+    const allOrders: Array<{
+      id: number
+      customer_id: number
+      processed_at: string
+      currency: string
+      source_name: string | null
+      channel_display_name: string | null
+    }> = []
+
+    while (hasMore) {
+      const { data: pageData, error: ordersError } = await applyOrderFilters(
+        supabase
+          .from("orders")
+          .select(
+            "id, customer_id, processed_at, currency, source_name, channel_display_name"
+          )
+          .gte("processed_at", fromDateUTC)
+          .lte("processed_at", toDateUTC)
+          .eq("test", false)
+          .is("cancelled_at", null)
+          .is("deleted_at", null)
+          .not("customer_id", "is", null),
+        filters
+      )
+        .order("processed_at")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (ordersError) {
+        console.error("❌ Orders query error:", ordersError)
+        throw new Error(`Orders query failed: ${ordersError.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        allOrders.push(...pageData)
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+
+    // Every order of those customers up to the end of the range, for their
+    // acquisition channel and lifetime value
+    const rangeCustomerIds = [
+      ...new Set(allOrders.map((order) => order.customer_id)),
+    ]
+    const lifetimeOrders: typeof allOrders = []
+
+    for (let i = 0; i < rangeCustomerIds.length; i += ORDER_CHUNK_SIZE) {
+      const chunk = rangeCustomerIds.slice(i, i + ORDER_CHUNK_SIZE)
+      page = 1
+      hasMore = true
+
+      while (hasMore) {
+        const { data: pageData, error: ordersError } = await supabase
+          .from("orders")
+          .select(
+            "id, customer_id, processed_at, currency, source_name, channel_display_name"
+          )
+          .in("customer_id", chunk)
+          .lte("processed_at", toDateUTC)
+          .eq("test", false)
+          .is("cancelled_at", null)
+          .is("deleted_at", null)
+          .order("id")
+          .range((page - 1) * pageSize, page * pageSize - 1)
+
+        if (ordersError) {
+          console.error("❌ Orders query error:", ordersError)
+          throw new Error(`Orders query failed: ${ordersError.message}`)
+        }
+
+        if (pageData && pageData.length > 0) {
+          lifetimeOrders.push(...pageData)
+          hasMore = pageData.length === pageSize
+          page++
+        } else {
+          hasMore = false
+        }
+      }
+    }
+
+    // Net amount per order from successful transactions, refunds subtracted
+    const orderIds = lifetimeOrders.map((order) => order.id)
+    const netByOrder = new Map<number, number>()
+    // The same in the shop currency, null once a transaction has no shop money
+    const shopNetByOrder = new Map<number, number | null>()
+
+    for (let i = 0; i < orderIds.length; i += ORDER_CHUNK_SIZE) {
+      const chunk = orderIds.slice(i, i + ORDER_CHUNK_SIZE)
+      page = 1
+      hasMore = true
+
+      while (hasMore) {
+        const { data: pageData, error: transactionsError } = await supabase
+          .from("transactions")
+          .select("order_id, kind, amount, shop_amount")
+          .in("order_id", chunk)
+          .eq("status", "success")
+          .order("id")
+          .range((page - 1) * pageSize, page * pageSize - 1)
+
+        if (transactionsError) {
+          console.error("❌ Transactions query error:", transactionsError)
+          throw new Error(
+            `Transactions query failed: ${transactionsError.message}`
+          )
+        }
+
+        if (pageData && pageData.length > 0) {
+          pageData.forEach((transaction) => {
+            const kind = transaction.kind?.toLowerCase()
+            const amount = Number(transaction.amount || 0)
+            const net = netByOrder.get(transaction.order_id) || 0
+            const shopNet = shopNetByOrder.get(transaction.order_id)
+            const shopAmount =
+              transaction.shop_amount === null || shopNet === null
+                ? null
+                : Number(transaction.shop_amount)
+
+            if (kind === "sale" || kind === "capture") {
+              netByOrder.set(transaction.order_id, net + amount)
+              shopNetByOrder.set(
+                transaction.order_id,
+                shopAmount === null ? null : (shopNet || 0) + shopAmount
+              )
+            } else if (kind === "refund" || kind === "change") {
+              netByOrder.set(transaction.order_id, net - Math.abs(amount))
+              shopNetByOrder.set(
+                transaction.order_id,
+                shopAmount === null
+                  ? null
+                  : (shopNet || 0) - Math.abs(shopAmount)
+              )
+            }
+          })
+          hasMore = pageData.length === pageSize
+          page++
+        } else {
+          hasMore = false
+        }
+      }
+    }
+
+    // Order nets convert at the rate of the order's store day, lifetime
+    // orders go back to each customer's first order
+    const firstOrderAt = lifetimeOrders.reduce(
+      (first, order) =>
+        parseISO(order.processed_at) < parseISO(first)
+          ? order.processed_at
+          : first,
+      fromDateUTC
+    )
+    const converter = await getCurrencyConverter(
+      lifetimeOrders.map((order) => order.currency),
+      toStoreDate(firstOrderAt, timeZone),
+      toDate
+    )
+    const convertNet = (order: (typeof allOrders)[number]) =>
+      converter.convert(
+        netByOrder.get(order.id) || 0,
+        order.currency,
+        toStoreDate(order.processed_at, timeZone),
+        shopNetByOrder.get(order.id)
+      )
+
+    // Aggregate range orders per customer (orders are sorted oldest first)
+    const customerMap = new Map<
+      number,
+      {
+        lastOrderAt: string
+        frequency: number
+        monetary: number
+      }
+    >()
+
+    const currencyTotals: CurrencyTotal[] = []
+
+    allOrders.forEach((order) => {
+      const net = convertNet(order)
+      currencyTotals.push({
+        currency: order.currency,
+        amount: netByOrder.get(order.id) || 0,
+        convertedAmount: net,
+      })
+      const existing = customerMap.get(order.customer_id)
+
+      if (existing) {
+        existing.lastOrderAt = order.processed_at
+        existing.frequency += 1
+        existing.monetary += net
+      } else {
+        customerMap.set(order.customer_id, {
+          lastOrderAt: order.processed_at,
+          frequency: 1,
+          monetary: net,
+        })
+      }
+    })
+
+    // Aggregate every order per customer, oldest first, for lifetime value
+    const lifetimeMap = new Map<
+      number,
+      {
+        acquisitionChannel: string
+        firstOrderAt: string
+        orders: number
+        revenue: number
+      }
+    >()
+
+    lifetimeOrders
+      .sort(
+        (a, b) =>
+          parseISO(a.processed_at).getTime() -
+          parseISO(b.processed_at).getTime()
+      )
+      .forEach((order) => {
+        const net = convertNet(order)
+        const existing = lifetimeMap.get(order.customer_id)
+
+        if (existing) {
+          existing.orders += 1
+          existing.revenue += net
+        } else {
+          lifetimeMap.set(order.customer_id, {
+            // Use channel display name with fallback to source name
+            acquisitionChannel:
+              order.channel_display_name || order.source_name || "Unknown",
+            firstOrderAt: order.processed_at,
+            orders: 1,
+            revenue: net,
+          })
+        }
+      })
+
+    // Shopify IDs are what the CRM export needs
+    const customerIds = [...customerMap.keys()]
+    const shopifyIdMap = new Map<number, string>()
+
+    for (let i = 0; i < customerIds.length; i += ORDER_CHUNK_SIZE) {
+      const chunk = customerIds.slice(i, i + ORDER_CHUNK_SIZE)
+
+      const { data: customers, error: customersError } = await supabase
+        .from("customers")
+        .select("id, shopify_customer_id")
+        .in("id", chunk)
+
+      if (customersError) {
+        console.error("❌ Customers query error:", customersError)
+        throw new Error(`Customers query failed: ${customersError.message}`)
+      }
+
+      customers?.forEach((customer) =>
+        shopifyIdMap.set(customer.id, customer.shopify_customer_id)
+      )
+    }
+
+    // Score recency, frequency and monetary value across all customers
+    // Days are counted in the store's timezone
+    const storeDate = (timestamp: string) =>
+      parseISO(toStoreDate(timestamp, timeZone))
+    const asOf = storeDate(toDateUTC)
+    const entries = [...customerMap.entries()]
+    const recencyDays = entries.map(([, c]) =>
+      differenceInCalendarDays(asOf, storeDate(c.lastOrderAt))
+    )
+    // Negated so that more recent customers score higher
+    const recencyScores = quintileScores(recencyDays.map((days) => -days))
+    const frequencyScores = quintileScores(entries.map(([, c]) => c.frequency))
+    const monetaryScores = quintileScores(entries.map(([, c]) => c.monetary))
+
+    const customers: CustomerRfm[] = entries.map(([customerId, c], i) => ({
+      customerId,
+      shopifyCustomerId: shopifyIdMap.get(customerId) || "",
+      acquisitionChannel:
+        lifetimeMap.get(customerId)?.acquisitionChannel || "Unknown",
+      lastOrderAt: c.lastOrderAt,
+      recencyDays: recencyDays[i],
+      frequency: c.frequency,
+      monetary: c.monetary,
+      recencyScore: recencyScores[i],
+      frequencyScore: frequencyScores[i],
+      monetaryScore: monetaryScores[i],
+      segment: segmentFor(recencyScores[i], frequencyScores[i], c.frequency),
+    }))
+
+    const totalRevenue = customers.reduce((sum, c) => sum + c.monetary, 0)
+
+    // Segment sizes and revenue share
+    const segments: RfmSegmentSummary[] = (
+      Object.keys(RFM_SEGMENTS) as RfmSegment[]
+    ).map((segment) => {
+      const members = customers.filter((c) => c.segment === segment)
+      const revenue = members.reduce((sum, c) => sum + c.monetary, 0)
+
+      return {
+        segment,
+        ...RFM_SEGMENTS[segment],
+        customers: members.length,
+        customerShare:
+          customers.length > 0 ? (members.length / customers.length) * 100 : 0,
+        revenue,
+        revenueShare: totalRevenue !== 0 ? (revenue / totalRevenue) * 100 : 0,
+        averageRecencyDays:
+          members.length > 0
+            ? members.reduce((sum, c) => sum + c.recencyDays, 0) /
+              members.length
+            : 0,
+        averageOrders:
+          members.length > 0
+            ? members.reduce((sum, c) => sum + c.frequency, 0) / members.length
+            : 0,
+      }
+    })
+
+    // Lifetime value per acquisition channel
+    const channelMap = new Map<
+      string,
+      {
+        customers: number
+        orders: number
+        revenue: number
+        activeCustomers: number
+        // Months each customer has been observed, for the repeat order rate
+        tenureMonths: number
+      }
+    >()
+
+    customers.forEach((customer) => {
+      const lifetime = lifetimeMap.get(customer.customerId)!
+      const tenureDays = differenceInCalendarDays(
+        asOf,
+        storeDate(lifetime.firstOrderAt)
+      )
+      const channelData = channelMap.get(customer.acquisitionChannel) || {
+        customers: 0,
+        orders: 0,
+        revenue: 0,
+        activeCustomers: 0,
+        tenureMonths: 0,
+      }
+
+      channelData.customers += 1
+      channelData.orders += lifetime.orders
+      channelData.revenue += lifetime.revenue
+      channelData.tenureMonths += Math.max(tenureDays, 1) / 30.44
+      if (customer.segment !== "lapsed" && customer.segment !== "at_risk") {
+        channelData.activeCustomers += 1
+      }
+      channelMap.set(customer.acquisitionChannel, channelData)
+    })
+
+    // Projection: repeat orders per customer-month, applied to the share of
+    // customers still active, valued at the channel's average order value
+    const channels: ChannelLifetimeValue[] = Array.from(channelMap.entries())
+      .map(([channel, data]) => {
+        const averageOrderValue =
+          data.orders > 0 ? data.revenue / data.orders : 0
+        const historicalLtv = data.revenue / data.customers
+        const repeatOrdersPerMonth =
+          data.tenureMonths > 0
+            ? (data.orders - data.customers) / data.tenureMonths
+            : 0
+        const activeShare = data.activeCustomers / data.customers
+
+        return {
+          channel,
+          customers: data.customers,
+          orders: data.orders,
+          revenue: data.revenue,
+          averageOrderValue,
+          historicalLtv,
+          projectedLtv:
+            historicalLtv +
+            averageOrderValue *
+              repeatOrdersPerMonth *
+              PROJECTION_MONTHS *
+              activeShare,
+        }
+      })
+      .sort((a, b) => b.revenue - a.revenue)
+
+    return {
+      dateRange: { from: fromDate, to: toDate },
+      projectionMonths: PROJECTION_MONTHS,
+      segments,
+      channels,
+      customers,
+      totals: {
+        customers: customers.length,
+        revenue: totalRevenue,
+        currency: converter.currency,
+        byCurrency: sumByCurrency(currencyTotals),
+      },
+    }
+  } catch (error) {
+    console.error("Error in getCustomerSegments:", error)
+    throw error
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Customer Summary Analytics Service
+ *
+ * Unique, new and returning customers for orders processed in the date range.
+ * A customer is returning when their first synced order falls before the range,
+ * or when Shopify's lifetime order count is higher than the orders synced for
+ * them - the missing orders predate the synced history, so before the range.
+ * Everyone else is new.
+ */
+
+import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { applyOrderFilters } from "../supabase/order-filters"
+import type { ReportFilters } from "../report-filters"
+
+export interface CustomerSummary {
+  dateRange: {
+    from: string
+    to: string
+  }
+  uniqueCustomers: number
+  newCustomers: number
+  returningCustomers: number
+  // Share of unique customers who had ordered before the range, as a percentage
+  returningCustomerRate: number
+  // Orders placed without a customer account
+  guestOrders: number
+}
+
+// Customer IDs per .in() query, keeps the PostgREST URL short
+const CUSTOMER_CHUNK_SIZE = 200
+
+/**
+ * Get unique, new and returning customer counts from database
+ */
+export async function getCustomerSummary(
+  fromDate: string,
+  toDate: string,
+  filters: ReportFilters = {}
+): Promise<CustomerSummary> {
+  try {
+    const supabase = await createClient()
+
+    // Store-day boundaries as UTC timestamps
+    const { fromUTC: fromDateUTC, toUTC: toDateUTC } = await getStoreDateBounds(
+      fromDate,
+      toDate
+    )
+
+    // Query orders in range with pagination
+    const pageSize = 1000
+    let page = 1
+    let hasMore = true
+    const allOrders: Array<{ customer_id: number | null }> = []
+
+    while (hasMore) {
+      const { data: pageData, error: ordersError } = await applyOrderFilters(
+        supabase
+          .from("orders")
+          .select("customer_id")
+          .gte("processed_at", fromDateUTC)
+          .lte("processed_at", toDateUTC)
+          .eq("test", false)
+          .is("cancelled_at", null)
+          .is("deleted_at", null),
+        filters
+      )
+        .order("processed_at")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (ordersError) {
+        console.error("❌ Orders query error:", ordersError)
+        throw new Error(`Orders query failed: ${ordersError.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        allOrders.push(...pageData)
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+
+    const customerIds = [
+      ...new Set(
+        allOrders
+          .map((order) => order.customer_id)
+          .filter((id): id is number => id !== null)
+      ),
+    ]
+    const guestOrders = allOrders.filter((o) => o.customer_id === null).length
+
+    // Look up when each customer first ordered
+    let newCustomers = 0
+    let returningCustomers = 0
+
+    for (let i = 0; i < customerIds.length; i += CUSTOMER_CHUNK_SIZE) {
+      const chunk = customerIds.slice(i, i + CUSTOMER_CHUNK_SIZE)
+
+      const { data: customers, error: customersError } = await supabase
+        .from("customers")
+        .select("id, first_order_at, orders_count")
+        .in("id", chunk)
+
+      if (customersError) {
+        console.error("❌ Customers query error:", customersError)
+        throw new Error(`Customers query failed: ${customersError.message}`)
+      }
+
+      const syncedOrders = await countSyncedOrders(chunk)
+
+      for (const customer of customers || []) {
+        const hasEarlierOrders =
+          customer.orders_count > (syncedOrders.get(customer.id) || 0)
+
+        if (
+          hasEarlierOrders ||
+          (customer.first_order_at &&
+            new Date(customer.first_order_at) < new Date(fromDateUTC))
+        ) {
+          returningCustomers++
+        } else {
+          newCustomers++
+        }
+      }
+    }
+
+    const uniqueCustomers = customerIds.length
+
+    return {
+      dateRange: { from: fromDate, to: toDate },
+      uniqueCustomers,
+      newCustomers,
+      returningCustomers,
+      returningCustomerRate:
+        uniqueCustomers > 0 ? (returningCustomers / uniqueCustomers) * 100 : 0,
+      guestOrders,
+    }
+  } catch (error) {
+    console.error("Error in getCustomerSummary:", error)
+    throw error
+  }
+}
+
+/**
+ * Synced orders per customer, counted like Shopify's numberOfOrders - test
+ * orders are never synced and deleted orders no longer count
+ */
+async function countSyncedOrders(
+  customerIds: number[]
+): Promise<Map<number, number>> {
+  const supabase = await createClient()
+  const counts = new Map<number, number>()
+  const pageSize = 1000
+  let page = 1
+  let hasMore = true
+
+  while (hasMore) {
+    const { data: pageData, error } = await supabase
+      .from("orders")
+      .select("customer_id")
+      .in("customer_id", customerIds)
+      .is("deleted_at", null)
+      .order("id")
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (error) {
+      console.error("❌ Customer orders query error:", error)
+      throw new Error(`Customer orders query failed: ${error.message}`)
+    }
+
+    for (const order of pageData || []) {
+      counts.set(order.customer_id, (counts.get(order.customer_id) || 0) + 1)
+    }
+
+    if (pageData && pageData.length > 0) {
+      hasMore = pageData.length === pageSize
+      page++
+    } else {
+      hasMore = false
+    }
+  }
+
+  return counts
+}
@@ -6,7 +6,18 @@
  */
 
 import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import {
+  getCurrencyConverter,
+  getReportingCurrency,
+} from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import { toStoreDate } from "../date-range"
+import { applyOrderFilters } from "../supabase/order-filters"
+import type { ReportFilters } from "../report-filters"
 import type { DatabaseTransaction } from "../supabase/types"
+import type { ExportColumn } from "../export"
+import { pagedExportTable, type SomeWorkbookTable } from "./export-workbook"
 
 export interface IndividualOrderData {
   // Order information
@@ -27,6 +38,9 @@ export interface IndividualOrderData {
   total_shipping_amount: number
   currency: string
   test: boolean
+  // Set when the order was cancelled in Shopify
+  cancelled_at: string | null
+  cancel_reason: string | null
 
   // Transaction summary
   transactions: {
@@ -62,6 +76,8 @@ export interface IndividualOrdersResponse {
     totalRefunds: number
     totalNet: number
     currency: string
+    // Net amounts per original currency
+    byCurrency: CurrencyTotal[]
   }
 }
 
@@ -73,15 +89,18 @@ export async function getIndividualOrders(
   fromDate: string,
   toDate: string,
   page: number = 1,
-  pageSize: number = 50
+  pageSize: number = 50,
+  filters: ReportFilters = {}
 ): Promise<IndividualOrdersResponse> {
   try {
     const supabase = await createClient()
 
-    // Adjust toDate to include entire day (following get-sales-by-channel pattern)
-    const toDateEndOfDay = toDate.includes("T")
-      ? toDate
-      : `${toDate}T23:59:59.999Z`
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
 
     // Query transactions within date range with pagination to get ALL transactions
     const transactionPageSize = 1000
@@ -94,6 +113,7 @@ export async function getIndividualOrders(
       | "status"
       | "amount"
       | "currency"
+      | "shop_amount"
       | "processed_at"
       | "created_at"
       | "gateway"
@@ -102,29 +122,37 @@ export async function getIndividualOrders(
     >[] = []
 
     while (hasMoreTransactions) {
-      const { data: pageData, error: transactionsError } = await supabase
-        .from("transactions")
-        .select(
-          `
+      // The inner join to orders lets the report filters apply to transactions
+      const { data: pageData, error: transactionsError } =
+        await applyOrderFilters(
+          supabase
+            .from("transactions")
+            .select(
+              `
           order_id,
           kind,
           status,
           amount,
           currency,
+          shop_amount,
           processed_at,
           created_at,
           gateway,
           id,
-          shopify_transaction_id
+          shopify_transaction_id,
+          orders!inner(id)
         `
+            )
+            .gte("processed_at", fromDateUTC)
+            .lte("processed_at", toDateUTC),
+          filters,
+          "orders"
         )
-        .gte("processed_at", fromDate)
-        .lte("processed_at", toDateEndOfDay)
-        .order("processed_at", { ascending: false })
-        .range(
-          (transactionPage - 1) * transactionPageSize,
-          transactionPage * transactionPageSize - 1
-        )
+          .order("processed_at", { ascending: false })
+          .range(
+            (transactionPage - 1) * transactionPageSize,
+            transactionPage * transactionPageSize - 1
+          )
 
       if (transactionsError) {
         console.error("❌ Transactions query error:", transactionsError)
@@ -156,7 +184,8 @@ export async function getIndividualOrders(
           totalSales: 0,
           totalRefunds: 0,
           totalNet: 0,
-          currency: "USD",
+          currency: await getReportingCurrency(),
+          byCurrency: [],
         },
       }
     }
@@ -197,11 +226,14 @@ export async function getIndividualOrders(
         total_discounts_amount,
         total_shipping_amount,
         currency,
-        test
+        test,
+        cancelled_at,
+        cancel_reason
       `
       )
       .in("id", paginatedOrderIds)
       .eq("test", false)
+      .is("deleted_at", null)
       .order("processed_at", { ascending: false })
 
     if (ordersError) {
@@ -223,7 +255,8 @@ export async function getIndividualOrders(
           totalSales: 0,
           totalRefunds: 0,
           totalNet: 0,
-          currency: "USD",
+          currency: await getReportingCurrency(),
+          byCurrency: [],
         },
       }
     }
@@ -275,34 +308,19 @@ export async function getIndividualOrders(
       }
     })
 
-    // Calculate summary metrics from ALL orders in date range, not just current page
-    // Query orders in chunks to avoid query size limits
-    const chunkSize = 1000
-    const allOrdersForSummary = []
-
-    for (let i = 0; i < orderIds.length; i += chunkSize) {
-      const chunk = orderIds.slice(i, i + chunkSize)
-
-      const { data: chunkData, error: chunkError } = await supabase
-        .from("orders")
-        .select(
-          `
-          id,
-          currency
-        `
-        )
-        .in("id", chunk)
-        .eq("test", false)
-
-      if (chunkError) {
-        console.error("❌ Orders chunk query error:", chunkError)
-        throw new Error(`Orders chunk query failed: ${chunkError.message}`)
-      }
-
-      if (chunkData) {
-        allOrdersForSummary.push(...chunkData)
-      }
-    }
+    // Summary totals convert at the rate of each transaction's store day
+    const converter = await getCurrencyConverter(
+      allTransactions.map((t) => t.currency),
+      fromDate,
+      toDate
+    )
+    const convertedAmount = (t: (typeof allTransactions)[number]) =>
+      converter.convert(
+        t.amount,
+        t.currency,
+        toStoreDate(t.processed_at, timeZone),
+        t.shop_amount
+      )
 
     // Calculate summary from all transactions in date range
     const allSalesTransactions = allTransactions.filter(
@@ -319,11 +337,11 @@ export async function getIndividualOrders(
     )
 
     const totalSalesAmount = allSalesTransactions.reduce(
-      (sum, t) => sum + t.amount,
+      (sum, t) => sum + convertedAmount(t),
       0
     )
     const totalRefundsAmount = allRefundTransactions.reduce(
-      (sum, t) => sum + t.amount,
+      (sum, t) => sum + convertedAmount(t),
       0
     )
 
@@ -332,8 +350,19 @@ export async function getIndividualOrders(
       totalSales: totalSalesAmount,
       totalRefunds: totalRefundsAmount,
       totalNet: totalSalesAmount - totalRefundsAmount,
-      currency:
-        allOrdersForSummary[0]?.currency || orders[0]?.currency || "USD",
+      currency: converter.currency,
+      byCurrency: sumByCurrency([
+        ...allSalesTransactions.map((t) => ({
+          currency: t.currency,
+          amount: t.amount,
+          convertedAmount: convertedAmount(t),
+        })),
+        ...allRefundTransactions.map((t) => ({
+          currency: t.currency,
+          amount: -t.amount,
+          convertedAmount: -convertedAmount(t),
+        })),
+      ]),
     }
 
     return {
@@ -352,99 +381,59 @@ export async function getIndividualOrders(
   }
 }
 
+// Orders per page of the export
+const EXPORT_PAGE_SIZE = 500
+
 /**
  * Get ALL individual orders for export (no pagination)
- * Separate function to ensure we get all orders regardless of count
+ * Collects every page of getIndividualOrderPagesForExport
  */
 export async function getAllIndividualOrdersForExport(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  filters: ReportFilters = {}
 ): Promise<IndividualOrderData[]> {
-  try {
-    const supabase = await createClient()
-
-    // Adjust toDate to include entire day
-    const toDateEndOfDay = toDate.includes("T")
-      ? toDate
-      : `${toDate}T23:59:59.999Z`
-
-    // Query transactions within date range with pagination to get ALL transactions
-    const transactionPageSize = 1000
-    let transactionPage = 1
-    let hasMoreTransactions = true
-    const allTransactions: Pick<
-      DatabaseTransaction,
-      | "order_id"
-      | "kind"
-      | "status"
-      | "amount"
-      | "currency"
-      | "processed_at"
-      | "created_at"
-      | "gateway"
-      | "id"
-      | "shopify_transaction_id"
-    >[] = []
-
-    while (hasMoreTransactions) {
-      const { data: pageData, error: transactionsError } = await supabase
-        .from("transactions")
-        .select(
-          `
-          order_id,
-          kind,
-          status,
-          amount,
-          currency,
-          processed_at,
-          created_at,
-          gateway,
-          id,
-          shopify_transaction_id
-        `
-        )
-        .gte("processed_at", fromDate)
-        .lte("processed_at", toDateEndOfDay)
-        .order("processed_at", { ascending: false })
-        .range(
-          (transactionPage - 1) * transactionPageSize,
-          transactionPage * transactionPageSize - 1
-        )
-
-      if (transactionsError) {
-        console.error("❌ Transactions query error:", transactionsError)
-        throw new Error(
-          `Transactions query failed: ${transactionsError.message}`
-        )
-      }
-
-      if (pageData && pageData.length > 0) {
-        allTransactions.push(...pageData)
-        hasMoreTransactions = pageData.length === transactionPageSize
-        transactionPage++
-      } else {
-        hasMoreTransactions = false
-      }
-    }
+  const allOrders: IndividualOrderData[] = []
+
+  for await (const page of getIndividualOrderPagesForExport(
+    fromDate,
+    toDate,
+    filters
+  )) {
+    allOrders.push(...page)
+  }
 
-    if (allTransactions.length === 0) {
-      return []
-    }
+  return allOrders
+}
 
-    // Get ALL unique order IDs from transactions
-    const orderIds = [...new Set(allTransactions.map((t) => t.order_id))]
+/**
+ * Orders with transactions processed within the date range, newest first, a
+ * page at a time so exports can write each page before fetching the next
+ */
+export async function* getIndividualOrderPagesForExport(
+  fromDate: string,
+  toDate: string,
+  filters: ReportFilters = {}
+): AsyncGenerator<IndividualOrderData[]> {
+  try {
+    const supabase = await createClient()
 
-    // Get ALL orders with chunking to avoid query size limits
-    const chunkSize = 1000
-    const allOrders = []
+    // Store-day boundaries as UTC timestamps
+    const { fromUTC: fromDateUTC, toUTC: toDateUTC } = await getStoreDateBounds(
+      fromDate,
+      toDate
+    )
 
-    for (let i = 0; i < orderIds.length; i += chunkSize) {
-      const chunk = orderIds.slice(i, i + chunkSize)
+    let orderPage = 1
+    let hasMoreOrders = true
 
-      const { data: chunkData, error: chunkError } = await supabase
-        .from("orders")
-        .select(
-          `
+    while (hasMoreOrders) {
+      // The inner join keeps orders with a transaction in the range
+      const { data: pageOrders, error: ordersError } = await applyOrderFilters(
+        supabase
+          .from("orders")
+          .select(
+            `
           id,
           shopify_order_id,
           name,
@@ -461,79 +450,152 @@ export async function getAllIndividualOrdersForExport(
           total_discounts_amount,
           total_shipping_amount,
           currency,
-          test
+          test,
+          cancelled_at,
+          cancel_reason,
+          transactions!inner(id)
         `
-        )
-        .in("id", chunk)
-        .eq("test", false)
+          )
+          .gte("transactions.processed_at", fromDateUTC)
+          .lte("transactions.processed_at", toDateUTC)
+          .eq("test", false)
+          .is("deleted_at", null),
+        filters
+      )
         .order("processed_at", { ascending: false })
+        .order("id", { ascending: false })
+        .range(
+          (orderPage - 1) * EXPORT_PAGE_SIZE,
+          orderPage * EXPORT_PAGE_SIZE - 1
+        )
 
-      if (chunkError) {
-        console.error("❌ Orders chunk query error:", chunkError)
-        throw new Error(`Orders chunk query failed: ${chunkError.message}`)
-      }
-
-      if (chunkData) {
-        allOrders.push(...chunkData)
+      if (ordersError) {
+        console.error("❌ Orders page query error:", ordersError)
+        throw new Error(`Orders page query failed: ${ordersError.message}`)
       }
-    }
 
-    if (allOrders.length === 0) {
-      return []
-    }
+      if (pageOrders && pageOrders.length > 0) {
+        const transactionsByOrderId = await getTransactionsByOrderId(
+          pageOrders.map((order) => order.id),
+          fromDateUTC,
+          toDateUTC
+        )
 
-    // Group transactions by order ID
-    const transactionsByOrderId = new Map<number, typeof allTransactions>()
-    allTransactions.forEach((transaction) => {
-      if (!transactionsByOrderId.has(transaction.order_id)) {
-        transactionsByOrderId.set(transaction.order_id, [])
+        // Combine orders with their transactions and calculate metrics
+        yield pageOrders.map((order) => {
+          const orderTransactions = transactionsByOrderId.get(order.id) || []
+
+          // Calculate transaction metrics
+          const salesTransactions = orderTransactions.filter(
+            (t) =>
+              t.status?.toLowerCase() === "success" &&
+              (t.kind?.toLowerCase() === "sale" ||
+                t.kind?.toLowerCase() === "capture")
+          )
+          const refundTransactions = orderTransactions.filter(
+            (t) =>
+              t.status?.toLowerCase() === "success" &&
+              (t.kind?.toLowerCase() === "refund" ||
+                t.kind?.toLowerCase() === "change")
+          )
+
+          const total_sales = salesTransactions.reduce(
+            (sum, t) => sum + t.amount,
+            0
+          )
+          const total_refunds = refundTransactions.reduce(
+            (sum, t) => sum + t.amount,
+            0
+          )
+          const net_amount = total_sales - total_refunds
+
+          return {
+            ...order,
+            transactions: orderTransactions,
+            total_sales,
+            total_refunds,
+            net_amount,
+            transaction_count: orderTransactions.length,
+          }
+        })
+
+        hasMoreOrders = pageOrders.length === EXPORT_PAGE_SIZE
+        orderPage++
+      } else {
+        hasMoreOrders = false
       }
-      transactionsByOrderId.get(transaction.order_id)!.push(transaction)
-    })
-
-    // Combine orders with their transactions and calculate metrics
-    const individualOrders: IndividualOrderData[] = allOrders.map((order) => {
-      const orderTransactions = transactionsByOrderId.get(order.id) || []
-
-      // Calculate transaction metrics
-      const salesTransactions = orderTransactions.filter(
-        (t) =>
-          t.status?.toLowerCase() === "success" &&
-          (t.kind?.toLowerCase() === "sale" ||
-            t.kind?.toLowerCase() === "capture")
-      )
-      const refundTransactions = orderTransactions.filter(
-        (t) =>
-          t.status?.toLowerCase() === "success" &&
-          (t.kind?.toLowerCase() === "refund" ||
-            t.kind?.toLowerCase() === "change")
-      )
+    }
+  } catch (error) {
+    console.error("❌ Failed to get individual orders for export:", error)
+    throw error
+  }
+}
 
-      const total_sales = salesTransactions.reduce(
-        (sum, t) => sum + t.amount,
-        0
+/**
+ * Transactions of `orderIds` processed within the range, by order
+ */
+async function getTransactionsByOrderId(
+  orderIds: number[],
+  fromDateUTC: string,
+  toDateUTC: string
+): Promise<Map<number, IndividualOrderData["transactions"]>> {
+  const supabase = await createClient()
+
+  const transactionPageSize = 1000
+  let transactionPage = 1
+  let hasMoreTransactions = true
+  const transactionsByOrderId = new Map<
+    number,
+    IndividualOrderData["transactions"]
+  >()
+
+  while (hasMoreTransactions) {
+    const { data: pageData, error: transactionsError } = await supabase
+      .from("transactions")
+      .select(
+        `
+        order_id,
+        kind,
+        status,
+        amount,
+        currency,
+        processed_at,
+        created_at,
+        gateway,
+        id,
+        shopify_transaction_id
+      `
       )
-      const total_refunds = refundTransactions.reduce(
-        (sum, t) => sum + t.amount,
-        0
+      .in("order_id", orderIds)
+      .gte("processed_at", fromDateUTC)
+      .lte("processed_at", toDateUTC)
+      .order("processed_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(
+        (transactionPage - 1) * transactionPageSize,
+        transactionPage * transactionPageSize - 1
       )
-      const net_amount = total_sales - total_refunds
 
-      return {
-        ...order,
-        transactions: orderTransactions,
-        total_sales,
-        total_refunds,
-        net_amount,
-        transaction_count: orderTransactions.length,
-      }
-    })
+    if (transactionsError) {
+      console.error("❌ Transactions query error:", transactionsError)
+      throw new Error(`Transactions query failed: ${transactionsError.message}`)
+    }
 
-    return individualOrders
-  } catch (error) {
-    console.error("❌ Failed to get all individual orders for export:", error)
-    throw error
+    if (pageData && pageData.length > 0) {
+      pageData.forEach(({ order_id, ...transaction }) => {
+        if (!transactionsByOrderId.has(order_id)) {
+          transactionsByOrderId.set(order_id, [])
+        }
+        transactionsByOrderId.get(order_id)!.push(transaction)
+      })
+      hasMoreTransactions = pageData.length === transactionPageSize
+      transactionPage++
+    } else {
+      hasMoreTransactions = false
+    }
   }
+
+  return transactionsByOrderId
 }
 
 /**
@@ -560,6 +622,8 @@ export function generateOrdersCSV(orders: IndividualOrderData[]): string {
     "Currency",
     "Transaction Count",
     "Test Order",
+    "Cancelled At",
+    "Cancel Reason",
   ]
 
   const csvRows = [
@@ -583,9 +647,155 @@ export function generateOrdersCSV(orders: IndividualOrderData[]): string {
         `"${order.currency}"`,
         order.transaction_count,
         order.test ? "Yes" : "No",
+        `"${order.cancelled_at ? new Date(order.cancelled_at).toLocaleString() : ""}"`,
+        `"${order.cancel_reason || ""}"`,
       ].join(",")
     ),
   ]
 
   return csvRows.join("\n")
 }
+
+type OrderExportRow = IndividualOrderData & { channel: string }
+
+type TransactionExportRow = IndividualOrderData["transactions"][number] & {
+  order_name: string
+}
+
+interface OrderChannelSummary {
+  channel: string
+  currency: string
+  orders: number
+  cancelledOrders: number
+  sales: number
+  refunds: number
+  net: number
+}
+
+export const INDIVIDUAL_ORDER_COLUMNS: ExportColumn<OrderExportRow>[] = [
+  { key: "name", header: "Order", type: "text" },
+  { key: "shopify_order_id", header: "Shopify ID", type: "text" },
+  { key: "created_at", header: "Created", type: "datetime" },
+  { key: "processed_at", header: "Processed", type: "datetime" },
+  { key: "channel", header: "Channel", type: "text" },
+  { key: "financial_status", header: "Financial Status", type: "text" },
+  { key: "cancelled_at", header: "Cancelled", type: "datetime" },
+  { key: "cancel_reason", header: "Cancel Reason", type: "text" },
+  { key: "subtotal_amount", header: "Subtotal", type: "currency" },
+  { key: "total_tax_amount", header: "Tax", type: "currency" },
+  { key: "total_shipping_amount", header: "Shipping", type: "currency" },
+  { key: "total_discounts_amount", header: "Discounts", type: "currency" },
+  { key: "total_amount", header: "Total", type: "currency" },
+  { key: "total_sales", header: "Sales", type: "currency" },
+  { key: "total_refunds", header: "Refunds", type: "currency" },
+  { key: "net_amount", header: "Net", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+  { key: "transaction_count", header: "Transactions", type: "number" },
+]
+
+export const ORDER_TRANSACTION_COLUMNS: ExportColumn<TransactionExportRow>[] = [
+  { key: "order_name", header: "Order", type: "text" },
+  { key: "shopify_transaction_id", header: "Transaction ID", type: "text" },
+  { key: "kind", header: "Kind", type: "text" },
+  { key: "status", header: "Status", type: "text" },
+  { key: "gateway", header: "Gateway", type: "text" },
+  { key: "processed_at", header: "Processed", type: "datetime" },
+  { key: "amount", header: "Amount", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const ORDER_CHANNEL_SUMMARY_COLUMNS: ExportColumn<OrderChannelSummary>[] =
+  [
+    { key: "channel", header: "Channel", type: "text" },
+    { key: "currency", header: "Currency", type: "text" },
+    { key: "orders", header: "Orders", type: "number" },
+    { key: "cancelledOrders", header: "Cancelled Orders", type: "number" },
+    { key: "sales", header: "Sales", type: "currency" },
+    { key: "refunds", header: "Refunds", type: "currency" },
+    { key: "net", header: "Net", type: "currency" },
+  ]
+
+/**
+ * Orders, their transactions and per-channel totals as export tables. Each
+ * sheet reads `getPages` in turn: the orders pass adds up the channel totals
+ * and the transactions pass fetches the pages again, so only one page is held
+ * in memory at a time.
+ */
+export function getOrdersExportTables(
+  getPages: () => AsyncIterable<IndividualOrderData[]>
+): SomeWorkbookTable[] {
+  // Per channel and currency. Cancelled orders are counted separately, their
+  // transactions still count toward sales and refunds
+  const summaries = new Map<string, OrderChannelSummary>()
+
+  async function* orderRows(): AsyncGenerator<OrderExportRow[]> {
+    for await (const orders of getPages()) {
+      // Use channel display name with fallback to source name
+      const rows: OrderExportRow[] = orders.map((order) => ({
+        ...order,
+        channel: order.channel_display_name || order.source_name || "Unknown",
+      }))
+
+      rows.forEach((order) => {
+        const key = `${order.channel}|${order.currency}`
+        if (!summaries.has(key)) {
+          summaries.set(key, {
+            channel: order.channel,
+            currency: order.currency,
+            orders: 0,
+            cancelledOrders: 0,
+            sales: 0,
+            refunds: 0,
+            net: 0,
+          })
+        }
+
+        const summary = summaries.get(key)!
+        if (order.cancelled_at) {
+          summary.cancelledOrders++
+        } else {
+          summary.orders++
+        }
+        summary.sales += order.total_sales
+        summary.refunds += order.total_refunds
+        summary.net += order.net_amount
+      })
+
+      yield rows
+    }
+  }
+
+  async function* transactionRows(): AsyncGenerator<TransactionExportRow[]> {
+    for await (const orders of getPages()) {
+      yield orders.flatMap((order) =>
+        order.transactions.map((transaction) => ({
+          ...transaction,
+          order_name: order.name,
+        }))
+      )
+    }
+  }
+
+  // Written after the orders sheet, once every order has been counted
+  async function* summaryRows(): AsyncGenerator<OrderChannelSummary[]> {
+    yield Array.from(summaries.values()).sort(
+      (a, b) =>
+        a.channel.localeCompare(b.channel) ||
+        a.currency.localeCompare(b.currency)
+    )
+  }
+
+  return [
+    pagedExportTable("Orders", INDIVIDUAL_ORDER_COLUMNS, orderRows()),
+    pagedExportTable(
+      "Transactions",
+      ORDER_TRANSACTION_COLUMNS,
+      transactionRows()
+    ),
+    pagedExportTable(
+      "Channel Summary",
+      ORDER_CHANNEL_SUMMARY_COLUMNS,
+      summaryRows()
+    ),
+  ]
+}
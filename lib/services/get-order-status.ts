@@ -2,7 +2,22 @@
  * Order Status Analytics Service
  */
 
-import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { fetchOrderStatusBreakdown } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  getDeltasByRow,
+  type ComparisonPeriod,
+  type MetricDelta,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
+
+// Status the breakdown groups cancelled orders under, whatever their financial status
+export const CANCELLED_STATUS = "CANCELLED"
 
 export interface OrderStatusData {
   status: string
@@ -19,103 +34,155 @@ export interface OrderStatusAnalytics {
   }
   statusBreakdown: OrderStatusData[]
   totals: {
+    // Orders that are not cancelled
     totalOrders: number
     totalAmount: number
+    cancelledOrders: number
     currency: string
+    // Order amounts per original currency
+    byCurrency: CurrencyTotal[]
+  }
+  comparison?: PeriodComparison<
+    Pick<OrderStatusAnalytics, "statusBreakdown" | "totals">,
+    OrderStatusTotalsKey
+  > & {
+    // Keyed by status
+    byStatus: Record<string, Record<"count" | "totalAmount", MetricDelta>>
   }
 }
 
+type OrderStatusTotalsKey = "totalOrders" | "totalAmount" | "cancelledOrders"
+
+export const ORDER_STATUS_COLUMNS: ExportColumn<OrderStatusData>[] = [
+  { key: "status", header: "Status", type: "text" },
+  { key: "count", header: "Orders", type: "number" },
+  { key: "totalAmount", header: "Total Amount", type: "currency" },
+  { key: "percentage", header: "Share of Orders", type: "percent" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const ORDER_STATUS_TOTALS_COLUMNS: ExportColumn<
+  OrderStatusAnalytics["totals"]
+>[] = [
+  { key: "totalOrders", header: "Orders", type: "number" },
+  { key: "cancelledOrders", header: "Cancelled Orders", type: "number" },
+  { key: "totalAmount", header: "Total Amount", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get order status analytics from database
+ * Cancelled orders get their own status row and are left out of the totals
  */
 export async function getOrderStatusBreakdown(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<OrderStatusAnalytics> {
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getOrderStatusBreakdown(fromDate, toDate, undefined, filters),
+      getOrderStatusBreakdown(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        statusBreakdown: previous.statusBreakdown,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, [
+          "totalOrders",
+          "totalAmount",
+          "cancelledOrders",
+        ]),
+        byStatus: getDeltasByRow(
+          current.statusBreakdown,
+          previous.statusBreakdown,
+          "status",
+          ["count", "totalAmount"]
+        ),
+      },
+    }
+  }
+
   try {
-    const supabase = await createClient()
-
-    // Adjust toDate to include entire day
-    const toDateEndOfDay = toDate.includes("T")
-      ? toDate
-      : `${toDate}T23:59:59.999Z`
-
-    // Query orders by financial status with pagination
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allOrders: Array<{
-      financial_status: string | null
-      total_amount: number
-      currency: string
-    }> = []
-
-    while (hasMore) {
-      const { data: pageData, error: ordersError } = await supabase
-        .from("orders")
-        .select("financial_status, total_amount, currency")
-        .gte("processed_at", fromDate)
-        .lte("processed_at", toDateEndOfDay)
-        .eq("test", false)
-        .order("processed_at")
-        .range((page - 1) * pageSize, page * pageSize - 1)
-
-      if (ordersError) {
-        console.error("Error fetching order status data:", ordersError)
-        throw new Error(
-          `Failed to fetch order status data: ${ordersError.message}`
-        )
-      }
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
 
-      if (pageData && pageData.length > 0) {
-        allOrders.push(...pageData)
-        hasMore = pageData.length === pageSize
-        page++
-      } else {
-        hasMore = false
-      }
-    }
+    // Orders grouped by day, financial status and currency in the database
+    const statusRows = await fetchOrderStatusBreakdown(
+      fromDateUTC,
+      toDateUTC,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      statusRows.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
+    const currency = converter.currency
 
-    if (allOrders.length === 0) {
+    if (statusRows.length === 0) {
       return {
         dateRange: { from: fromDate, to: toDate },
         statusBreakdown: [],
         totals: {
           totalOrders: 0,
           totalAmount: 0,
-          currency: "USD",
+          cancelledOrders: 0,
+          currency,
+          byCurrency: [],
         },
       }
     }
 
-    // Group by financial status
-    const statusGroups = allOrders.reduce(
-      (acc, order) => {
-        const status = order.financial_status || "unknown"
+    // Null and missing statuses share one "unknown" group
+    const currencyTotals: CurrencyTotal[] = []
+    const statusGroups = statusRows.reduce(
+      (acc, row) => {
+        const status = row.financial_status || "unknown"
         if (!acc[status]) {
-          acc[status] = {
-            count: 0,
-            totalAmount: 0,
-            currency: order.currency || "USD",
-          }
+          acc[status] = { count: 0, totalAmount: 0 }
+        }
+        const amount = Number(row.total_amount || 0)
+        const convertedAmount = converter.convert(
+          amount,
+          row.currency,
+          row.day,
+          row.shop_total_amount
+        )
+
+        acc[status].count += Number(row.order_count)
+        acc[status].totalAmount += convertedAmount
+        if (status !== CANCELLED_STATUS) {
+          currencyTotals.push({
+            currency: row.currency,
+            amount,
+            convertedAmount,
+          })
         }
-        acc[status].count += 1
-        acc[status].totalAmount += Number(order.total_amount || 0)
         return acc
       },
-      {} as Record<
-        string,
-        { count: number; totalAmount: number; currency: string }
-      >
+      {} as Record<string, { count: number; totalAmount: number }>
     )
 
     // Calculate totals
-    const totalOrders = allOrders.length
-    const totalAmount = allOrders.reduce(
-      (sum, order) => sum + Number(order.total_amount || 0),
+    const allOrders = statusRows.reduce(
+      (sum, row) => sum + Number(row.order_count),
+      0
+    )
+    const cancelledOrders = statusGroups[CANCELLED_STATUS]?.count || 0
+    const totalOrders = allOrders - cancelledOrders
+    const totalAmount = currencyTotals.reduce(
+      (sum, entry) => sum + entry.convertedAmount,
       0
     )
-    const currency = allOrders[0]?.currency || "USD"
 
     // Create status breakdown with percentages
     const statusBreakdown: OrderStatusData[] = Object.entries(statusGroups).map(
@@ -124,8 +191,8 @@ export async function getOrderStatusBreakdown(
           status.charAt(0).toUpperCase() + status.slice(1).replace("_", " "),
         count: data.count,
         totalAmount: data.totalAmount,
-        percentage: (data.count / totalOrders) * 100,
-        currency: data.currency,
+        percentage: (data.count / allOrders) * 100,
+        currency,
       })
     )
 
@@ -138,7 +205,9 @@ export async function getOrderStatusBreakdown(
       totals: {
         totalOrders,
         totalAmount,
+        cancelledOrders,
         currency,
+        byCurrency: sumByCurrency(currencyTotals),
       },
     }
   } catch (error) {
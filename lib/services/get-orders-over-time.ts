@@ -2,12 +2,24 @@
  * Orders Over Time Analytics Service
  */
 
-import { createClient } from "../supabase/server"
-import { eachDayOfInterval, parseISO, format } from "date-fns"
+import { getStoreTimezone } from "./get-store-timezone"
+import { fetchDailyChannelMetrics } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { eachStoreDay } from "../date-range"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  type ComparisonPeriod,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
 
 export interface DailyOrderData {
   date: string
+  // Orders that are not cancelled
   totalOrders: number
+  cancelledOrders: number
   totalValue: number
   averageOrderValue: number
   currency: string
@@ -21,123 +33,132 @@ export interface OrdersOverTimeAnalytics {
   dailyData: DailyOrderData[]
   totals: {
     totalOrders: number
+    cancelledOrders: number
     totalValue: number
     averageOrderValue: number
     currency: string
+    // Order value per original currency
+    byCurrency: CurrencyTotal[]
   }
+  comparison?: PeriodComparison<
+    Pick<OrdersOverTimeAnalytics, "dailyData" | "totals">,
+    OrdersTotalsKey
+  >
 }
 
+type OrdersTotalsKey = "totalOrders" | "totalValue" | "averageOrderValue"
+
+export const DAILY_ORDER_COLUMNS: ExportColumn<DailyOrderData>[] = [
+  { key: "date", header: "Date", type: "date" },
+  { key: "totalOrders", header: "Orders", type: "number" },
+  { key: "cancelledOrders", header: "Cancelled Orders", type: "number" },
+  { key: "totalValue", header: "Order Value", type: "currency" },
+  { key: "averageOrderValue", header: "Average Order Value", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const ORDERS_TOTALS_COLUMNS: ExportColumn<
+  OrdersOverTimeAnalytics["totals"]
+>[] = [
+  { key: "totalOrders", header: "Orders", type: "number" },
+  { key: "cancelledOrders", header: "Cancelled Orders", type: "number" },
+  { key: "totalValue", header: "Order Value", type: "currency" },
+  { key: "averageOrderValue", header: "Average Order Value", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get orders analytics over time from database
- * Uses order created_at dates for filtering
+ * Counts non-test orders by the store day they were created, from the
+ * daily_channel_metrics rollup, with values in the reporting currency.
+ * Cancelled orders are counted separately and add no value.
  */
 export async function getOrdersOverTime(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<OrdersOverTimeAnalytics> {
-  try {
-    const supabase = await createClient()
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getOrdersOverTime(fromDate, toDate, undefined, filters),
+      getOrdersOverTime(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        dailyData: previous.dailyData,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, [
+          "totalOrders",
+          "totalValue",
+          "averageOrderValue",
+        ]),
+      },
+    }
+  }
 
-    // Ensure we're querying with proper UTC timestamps
-    const fromDateUTC = fromDate.includes("T")
-      ? fromDate
-      : `${fromDate}T00:00:00.000Z`
-    const toDateUTC = toDate.includes("T") ? toDate : `${toDate}T23:59:59.999Z`
+  try {
+    const timeZone = await getStoreTimezone()
 
     console.log("📅 Fetching orders data for date range:", {
-      from: fromDateUTC,
-      to: toDateUTC,
+      from: fromDate,
+      to: toDate,
     })
 
-    // Query orders by creation date with pagination
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allOrders: Array<{
-      id: number
-      total_amount: number
-      currency: string
-      created_at: string
-    }> = []
-
-    while (hasMore) {
-      const from = (page - 1) * pageSize
-      const to = from + pageSize - 1
-
-      const { data: orders, error } = await supabase
-        .from("orders")
-        .select("id, total_amount, currency, created_at")
-        .gte("created_at", fromDateUTC)
-        .lte("created_at", toDateUTC)
-        .range(from, to)
-        .order("created_at", { ascending: true })
-
-      if (error) {
-        console.error("❌ Database error fetching orders:", error)
-        throw new Error(`Database error: ${error.message}`)
-      }
-
-      if (!orders || orders.length === 0) {
-        hasMore = false
-        break
-      }
-
-      allOrders.push(...orders)
-      hasMore = orders.length === pageSize
-      page++
-
-      console.log(`📦 Fetched page ${page - 1}: ${orders.length} orders`)
-    }
-
-    console.log(`✅ Total orders fetched: ${allOrders.length}`)
-
-    if (allOrders.length === 0) {
-      return {
-        dateRange: { from: fromDate, to: toDate },
-        dailyData: [],
-        totals: {
-          totalOrders: 0,
-          totalValue: 0,
-          averageOrderValue: 0,
-          currency: "USD",
-        },
-      }
-    }
+    // Daily rollup rows per channel, today computed live
+    const dailyMetrics = await fetchDailyChannelMetrics(
+      fromDate,
+      toDate,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      dailyMetrics.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
+    const currencyTotals: CurrencyTotal[] = []
 
-    // Process the data into daily aggregates based on order creation dates
+    // Sum the channels into one row per day
     const dailyMap = new Map<
       string,
       {
         date: string
         orderCount: number
+        cancelledCount: number
         totalValue: number
         currency: string
       }
     >()
 
-    allOrders.forEach((order) => {
-      if (!order.created_at) return
-
-      // Extract date part using UTC to avoid timezone issues
-      const createdDate = new Date(order.created_at)
-      const utcDateStr =
-        createdDate.getUTCFullYear() +
-        "-" +
-        String(createdDate.getUTCMonth() + 1).padStart(2, "0") +
-        "-" +
-        String(createdDate.getUTCDate()).padStart(2, "0")
-
-      const current = dailyMap.get(utcDateStr) || {
-        date: utcDateStr,
+    dailyMetrics.forEach((row) => {
+      const current = dailyMap.get(row.day) || {
+        date: row.day,
         orderCount: 0,
+        cancelledCount: 0,
         totalValue: 0,
-        currency: order.currency || "USD",
+        currency: converter.currency,
       }
 
-      current.orderCount += 1
-      current.totalValue += order.total_amount || 0
+      const orderValue = converter.convert(
+        Number(row.order_value),
+        row.currency,
+        row.day,
+        row.shop_order_value
+      )
+      current.orderCount += Number(row.order_count)
+      current.cancelledCount += Number(row.cancelled_order_count)
+      current.totalValue += orderValue
+
+      currencyTotals.push({
+        currency: row.currency,
+        amount: Number(row.order_value),
+        convertedAmount: orderValue,
+      })
 
-      dailyMap.set(utcDateStr, current)
+      dailyMap.set(row.day, current)
     })
 
     // Convert to array and calculate averages
@@ -145,6 +166,7 @@ export async function getOrdersOverTime(
       .map((day) => ({
         date: day.date,
         totalOrders: day.orderCount,
+        cancelledOrders: day.cancelledCount,
         totalValue: day.totalValue,
         averageOrderValue:
           day.orderCount > 0 ? day.totalValue / day.orderCount : 0,
@@ -152,22 +174,22 @@ export async function getOrdersOverTime(
       }))
       .sort((a, b) => a.date.localeCompare(b.date))
 
-    // Fill in missing days with zero data to show complete date range
-    const startDate = parseISO(fromDate)
-    const endDate = parseISO(toDate.split("T")[0]) // Remove time part if present
-    const allDays = eachDayOfInterval({ start: startDate, end: endDate })
+    console.log(
+      `✅ Total orders: ${dailyData.reduce((sum, d) => sum + d.totalOrders, 0)}`
+    )
 
-    const completeDailyData = allDays.map((day) => {
-      const dateStr = format(day, "yyyy-MM-dd")
+    // Fill in missing days with zero data to show complete date range
+    const completeDailyData = eachStoreDay(fromDate, toDate).map((dateStr) => {
       const existingData = dailyData.find((d) => d.date === dateStr)
 
       return (
         existingData || {
           date: dateStr,
           totalOrders: 0,
+          cancelledOrders: 0,
           totalValue: 0,
           averageOrderValue: 0,
-          currency: "USD",
+          currency: converter.currency,
         }
       )
     })
@@ -176,15 +198,17 @@ export async function getOrdersOverTime(
     const totals = dailyData.reduce(
       (acc, day) => ({
         totalOrders: acc.totalOrders + day.totalOrders,
+        cancelledOrders: acc.cancelledOrders + day.cancelledOrders,
         totalValue: acc.totalValue + day.totalValue,
         averageOrderValue: 0, // Will calculate after
-        currency: day.currency,
+        currency: acc.currency,
       }),
       {
         totalOrders: 0,
+        cancelledOrders: 0,
         totalValue: 0,
         averageOrderValue: 0,
-        currency: "USD",
+        currency: converter.currency,
       }
     )
 
@@ -195,7 +219,7 @@ export async function getOrdersOverTime(
     return {
       dateRange: { from: fromDate, to: toDate },
       dailyData: completeDailyData,
-      totals,
+      totals: { ...totals, byCurrency: sumByCurrency(currencyTotals) },
     }
   } catch (error) {
     console.error("Error in getOrdersOverTime:", error)
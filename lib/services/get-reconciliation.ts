@@ -0,0 +1,494 @@
+/**
+ * Shopify Reconciliation Service
+ *
+ * Compares the orders and transactions stored for a date range with a fresh
+ * SyncOrders fetch from Shopify. Explains differences between the dashboard
+ * and Shopify's own reports per channel and lists the orders behind them:
+ * missing locally, no longer in Shopify's results, stale (updated in Shopify
+ * since the last sync) or with different amounts. With report filters set,
+ * an order is reconciled when it matches them on either side, so orders that
+ * only match because they are stale still show up.
+ */
+
+import type { ShopifySyncOrdersQuery } from "../shopify/types"
+import { createClient } from "../supabase/server"
+import { toStoreDate } from "../date-range"
+import {
+  hasReportFilters,
+  matchesReportFilters,
+  type FilterableOrder,
+  type ReportFilters,
+} from "../report-filters"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { getAllTransactions } from "./process-orders-batch"
+import { fetchOrdersPage } from "./sync-orders"
+
+// Longest range, in store days, any signed-in user may reconcile. Every order
+// in the range is fetched from Shopify, longer ranges need an admin.
+export const MAX_RECONCILIATION_DAYS = 31
+
+// Local orders per transactions IN query
+const ORDER_CHUNK_SIZE = 200
+
+// Amounts closer than this count as equal
+const AMOUNT_TOLERANCE = 0.005
+
+export type ReconciliationIssue =
+  | "missing" // in Shopify, not in the database
+  | "not_in_shopify" // in the database, not returned by Shopify for the range
+  | "stale" // updated in Shopify since it was last synced
+  | "amount_mismatch" // order total or net payments differ
+
+export interface OrderDiscrepancy {
+  shopifyOrderId: string
+  name: string
+  channel: string
+  processedAt: string | null
+  issues: ReconciliationIssue[]
+  localUpdatedAt: string | null
+  shopifyUpdatedAt: string | null
+  // Amounts in the order's own currency
+  localTotal: number | null
+  shopifyTotal: number | null
+  localNet: number | null
+  shopifyNet: number | null
+  currency: string
+}
+
+export interface ChannelReconciliation {
+  channel: string
+  localOrders: number
+  shopifyOrders: number
+  // Net payments (sales and captures less refunds) in the reporting currency
+  localNet: number
+  shopifyNet: number
+  difference: number
+}
+
+export interface ReconciliationReport {
+  dateRange: {
+    from: string
+    to: string
+  }
+  checkedAt: string
+  channels: ChannelReconciliation[]
+  discrepancies: OrderDiscrepancy[]
+  totals: {
+    localOrders: number
+    shopifyOrders: number
+    localNet: number
+    shopifyNet: number
+    difference: number
+    missing: number
+    notInShopify: number
+    stale: number
+    amountMismatch: number
+    currency: string
+  }
+}
+
+interface ReconciledOrder extends FilterableOrder {
+  shopifyOrderId: string
+  name: string
+  processedAt: string | null
+  updatedAt: string
+  total: number
+  net: number
+  // Net payments in the shop currency, null without shop money
+  shopNet: number | null
+  currency: string
+}
+
+type ShopifyOrderNode =
+  ShopifySyncOrdersQuery["orders"]["edges"][number]["node"]
+
+/**
+ * Reconcile stored orders processed in the store-day range against Shopify
+ */
+export async function getReconciliation(
+  fromDate: string,
+  toDate: string,
+  filters: ReportFilters = {}
+): Promise<ReconciliationReport> {
+  try {
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
+
+    const [allLocalOrders, allShopifyOrders] = await Promise.all([
+      fetchLocalOrders(fromDateUTC, toDateUTC),
+      fetchShopifyOrders(fromDateUTC, toDateUTC),
+    ])
+
+    // Keep orders matching the filters in the database or in Shopify
+    const matchingIds = new Set(
+      [...allLocalOrders, ...allShopifyOrders]
+        .filter((order) => matchesReportFilters(order, filters))
+        .map((order) => order.shopifyOrderId)
+    )
+    const isMatching = (order: ReconciledOrder) =>
+      !hasReportFilters(filters) || matchingIds.has(order.shopifyOrderId)
+    const localOrders = allLocalOrders.filter(isMatching)
+    const shopifyOrders = allShopifyOrders.filter(isMatching)
+
+    const converter = await getCurrencyConverter(
+      [...localOrders, ...shopifyOrders].map((order) => order.currency),
+      fromDate,
+      toDate
+    )
+    const convertNet = (order: ReconciledOrder) =>
+      order.processedAt
+        ? converter.convert(
+            order.net,
+            order.currency,
+            toStoreDate(order.processedAt, timeZone),
+            order.shopNet
+          )
+        : order.net
+
+    const localById = new Map(
+      localOrders.map((order) => [order.shopifyOrderId, order])
+    )
+    const shopifyById = new Map(
+      shopifyOrders.map((order) => [order.shopifyOrderId, order])
+    )
+
+    // Compare every order seen on either side
+    const discrepancies: OrderDiscrepancy[] = []
+    const orderIds = new Set([...localById.keys(), ...shopifyById.keys()])
+
+    orderIds.forEach((shopifyOrderId) => {
+      const local = localById.get(shopifyOrderId)
+      const shopify = shopifyById.get(shopifyOrderId)
+      const issues: ReconciliationIssue[] = []
+
+      if (!local) {
+        issues.push("missing")
+      } else if (!shopify) {
+        issues.push("not_in_shopify")
+      } else {
+        if (
+          new Date(local.updatedAt).getTime() !==
+          new Date(shopify.updatedAt).getTime()
+        ) {
+          issues.push("stale")
+        }
+        if (
+          Math.abs(local.total - shopify.total) > AMOUNT_TOLERANCE ||
+          Math.abs(local.net - shopify.net) > AMOUNT_TOLERANCE
+        ) {
+          issues.push("amount_mismatch")
+        }
+      }
+
+      if (issues.length === 0) return
+
+      const order = (shopify || local)!
+      discrepancies.push({
+        shopifyOrderId,
+        name: order.name,
+        channel: order.channel,
+        processedAt: order.processedAt,
+        issues,
+        localUpdatedAt: local?.updatedAt ?? null,
+        shopifyUpdatedAt: shopify?.updatedAt ?? null,
+        localTotal: local?.total ?? null,
+        shopifyTotal: shopify?.total ?? null,
+        localNet: local?.net ?? null,
+        shopifyNet: shopify?.net ?? null,
+        currency: order.currency,
+      })
+    })
+
+    // Newest orders first
+    discrepancies.sort((a, b) =>
+      (b.processedAt || "").localeCompare(a.processedAt || "")
+    )
+
+    // Per channel totals on both sides
+    const channelMap = new Map<string, ChannelReconciliation>()
+    const getChannel = (channel: string) => {
+      if (!channelMap.has(channel)) {
+        channelMap.set(channel, {
+          channel,
+          localOrders: 0,
+          shopifyOrders: 0,
+          localNet: 0,
+          shopifyNet: 0,
+          difference: 0,
+        })
+      }
+      return channelMap.get(channel)!
+    }
+
+    localOrders.forEach((order) => {
+      const channel = getChannel(order.channel)
+      channel.localOrders += 1
+      channel.localNet += convertNet(order)
+    })
+    shopifyOrders.forEach((order) => {
+      const channel = getChannel(order.channel)
+      channel.shopifyOrders += 1
+      channel.shopifyNet += convertNet(order)
+    })
+
+    const channels = Array.from(channelMap.values())
+      .map((channel) => ({
+        ...channel,
+        difference: channel.localNet - channel.shopifyNet,
+      }))
+      .sort((a, b) => b.shopifyNet - a.shopifyNet)
+
+    const localNet = channels.reduce((sum, c) => sum + c.localNet, 0)
+    const shopifyNet = channels.reduce((sum, c) => sum + c.shopifyNet, 0)
+    const countIssue = (issue: ReconciliationIssue) =>
+      discrepancies.filter((d) => d.issues.includes(issue)).length
+
+    return {
+      dateRange: { from: fromDate, to: toDate },
+      checkedAt: new Date().toISOString(),
+      channels,
+      discrepancies,
+      totals: {
+        localOrders: localOrders.length,
+        shopifyOrders: shopifyOrders.length,
+        localNet,
+        shopifyNet,
+        difference: localNet - shopifyNet,
+        missing: countIssue("missing"),
+        notInShopify: countIssue("not_in_shopify"),
+        stale: countIssue("stale"),
+        amountMismatch: countIssue("amount_mismatch"),
+        currency: converter.currency,
+      },
+    }
+  } catch (error) {
+    console.error("Error in getReconciliation:", error)
+    throw error
+  }
+}
+
+// Net payments: successful sales and captures less refunds and changes
+function netPayments(
+  transactions: Array<{
+    kind: string | null
+    status: string | null
+    amount: number | null
+  }>
+): number {
+  return transactions.reduce((net, transaction) => {
+    if (transaction.status?.toLowerCase() !== "success") return net
+
+    const kind = transaction.kind?.toLowerCase()
+    const amount = Number(transaction.amount || 0)
+    if (kind === "sale" || kind === "capture") return net + amount
+    if (kind === "refund" || kind === "change") return net - Math.abs(amount)
+    return net
+  }, 0)
+}
+
+// Net payments in the shop currency, null when a successful transaction has
+// no shop money
+function shopNetPayments(
+  transactions: Array<{
+    kind: string | null
+    status: string | null
+    shop_amount: number | null
+  }>
+): number | null {
+  const isMissing = (transaction: (typeof transactions)[number]) =>
+    transaction.status?.toLowerCase() === "success" &&
+    transaction.shop_amount === null
+  if (transactions.some(isMissing)) return null
+
+  return netPayments(
+    transactions.map(({ kind, status, shop_amount }) => ({
+      kind,
+      status,
+      amount: shop_amount,
+    }))
+  )
+}
+
+async function fetchShopifyOrders(
+  fromUTC: string,
+  toUTC: string
+): Promise<ReconciledOrder[]> {
+  // Shopify's search syntax wants ISO 8601 without milliseconds
+  const toShopifyTimestamp = (timestamp: string) =>
+    new Date(timestamp).toISOString().split(".")[0] + "Z"
+  const query = `processed_at:>='${toShopifyTimestamp(fromUTC)}' processed_at:<='${toShopifyTimestamp(toUTC)}'`
+
+  const nodes: ShopifyOrderNode[] = []
+  let hasNextPage = true
+  let cursor: string | undefined = undefined
+
+  while (hasNextPage) {
+    const page = await fetchOrdersPage(query, cursor)
+
+    nodes.push(...page.edges.map((edge) => edge.node))
+    hasNextPage = page.pageInfo.hasNextPage
+    cursor = page.pageInfo.endCursor || undefined
+  }
+
+  // Reports leave out test orders
+  const orders: ReconciledOrder[] = []
+  for (const order of nodes) {
+    if (order.test) continue
+
+    // Orders at the SyncOrders transaction limit are fetched again in full
+    const transactions = await getAllTransactions(order)
+
+    orders.push({
+      shopifyOrderId: order.id,
+      name: order.name,
+      // Use channel display name with fallback to source name
+      channel:
+        order.channelInformation?.displayName || order.sourceName || "Unknown",
+      processedAt: order.processedAt,
+      updatedAt: order.updatedAt,
+      total: Number(order.totalPriceSet.presentmentMoney.amount),
+      net: netPayments(
+        transactions.map((transaction) => ({
+          kind: transaction.kind,
+          status: transaction.status,
+          amount: Number(transaction.amountSet.presentmentMoney.amount),
+        }))
+      ),
+      shopNet: netPayments(
+        transactions.map((transaction) => ({
+          kind: transaction.kind,
+          status: transaction.status,
+          amount: Number(transaction.amountSet.shopMoney.amount),
+        }))
+      ),
+      currency: order.totalPriceSet.presentmentMoney.currencyCode,
+      financialStatus: order.displayFinancialStatus ?? null,
+      gateways: order.paymentGatewayNames,
+      tags: order.tags,
+      shopTotal: Number(order.totalPriceSet.shopMoney.amount),
+    })
+  }
+
+  return orders
+}
+
+async function fetchLocalOrders(
+  fromUTC: string,
+  toUTC: string
+): Promise<ReconciledOrder[]> {
+  const supabase = await createClient()
+
+  // Query orders in range with pagination
+  const pageSize = 1000
+  let page = 1
+  let hasMore = true
+  const allOrders: Array<{
+    id: number
+    shopify_order_id: string
+    name: string
+    processed_at: string | null
+    updated_at: string
+    total_amount: number
+    currency: string
+    channel: string
+    financial_status: string | null
+    payment_gateway_names: string[]
+    tags: string[]
+    shop_total_amount: number | null
+  }> = []
+
+  while (hasMore) {
+    const { data: pageData, error: ordersError } = await supabase
+      .from("orders")
+      .select(
+        "id, shopify_order_id, name, processed_at, updated_at, total_amount, currency, channel, financial_status, payment_gateway_names, tags, shop_total_amount"
+      )
+      .gte("processed_at", fromUTC)
+      .lte("processed_at", toUTC)
+      .eq("test", false)
+      .is("deleted_at", null)
+      .order("id")
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (ordersError) {
+      console.error("❌ Orders query error:", ordersError)
+      throw new Error(`Orders query failed: ${ordersError.message}`)
+    }
+
+    if (pageData && pageData.length > 0) {
+      allOrders.push(...pageData)
+      hasMore = pageData.length === pageSize
+      page++
+    } else {
+      hasMore = false
+    }
+  }
+
+  // Every transaction of those orders, whenever it was processed
+  const transactionsByOrder = new Map<
+    number,
+    Array<{
+      kind: string | null
+      status: string | null
+      amount: number
+      shop_amount: number | null
+    }>
+  >()
+  const orderIds = allOrders.map((order) => order.id)
+
+  for (let i = 0; i < orderIds.length; i += ORDER_CHUNK_SIZE) {
+    const chunk = orderIds.slice(i, i + ORDER_CHUNK_SIZE)
+    page = 1
+    hasMore = true
+
+    while (hasMore) {
+      const { data: pageData, error: transactionsError } = await supabase
+        .from("transactions")
+        .select("id, order_id, kind, status, amount, shop_amount")
+        .in("order_id", chunk)
+        .order("id")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (transactionsError) {
+        console.error("❌ Transactions query error:", transactionsError)
+        throw new Error(
+          `Transactions query failed: ${transactionsError.message}`
+        )
+      }
+
+      if (pageData && pageData.length > 0) {
+        pageData.forEach((transaction) => {
+          if (!transactionsByOrder.has(transaction.order_id)) {
+            transactionsByOrder.set(transaction.order_id, [])
+          }
+          transactionsByOrder.get(transaction.order_id)!.push(transaction)
+        })
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+  }
+
+  return allOrders.map((order) => ({
+    shopifyOrderId: order.shopify_order_id,
+    name: order.name,
+    channel: order.channel,
+    processedAt: order.processed_at,
+    updatedAt: order.updated_at,
+    total: Number(order.total_amount || 0),
+    net: netPayments(transactionsByOrder.get(order.id) || []),
+    shopNet: shopNetPayments(transactionsByOrder.get(order.id) || []),
+    currency: order.currency,
+    financialStatus: order.financial_status,
+    gateways: order.payment_gateway_names,
+    tags: order.tags,
+    shopTotal: order.shop_total_amount,
+  }))
+}
@@ -0,0 +1,49 @@
+/**
+ * Report Filter Options Service
+ *
+ * Lists the values the filter bar offers: every channel, financial status,
+ * payment gateway, currency and order tag found on the synced orders.
+ */
+
+import type { ReportFilterList, ReportFilterOptions } from "../report-filters"
+import { fetchReportFilterOptions } from "./analytics-functions"
+
+// analytics_report_filter_options filter keys
+const FILTER_KEYS: Record<string, ReportFilterList> = {
+  channels: "channels",
+  financial_statuses: "financialStatuses",
+  gateways: "gateways",
+  currencies: "currencies",
+  tags: "tags",
+}
+
+/**
+ * Get the filter bar options, sorted. Empty lists if the lookup fails so the
+ * dashboard still renders.
+ */
+export async function getReportFilterOptions(): Promise<ReportFilterOptions> {
+  const options: ReportFilterOptions = {
+    channels: [],
+    financialStatuses: [],
+    gateways: [],
+    currencies: [],
+    tags: [],
+  }
+
+  try {
+    const rows = await fetchReportFilterOptions()
+
+    rows.forEach((row) => {
+      const key = FILTER_KEYS[row.filter]
+      if (key && row.value) {
+        options[key].push(row.value)
+      }
+    })
+
+    Object.values(options).forEach((values) => values.sort())
+  } catch (error) {
+    console.error("❌ Failed to fetch report filter options:", error)
+  }
+
+  return options
+}
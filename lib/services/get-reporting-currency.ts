@@ -0,0 +1,197 @@
+/**
+ * Reporting Currency Service
+ *
+ * Resolves the currency reports are shown in: the currency picked in the
+ * dashboard (a cookie), otherwise REPORTING_CURRENCY, otherwise the Shopify
+ * shop currency. Builds converters from the local fx_rates table, which in
+ * the shop currency only convert amounts without stored shop money.
+ */
+
+import { cookies } from "next/headers"
+import { shopifyFetch } from "../shopify/client"
+import {
+  ShopCurrencyDocument,
+  type ShopifyShopCurrencyQuery,
+  type ShopifyShopCurrencyQueryVariables,
+} from "../shopify/types"
+import { createClient } from "../supabase/server"
+import type { DatabaseFxRate } from "../supabase/types"
+import {
+  REPORTING_CURRENCY_COOKIE,
+  createCurrencyConverter,
+  isCurrencyCode,
+  type CurrencyConverter,
+} from "../currency"
+
+// Used when the Shopify shop settings are unavailable
+const DEFAULT_SHOP_CURRENCY = "USD"
+
+// The shop currency rarely changes, look it up once per server process
+let shopCurrency: Promise<string> | null = null
+
+async function fetchShopCurrency(): Promise<string> {
+  try {
+    const response = await shopifyFetch<
+      ShopifyShopCurrencyQuery,
+      ShopifyShopCurrencyQueryVariables
+    >({
+      query: ShopCurrencyDocument,
+      tags: ["shop"],
+    })
+
+    return response.shop.currencyCode || DEFAULT_SHOP_CURRENCY
+  } catch (error) {
+    console.error("❌ Failed to fetch shop currency, using USD:", error)
+    // Retry on the next request instead of caching the fallback
+    shopCurrency = null
+    return DEFAULT_SHOP_CURRENCY
+  }
+}
+
+/**
+ * Get the shop's own currency, e.g. "AUD"
+ */
+export async function getShopCurrency(): Promise<string> {
+  if (!shopCurrency) {
+    shopCurrency = fetchShopCurrency()
+  }
+  return shopCurrency
+}
+
+/**
+ * Get the currency reports are converted into
+ */
+export async function getReportingCurrency(): Promise<string> {
+  try {
+    const selected = (await cookies()).get(REPORTING_CURRENCY_COOKIE)?.value
+    if (selected && isCurrencyCode(selected)) {
+      return selected
+    }
+  } catch {
+    // Outside a request (e.g. scheduled jobs) there are no cookies
+  }
+
+  const configured = process.env.REPORTING_CURRENCY
+  if (configured && isCurrencyCode(configured)) {
+    return configured
+  }
+
+  return getShopCurrency()
+}
+
+/**
+ * Currencies the dashboard can report in: the shop currency and every
+ * currency with loaded exchange rates
+ */
+export async function getAvailableReportingCurrencies(): Promise<string[]> {
+  const supabase = await createClient()
+  const currencies = new Set([await getShopCurrency()])
+
+  const configured = process.env.REPORTING_CURRENCY
+  if (configured && isCurrencyCode(configured)) {
+    currencies.add(configured)
+  }
+
+  const { data, error } = await supabase
+    .from("fx_rates")
+    .select("base_currency, quote_currency")
+    .order("rate_date", { ascending: false })
+    .limit(1000)
+
+  if (error) {
+    console.error("❌ FX rates query error:", error)
+  }
+
+  data?.forEach((rate) => {
+    currencies.add(rate.base_currency)
+    currencies.add(rate.quote_currency)
+  })
+
+  return [...currencies].sort()
+}
+
+/**
+ * Converter into the reporting currency for amounts in `currencies` on store
+ * days from `fromDate` to `toDate`. Only queries fx_rates when a conversion is
+ * needed, for the rates within the range and the last one before it.
+ */
+export async function getCurrencyConverter(
+  currencies: string[],
+  fromDate: string,
+  toDate: string
+): Promise<CurrencyConverter> {
+  const reportingCurrency = await getReportingCurrency()
+  const shopCurrency = await getShopCurrency()
+  const foreignCurrencies = [
+    ...new Set(currencies.filter((c) => c && c !== reportingCurrency)),
+  ]
+
+  if (foreignCurrencies.length === 0) {
+    return createCurrencyConverter(reportingCurrency, [], shopCurrency)
+  }
+
+  const supabase = await createClient()
+  const fromDay = fromDate.split("T")[0]
+  const toDay = toDate.split("T")[0]
+
+  // Rates quoted either way between the reporting and the foreign currencies
+  const pairFilter = (currencyList: string) =>
+    `and(quote_currency.eq.${reportingCurrency},base_currency.in.(${currencyList})),and(base_currency.eq.${reportingCurrency},quote_currency.in.(${currencyList}))`
+
+  const pageSize = 1000
+  let page = 1
+  let hasMore = true
+  const rates: Pick<
+    DatabaseFxRate,
+    "rate_date" | "base_currency" | "quote_currency" | "rate"
+  >[] = []
+
+  while (hasMore) {
+    const { data: pageData, error } = await supabase
+      .from("fx_rates")
+      .select("rate_date, base_currency, quote_currency, rate")
+      .or(pairFilter(foreignCurrencies.join(",")))
+      .gte("rate_date", fromDay)
+      .lte("rate_date", toDay)
+      .order("rate_date")
+      .order("base_currency")
+      .order("quote_currency")
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (error) {
+      console.error("❌ FX rates query error:", error)
+      throw new Error(`FX rates query failed: ${error.message}`)
+    }
+
+    if (pageData && pageData.length > 0) {
+      rates.push(...pageData)
+      hasMore = pageData.length === pageSize
+      page++
+    } else {
+      hasMore = false
+    }
+  }
+
+  // Days before a currency's first rate in the range use its last earlier rate
+  const earlierRates = await Promise.all(
+    foreignCurrencies.map(async (currency) => {
+      const { data, error } = await supabase
+        .from("fx_rates")
+        .select("rate_date, base_currency, quote_currency, rate")
+        .or(pairFilter(currency))
+        .lt("rate_date", fromDay)
+        .order("rate_date", { ascending: false })
+        .limit(1)
+
+      if (error) {
+        console.error("❌ FX rates query error:", error)
+        throw new Error(`FX rates query failed: ${error.message}`)
+      }
+
+      return data || []
+    })
+  )
+  earlierRates.forEach((earlier) => rates.push(...earlier))
+
+  return createCurrencyConverter(reportingCurrency, rates, shopCurrency)
+}
@@ -0,0 +1,531 @@
+/**
+ * Returns Analytics Service
+ *
+ * Return rates by product and channel and returned units by reason over time,
+ * built from refunds and refund_line_items. Refunded money is reconciled against
+ * the transaction-based refund total from getRevenueBreakdown. Refunds of
+ * cancelled orders are not returns and only appear in the reconciliation.
+ */
+
+import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { eachStoreDay, toStoreDate } from "../date-range"
+import { getRevenueBreakdown } from "./get-revenue-breakdown"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import { applyOrderFilters } from "../supabase/order-filters"
+import type { ReportFilters } from "../report-filters"
+
+export interface ProductReturnsData {
+  key: string
+  title: string
+  unitsSold: number
+  unitsReturned: number
+  returnRate: number
+  refundedAmount: number
+}
+
+export interface ChannelReturnsData {
+  channel: string
+  unitsSold: number
+  unitsReturned: number
+  returnRate: number
+  refundedAmount: number
+  ordersWithReturns: number
+}
+
+export interface ReasonReturnsData {
+  reason: string
+  unitsReturned: number
+  refundedAmount: number
+  percentage: number
+}
+
+export interface DailyReturnsData {
+  date: string
+  unitsReturned: number
+  // Units returned per reason label
+  reasons: Record<string, number>
+}
+
+export interface ReturnsReconciliation {
+  // Successful refund transactions, as reported by getRevenueBreakdown
+  transactionRefunds: number
+  // Sum of refunds.total_refunded_amount for refunds created in range
+  recordedRefunds: number
+  // Refunded line item subtotals plus tax
+  itemizedRefunds: number
+  // Refunds of orders cancelled in Shopify, left out of the returns
+  cancelledRefunds: number
+  // Shipping, duties and order adjustments refunded outside line items
+  otherRefunds: number
+  // Transaction refunds without a matching refund record in range (timing or unsynced refunds)
+  unmatchedRefunds: number
+}
+
+export interface ReturnsAnalytics {
+  dateRange: {
+    from: string
+    to: string
+  }
+  totals: {
+    unitsSold: number
+    unitsReturned: number
+    returnRate: number
+    refundCount: number
+    refundedAmount: number
+    currency: string
+    // Recorded refund amounts per original currency
+    byCurrency: CurrencyTotal[]
+  }
+  byProduct: ProductReturnsData[]
+  byChannel: ChannelReturnsData[]
+  byReason: ReasonReturnsData[]
+  dailyData: DailyReturnsData[]
+  reasons: string[]
+  reconciliation: ReturnsReconciliation
+}
+
+// Refunds issued without a return carry no reason
+const NO_RETURN_REASON = "No return"
+
+// IDs per .in() query, keeps the PostgREST URL short
+const CHUNK_SIZE = 200
+
+/**
+ * Get returns analytics for refunds created in the date range
+ * Return rates compare units returned in the period with units sold in the period
+ */
+export async function getReturnsAnalysis(
+  fromDate: string,
+  toDate: string,
+  filters: ReportFilters = {}
+): Promise<ReturnsAnalytics> {
+  try {
+    const supabase = await createClient()
+
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
+
+    // Query refunds created within date range with pagination, skipping
+    // deleted orders and setting aside refunds of cancelled ones
+    const pageSize = 1000
+    let page = 1
+    let hasMore = true
+    type RefundRow = {
+      id: number
+      order_id: number
+      created_at: string
+      total_refunded_amount: number
+      currency: string
+    }
+    const allRefunds: RefundRow[] = []
+    const cancelledOrderRefunds: RefundRow[] = []
+
+    while (hasMore) {
+      const { data: pageData, error: refundsError } = await applyOrderFilters(
+        supabase
+          .from("refunds")
+          .select(
+            "id, order_id, created_at, total_refunded_amount, currency, orders!inner(cancelled_at, deleted_at)"
+          )
+          .gte("created_at", fromDateUTC)
+          .lte("created_at", toDateUTC)
+          .is("orders.deleted_at", null),
+        filters,
+        "orders"
+      )
+        .order("created_at")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+        .overrideTypes<
+          Array<RefundRow & { orders: { cancelled_at: string | null } }>,
+          { merge: false }
+        >()
+
+      if (refundsError) {
+        console.error("❌ Refunds query error:", refundsError)
+        throw new Error(`Refunds query failed: ${refundsError.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        pageData.forEach(({ orders, ...refund }) => {
+          if (orders.cancelled_at) {
+            cancelledOrderRefunds.push(refund)
+          } else {
+            allRefunds.push(refund)
+          }
+        })
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+
+    // Query orders processed within date range for units sold
+    const soldOrders: Array<{
+      id: number
+      source_name: string | null
+      channel_display_name: string | null
+    }> = []
+    page = 1
+    hasMore = true
+
+    while (hasMore) {
+      const { data: pageData, error: ordersError } = await applyOrderFilters(
+        supabase
+          .from("orders")
+          .select("id, source_name, channel_display_name")
+          .gte("processed_at", fromDateUTC)
+          .lte("processed_at", toDateUTC)
+          .eq("test", false)
+          .is("cancelled_at", null)
+          .is("deleted_at", null),
+        filters
+      )
+        .order("processed_at")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (ordersError) {
+        console.error("❌ Orders query error:", ordersError)
+        throw new Error(`Orders query failed: ${ordersError.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        soldOrders.push(...pageData)
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+
+    const soldLineItems = await selectInChunks<{
+      order_id: number
+      product_id: string | null
+      sku: string | null
+      title: string
+      quantity: number
+    }>(
+      "order_line_items",
+      "order_id, product_id, sku, title, quantity",
+      "order_id",
+      soldOrders.map((o) => o.id)
+    )
+
+    const refundLineItems = await selectInChunks<{
+      refund_id: number
+      order_id: number
+      shopify_line_item_id: string
+      quantity: number
+      subtotal_amount: number
+      total_tax_amount: number
+      return_reason: string | null
+    }>(
+      "refund_line_items",
+      "refund_id, order_id, shopify_line_item_id, quantity, subtotal_amount, total_tax_amount, return_reason",
+      "refund_id",
+      allRefunds.map((r) => r.id)
+    )
+
+    // Returned line items may belong to orders from before the period
+    const returnedLineItems = await selectInChunks<{
+      shopify_line_item_id: string
+      product_id: string | null
+      sku: string | null
+      title: string
+    }>(
+      "order_line_items",
+      "shopify_line_item_id, product_id, sku, title",
+      "shopify_line_item_id",
+      [...new Set(refundLineItems.map((r) => r.shopify_line_item_id))]
+    )
+
+    const soldOrderIds = new Set(soldOrders.map((o) => o.id))
+    const refundOrders = await selectInChunks<{
+      id: number
+      source_name: string | null
+      channel_display_name: string | null
+    }>(
+      "orders",
+      "id, source_name, channel_display_name",
+      "id",
+      [...new Set(allRefunds.map((r) => r.order_id))].filter(
+        (id) => !soldOrderIds.has(id)
+      )
+    )
+
+    // Use channel display name with fallback to source name
+    const channelByOrderId = new Map<number, string>()
+    for (const order of [...soldOrders, ...refundOrders]) {
+      channelByOrderId.set(
+        order.id,
+        order.channel_display_name || order.source_name || "Unknown"
+      )
+    }
+
+    // Custom items have no product, fall back to SKU or title
+    const productKey = (item: {
+      product_id: string | null
+      sku: string | null
+      title: string
+    }) => item.product_id || item.sku || `title:${item.title}`
+
+    const productMap = new Map<string, Omit<ProductReturnsData, "returnRate">>()
+    const channelMap = new Map<
+      string,
+      Omit<ChannelReturnsData, "returnRate" | "ordersWithReturns"> & {
+        orders: Set<number>
+      }
+    >()
+    const reasonMap = new Map<string, Omit<ReasonReturnsData, "percentage">>()
+
+    const getProduct = (key: string, title: string) => {
+      if (!productMap.has(key)) {
+        productMap.set(key, {
+          key,
+          title,
+          unitsSold: 0,
+          unitsReturned: 0,
+          refundedAmount: 0,
+        })
+      }
+      return productMap.get(key)!
+    }
+
+    const getChannel = (channel: string) => {
+      if (!channelMap.has(channel)) {
+        channelMap.set(channel, {
+          channel,
+          unitsSold: 0,
+          unitsReturned: 0,
+          refundedAmount: 0,
+          orders: new Set(),
+        })
+      }
+      return channelMap.get(channel)!
+    }
+
+    // Units sold in the period
+    soldLineItems.forEach((lineItem) => {
+      getProduct(productKey(lineItem), lineItem.title).unitsSold +=
+        lineItem.quantity
+      getChannel(
+        channelByOrderId.get(lineItem.order_id) || "Unknown"
+      ).unitsSold += lineItem.quantity
+    })
+
+    // Units returned in the period, bucketed by refund date and reason
+    const refundById = new Map(allRefunds.map((r) => [r.id, r] as const))
+    const converter = await getCurrencyConverter(
+      [...allRefunds, ...cancelledOrderRefunds].map((r) => r.currency),
+      fromDate,
+      toDate
+    )
+    // Refund amounts convert at the rate of the refund's store day
+    const convertRefund = (refund: RefundRow, amount: number) =>
+      converter.convert(
+        amount,
+        refund.currency,
+        toStoreDate(refund.created_at, timeZone)
+      )
+    const lineItemById = new Map(
+      returnedLineItems.map((l) => [l.shopify_line_item_id, l] as const)
+    )
+    const dailyMap = new Map<string, DailyReturnsData>()
+
+    eachStoreDay(fromDate, toDate).forEach((date) => {
+      dailyMap.set(date, { date, unitsReturned: 0, reasons: {} })
+    })
+
+    let itemizedRefunds = 0
+
+    refundLineItems.forEach((refundLineItem) => {
+      const refund = refundById.get(refundLineItem.refund_id)
+      const itemAmount =
+        Number(refundLineItem.subtotal_amount || 0) +
+        Number(refundLineItem.total_tax_amount || 0)
+      const amount = refund ? convertRefund(refund, itemAmount) : itemAmount
+      const reason = formatReturnReason(refundLineItem.return_reason)
+      const lineItem = lineItemById.get(refundLineItem.shopify_line_item_id)
+
+      itemizedRefunds += amount
+
+      const product = getProduct(
+        lineItem ? productKey(lineItem) : refundLineItem.shopify_line_item_id,
+        lineItem?.title || "Unknown product"
+      )
+      product.unitsReturned += refundLineItem.quantity
+      product.refundedAmount += amount
+
+      const channel = getChannel(
+        channelByOrderId.get(refundLineItem.order_id) || "Unknown"
+      )
+      channel.unitsReturned += refundLineItem.quantity
+      channel.refundedAmount += amount
+      channel.orders.add(refundLineItem.order_id)
+
+      if (!reasonMap.has(reason)) {
+        reasonMap.set(reason, { reason, unitsReturned: 0, refundedAmount: 0 })
+      }
+      const reasonData = reasonMap.get(reason)!
+      reasonData.unitsReturned += refundLineItem.quantity
+      reasonData.refundedAmount += amount
+
+      const day = refund
+        ? dailyMap.get(toStoreDate(refund.created_at, timeZone))
+        : undefined
+      if (day) {
+        day.unitsReturned += refundLineItem.quantity
+        day.reasons[reason] =
+          (day.reasons[reason] || 0) + refundLineItem.quantity
+      }
+    })
+
+    const unitsSold = soldLineItems.reduce((sum, l) => sum + l.quantity, 0)
+    const unitsReturned = refundLineItems.reduce(
+      (sum, r) => sum + r.quantity,
+      0
+    )
+    const refundTotals: CurrencyTotal[] = allRefunds.map((r) => {
+      const amount = Number(r.total_refunded_amount || 0)
+      return {
+        currency: r.currency,
+        amount,
+        convertedAmount: convertRefund(r, amount),
+      }
+    })
+    const recordedRefunds = refundTotals.reduce(
+      (sum, r) => sum + r.convertedAmount,
+      0
+    )
+    const cancelledRefunds = cancelledOrderRefunds.reduce(
+      (sum, r) => sum + convertRefund(r, Number(r.total_refunded_amount || 0)),
+      0
+    )
+
+    const returnRate = (returned: number, sold: number) =>
+      sold > 0 ? (returned / sold) * 100 : 0
+
+    const byProduct: ProductReturnsData[] = Array.from(productMap.values())
+      .filter((product) => product.unitsReturned > 0)
+      .map((product) => ({
+        ...product,
+        returnRate: returnRate(product.unitsReturned, product.unitsSold),
+      }))
+      .sort((a, b) => b.unitsReturned - a.unitsReturned)
+
+    const byChannel: ChannelReturnsData[] = Array.from(channelMap.values())
+      .map(({ orders, ...channel }) => ({
+        ...channel,
+        ordersWithReturns: orders.size,
+        returnRate: returnRate(channel.unitsReturned, channel.unitsSold),
+      }))
+      .sort((a, b) => b.unitsReturned - a.unitsReturned)
+
+    const byReason: ReasonReturnsData[] = Array.from(reasonMap.values())
+      .map((reason) => ({
+        ...reason,
+        percentage:
+          unitsReturned > 0 ? (reason.unitsReturned / unitsReturned) * 100 : 0,
+      }))
+      .sort((a, b) => b.unitsReturned - a.unitsReturned)
+
+    // Reconcile against the refund total shown on the Revenue Breakdown page
+    const revenue = await getRevenueBreakdown(
+      fromDate,
+      toDate,
+      undefined,
+      filters
+    )
+
+    return {
+      dateRange: { from: fromDate, to: toDate },
+      totals: {
+        unitsSold,
+        unitsReturned,
+        returnRate: returnRate(unitsReturned, unitsSold),
+        refundCount: allRefunds.length,
+        refundedAmount: recordedRefunds,
+        currency: converter.currency,
+        byCurrency: sumByCurrency(refundTotals),
+      },
+      byProduct,
+      byChannel,
+      byReason,
+      dailyData: Array.from(dailyMap.values()),
+      reasons: byReason.map((r) => r.reason),
+      reconciliation: {
+        transactionRefunds: revenue.totals.refunds,
+        recordedRefunds,
+        itemizedRefunds,
+        otherRefunds: recordedRefunds - itemizedRefunds,
+        cancelledRefunds,
+        unmatchedRefunds:
+          revenue.totals.refunds - recordedRefunds - cancelledRefunds,
+      },
+    }
+  } catch (error) {
+    console.error("Error in getReturnsAnalysis:", error)
+    throw error
+  }
+}
+
+/**
+ * Turn a Shopify ReturnReason (e.g. SIZE_TOO_SMALL) into a display label
+ */
+function formatReturnReason(reason: string | null): string {
+  if (!reason) return NO_RETURN_REASON
+
+  const label = reason.toLowerCase().replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+/**
+ * Select rows whose column matches any of the given values, chunking the IN list
+ * and paging within each chunk
+ */
+async function selectInChunks<T>(
+  table: string,
+  columns: string,
+  column: string,
+  values: Array<string | number>
+): Promise<T[]> {
+  const supabase = await createClient()
+  const pageSize = 1000
+  const rows: T[] = []
+
+  for (let i = 0; i < values.length; i += CHUNK_SIZE) {
+    const chunk = values.slice(i, i + CHUNK_SIZE)
+    let page = 1
+    let hasMore = true
+
+    while (hasMore) {
+      const { data: pageData, error } = await supabase
+        .from(table)
+        .select(columns)
+        .in(column, chunk)
+        .order("id")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (error) {
+        console.error(`❌ ${table} query error:`, error)
+        throw new Error(`${table} query failed: ${error.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        rows.push(...(pageData as T[]))
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+  }
+
+  return rows
+}
@@ -3,7 +3,17 @@
  * Analyzes revenue by different categories and time periods
  */
 
-import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { fetchDailyChannelSales } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  type ComparisonPeriod,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
 
 export interface RevenueBreakdownData {
   category: string
@@ -26,78 +36,102 @@ export interface RevenueBreakdownAnalytics {
     discounts: number
     shipping: number
     currency: string
+    // Net revenue per original currency
+    byCurrency: CurrencyTotal[]
   }
+  comparison?: PeriodComparison<
+    Pick<RevenueBreakdownAnalytics, "breakdown" | "totals">,
+    RevenueTotalsKey
+  >
 }
 
+type RevenueTotalsKey =
+  | "grossRevenue"
+  | "refunds"
+  | "netRevenue"
+  | "taxes"
+  | "discounts"
+  | "shipping"
+
+export const REVENUE_BREAKDOWN_COLUMNS: ExportColumn<RevenueBreakdownData>[] = [
+  { key: "category", header: "Category", type: "text" },
+  { key: "amount", header: "Amount", type: "currency" },
+  { key: "percentage", header: "Share of Gross Revenue", type: "percent" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const REVENUE_TOTALS_COLUMNS: ExportColumn<
+  RevenueBreakdownAnalytics["totals"]
+>[] = [
+  { key: "grossRevenue", header: "Gross Revenue", type: "currency" },
+  { key: "refunds", header: "Refunds", type: "currency" },
+  { key: "netRevenue", header: "Net Revenue", type: "currency" },
+  { key: "taxes", header: "Taxes", type: "currency" },
+  { key: "discounts", header: "Discounts", type: "currency" },
+  { key: "shipping", header: "Shipping", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get revenue breakdown analytics from database
- * Analyzes transaction data to break down revenue by components
+ * Breaks daily channel sales from the database down by revenue component
  */
 export async function getRevenueBreakdown(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<RevenueBreakdownAnalytics> {
-  try {
-    const supabase = await createClient()
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getRevenueBreakdown(fromDate, toDate, undefined, filters),
+      getRevenueBreakdown(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        breakdown: previous.breakdown,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, [
+          "grossRevenue",
+          "refunds",
+          "netRevenue",
+          "taxes",
+          "discounts",
+          "shipping",
+        ]),
+      },
+    }
+  }
 
-    // Ensure we're querying with proper UTC timestamps
-    const fromDateUTC = fromDate.includes("T")
-      ? fromDate
-      : `${fromDate}T00:00:00.000Z`
-    const toDateUTC = toDate.includes("T") ? toDate : `${toDate}T23:59:59.999Z`
+  try {
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
 
     console.log("💰 Fetching revenue data for date range:", {
       from: fromDateUTC,
       to: toDateUTC,
     })
 
-    // Query successful transactions with pagination
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allTransactions: Array<{
-      amount: number
-      kind: string | null
-      status: string | null
-      currency: string
-      order_id: number
-    }> = []
-
-    while (hasMore) {
-      const from = (page - 1) * pageSize
-      const to = from + pageSize - 1
-
-      const { data: transactions, error } = await supabase
-        .from("transactions")
-        .select("amount, kind, status, currency, order_id")
-        .gte("processed_at", fromDateUTC)
-        .lte("processed_at", toDateUTC)
-        .eq("status", "success")
-        .range(from, to)
-        .order("processed_at", { ascending: true })
-
-      if (error) {
-        console.error("❌ Database error fetching transactions:", error)
-        throw new Error(`Database error: ${error.message}`)
-      }
-
-      if (!transactions || transactions.length === 0) {
-        hasMore = false
-        break
-      }
-
-      allTransactions.push(...transactions)
-      hasMore = transactions.length === pageSize
-      page++
-
-      console.log(
-        `💳 Fetched page ${page - 1}: ${transactions.length} transactions`
-      )
-    }
-
-    console.log(`✅ Total transactions fetched: ${allTransactions.length}`)
-
-    if (allTransactions.length === 0) {
+    // Daily channel sales aggregated in the database
+    const dailyChannelSales = await fetchDailyChannelSales(
+      fromDateUTC,
+      toDateUTC,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      dailyChannelSales.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
+
+    if (dailyChannelSales.length === 0) {
       return {
         dateRange: { from: fromDate, to: toDate },
         breakdown: [],
@@ -108,71 +142,45 @@ export async function getRevenueBreakdown(
           taxes: 0,
           discounts: 0,
           shipping: 0,
-          currency: "USD",
+          currency: converter.currency,
+          byCurrency: [],
         },
       }
     }
 
-    // Get unique order IDs and fetch order details for additional revenue components
-    const orderIds = [...new Set(allTransactions.map((t) => t.order_id))]
-
-    const allOrders: Array<{
-      id: number
-      total_tax_amount: number | null
-      total_discounts_amount: number | null
-      total_shipping_amount: number | null
-      currency: string
-    }> = []
-
-    // Fetch orders in chunks
-    for (let i = 0; i < orderIds.length; i += pageSize) {
-      const chunk = orderIds.slice(i, i + pageSize)
-
-      const { data: orders, error: ordersError } = await supabase
-        .from("orders")
-        .select(
-          "id, total_tax_amount, total_discounts_amount, total_shipping_amount, currency"
-        )
-        .in("id", chunk)
-
-      if (ordersError) {
-        console.error("❌ Database error fetching orders:", ordersError)
-        throw new Error(`Database error: ${ordersError.message}`)
-      }
-
-      if (orders) {
-        allOrders.push(...orders)
-      }
-    }
-
-    // Process transactions to calculate revenue components
+    // Sum revenue components, order-level amounts are already once per order
     let grossRevenue = 0
     let refunds = 0
-    const processedOrders = new Set<number>()
     let taxes = 0
     let discounts = 0
     let shipping = 0
-    const currency = allTransactions[0]?.currency || "USD"
-
-    allTransactions.forEach((transaction) => {
-      const kind = transaction.kind?.toLowerCase()
-
-      if (kind === "sale" || kind === "capture") {
-        grossRevenue += transaction.amount
-      } else if (kind === "refund" || kind === "change") {
-        refunds += Math.abs(transaction.amount)
-      }
-
-      // Add order-level amounts only once per order
-      if (!processedOrders.has(transaction.order_id)) {
-        const order = allOrders.find((o) => o.id === transaction.order_id)
-        if (order) {
-          taxes += order.total_tax_amount || 0
-          discounts += order.total_discounts_amount || 0
-          shipping += order.total_shipping_amount || 0
-          processedOrders.add(transaction.order_id)
-        }
-      }
+    const currency = converter.currency
+    const currencyTotals: CurrencyTotal[] = []
+
+    dailyChannelSales.forEach((row) => {
+      const convert = (amount: number, shopAmount: number | null) =>
+        converter.convert(Number(amount), row.currency, row.day, shopAmount)
+      const rowRefunds = Number(row.refunds) + Number(row.changes)
+      const shopRefunds =
+        row.shop_refunds === null || row.shop_changes === null
+          ? null
+          : Number(row.shop_refunds) + Number(row.shop_changes)
+      const shopNet =
+        row.shop_gross_sales === null || shopRefunds === null
+          ? null
+          : Number(row.shop_gross_sales) - shopRefunds
+
+      grossRevenue += convert(row.gross_sales, row.shop_gross_sales)
+      refunds += convert(rowRefunds, shopRefunds)
+      taxes += convert(row.taxes, row.shop_taxes)
+      discounts += convert(row.discounts, row.shop_discounts)
+      shipping += convert(row.shipping, row.shop_shipping)
+
+      currencyTotals.push({
+        currency: row.currency,
+        amount: Number(row.gross_sales) - rowRefunds,
+        convertedAmount: convert(Number(row.gross_sales) - rowRefunds, shopNet),
+      })
     })
 
     const netRevenue = grossRevenue - refunds
@@ -222,6 +230,7 @@ export async function getRevenueBreakdown(
         discounts,
         shipping,
         currency,
+        byCurrency: sumByCurrency(currencyTotals),
       },
     }
   } catch (error) {
@@ -1,11 +1,23 @@
 /**
  * Sales Analytics Service
  *
- * Database-driven analytics for sales channel performance
+ * Database-driven analytics for sales channel performance, read from the
+ * daily_channel_metrics rollup
  */
 
-import { createClient } from "../supabase/server"
-import type { DatabaseTransaction } from "../supabase/types"
+import { getStoreTimezone } from "./get-store-timezone"
+import { fetchDailyChannelMetrics } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  getDeltasByRow,
+  type ComparisonPeriod,
+  type MetricDelta,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
 
 export interface SalesChannelData {
   channel: string
@@ -29,149 +41,95 @@ export interface SalesChannelAnalytics {
     refunds: number
     netSales: number
     currency: string
+    // Net sales per original currency
+    byCurrency: CurrencyTotal[]
+  }
+  comparison?: PeriodComparison<
+    Pick<SalesChannelAnalytics, "channels" | "totals">,
+    SalesTotalsKey
+  > & {
+    // Keyed by channel
+    byChannel: Record<string, Record<SalesTotalsKey, MetricDelta>>
   }
 }
 
+type SalesTotalsKey = "grossSales" | "refunds" | "netSales"
+
+export const SALES_CHANNEL_COLUMNS: ExportColumn<SalesChannelData>[] = [
+  { key: "channel", header: "Channel", type: "text" },
+  { key: "grossSales", header: "Gross Sales", type: "currency" },
+  { key: "refunds", header: "Refunds", type: "currency" },
+  { key: "netSales", header: "Net Sales", type: "currency" },
+  { key: "discounts", header: "Discounts", type: "currency" },
+  { key: "taxes", header: "Taxes", type: "currency" },
+  { key: "shippingCharges", header: "Shipping", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const SALES_CHANNEL_TOTALS_COLUMNS: ExportColumn<
+  SalesChannelAnalytics["totals"]
+>[] = [
+  { key: "grossSales", header: "Gross Sales", type: "currency" },
+  { key: "refunds", header: "Refunds", type: "currency" },
+  { key: "netSales", header: "Net Sales", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get sales analytics by channel from database
  */
 export async function getSalesByChannel(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<SalesChannelAnalytics> {
-  try {
-    const supabase = await createClient()
-
-    // Adjust toDate to include entire day (23:59:59.999)
-    const toDateEndOfDay = toDate.includes("T")
-      ? toDate
-      : `${toDate}T23:59:59.999Z`
-
-    // Query transactions within date range first (transaction-centric approach)
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allTransactions: Pick<
-      DatabaseTransaction,
-      "order_id" | "kind" | "status" | "amount"
-    >[] = []
-
-    while (hasMore) {
-      const { data: pageData, error: transactionsError } = await supabase
-        .from("transactions")
-        .select("order_id, kind, status, amount")
-        .gte("processed_at", fromDate)
-        .lte("processed_at", toDateEndOfDay)
-        .order("processed_at")
-        .range((page - 1) * pageSize, page * pageSize - 1)
-
-      if (transactionsError) {
-        console.error("❌ Transactions query error:", transactionsError)
-        throw new Error(
-          `Transactions query failed: ${transactionsError.message}`
-        )
-      }
-
-      if (pageData && pageData.length > 0) {
-        allTransactions.push(...pageData)
-        hasMore = pageData.length === pageSize
-        page++
-      } else {
-        hasMore = false
-      }
-    }
-
-    if (allTransactions.length === 0) {
-      return {
-        dateRange: { from: fromDate, to: toDate },
-        channels: [],
-        totals: {
-          grossSales: 0,
-          refunds: 0,
-          netSales: 0,
-          currency: "USD",
-        },
-      }
-    }
-
-    // Get unique order IDs from transactions
-    const orderIds = [...new Set(allTransactions.map((t) => t.order_id))]
-
-    // Query orders for these transactions with pagination
-    const allOrders: Array<{
-      id: number
-      source_name: string | null
-      channel_id: string | null
-      channel_display_name: string | null
-      currency: string
-      total_tax_amount: number
-      total_discounts_amount: number
-      total_shipping_amount: number
-    }> = []
-    page = 1
-    hasMore = true
-
-    while (hasMore) {
-      const { data: pageData, error } = await supabase
-        .from("orders")
-        .select(
-          `
-          id,
-          source_name, 
-          channel_id, 
-          channel_display_name, 
-          currency,
-          total_tax_amount,
-          total_discounts_amount,
-          total_shipping_amount
-        `
-        )
-        .in("id", orderIds.slice((page - 1) * pageSize, page * pageSize))
-        .eq("test", false)
-
-      if (error) {
-        console.error("❌ Database query error:", error)
-        throw new Error(`Database query failed: ${error.message}`)
-      }
-
-      if (pageData && pageData.length > 0) {
-        allOrders.push(...pageData)
-        hasMore = orderIds.length > page * pageSize
-        page++
-      } else {
-        hasMore = false
-      }
-    }
-
-    if (allOrders.length === 0) {
-      return {
-        dateRange: { from: fromDate, to: toDate },
-        channels: [],
-        totals: {
-          grossSales: 0,
-          refunds: 0,
-          netSales: 0,
-          currency: "USD",
-        },
-      }
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getSalesByChannel(fromDate, toDate, undefined, filters),
+      getSalesByChannel(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    const keys = ["grossSales", "refunds", "netSales"] as const
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        channels: previous.channels,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, keys),
+        byChannel: getDeltasByRow(
+          current.channels,
+          previous.channels,
+          "channel",
+          keys
+        ),
+      },
     }
+  }
 
-    // Create a map of order ID to transactions for fast lookup
-    const transactionsByOrderId = new Map<number, typeof allTransactions>()
-    allTransactions.forEach((transaction) => {
-      if (!transactionsByOrderId.has(transaction.order_id)) {
-        transactionsByOrderId.set(transaction.order_id, [])
-      }
-      transactionsByOrderId.get(transaction.order_id)!.push(transaction)
-    })
+  try {
+    const timeZone = await getStoreTimezone()
+
+    // Daily rollup rows per channel, today computed live
+    const dailyMetrics = await fetchDailyChannelMetrics(
+      fromDate,
+      toDate,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      dailyMetrics.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
+    const currencyTotals: CurrencyTotal[] = []
 
-    // Process orders and their transactions into channel analytics
+    // Sum the days into one row per channel
     const channelMap = new Map<
       string,
       {
         sales: number
         refunds: number
-        orders: Set<number>
         taxes: number
         discounts: number
         shipping: number
@@ -179,48 +137,35 @@ export async function getSalesByChannel(
       }
     >()
 
-    allOrders.forEach((order) => {
-      // Use channel display name with fallback to source name
-      const channel =
-        order.channel_display_name || order.source_name || "Unknown"
-
-      if (!channelMap.has(channel)) {
-        channelMap.set(channel, {
+    dailyMetrics.forEach((row) => {
+      if (!channelMap.has(row.channel)) {
+        channelMap.set(row.channel, {
           sales: 0,
           refunds: 0,
-          orders: new Set(),
           taxes: 0,
           discounts: 0,
           shipping: 0,
-          currency: order.currency,
+          currency: converter.currency,
         })
       }
 
-      const channelData = channelMap.get(channel)!
-
-      // Track unique orders for this channel
-      channelData.orders.add(order.id)
+      const channelData = channelMap.get(row.channel)!
+      const convert = (amount: number, shopAmount: number | null) =>
+        converter.convert(Number(amount), row.currency, row.day, shopAmount)
 
-      // Add order-level financial data (accumulated once per order)
-      channelData.taxes += order.total_tax_amount || 0
-      channelData.discounts += order.total_discounts_amount || 0
-      channelData.shipping += order.total_shipping_amount || 0
+      // Net Sales = sum(SALE + CAPTURE), Net Refunds = sum(REFUND + CHANGE)
+      channelData.sales += convert(row.gross_sales, row.shop_gross_sales)
+      channelData.refunds += convert(row.refunds, row.shop_refunds)
 
-      // Process transactions for this order
-      const orderTransactions = transactionsByOrderId.get(order.id) || []
-      orderTransactions.forEach((transaction) => {
-        if (transaction.status?.toLowerCase() === "success") {
-          const kind = transaction.kind?.toLowerCase()
+      // Order-level amounts of the orders created in the range
+      channelData.taxes += convert(row.taxes, row.shop_taxes)
+      channelData.discounts += convert(row.discounts, row.shop_discounts)
+      channelData.shipping += convert(row.shipping, row.shop_shipping)
 
-          // Net Sales = sum(SALE + CAPTURE)
-          if (kind === "sale" || kind === "capture") {
-            channelData.sales += transaction.amount
-          }
-          // Net Refunds = sum(REFUND + CHANGE) - use Math.abs for negative refund amounts
-          else if (kind === "refund" || kind === "change") {
-            channelData.refunds += Math.abs(transaction.amount)
-          }
-        }
+      currencyTotals.push({
+        currency: row.currency,
+        amount: Number(row.net_sales),
+        convertedAmount: convert(row.net_sales, row.shop_net_sales),
       })
     })
 
@@ -244,34 +189,23 @@ export async function getSalesByChannel(
         grossSales: acc.grossSales + channel.grossSales,
         refunds: acc.refunds + channel.refunds,
         netSales: acc.netSales + channel.netSales,
-        currency: channel.currency, // Use first currency found
+        currency: acc.currency,
       }),
       {
         grossSales: 0,
         refunds: 0,
         netSales: 0,
-        currency: "USD",
+        currency: converter.currency,
       }
     )
 
     return {
       dateRange: { from: fromDate, to: toDate },
       channels,
-      totals,
+      totals: { ...totals, byCurrency: sumByCurrency(currencyTotals) },
     }
   } catch (error) {
-    console.error("❌ Failed to get database analytics:", error)
-
-    // Fallback to empty result
-    return {
-      dateRange: { from: fromDate, to: toDate },
-      channels: [],
-      totals: {
-        grossSales: 0,
-        refunds: 0,
-        netSales: 0,
-        currency: "USD",
-      },
-    }
+    console.error("Error in getSalesByChannel:", error)
+    throw error
   }
 }
@@ -2,9 +2,18 @@
  * Sales Over Time Analytics Service
  */
 
-import { createClient } from "../supabase/server"
-import { eachDayOfInterval, parseISO, format } from "date-fns"
-import type { DatabaseTransaction } from "../supabase/types"
+import { getStoreTimezone } from "./get-store-timezone"
+import { fetchDailyChannelMetrics } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { eachStoreDay } from "../date-range"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  type ComparisonPeriod,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
 
 export interface DailySalesData {
   date: string
@@ -25,137 +34,83 @@ export interface SalesOverTimeAnalytics {
     refunds: number
     netSales: number
     currency: string
+    // Net sales per original currency
+    byCurrency: CurrencyTotal[]
   }
+  comparison?: PeriodComparison<
+    Pick<SalesOverTimeAnalytics, "dailyData" | "totals">,
+    SalesTotalsKey
+  >
 }
 
+type SalesTotalsKey = "grossSales" | "refunds" | "netSales"
+
+export const DAILY_SALES_COLUMNS: ExportColumn<DailySalesData>[] = [
+  { key: "date", header: "Date", type: "date" },
+  { key: "grossSales", header: "Gross Sales", type: "currency" },
+  { key: "refunds", header: "Refunds", type: "currency" },
+  { key: "netSales", header: "Net Sales", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const SALES_TOTALS_COLUMNS: ExportColumn<
+  SalesOverTimeAnalytics["totals"]
+>[] = [
+  { key: "grossSales", header: "Gross Sales", type: "currency" },
+  { key: "refunds", header: "Refunds", type: "currency" },
+  { key: "netSales", header: "Net Sales", type: "currency" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get sales analytics over time from database
- * Uses pagination to handle large datasets efficiently
+ * Reads the daily_channel_metrics rollup, refunds include CHANGE transactions.
+ * Amounts are converted into the reporting currency per day.
  */
 export async function getSalesOverTime(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<SalesOverTimeAnalytics> {
-  try {
-    const supabase = await createClient()
-
-    // Ensure we're querying with proper UTC timestamps
-    const fromDateUTC = fromDate.includes("T")
-      ? fromDate
-      : `${fromDate}T00:00:00.000Z`
-    const toDateUTC = toDate.includes("T") ? toDate : `${toDate}T23:59:59.999Z`
-
-    // Start with transactions within date range (transaction-centric approach)
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allTransactions: Pick<
-      DatabaseTransaction,
-      "processed_at" | "amount" | "currency" | "kind" | "status" | "order_id"
-    >[] = []
-
-    while (hasMore) {
-      const { data: pageData, error: transactionsError } = await supabase
-        .from("transactions")
-        .select(
-          `
-          processed_at,
-          amount,
-          currency,
-          kind,
-          status,
-          order_id
-        `
-        )
-        .gte("processed_at", fromDateUTC)
-        .lte("processed_at", toDateUTC)
-        .order("processed_at")
-        .range((page - 1) * pageSize, page * pageSize - 1)
-
-      if (transactionsError) {
-        console.error("Error fetching transactions data:", transactionsError)
-        throw new Error(
-          `Failed to fetch transactions data: ${transactionsError.message}`
-        )
-      }
-
-      if (pageData && pageData.length > 0) {
-        allTransactions.push(...pageData)
-        hasMore = pageData.length === pageSize
-        page++
-      } else {
-        hasMore = false
-      }
-    }
-
-    if (allTransactions.length === 0) {
-      return {
-        dateRange: { from: fromDate, to: toDate },
-        dailyData: [],
-        totals: {
-          grossSales: 0,
-          refunds: 0,
-          netSales: 0,
-          currency: "USD",
-        },
-      }
-    }
-
-    // Get unique order IDs from transactions
-    const orderIds = [...new Set(allTransactions.map((t) => t.order_id))]
-
-    // Query orders for these transactions
-    const allOrders: Array<{
-      id: number
-      processed_at: string
-      total_amount: number
-      currency: string
-    }> = []
-    page = 1
-    hasMore = true
-
-    while (hasMore) {
-      const { data: pageData, error: pageError } = await supabase
-        .from("orders")
-        .select(
-          `
-          id,
-          processed_at,
-          total_amount,
-          currency
-        `
-        )
-        .in("id", orderIds.slice((page - 1) * pageSize, page * pageSize))
-        .eq("test", false)
-
-      if (pageError) {
-        console.error("Error fetching orders data:", pageError)
-        throw new Error(`Failed to fetch orders data: ${pageError.message}`)
-      }
-
-      if (pageData && pageData.length > 0) {
-        allOrders.push(...pageData)
-        hasMore = orderIds.length > page * pageSize
-        page++
-      } else {
-        hasMore = false
-      }
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getSalesOverTime(fromDate, toDate, undefined, filters),
+      getSalesOverTime(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        dailyData: previous.dailyData,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, [
+          "grossSales",
+          "refunds",
+          "netSales",
+        ]),
+      },
     }
+  }
 
-    if (allOrders.length === 0) {
-      return {
-        dateRange: { from: fromDate, to: toDate },
-        dailyData: [],
-        totals: {
-          grossSales: 0,
-          refunds: 0,
-          netSales: 0,
-          currency: "USD",
-        },
-      }
-    }
+  try {
+    const timeZone = await getStoreTimezone()
+
+    // Daily rollup rows per channel, today computed live
+    const dailyMetrics = await fetchDailyChannelMetrics(
+      fromDate,
+      toDate,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      dailyMetrics.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
+    const currencyTotals: CurrencyTotal[] = []
 
-    // Process the data into daily aggregates based on transaction dates
+    // Sum the channels into one row per day
     const dailyMap = new Map<
       string,
       {
@@ -166,37 +121,26 @@ export async function getSalesOverTime(
       }
     >()
 
-    // Process transactions first (since we're doing transaction-centric analysis)
-    allTransactions.forEach((transaction) => {
-      if (!transaction.processed_at) return
-
-      // Extract date part using UTC to avoid timezone issues
-      const processedDate = new Date(transaction.processed_at)
-      const utcDateStr =
-        processedDate.getUTCFullYear() +
-        "-" +
-        String(processedDate.getUTCMonth() + 1).padStart(2, "0") +
-        "-" +
-        String(processedDate.getUTCDate()).padStart(2, "0")
-
-      const current = dailyMap.get(utcDateStr) || {
-        date: utcDateStr,
+    dailyMetrics.forEach((row) => {
+      const current = dailyMap.get(row.day) || {
+        date: row.day,
         grossSales: 0,
         refunds: 0,
-        currency: transaction.currency || "USD",
+        currency: converter.currency,
       }
 
-      if (transaction.status?.toLowerCase() === "success") {
-        const kind = transaction.kind?.toLowerCase()
+      const convert = (amount: number, shopAmount: number | null) =>
+        converter.convert(Number(amount), row.currency, row.day, shopAmount)
+      current.grossSales += convert(row.gross_sales, row.shop_gross_sales)
+      current.refunds += convert(row.refunds, row.shop_refunds)
 
-        if (kind === "sale" || kind === "capture") {
-          current.grossSales += transaction.amount
-        } else if (kind === "refund") {
-          current.refunds += Math.abs(transaction.amount)
-        }
-      }
+      currencyTotals.push({
+        currency: row.currency,
+        amount: Number(row.net_sales),
+        convertedAmount: convert(row.net_sales, row.shop_net_sales),
+      })
 
-      dailyMap.set(utcDateStr, current)
+      dailyMap.set(row.day, current)
     })
 
     // Convert to array and calculate net sales
@@ -211,12 +155,7 @@ export async function getSalesOverTime(
       .sort((a, b) => a.date.localeCompare(b.date))
 
     // Fill in missing days with zero data to show complete date range
-    const startDate = parseISO(fromDate)
-    const endDate = parseISO(toDate.split("T")[0]) // Remove time part if present
-    const allDays = eachDayOfInterval({ start: startDate, end: endDate })
-
-    const completeDailyData = allDays.map((day) => {
-      const dateStr = format(day, "yyyy-MM-dd")
+    const completeDailyData = eachStoreDay(fromDate, toDate).map((dateStr) => {
       const existingData = dailyData.find((d) => d.date === dateStr)
 
       return (
@@ -225,7 +164,7 @@ export async function getSalesOverTime(
           grossSales: 0,
           refunds: 0,
           netSales: 0,
-          currency: "USD",
+          currency: converter.currency,
         }
       )
     })
@@ -236,20 +175,20 @@ export async function getSalesOverTime(
         grossSales: acc.grossSales + day.grossSales,
         refunds: acc.refunds + day.refunds,
         netSales: acc.netSales + day.netSales,
-        currency: day.currency,
+        currency: acc.currency,
       }),
       {
         grossSales: 0,
         refunds: 0,
         netSales: 0,
-        currency: "USD",
+        currency: converter.currency,
       }
     )
 
     return {
       dateRange: { from: fromDate, to: toDate },
       dailyData: completeDailyData,
-      totals,
+      totals: { ...totals, byCurrency: sumByCurrency(currencyTotals) },
     }
   } catch (error) {
     console.error("Error in getSalesOverTime:", error)
@@ -0,0 +1,61 @@
+/**
+ * Store Timezone Service
+ *
+ * Resolves the IANA timezone that report days are measured in: the
+ * SHOPIFY_STORE_TIMEZONE override if set, otherwise the Shopify shop setting.
+ */
+
+import { shopifyFetch } from "../shopify/client"
+import {
+  ShopTimezoneDocument,
+  type ShopifyShopTimezoneQuery,
+  type ShopifyShopTimezoneQueryVariables,
+} from "../shopify/types"
+import { DEFAULT_STORE_TIMEZONE, getStoreDayBounds } from "../date-range"
+
+// The shop timezone rarely changes, look it up once per server process
+let storeTimezone: Promise<string> | null = null
+
+async function fetchStoreTimezone(): Promise<string> {
+  try {
+    const response = await shopifyFetch<
+      ShopifyShopTimezoneQuery,
+      ShopifyShopTimezoneQueryVariables
+    >({
+      query: ShopTimezoneDocument,
+      tags: ["shop"],
+    })
+
+    return response.shop.ianaTimezone || DEFAULT_STORE_TIMEZONE
+  } catch (error) {
+    console.error("❌ Failed to fetch store timezone, using UTC:", error)
+    // Retry on the next request instead of caching the fallback
+    storeTimezone = null
+    return DEFAULT_STORE_TIMEZONE
+  }
+}
+
+/**
+ * Get the store's IANA timezone, e.g. "Australia/Melbourne"
+ */
+export async function getStoreTimezone(): Promise<string> {
+  if (process.env.SHOPIFY_STORE_TIMEZONE) {
+    return process.env.SHOPIFY_STORE_TIMEZONE
+  }
+
+  if (!storeTimezone) {
+    storeTimezone = fetchStoreTimezone()
+  }
+  return storeTimezone
+}
+
+/**
+ * UTC query bounds for a range of store days
+ */
+export async function getStoreDateBounds(
+  fromDate: string,
+  toDate: string
+): Promise<{ fromUTC: string; toUTC: string; timeZone: string }> {
+  const timeZone = await getStoreTimezone()
+  return { ...getStoreDayBounds(fromDate, toDate, timeZone), timeZone }
+}
@@ -0,0 +1,268 @@
+/**
+ * Product Sales Analytics Service
+ *
+ * Units, gross sales, discounts and net sales per product or variant,
+ * built from order_line_items for orders processed in the date range
+ */
+
+import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import { toStoreDate } from "../date-range"
+import { applyOrderFilters } from "../supabase/order-filters"
+import type { ReportFilters } from "../report-filters"
+import type { DatabaseLineItem } from "../supabase/types"
+
+export type ProductGrouping = "product" | "variant"
+
+export interface ProductSalesData {
+  key: string
+  productId: string | null
+  variantId: string | null
+  title: string
+  variantTitle: string | null
+  sku: string | null
+  vendor: string | null
+  unitsSold: number
+  grossSales: number
+  discounts: number
+  netSales: number
+  orderCount: number
+  currency: string
+}
+
+export interface TopProductsAnalytics {
+  dateRange: {
+    from: string
+    to: string
+  }
+  groupBy: ProductGrouping
+  products: ProductSalesData[]
+  totals: {
+    unitsSold: number
+    grossSales: number
+    discounts: number
+    netSales: number
+    currency: string
+    // Net sales per original currency
+    byCurrency: CurrencyTotal[]
+  }
+}
+
+// Order IDs per line item query, keeps the PostgREST URL short
+const ORDER_CHUNK_SIZE = 200
+
+/**
+ * Get product-level sales for the date range from orders matching the filters
+ */
+export async function getTopProducts(
+  fromDate: string,
+  toDate: string,
+  options: {
+    groupBy?: ProductGrouping
+    limit?: number
+    filters?: ReportFilters
+  } = {}
+): Promise<TopProductsAnalytics> {
+  const { groupBy = "product", limit = 100, filters = {} } = options
+
+  try {
+    const supabase = await createClient()
+
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
+
+    // Query orders in range with pagination
+    const pageSize = 1000
+    let page = 1
+    let hasMore = true
+    const allOrders: Array<{
+      id: number
+      processed_at: string
+    }> = []
+
+    while (hasMore) {
+      const { data: pageData, error: ordersError } = await applyOrderFilters(
+        supabase
+          .from("orders")
+          .select("id, processed_at")
+          .gte("processed_at", fromDateUTC)
+          .lte("processed_at", toDateUTC)
+          .eq("test", false)
+          .is("cancelled_at", null)
+          .is("deleted_at", null),
+        filters
+      )
+        .order("processed_at")
+        .range((page - 1) * pageSize, page * pageSize - 1)
+
+      if (ordersError) {
+        console.error("❌ Orders query error:", ordersError)
+        throw new Error(`Orders query failed: ${ordersError.message}`)
+      }
+
+      if (pageData && pageData.length > 0) {
+        allOrders.push(...pageData)
+        hasMore = pageData.length === pageSize
+        page++
+      } else {
+        hasMore = false
+      }
+    }
+
+    const orderIds = allOrders.map((order) => order.id)
+
+    // Query line items for the matching orders in chunks
+    const allLineItems: Pick<
+      DatabaseLineItem,
+      | "order_id"
+      | "product_id"
+      | "variant_id"
+      | "sku"
+      | "title"
+      | "variant_title"
+      | "vendor"
+      | "quantity"
+      | "original_unit_price"
+      | "total_discount_amount"
+      | "currency"
+    >[] = []
+
+    for (let i = 0; i < orderIds.length; i += ORDER_CHUNK_SIZE) {
+      const chunk = orderIds.slice(i, i + ORDER_CHUNK_SIZE)
+      page = 1
+      hasMore = true
+
+      while (hasMore) {
+        const { data: pageData, error: lineItemsError } = await supabase
+          .from("order_line_items")
+          .select(
+            "order_id, product_id, variant_id, sku, title, variant_title, vendor, quantity, original_unit_price, total_discount_amount, currency"
+          )
+          .in("order_id", chunk)
+          .order("id")
+          .range((page - 1) * pageSize, page * pageSize - 1)
+
+        if (lineItemsError) {
+          console.error("❌ Line items query error:", lineItemsError)
+          throw new Error(`Line items query failed: ${lineItemsError.message}`)
+        }
+
+        if (pageData && pageData.length > 0) {
+          allLineItems.push(...pageData)
+          hasMore = pageData.length === pageSize
+          page++
+        } else {
+          hasMore = false
+        }
+      }
+    }
+
+    // Line items convert at the rate of their order's store day
+    const orderDays = new Map(
+      allOrders.map((order) => [
+        order.id,
+        toStoreDate(order.processed_at, timeZone),
+      ])
+    )
+    const converter = await getCurrencyConverter(
+      allLineItems.map((lineItem) => lineItem.currency),
+      fromDate,
+      toDate
+    )
+
+    // Group line items by product or variant
+    const currencyTotals: CurrencyTotal[] = []
+    const productMap = new Map<
+      string,
+      Omit<ProductSalesData, "orderCount"> & { orders: Set<number> }
+    >()
+
+    allLineItems.forEach((lineItem) => {
+      // Custom items have no product, fall back to SKU or title
+      const productKey =
+        lineItem.product_id || lineItem.sku || `title:${lineItem.title}`
+      const key =
+        groupBy === "variant"
+          ? lineItem.variant_id || `${productKey}:${lineItem.variant_title}`
+          : productKey
+
+      if (!productMap.has(key)) {
+        productMap.set(key, {
+          key,
+          productId: lineItem.product_id,
+          variantId: groupBy === "variant" ? lineItem.variant_id : null,
+          title: lineItem.title,
+          variantTitle: groupBy === "variant" ? lineItem.variant_title : null,
+          sku: groupBy === "variant" ? lineItem.sku : null,
+          vendor: lineItem.vendor,
+          unitsSold: 0,
+          grossSales: 0,
+          discounts: 0,
+          netSales: 0,
+          currency: converter.currency,
+          orders: new Set(),
+        })
+      }
+
+      const product = productMap.get(key)!
+      const day = orderDays.get(lineItem.order_id)!
+      const lineGross =
+        Number(lineItem.original_unit_price || 0) * lineItem.quantity
+      const lineDiscount = Number(lineItem.total_discount_amount || 0)
+      const gross = converter.convert(lineGross, lineItem.currency, day)
+      const discount = converter.convert(lineDiscount, lineItem.currency, day)
+
+      currencyTotals.push({
+        currency: lineItem.currency,
+        amount: lineGross - lineDiscount,
+        convertedAmount: gross - discount,
+      })
+
+      product.unitsSold += lineItem.quantity
+      product.grossSales += gross
+      product.discounts += discount
+      product.netSales += gross - discount
+      product.orders.add(lineItem.order_id)
+    })
+
+    const allProducts: ProductSalesData[] = Array.from(productMap.values()).map(
+      ({ orders, ...product }) => ({
+        ...product,
+        orderCount: orders.size,
+      })
+    )
+
+    // Sort by net sales descending
+    allProducts.sort((a, b) => b.netSales - a.netSales)
+
+    const totals = allProducts.reduce(
+      (acc, product) => ({
+        unitsSold: acc.unitsSold + product.unitsSold,
+        grossSales: acc.grossSales + product.grossSales,
+        discounts: acc.discounts + product.discounts,
+        netSales: acc.netSales + product.netSales,
+      }),
+      { unitsSold: 0, grossSales: 0, discounts: 0, netSales: 0 }
+    )
+
+    return {
+      dateRange: { from: fromDate, to: toDate },
+      groupBy,
+      products: allProducts.slice(0, limit),
+      totals: {
+        ...totals,
+        currency: converter.currency,
+        byCurrency: sumByCurrency(currencyTotals),
+      },
+    }
+  } catch (error) {
+    console.error("Error in getTopProducts:", error)
+    throw error
+  }
+}
@@ -3,7 +3,19 @@
  * Analyzes transaction patterns, volumes, and success rates
  */
 
-import { createClient } from "../supabase/server"
+import { getStoreDateBounds } from "./get-store-timezone"
+import { fetchTransactionKindSummary } from "./analytics-functions"
+import { getCurrencyConverter } from "./get-reporting-currency"
+import { sumByCurrency, type CurrencyTotal } from "../currency"
+import type { ExportColumn } from "../export"
+import {
+  getDeltas,
+  getDeltasByRow,
+  type ComparisonPeriod,
+  type MetricDelta,
+  type PeriodComparison,
+} from "./comparison"
+import type { ReportFilters } from "../report-filters"
 
 export interface TransactionTypeData {
   kind: string
@@ -28,67 +40,115 @@ export interface TransactionAnalytics {
     averageTransactionAmount: number
     successRate: number
     currency: string
+    // Successful transaction amounts per original currency
+    byCurrency: CurrencyTotal[]
+  }
+  comparison?: PeriodComparison<
+    Pick<TransactionAnalytics, "byType" | "totals">,
+    TransactionTotalsKey
+  > & {
+    // Keyed by transaction kind
+    byKind: Record<
+      string,
+      Record<"count" | "totalAmount" | "successRate", MetricDelta>
+    >
   }
 }
 
+type TransactionTotalsKey =
+  | "totalTransactions"
+  | "successfulTransactions"
+  | "failedTransactions"
+  | "totalAmount"
+  | "averageTransactionAmount"
+  | "successRate"
+
+export const TRANSACTION_TYPE_COLUMNS: ExportColumn<TransactionTypeData>[] = [
+  { key: "kind", header: "Kind", type: "text" },
+  { key: "count", header: "Transactions", type: "number" },
+  { key: "totalAmount", header: "Total Amount", type: "currency" },
+  { key: "averageAmount", header: "Average Amount", type: "currency" },
+  { key: "successRate", header: "Success Rate", type: "percent" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
+export const TRANSACTION_TOTALS_COLUMNS: ExportColumn<
+  TransactionAnalytics["totals"]
+>[] = [
+  { key: "totalTransactions", header: "Transactions", type: "number" },
+  { key: "successfulTransactions", header: "Successful", type: "number" },
+  { key: "failedTransactions", header: "Failed", type: "number" },
+  { key: "totalAmount", header: "Total Amount", type: "currency" },
+  {
+    key: "averageTransactionAmount",
+    header: "Average Amount",
+    type: "currency",
+  },
+  { key: "successRate", header: "Success Rate", type: "percent" },
+  { key: "currency", header: "Currency", type: "text" },
+]
+
 /**
  * Get transaction analysis from database
  * Analyzes all transaction types, success rates, and patterns
  */
 export async function getTransactionAnalysis(
   fromDate: string,
-  toDate: string
+  toDate: string,
+  compareTo?: ComparisonPeriod,
+  filters: ReportFilters = {}
 ): Promise<TransactionAnalytics> {
-  try {
-    const supabase = await createClient()
-
-    // Ensure we're querying with proper UTC timestamps
-    const fromDateUTC = fromDate.includes("T")
-      ? fromDate
-      : `${fromDate}T00:00:00.000Z`
-    const toDateUTC = toDate.includes("T") ? toDate : `${toDate}T23:59:59.999Z`
-
-    // Query all transactions with pagination
-    const pageSize = 1000
-    let page = 1
-    let hasMore = true
-    const allTransactions: Array<{
-      amount: number
-      kind: string | null
-      status: string | null
-      currency: string
-      gateway: string | null
-      processed_at: string
-    }> = []
-
-    while (hasMore) {
-      const from = (page - 1) * pageSize
-      const to = from + pageSize - 1
-
-      const { data: transactions, error } = await supabase
-        .from("transactions")
-        .select("amount, kind, status, currency, gateway, processed_at")
-        .gte("processed_at", fromDateUTC)
-        .lte("processed_at", toDateUTC)
-        .range(from, to)
-        .order("processed_at", { ascending: true })
-
-      if (error) {
-        console.error("❌ Database error fetching transactions:", error)
-        throw new Error(`Database error: ${error.message}`)
-      }
-
-      if (!transactions || transactions.length === 0) {
-        hasMore = false
-        break
-      }
-
-      allTransactions.push(...transactions)
-      hasMore = transactions.length === pageSize
-      page++
+  if (compareTo) {
+    const [current, previous] = await Promise.all([
+      getTransactionAnalysis(fromDate, toDate, undefined, filters),
+      getTransactionAnalysis(compareTo.from, compareTo.to, undefined, filters),
+    ])
+    return {
+      ...current,
+      comparison: {
+        dateRange: previous.dateRange,
+        byType: previous.byType,
+        totals: previous.totals,
+        deltas: getDeltas(current.totals, previous.totals, [
+          "totalTransactions",
+          "successfulTransactions",
+          "failedTransactions",
+          "totalAmount",
+          "averageTransactionAmount",
+          "successRate",
+        ]),
+        byKind: getDeltasByRow(current.byType, previous.byType, "kind", [
+          "count",
+          "totalAmount",
+          "successRate",
+        ]),
+      },
     }
+  }
+
+  try {
+    // Store-day boundaries as UTC timestamps
+    const {
+      fromUTC: fromDateUTC,
+      toUTC: toDateUTC,
+      timeZone,
+    } = await getStoreDateBounds(fromDate, toDate)
+
+    // Transactions grouped by day, kind and currency in the database
+    const kindRows = await fetchTransactionKindSummary(
+      fromDateUTC,
+      toDateUTC,
+      timeZone,
+      filters
+    )
+    const converter = await getCurrencyConverter(
+      kindRows.map((row) => row.currency),
+      fromDate,
+      toDate
+    )
+    const currency = converter.currency
 
-    if (allTransactions.length === 0) {
+    if (kindRows.length === 0) {
       return {
         dateRange: { from: fromDate, to: toDate },
         byType: [],
@@ -99,71 +159,64 @@ export async function getTransactionAnalysis(
           totalAmount: 0,
           averageTransactionAmount: 0,
           successRate: 0,
-          currency: "USD",
+          currency,
+          byCurrency: [],
         },
       }
     }
 
-    // Group transactions by type (kind)
-    const transactionGroups = new Map<
-      string,
-      {
-        transactions: typeof allTransactions
-        totalAmount: number
-        successfulCount: number
-        currency: string
-      }
-    >()
-
-    allTransactions.forEach((transaction) => {
-      const kind = transaction.kind || "Unknown"
-      const isSuccessful = transaction.status?.toLowerCase() === "success"
-
-      if (!transactionGroups.has(kind)) {
-        transactionGroups.set(kind, {
-          transactions: [],
-          totalAmount: 0,
-          successfulCount: 0,
-          currency: transaction.currency || "USD",
-        })
-      }
-
-      const group = transactionGroups.get(kind)!
-      group.transactions.push(transaction)
-
-      if (isSuccessful) {
-        group.totalAmount += transaction.amount
-        group.successfulCount += 1
-      }
-    })
+    // Combine the day and currency rows of each kind
+    const currencyTotals: CurrencyTotal[] = []
+    const kindGroups = kindRows.reduce(
+      (acc, row) => {
+        const kind = row.kind || "Unknown"
+        if (!acc[kind]) {
+          acc[kind] = { count: 0, successfulCount: 0, totalAmount: 0 }
+        }
+        const amount = Number(row.successful_amount)
+        const convertedAmount = converter.convert(
+          amount,
+          row.currency,
+          row.day,
+          row.shop_successful_amount
+        )
+
+        acc[kind].count += Number(row.transaction_count)
+        acc[kind].successfulCount += Number(row.successful_count)
+        acc[kind].totalAmount += convertedAmount
+        currencyTotals.push({ currency: row.currency, amount, convertedAmount })
+        return acc
+      },
+      {} as Record<
+        string,
+        { count: number; successfulCount: number; totalAmount: number }
+      >
+    )
 
     // Calculate by-type statistics
-    const byType: TransactionTypeData[] = Array.from(
-      transactionGroups.entries()
-    )
-      .map(([kind, group]) => ({
+    const byType: TransactionTypeData[] = Object.entries(kindGroups)
+      .map(([kind, data]) => ({
         kind,
-        count: group.transactions.length,
-        totalAmount: group.totalAmount,
+        count: data.count,
+        totalAmount: data.totalAmount,
         averageAmount:
-          group.successfulCount > 0
-            ? group.totalAmount / group.successfulCount
+          data.successfulCount > 0
+            ? data.totalAmount / data.successfulCount
             : 0,
-        successRate: (group.successfulCount / group.transactions.length) * 100,
-        currency: group.currency,
+        successRate: (data.successfulCount / data.count) * 100,
+        currency,
       }))
       .sort((a, b) => b.count - a.count) // Sort by count descending
 
     // Calculate overall totals
-    const totalTransactions = allTransactions.length
-    const successfulTransactions = allTransactions.filter(
-      (t) => t.status?.toLowerCase() === "success"
-    ).length
+    const totalTransactions = byType.reduce((sum, type) => sum + type.count, 0)
+    const successfulTransactions = Object.values(kindGroups).reduce(
+      (sum, data) => sum + data.successfulCount,
+      0
+    )
     const failedTransactions = totalTransactions - successfulTransactions
 
-    const totalAmount = allTransactions
-      .filter((t) => t.status?.toLowerCase() === "success")
-      .reduce((sum, t) => sum + t.amount, 0)
+    const totalAmount = byType.reduce((sum, type) => sum + type.totalAmount, 0)
 
     const averageTransactionAmount =
       successfulTransactions > 0 ? totalAmount / successfulTransactions : 0
@@ -173,8 +226,6 @@ export async function getTransactionAnalysis(
         ? (successfulTransactions / totalTransactions) * 100
         : 0
 
-    const currency = allTransactions[0]?.currency || "USD"
-
     return {
       dateRange: { from: fromDate, to: toDate },
       byType,
@@ -186,6 +237,7 @@ export async function getTransactionAnalysis(
         averageTransactionAmount,
         successRate,
         currency,
+        byCurrency: sumByCurrency(currencyTotals),
       },
     }
   } catch (error) {
@@ -0,0 +1,776 @@
+/**
+ * Order Batch Processing
+ *
+ * Shapes Shopify SyncOrders nodes into database rows and upserts them, then
+ * refreshes the daily_channel_metrics rollup for the store days they touched.
+ * Shared by the incremental sync, the bulk backfill and webhook ingestion so
+ * every ingestion path stores orders identically. Orders deleted in Shopify
+ * are marked deleted rather than removed.
+ */
+
+import { createHash } from "crypto"
+import { shopifyFetch } from "../shopify/client"
+import {
+  OrderLineItemsDocument,
+  OrderRefundsDocument,
+  OrderTransactionsDocument,
+  RefundDetailsDocument,
+  RefundLineItemsDocument,
+  ReturnLineItemsDocument,
+  type ShopifyOrderLineItemsQuery,
+  type ShopifyOrderLineItemsQueryVariables,
+  type ShopifyOrderRefundsQuery,
+  type ShopifyOrderRefundsQueryVariables,
+  type ShopifyOrderTransactionsQuery,
+  type ShopifyOrderTransactionsQueryVariables,
+  type ShopifyRefundDetailsQuery,
+  type ShopifyRefundDetailsQueryVariables,
+  type ShopifyRefundLineItemsQuery,
+  type ShopifyRefundLineItemsQueryVariables,
+  type ShopifyReturnLineItemsQuery,
+  type ShopifyReturnLineItemsQueryVariables,
+  type ShopifySyncOrdersQuery,
+} from "../shopify/types"
+import {
+  upsertCustomers,
+  getCustomersByShopifyIds,
+  upsertOrders,
+  upsertTransactions,
+  upsertLineItems,
+  upsertRefunds,
+  upsertRefundLineItems,
+  getOrderIdMapByShopifyIds,
+  getRefundIdMapByShopifyIds,
+  markOrdersDeleted,
+  getTransactionDatesByOrderIds,
+} from "../supabase/operations"
+import type {
+  DatabaseCustomer,
+  DatabaseOrder,
+  DatabaseTransaction,
+  DatabaseLineItem,
+  DatabaseRefund,
+  DatabaseRefundLineItem,
+} from "../supabase/types"
+import { refreshDailyMetrics } from "./daily-channel-metrics"
+
+// Transactions per order in SyncOrders (transactions(first: 5))
+const ORDER_TRANSACTIONS_LIMIT = 5
+// Refunds per order in SyncOrders (refunds(first: 3))
+const ORDER_REFUNDS_LIMIT = 3
+// Refunds and returns per RefundDetails request
+const REFUND_DETAILS_CHUNK_SIZE = 10
+
+export type SyncOrderEdge = ShopifySyncOrdersQuery["orders"]["edges"][number]
+export type SyncTransaction = SyncOrderEdge["node"]["transactions"][number]
+export type SyncLineItem =
+  SyncOrderEdge["node"]["lineItems"]["edges"][number]["node"]
+export type SyncRefund = SyncOrderEdge["node"]["refunds"][number]
+export type SyncRefundLineItem = NonNullable<
+  ShopifyRefundLineItemsQuery["refund"]
+>["refundLineItems"]["edges"][number]["node"]
+export type SyncReturnLineItem = NonNullable<
+  ShopifyReturnLineItemsQuery["return"]
+>["returnLineItems"]["edges"][number]["node"]
+
+// A page of a nested connection and where the next one starts
+interface ConnectionPage<Node> {
+  edges: { node: Node }[]
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null }
+}
+
+/**
+ * Process a batch of orders with their transactions, line items and refunds
+ * Warnings describe data that needed follow-up queries, for the sync run record
+ */
+export async function processBatch(orders: SyncOrderEdge[]): Promise<{
+  ordersCount: number
+  transactionsCount: number
+  lineItemsCount: number
+  refundsCount: number
+  warnings: string[]
+}> {
+  const warnings: string[] = []
+  const ordersToInsert: Omit<DatabaseOrder, "id" | "channel">[] = []
+  const transactionsToInsert: Omit<DatabaseTransaction, "id">[] = []
+  const lineItemsToInsert: Omit<DatabaseLineItem, "id">[] = []
+  const refundsToInsert: Omit<DatabaseRefund, "id">[] = []
+  const refundLineItemsToInsert: Omit<DatabaseRefundLineItem, "id">[] = []
+  const refundsByOrderId = new Map<string, SyncRefund[]>()
+
+  // Customers go in before orders so orders can reference them
+  const customerIdMap = await upsertBatchCustomers(orders)
+
+  // First pass: collect all orders
+  let testOrdersSkipped = 0
+  for (const { node: order } of orders) {
+    // Skip test orders
+    if (order.test) {
+      testOrdersSkipped++
+      continue
+    }
+
+    // Prepare order data
+    const orderData: Omit<DatabaseOrder, "id" | "channel"> = {
+      shopify_order_id: order.id,
+      name: order.name,
+      created_at: order.createdAt,
+      processed_at: order.processedAt || null,
+      updated_at: order.updatedAt,
+      financial_status: order.displayFinancialStatus || null,
+      source_name: order.sourceName || null,
+      channel_id: order.channelInformation?.channelId || null,
+      channel_display_name:
+        order.channelInformation?.displayName || order.sourceName || null,
+      customer_id: order.customer
+        ? customerIdMap[order.customer.id] || null
+        : null,
+      subtotal_amount: parseFloat(
+        String(order.subtotalPriceSet?.presentmentMoney?.amount || "0")
+      ),
+      total_amount: parseFloat(
+        String(order.totalPriceSet?.presentmentMoney?.amount || "0")
+      ),
+      total_tax_amount: parseFloat(
+        String(order.totalTaxSet?.presentmentMoney?.amount || "0")
+      ),
+      total_discounts_amount: parseFloat(
+        String(order.totalDiscountsSet?.presentmentMoney?.amount || "0")
+      ),
+      total_shipping_amount: parseFloat(
+        String(order.totalShippingPriceSet?.presentmentMoney?.amount || "0")
+      ),
+      currency: order.subtotalPriceSet?.presentmentMoney?.currencyCode || "USD",
+      shop_currency: order.totalPriceSet?.shopMoney?.currencyCode || null,
+      shop_subtotal_amount: shopAmount(order.subtotalPriceSet),
+      shop_total_amount: shopAmount(order.totalPriceSet),
+      shop_total_tax_amount: shopAmount(order.totalTaxSet),
+      shop_total_discounts_amount: shopAmount(order.totalDiscountsSet),
+      shop_total_shipping_amount: shopAmount(order.totalShippingPriceSet),
+      test: order.test,
+      tags: order.tags,
+      payment_gateway_names: order.paymentGatewayNames,
+      cancelled_at: order.cancelledAt || null,
+      cancel_reason: order.cancelReason || null,
+      // Shopify returned the order, so it exists
+      deleted_at: null,
+      last_synced_at: new Date().toISOString(),
+    }
+
+    ordersToInsert.push(orderData)
+  }
+
+  // Insert orders first
+  if (ordersToInsert.length > 0) {
+    console.log(
+      `💾 Inserting ${ordersToInsert.length} orders${testOrdersSkipped > 0 ? ` (${testOrdersSkipped} test orders skipped)` : ""}...`
+    )
+    const ordersSaved = await upsertOrders(ordersToInsert)
+    if (!ordersSaved) {
+      throw new Error("Failed to upsert orders batch")
+    }
+  } else if (testOrdersSkipped > 0) {
+    console.log(`⚠️ All ${testOrdersSkipped} orders were test orders - skipped`)
+  }
+
+  // Get all order IDs in one batch query
+  const shopifyOrderIds = ordersToInsert.map((o) => o.shopify_order_id)
+  const orderIdMap = await getOrderIdMapByShopifyIds(shopifyOrderIds)
+
+  // Second pass: collect all transactions with resolved order IDs
+  for (const { node: order } of orders) {
+    // Skip test orders
+    if (order.test) continue
+
+    const dbOrderId = orderIdMap[order.id]
+    if (!dbOrderId) {
+      // Skip if order not found
+      continue
+    }
+
+    // Process transactions for this order
+    const transactions = await getAllTransactions(order, warnings)
+    if (transactions.length > 0) {
+      for (const transaction of transactions) {
+        const orderRecord = ordersToInsert.find(
+          (o) => o.shopify_order_id === order.id
+        )
+        const transactionData: Omit<DatabaseTransaction, "id"> = {
+          shopify_transaction_id: transaction.id,
+          order_id: dbOrderId, // Use the resolved database order ID
+          kind: transaction.kind,
+          status: transaction.status,
+          amount: parseFloat(
+            String(transaction.amountSet?.presentmentMoney?.amount || "0")
+          ),
+          currency:
+            transaction.amountSet?.presentmentMoney?.currencyCode ||
+            orderRecord?.currency ||
+            "USD",
+          shop_amount: shopAmount(transaction.amountSet),
+          shop_currency: transaction.amountSet?.shopMoney?.currencyCode || null,
+          processed_at: transaction.processedAt || transaction.createdAt,
+          created_at: transaction.createdAt,
+          gateway: transaction.gateway || null,
+          source_name: orderRecord?.source_name || null,
+          channel_id: orderRecord?.channel_id || null,
+          channel_display_name: orderRecord?.channel_display_name || null,
+          last_synced_at: new Date().toISOString(),
+        }
+
+        transactionsToInsert.push(transactionData)
+      }
+    }
+  }
+
+  // Insert all transactions in one batch
+  if (transactionsToInsert.length > 0) {
+    console.log(`💳 Inserting ${transactionsToInsert.length} transactions...`)
+    const transactionsSaved = await upsertTransactions(transactionsToInsert)
+    if (!transactionsSaved) {
+      throw new Error("Failed to upsert transactions batch")
+    }
+  }
+
+  // Third pass: collect line items, fetching any beyond the first page
+  for (const { node: order } of orders) {
+    if (order.test) continue
+
+    const dbOrderId = orderIdMap[order.id]
+    if (!dbOrderId) continue
+
+    const orderRecord = ordersToInsert.find(
+      (o) => o.shopify_order_id === order.id
+    )
+    const lineItems = await getAllLineItems(order)
+
+    for (const lineItem of lineItems) {
+      const taxLines = lineItem.taxLines.map((taxLine) => ({
+        title: taxLine.title,
+        rate: taxLine.rate ?? null,
+        amount: parseFloat(
+          String(taxLine.priceSet?.presentmentMoney?.amount || "0")
+        ),
+      }))
+
+      lineItemsToInsert.push({
+        shopify_line_item_id: lineItem.id,
+        order_id: dbOrderId,
+        product_id: lineItem.product?.id || null,
+        variant_id: lineItem.variant?.id || null,
+        sku: lineItem.sku || null,
+        title: lineItem.title,
+        variant_title: lineItem.variantTitle || null,
+        vendor: lineItem.vendor || null,
+        quantity: lineItem.quantity,
+        original_unit_price: parseFloat(
+          String(lineItem.originalUnitPriceSet?.presentmentMoney?.amount || "0")
+        ),
+        discounted_unit_price: parseFloat(
+          String(
+            lineItem.discountedUnitPriceSet?.presentmentMoney?.amount || "0"
+          )
+        ),
+        total_discount_amount: parseFloat(
+          String(lineItem.totalDiscountSet?.presentmentMoney?.amount || "0")
+        ),
+        total_tax_amount: taxLines.reduce((sum, t) => sum + t.amount, 0),
+        tax_lines: taxLines,
+        currency:
+          lineItem.originalUnitPriceSet?.presentmentMoney?.currencyCode ||
+          orderRecord?.currency ||
+          "USD",
+        last_synced_at: new Date().toISOString(),
+      })
+    }
+  }
+
+  if (lineItemsToInsert.length > 0) {
+    console.log(`🛍️ Inserting ${lineItemsToInsert.length} line items...`)
+    const lineItemsSaved = await upsertLineItems(lineItemsToInsert)
+    if (!lineItemsSaved) {
+      throw new Error("Failed to upsert line items batch")
+    }
+  }
+
+  // Fourth pass: refunds, then their line items once refund IDs are known
+  for (const { node: order } of orders) {
+    if (order.test) continue
+
+    const dbOrderId = orderIdMap[order.id]
+    if (!dbOrderId) continue
+
+    const orderRecord = ordersToInsert.find(
+      (o) => o.shopify_order_id === order.id
+    )
+    const refunds = await getAllRefunds(order, warnings)
+    refundsByOrderId.set(order.id, refunds)
+
+    for (const refund of refunds) {
+      refundsToInsert.push({
+        shopify_refund_id: refund.id,
+        order_id: dbOrderId,
+        created_at: refund.createdAt || order.updatedAt,
+        note: refund.note || null,
+        total_refunded_amount: parseFloat(
+          String(refund.totalRefundedSet?.presentmentMoney?.amount || "0")
+        ),
+        currency:
+          refund.totalRefundedSet?.presentmentMoney?.currencyCode ||
+          orderRecord?.currency ||
+          "USD",
+        shopify_return_id: refund.return?.id || null,
+        return_name: refund.return?.name || null,
+        return_status: refund.return?.status || null,
+        last_synced_at: new Date().toISOString(),
+      })
+    }
+  }
+
+  if (refundsToInsert.length > 0) {
+    console.log(`↩️ Inserting ${refundsToInsert.length} refunds...`)
+    const refundsSaved = await upsertRefunds(refundsToInsert)
+    if (!refundsSaved) {
+      throw new Error("Failed to upsert refunds batch")
+    }
+
+    const refundIdMap = await getRefundIdMapByShopifyIds(
+      refundsToInsert.map((r) => r.shopify_refund_id)
+    )
+    const refundDetails = await getRefundDetails(
+      [...refundsByOrderId.values()].flat()
+    )
+
+    for (const { node: order } of orders) {
+      if (order.test) continue
+
+      const dbOrderId = orderIdMap[order.id]
+      if (!dbOrderId) continue
+
+      for (const refund of refundsByOrderId.get(order.id) || []) {
+        const dbRefundId = refundIdMap[refund.id]
+        if (!dbRefundId) continue
+
+        const refundLineItems =
+          refundDetails.refundLineItems.get(refund.id) || []
+        if (refundLineItems.length === 0) continue
+
+        const returnLineItems = getReturnLineItemsByLineItemId(
+          (refund.return &&
+            refundDetails.returnLineItems.get(refund.return.id)) ||
+            []
+        )
+
+        for (const refundLineItem of refundLineItems) {
+          const returnLineItem = returnLineItems.get(refundLineItem.lineItem.id)
+
+          refundLineItemsToInsert.push({
+            shopify_refund_line_item_id:
+              refundLineItem.id || `${refund.id}/${refundLineItem.lineItem.id}`,
+            refund_id: dbRefundId,
+            order_id: dbOrderId,
+            shopify_line_item_id: refundLineItem.lineItem.id,
+            quantity: refundLineItem.quantity,
+            restock_type: refundLineItem.restockType,
+            subtotal_amount: parseFloat(
+              String(
+                refundLineItem.subtotalSet?.presentmentMoney?.amount || "0"
+              )
+            ),
+            total_tax_amount: parseFloat(
+              String(
+                refundLineItem.totalTaxSet?.presentmentMoney?.amount || "0"
+              )
+            ),
+            currency:
+              refundLineItem.subtotalSet?.presentmentMoney?.currencyCode ||
+              "USD",
+            return_reason: returnLineItem?.returnReason || null,
+            return_reason_note: returnLineItem?.returnReasonNote || null,
+            customer_note: returnLineItem?.customerNote || null,
+            last_synced_at: new Date().toISOString(),
+          })
+        }
+      }
+    }
+  }
+
+  if (refundLineItemsToInsert.length > 0) {
+    console.log(
+      `📦 Inserting ${refundLineItemsToInsert.length} refund line items...`
+    )
+    const refundLineItemsSaved = await upsertRefundLineItems(
+      refundLineItemsToInsert
+    )
+    if (!refundLineItemsSaved) {
+      throw new Error("Failed to upsert refund line items batch")
+    }
+  }
+
+  // Keep the daily rollup in step with every store day this batch touched
+  await refreshDailyMetrics([
+    ...ordersToInsert.map((o) => o.created_at),
+    ...transactionsToInsert.map((t) => t.processed_at),
+  ])
+
+  return {
+    ordersCount: ordersToInsert.length,
+    transactionsCount: transactionsToInsert.length,
+    lineItemsCount: lineItemsToInsert.length,
+    refundsCount: refundsToInsert.length,
+    warnings,
+  }
+}
+
+/**
+ * Mark orders deleted in Shopify and refresh the daily metrics they counted in
+ * Returns how many stored orders were newly marked
+ */
+export async function processDeletedOrders(
+  shopifyOrderIds: string[]
+): Promise<number> {
+  if (shopifyOrderIds.length === 0) return 0
+
+  const deletedOrders = await markOrdersDeleted(
+    shopifyOrderIds,
+    new Date().toISOString()
+  )
+  if (!deletedOrders) {
+    throw new Error("Failed to mark orders deleted")
+  }
+
+  if (deletedOrders.length > 0) {
+    console.log(`🗑️ Marked ${deletedOrders.length} orders deleted`)
+    const transactionDates = await getTransactionDatesByOrderIds(
+      deletedOrders.map((order) => order.id)
+    )
+    await refreshDailyMetrics([
+      ...deletedOrders.map((order) => order.created_at),
+      ...transactionDates,
+    ])
+  }
+
+  return deletedOrders.length
+}
+
+/**
+ * Shop-currency amount of a money bag, null when Shopify did not return one
+ */
+function shopAmount(
+  moneyBag: { shopMoney?: { amount: unknown } | null } | null | undefined
+): number | null {
+  return moneyBag?.shopMoney
+    ? parseFloat(String(moneyBag.shopMoney.amount))
+    : null
+}
+
+/**
+ * Return line items keyed by the order line item they return
+ * Unverified return line items are not linked to a line item and carry no key
+ */
+function getReturnLineItemsByLineItemId(
+  returnLineItems: SyncReturnLineItem[]
+): Map<string, SyncReturnLineItem> {
+  const byLineItemId = new Map<string, SyncReturnLineItem>()
+
+  for (const returnLineItem of returnLineItems) {
+    if ("fulfillmentLineItem" in returnLineItem) {
+      byLineItemId.set(
+        returnLineItem.fulfillmentLineItem.lineItem.id,
+        returnLineItem
+      )
+    }
+  }
+
+  return byLineItemId
+}
+
+/**
+ * Upsert the customers referenced by a batch and return their database IDs
+ * first_order_at only ever moves earlier, so replays and out-of-order batches are safe
+ */
+async function upsertBatchCustomers(
+  orders: SyncOrderEdge[]
+): Promise<Record<string, number>> {
+  const customersById = new Map<string, Omit<DatabaseCustomer, "id">>()
+
+  for (const { node: order } of orders) {
+    if (order.test || !order.customer) continue
+
+    const customer = order.customer
+    const orderDate = order.processedAt || order.createdAt
+    const existing = customersById.get(customer.id)
+
+    if (existing) {
+      existing.first_order_at = earliest(existing.first_order_at, orderDate)
+      continue
+    }
+
+    const email = customer.defaultEmailAddress?.emailAddress
+    customersById.set(customer.id, {
+      shopify_customer_id: customer.id,
+      email_hash: email ? hashEmail(email) : null,
+      customer_created_at: customer.createdAt,
+      first_order_at: orderDate,
+      orders_count: parseInt(customer.numberOfOrders, 10) || 0,
+      tags: customer.tags,
+      last_synced_at: new Date().toISOString(),
+    })
+  }
+
+  if (customersById.size === 0) return {}
+
+  // Keep an earlier first order already stored for the customer
+  const existingCustomers = await getCustomersByShopifyIds([
+    ...customersById.keys(),
+  ])
+  for (const existing of existingCustomers) {
+    const customer = customersById.get(existing.shopify_customer_id)
+    if (customer) {
+      customer.first_order_at = earliest(
+        customer.first_order_at,
+        existing.first_order_at
+      )
+    }
+  }
+
+  console.log(`👤 Inserting ${customersById.size} customers...`)
+  const customersSaved = await upsertCustomers([...customersById.values()])
+  if (!customersSaved) {
+    throw new Error("Failed to upsert customers batch")
+  }
+
+  const savedCustomers = await getCustomersByShopifyIds([
+    ...customersById.keys(),
+  ])
+  const customerIdMap: Record<string, number> = {}
+  for (const customer of savedCustomers) {
+    customerIdMap[customer.shopify_customer_id] = customer.id
+  }
+
+  return customerIdMap
+}
+
+function earliest(a: string | null, b: string | null): string | null {
+  if (!a) return b
+  if (!b) return a
+  return new Date(a) <= new Date(b) ? a : b
+}
+
+/**
+ * Customers are identified by a hash so reports never hold raw email addresses
+ */
+function hashEmail(email: string): string {
+  return createHash("sha256").update(email.trim().toLowerCase()).digest("hex")
+}
+
+/**
+ * All transactions of an order - SyncOrders returns at most 5
+ * An order at the limit may have more, so it is fetched again on its own and
+ * a warning is added for the sync run. Bulk exports keep the same limit, since
+ * transactions is a list rather than a connection, and are completed the same way.
+ */
+export async function getAllTransactions(
+  order: SyncOrderEdge["node"],
+  warnings: string[] = []
+): Promise<SyncTransaction[]> {
+  if (order.transactions.length !== ORDER_TRANSACTIONS_LIMIT) {
+    return order.transactions
+  }
+
+  const response = await shopifyFetch<
+    ShopifyOrderTransactionsQuery,
+    ShopifyOrderTransactionsQueryVariables
+  >({
+    query: OrderTransactionsDocument,
+    variables: { id: order.id },
+    cache: "no-store",
+  })
+
+  if (!response.order) {
+    throw new Error(`Failed to fetch transactions for order ${order.name}`)
+  }
+
+  const transactions = response.order.transactions
+  const warning = `Order ${order.name} hit the ${ORDER_TRANSACTIONS_LIMIT} transaction limit, fetched all ${transactions.length} separately`
+  console.warn(`⚠️ ${warning}`)
+  warnings.push(warning)
+
+  return transactions
+}
+
+/**
+ * All refunds of an order - SyncOrders returns at most 3
+ * An order at the limit may have more, so it is fetched again on its own and
+ * a warning is added for the sync run
+ */
+async function getAllRefunds(
+  order: SyncOrderEdge["node"],
+  warnings: string[]
+): Promise<SyncRefund[]> {
+  if (order.refunds.length !== ORDER_REFUNDS_LIMIT) {
+    return order.refunds
+  }
+
+  const response = await shopifyFetch<
+    ShopifyOrderRefundsQuery,
+    ShopifyOrderRefundsQueryVariables
+  >({
+    query: OrderRefundsDocument,
+    variables: { id: order.id },
+    cache: "no-store",
+  })
+
+  if (!response.order) {
+    throw new Error(`Failed to fetch refunds for order ${order.name}`)
+  }
+
+  const refunds = response.order.refunds
+  const warning = `Order ${order.name} hit the ${ORDER_REFUNDS_LIMIT} refund limit, fetched all ${refunds.length} separately`
+  console.warn(`⚠️ ${warning}`)
+  warnings.push(warning)
+
+  return refunds
+}
+
+/**
+ * All line items of an order - SyncOrders only returns the first page
+ */
+async function getAllLineItems(
+  order: SyncOrderEdge["node"]
+): Promise<SyncLineItem[]> {
+  const lineItems = order.lineItems.edges.map((edge) => edge.node)
+  let pageInfo = order.lineItems.pageInfo
+
+  while (pageInfo.hasNextPage) {
+    const response = await shopifyFetch<
+      ShopifyOrderLineItemsQuery,
+      ShopifyOrderLineItemsQueryVariables
+    >({
+      query: OrderLineItemsDocument,
+      variables: { id: order.id, after: pageInfo.endCursor },
+      cache: "no-store",
+    })
+
+    if (!response.order) {
+      throw new Error(`Failed to fetch line items for order ${order.name}`)
+    }
+
+    lineItems.push(...response.order.lineItems.edges.map((edge) => edge.node))
+    pageInfo = response.order.lineItems.pageInfo
+  }
+
+  return lineItems
+}
+
+/**
+ * Line items of refunds and their returns - SyncOrders leaves them out to keep
+ * its cost down. They are fetched together a chunk at a time, and a refund or
+ * return is only fetched again on its own when it has more than one page.
+ */
+async function getRefundDetails(refunds: SyncRefund[]): Promise<{
+  refundLineItems: Map<string, SyncRefundLineItem[]>
+  returnLineItems: Map<string, SyncReturnLineItem[]>
+}> {
+  const refundLineItems = new Map<string, SyncRefundLineItem[]>()
+  const returnLineItems = new Map<string, SyncReturnLineItem[]>()
+  const ids = refunds.flatMap((refund) =>
+    refund.return ? [refund.id, refund.return.id] : [refund.id]
+  )
+
+  for (let i = 0; i < ids.length; i += REFUND_DETAILS_CHUNK_SIZE) {
+    const response = await shopifyFetch<
+      ShopifyRefundDetailsQuery,
+      ShopifyRefundDetailsQueryVariables
+    >({
+      query: RefundDetailsDocument,
+      variables: { ids: ids.slice(i, i + REFUND_DETAILS_CHUNK_SIZE) },
+      cache: "no-store",
+    })
+
+    for (const node of response.nodes) {
+      if (!node) continue
+
+      if ("refundLineItems" in node) {
+        refundLineItems.set(
+          node.id,
+          await getAllRefundLineItems(node.id, node.refundLineItems)
+        )
+      } else {
+        returnLineItems.set(
+          node.id,
+          await getAllReturnLineItems(node.id, node.returnLineItems)
+        )
+      }
+    }
+  }
+
+  return { refundLineItems, returnLineItems }
+}
+
+/**
+ * All line items of a refund, continuing from its first page
+ */
+async function getAllRefundLineItems(
+  refundId: string,
+  firstPage: ConnectionPage<SyncRefundLineItem>
+): Promise<SyncRefundLineItem[]> {
+  const refundLineItems = firstPage.edges.map((edge) => edge.node)
+  let pageInfo = firstPage.pageInfo
+
+  while (pageInfo.hasNextPage) {
+    const response = await shopifyFetch<
+      ShopifyRefundLineItemsQuery,
+      ShopifyRefundLineItemsQueryVariables
+    >({
+      query: RefundLineItemsDocument,
+      variables: { id: refundId, after: pageInfo.endCursor },
+      cache: "no-store",
+    })
+
+    if (!response.refund) {
+      throw new Error(`Failed to fetch line items for refund ${refundId}`)
+    }
+
+    refundLineItems.push(
+      ...response.refund.refundLineItems.edges.map((edge) => edge.node)
+    )
+    pageInfo = response.refund.refundLineItems.pageInfo
+  }
+
+  return refundLineItems
+}
+
+/**
+ * All line items of a return, for their return reasons, continuing from its
+ * first page
+ */
+async function getAllReturnLineItems(
+  returnId: string,
+  firstPage: ConnectionPage<SyncReturnLineItem>
+): Promise<SyncReturnLineItem[]> {
+  const returnLineItems = firstPage.edges.map((edge) => edge.node)
+  let pageInfo = firstPage.pageInfo
+
+  while (pageInfo.hasNextPage) {
+    const response = await shopifyFetch<
+      ShopifyReturnLineItemsQuery,
+      ShopifyReturnLineItemsQueryVariables
+    >({
+      query: ReturnLineItemsDocument,
+      variables: { id: returnId, after: pageInfo.endCursor },
+      cache: "no-store",
+    })
+
+    if (!response.return) {
+      throw new Error(`Failed to fetch line items for return ${returnId}`)
+    }
+
+    returnLineItems.push(
+      ...response.return.returnLineItems.edges.map((edge) => edge.node)
+    )
+    pageInfo = response.return.returnLineItems.pageInfo
+  }
+
+  return returnLineItems
+}
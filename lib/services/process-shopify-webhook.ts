@@ -0,0 +1,215 @@
+/**
+ * Shopify Webhook Processing Service
+ *
+ * Applies order, refund and transaction webhooks to the database.
+ * Every delivery is recorded in webhook_deliveries so repeated deliveries are
+ * idempotent and failed ones can be replayed. A delivery left "received" by a
+ * crash mid-processing is processed again by the next retry or replay once it
+ * is stale.
+ *
+ * Webhook payloads use the REST shape and lack channelInformation, so instead of
+ * mapping them directly we re-fetch the referenced order through SyncOrders and
+ * run it through the same processBatch shaping the scheduled sync uses.
+ * orders/delete only carries the id of an order that can no longer be fetched,
+ * so it marks the stored order deleted instead.
+ */
+
+import { getWebhookOrderId, isSupportedWebhookTopic } from "../shopify/webhooks"
+import {
+  getWebhookDelivery,
+  saveWebhookDelivery,
+  updateWebhookDelivery,
+  getFailedWebhookDeliveries,
+} from "../supabase/operations"
+import type { WebhookDelivery } from "../supabase/types"
+import { normalizeId } from "../shopify/client"
+import { syncOrdersMatching } from "./sync-orders"
+import { processDeletedOrders } from "./process-orders-batch"
+
+// A "received" delivery older than this is no longer being processed
+const STALE_DELIVERY_MS = 2 * 60 * 1000
+
+export interface WebhookResult {
+  success: boolean
+  status: WebhookDelivery["status"] | "duplicate"
+  ordersProcessed: number
+  transactionsProcessed: number
+  error?: string
+}
+
+interface IncomingWebhook {
+  webhookId: string
+  topic: string
+  shopDomain: string | null
+  payload: Record<string, unknown>
+}
+
+/**
+ * Record and process a single webhook delivery
+ */
+export async function handleShopifyWebhook(
+  webhook: IncomingWebhook
+): Promise<WebhookResult> {
+  const existing = await getWebhookDelivery(webhook.webhookId)
+
+  // Processed and ignored deliveries are done. A recent "received" one is
+  // still being processed by an earlier attempt, a stale one crashed.
+  const isDuplicate =
+    existing &&
+    (existing.status === "processed" ||
+      existing.status === "ignored" ||
+      (existing.status === "received" &&
+        Date.now() - new Date(existing.received_at).getTime() <
+          STALE_DELIVERY_MS))
+
+  if (existing && isDuplicate) {
+    console.log(
+      `🔁 Duplicate webhook delivery ${webhook.webhookId} (${existing.status}) - skipping`
+    )
+    return {
+      success: true,
+      status: "duplicate",
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+    }
+  }
+
+  const { topic } = webhook
+  const supported = isSupportedWebhookTopic(topic)
+  const shopifyOrderId = supported
+    ? getWebhookOrderId(topic, webhook.payload)
+    : null
+
+  const saved = await saveWebhookDelivery({
+    webhook_id: webhook.webhookId,
+    topic,
+    shop_domain: webhook.shopDomain,
+    shopify_order_id: shopifyOrderId,
+    payload: webhook.payload,
+    status: supported ? "received" : "ignored",
+  })
+
+  if (!saved) {
+    throw new Error("Failed to record webhook delivery")
+  }
+
+  if (!supported) {
+    console.log(`⚠️ Ignoring unsupported webhook topic: ${topic}`)
+    return {
+      success: true,
+      status: "ignored",
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+    }
+  }
+
+  return processDelivery(
+    webhook.webhookId,
+    topic,
+    shopifyOrderId,
+    existing?.attempts || 0
+  )
+}
+
+/**
+ * Replay failed and stale webhook deliveries (or a single delivery by webhook
+ * id)
+ */
+export async function replayWebhookDeliveries(
+  webhookId?: string
+): Promise<{ replayed: number; failed: number }> {
+  let deliveries: WebhookDelivery[]
+
+  if (webhookId) {
+    const delivery = await getWebhookDelivery(webhookId)
+    deliveries = delivery ? [delivery] : []
+  } else {
+    deliveries = await getFailedWebhookDeliveries(
+      new Date(Date.now() - STALE_DELIVERY_MS).toISOString()
+    )
+  }
+
+  console.log(`🔄 Replaying ${deliveries.length} webhook deliveries...`)
+
+  let replayed = 0
+  let failed = 0
+
+  for (const delivery of deliveries) {
+    const result = await processDelivery(
+      delivery.webhook_id,
+      delivery.topic,
+      delivery.shopify_order_id,
+      delivery.attempts
+    )
+
+    if (result.success) {
+      replayed++
+    } else {
+      failed++
+    }
+  }
+
+  return { replayed, failed }
+}
+
+/**
+ * Re-fetch the referenced order and upsert it, recording the outcome
+ */
+async function processDelivery(
+  webhookId: string,
+  topic: string,
+  shopifyOrderId: string | null,
+  previousAttempts: number
+): Promise<WebhookResult> {
+  const attempts = previousAttempts + 1
+
+  try {
+    if (!shopifyOrderId) {
+      throw new Error("Webhook payload does not reference an order")
+    }
+
+    const { ordersCount, transactionsCount } =
+      topic === "orders/delete"
+        ? {
+            ordersCount: await processDeletedOrders([shopifyOrderId]),
+            transactionsCount: 0,
+          }
+        : await syncOrdersMatching(`id:${normalizeId(shopifyOrderId)}`)
+
+    console.log(
+      `✅ Webhook ${webhookId} processed: ${ordersCount} orders, ${transactionsCount} transactions`
+    )
+
+    await updateWebhookDelivery(webhookId, {
+      status: "processed",
+      attempts,
+      error_message: null,
+      processed_at: new Date().toISOString(),
+    })
+
+    return {
+      success: true,
+      status: "processed",
+      ordersProcessed: ordersCount,
+      transactionsProcessed: transactionsCount,
+    }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error"
+    console.error(`❌ Webhook ${webhookId} failed:`, errorMessage)
+
+    await updateWebhookDelivery(webhookId, {
+      status: "failed",
+      attempts,
+      error_message: errorMessage,
+    })
+
+    return {
+      success: false,
+      status: "failed",
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+      error: errorMessage,
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Report Export Registry
+ *
+ * The reports that can be downloaded from their dashboard page. Each entry
+ * runs the page's service for the same date range and comparison and returns
+ * its tables with the columns the service declares. A report with a
+ * comparison period adds the previous period's tables. Report filters apply
+ * to both periods, as on the page.
+ */
+
+import { exportTable, type SomeExportTable, type ReportKey } from "../export"
+import type { ReportFilters } from "../report-filters"
+import type { ComparisonPeriod } from "./comparison"
+import {
+  getSalesByChannel,
+  SALES_CHANNEL_COLUMNS,
+  SALES_CHANNEL_TOTALS_COLUMNS,
+} from "./get-sales-by-channel"
+import {
+  getSalesOverTime,
+  DAILY_SALES_COLUMNS,
+  SALES_TOTALS_COLUMNS,
+} from "./get-sales-over-time"
+import {
+  getOrdersOverTime,
+  DAILY_ORDER_COLUMNS,
+  ORDERS_TOTALS_COLUMNS,
+} from "./get-orders-over-time"
+import {
+  getOrderStatusBreakdown,
+  ORDER_STATUS_COLUMNS,
+  ORDER_STATUS_TOTALS_COLUMNS,
+} from "./get-order-status"
+import {
+  getRevenueBreakdown,
+  REVENUE_BREAKDOWN_COLUMNS,
+  REVENUE_TOTALS_COLUMNS,
+} from "./get-revenue-breakdown"
+import {
+  getTransactionAnalysis,
+  TRANSACTION_TYPE_COLUMNS,
+  TRANSACTION_TOTALS_COLUMNS,
+} from "./get-transaction-analysis"
+import {
+  getChannelPerformance,
+  CHANNEL_PERFORMANCE_COLUMNS,
+  CHANNEL_PERFORMANCE_TOTALS_COLUMNS,
+} from "./get-channel-performance"
+
+export interface ReportExportParams {
+  // Store days, YYYY-MM-DD
+  fromDate: string
+  toDate: string
+  compareTo?: ComparisonPeriod
+  filters?: ReportFilters
+}
+
+interface ReportExport {
+  getTables(params: ReportExportParams): Promise<SomeExportTable[]>
+}
+
+export const REPORT_EXPORTS = {
+  "sales-by-channel": {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getSalesByChannel(fromDate, toDate, compareTo, filters)
+      return [
+        exportTable("Channels", SALES_CHANNEL_COLUMNS, data.channels),
+        exportTable("Totals", SALES_CHANNEL_TOTALS_COLUMNS, [data.totals]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Channels",
+                SALES_CHANNEL_COLUMNS,
+                data.comparison.channels
+              ),
+              exportTable("Comparison Totals", SALES_CHANNEL_TOTALS_COLUMNS, [
+                data.comparison.totals,
+              ]),
+            ]
+          : []),
+      ]
+    },
+  },
+  "sales-over-time": {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getSalesOverTime(fromDate, toDate, compareTo, filters)
+      return [
+        exportTable("Daily Sales", DAILY_SALES_COLUMNS, data.dailyData),
+        exportTable("Totals", SALES_TOTALS_COLUMNS, [data.totals]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Daily Sales",
+                DAILY_SALES_COLUMNS,
+                data.comparison.dailyData
+              ),
+              exportTable("Comparison Totals", SALES_TOTALS_COLUMNS, [
+                data.comparison.totals,
+              ]),
+            ]
+          : []),
+      ]
+    },
+  },
+  "orders-over-time": {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getOrdersOverTime(fromDate, toDate, compareTo, filters)
+      return [
+        exportTable("Daily Orders", DAILY_ORDER_COLUMNS, data.dailyData),
+        exportTable("Totals", ORDERS_TOTALS_COLUMNS, [data.totals]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Daily Orders",
+                DAILY_ORDER_COLUMNS,
+                data.comparison.dailyData
+              ),
+              exportTable("Comparison Totals", ORDERS_TOTALS_COLUMNS, [
+                data.comparison.totals,
+              ]),
+            ]
+          : []),
+      ]
+    },
+  },
+  "order-status": {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getOrderStatusBreakdown(
+        fromDate,
+        toDate,
+        compareTo,
+        filters
+      )
+      return [
+        exportTable("Statuses", ORDER_STATUS_COLUMNS, data.statusBreakdown),
+        exportTable("Totals", ORDER_STATUS_TOTALS_COLUMNS, [data.totals]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Statuses",
+                ORDER_STATUS_COLUMNS,
+                data.comparison.statusBreakdown
+              ),
+              exportTable("Comparison Totals", ORDER_STATUS_TOTALS_COLUMNS, [
+                data.comparison.totals,
+              ]),
+            ]
+          : []),
+      ]
+    },
+  },
+  "revenue-breakdown": {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getRevenueBreakdown(
+        fromDate,
+        toDate,
+        compareTo,
+        filters
+      )
+      return [
+        exportTable("Breakdown", REVENUE_BREAKDOWN_COLUMNS, data.breakdown),
+        exportTable("Totals", REVENUE_TOTALS_COLUMNS, [data.totals]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Breakdown",
+                REVENUE_BREAKDOWN_COLUMNS,
+                data.comparison.breakdown
+              ),
+              exportTable("Comparison Totals", REVENUE_TOTALS_COLUMNS, [
+                data.comparison.totals,
+              ]),
+            ]
+          : []),
+      ]
+    },
+  },
+  transactions: {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getTransactionAnalysis(
+        fromDate,
+        toDate,
+        compareTo,
+        filters
+      )
+      return [
+        exportTable("Transaction Types", TRANSACTION_TYPE_COLUMNS, data.byType),
+        exportTable("Totals", TRANSACTION_TOTALS_COLUMNS, [data.totals]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Transaction Types",
+                TRANSACTION_TYPE_COLUMNS,
+                data.comparison.byType
+              ),
+              exportTable("Comparison Totals", TRANSACTION_TOTALS_COLUMNS, [
+                data.comparison.totals,
+              ]),
+            ]
+          : []),
+      ]
+    },
+  },
+  "channel-performance": {
+    async getTables({ fromDate, toDate, compareTo, filters }) {
+      const data = await getChannelPerformance(
+        fromDate,
+        toDate,
+        compareTo,
+        filters
+      )
+      return [
+        exportTable("Channels", CHANNEL_PERFORMANCE_COLUMNS, data.channels),
+        exportTable("Totals", CHANNEL_PERFORMANCE_TOTALS_COLUMNS, [
+          data.totals,
+        ]),
+        ...(data.comparison
+          ? [
+              exportTable(
+                "Comparison Channels",
+                CHANNEL_PERFORMANCE_COLUMNS,
+                data.comparison.channels
+              ),
+              exportTable(
+                "Comparison Totals",
+                CHANNEL_PERFORMANCE_TOTALS_COLUMNS,
+                [data.comparison.totals]
+              ),
+            ]
+          : []),
+      ]
+    },
+  },
+} satisfies Record<ReportKey, ReportExport>
@@ -0,0 +1,354 @@
+/**
+ * Scheduled Email Reports
+ *
+ * Sends report subscriptions when their schedule comes round. Each send runs
+ * the report's export for the subscription's date range, renders its tables
+ * into an HTML email and attaches them as CSV or XLSX, or attaches the PDF
+ * board pack for the same days instead. GET /api/cron/reports
+ * calls sendDueReports every hour, so send hours are whole local hours.
+ */
+
+import { TZDate } from "@date-fns/tz"
+import { addDays, addMonths, addWeeks, subDays, subMonths } from "date-fns"
+import {
+  BOARD_PACK_SECTIONS,
+  EXPORT_REPORTS,
+  getRowCurrency,
+  isReportKey,
+  toCsv,
+  type BoardPackSection,
+  type ExportColumnType,
+  type SomeExportTable,
+} from "../export"
+import {
+  REPORT_DATE_RANGES,
+  resolveReportDateRange,
+  toStoreDate,
+  type StoreDateRange,
+} from "../date-range"
+import { getMailTransport, type MailAttachment } from "../mail"
+import {
+  getReportSubscription,
+  getReportSubscriptions,
+  updateReportSubscription,
+} from "../supabase/operations"
+import type { ReportSubscription } from "../supabase/types"
+import {
+  formatCurrency,
+  getComparisonDates,
+  getDateRangeFromParams,
+} from "../utils"
+import { renderBoardPack } from "./board-pack"
+import { streamWorkbook } from "./export-workbook"
+import { getStoreTimezone } from "./get-store-timezone"
+import { REPORT_EXPORTS } from "./report-exports"
+
+type ReportSchedule = Pick<
+  ReportSubscription,
+  "cadence" | "day_of_week" | "day_of_month" | "send_hour" | "time_zone"
+>
+
+export interface ReportDeliveryResult {
+  subscriptionId: number
+  name: string
+  success: boolean
+  error?: string
+}
+
+/**
+ * The latest scheduled send at or before `now`
+ */
+export function getLastScheduledSend(
+  schedule: ReportSchedule,
+  now: Date = new Date()
+): Date {
+  const local = new TZDate(now.getTime(), schedule.time_zone)
+  const today = new TZDate(
+    local.getFullYear(),
+    local.getMonth(),
+    local.getDate(),
+    schedule.send_hour,
+    schedule.time_zone
+  )
+
+  switch (schedule.cadence) {
+    case "daily":
+      return today > local ? subDays(today, 1) : today
+    case "weekly": {
+      const daysSince = (local.getDay() - (schedule.day_of_week ?? 1) + 7) % 7
+      const send = subDays(today, daysSince)
+      return send > local ? subDays(send, 7) : send
+    }
+    case "monthly": {
+      const send = new TZDate(
+        local.getFullYear(),
+        local.getMonth(),
+        schedule.day_of_month ?? 1,
+        schedule.send_hour,
+        schedule.time_zone
+      )
+      return send > local ? subMonths(send, 1) : send
+    }
+  }
+}
+
+/**
+ * The first scheduled send after `now`
+ */
+export function getNextScheduledSend(
+  schedule: ReportSchedule,
+  now: Date = new Date()
+): Date {
+  const last = new TZDate(
+    getLastScheduledSend(schedule, now).getTime(),
+    schedule.time_zone
+  )
+
+  switch (schedule.cadence) {
+    case "daily":
+      return addDays(last, 1)
+    case "weekly":
+      return addWeeks(last, 1)
+    case "monthly":
+      return addMonths(last, 1)
+  }
+}
+
+/**
+ * Send every enabled subscription whose latest scheduled send has not run yet.
+ * A subscription created after its latest scheduled send waits for the next.
+ */
+export async function sendDueReports(
+  now: Date = new Date()
+): Promise<ReportDeliveryResult[]> {
+  try {
+    const subscriptions = await getReportSubscriptions()
+    const results: ReportDeliveryResult[] = []
+
+    for (const subscription of subscriptions) {
+      if (!subscription.enabled) continue
+
+      const lastScheduled = getLastScheduledSend(subscription, now)
+      const lastHandled = new Date(
+        subscription.last_sent_at || subscription.created_at
+      )
+      if (lastScheduled <= lastHandled) continue
+
+      results.push(await sendReport(subscription, now))
+    }
+
+    console.log(
+      `📧 Sent ${results.filter((r) => r.success).length} of ${results.length} due reports`
+    )
+
+    return results
+  } catch (error) {
+    console.error("Error in sendDueReports:", error)
+    throw error
+  }
+}
+
+/**
+ * Send one subscription now, whatever its schedule
+ */
+export async function sendReportNow(id: number): Promise<ReportDeliveryResult> {
+  const subscription = await getReportSubscription(id)
+  if (!subscription) {
+    return {
+      subscriptionId: id,
+      name: "",
+      success: false,
+      error: "Report subscription not found",
+    }
+  }
+
+  return sendReport(subscription, new Date())
+}
+
+/**
+ * Render and send a subscription, recording the outcome on it
+ */
+async function sendReport(
+  subscription: ReportSubscription,
+  now: Date
+): Promise<ReportDeliveryResult> {
+  const result: ReportDeliveryResult = {
+    subscriptionId: subscription.id,
+    name: subscription.name,
+    success: true,
+  }
+
+  try {
+    if (!isReportKey(subscription.report)) {
+      throw new Error(`Unknown report: ${subscription.report}`)
+    }
+
+    const dateRange = resolveReportDateRange(
+      subscription.date_range,
+      toStoreDate(now, subscription.time_zone)
+    )
+    const tables = await REPORT_EXPORTS[subscription.report].getTables({
+      fromDate: dateRange.from,
+      toDate: dateRange.to,
+    })
+
+    const title = EXPORT_REPORTS[subscription.report]
+    const attachment = await renderAttachment(subscription, tables, dateRange)
+
+    await getMailTransport().send({
+      to: subscription.recipients,
+      subject: `${title}: ${formatDateRange(dateRange)}`,
+      html: renderReportHtml(subscription, title, dateRange, tables),
+      text: `${title}\n${formatDateRange(dateRange)}\n\n${toCsv(tables)}\n`,
+      attachments: [attachment],
+    })
+
+    console.log(
+      `📧 Sent "${subscription.name}" to ${subscription.recipients.length} recipients`
+    )
+  } catch (error) {
+    result.success = false
+    result.error = error instanceof Error ? error.message : "Unknown error"
+    console.error(`❌ Failed to send "${subscription.name}":`, result.error)
+  }
+
+  // Record failed sends too, so a broken subscription waits for its next send
+  await updateReportSubscription(subscription.id, {
+    last_sent_at: now.toISOString(),
+    last_error: result.error || null,
+  })
+
+  return result
+}
+
+async function renderAttachment(
+  subscription: ReportSubscription,
+  tables: SomeExportTable[],
+  dateRange: StoreDateRange
+): Promise<MailAttachment> {
+  const filename = `${subscription.report}-${dateRange.from}-to-${dateRange.to}`
+
+  if (subscription.attachment_format === "csv") {
+    return {
+      filename: `${filename}.csv`,
+      content: Buffer.from(toCsv(tables)),
+      contentType: "text/csv",
+    }
+  }
+
+  if (subscription.attachment_format === "pdf") {
+    const timeZone = await getStoreTimezone()
+    const compareTo = getComparisonDates(
+      getDateRangeFromParams(
+        new URLSearchParams({
+          from: dateRange.from,
+          to: dateRange.to,
+          compare: "previous_period",
+        }),
+        timeZone
+      )
+    )
+
+    return {
+      filename: `board-pack-${dateRange.from}-to-${dateRange.to}.pdf`,
+      content: await renderBoardPack({
+        fromDate: dateRange.from,
+        toDate: dateRange.to,
+        compareTo,
+        comparisonLabel: "previous period",
+        sections: Object.keys(BOARD_PACK_SECTIONS) as BoardPackSection[],
+      }),
+      contentType: "application/pdf",
+    }
+  }
+
+  const workbook = streamWorkbook(tables, await getStoreTimezone())
+  return {
+    filename: `${filename}.xlsx`,
+    content: Buffer.from(await new Response(workbook).arrayBuffer()),
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  }
+}
+
+function renderReportHtml(
+  subscription: ReportSubscription,
+  title: string,
+  dateRange: StoreDateRange,
+  tables: SomeExportTable[]
+): string {
+  const cellStyle = "padding:4px 8px;border-bottom:1px solid #e5e7eb"
+
+  const renderedTables = tables
+    .map((open) =>
+      open((table) => {
+        const header = table.columns
+          .map(
+            (column) =>
+              `<th style="${cellStyle};text-align:${isNumeric(column.type) ? "right" : "left"}">${escapeHtml(column.header)}</th>`
+          )
+          .join("")
+        const rows = table.rows
+          .map(
+            (row) =>
+              `<tr>${table.columns
+                .map(
+                  (column) =>
+                    `<td style="${cellStyle};text-align:${isNumeric(column.type) ? "right" : "left"}">${escapeHtml(formatValue(row[column.key], column.type, getRowCurrency(row)))}</td>`
+                )
+                .join("")}</tr>`
+          )
+          .join("")
+
+        return `<h3 style="margin:24px 0 8px">${escapeHtml(table.name)}</h3>
+<table style="border-collapse:collapse;font-size:13px"><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`
+      })
+    )
+    .join("\n")
+
+  return `<div style="font-family:Arial,sans-serif;color:#111827">
+<h2 style="margin:0">${escapeHtml(title)}</h2>
+<p style="color:#6b7280">${escapeHtml(formatDateRange(dateRange))} (${escapeHtml(REPORT_DATE_RANGES[subscription.date_range])})</p>
+${renderedTables}
+<p style="color:#6b7280;font-size:12px;margin-top:24px">Sent by the "${escapeHtml(subscription.name)}" email report. ${subscription.attachment_format === "pdf" ? "The board pack for these days is attached." : "The full tables are attached."}</p>
+</div>`
+}
+
+function isNumeric(type: ExportColumnType): boolean {
+  return type === "number" || type === "currency" || type === "percent"
+}
+
+function formatValue(
+  value: unknown,
+  type: ExportColumnType,
+  currency: unknown
+): string {
+  if (value === null || value === undefined) return ""
+
+  switch (type) {
+    case "number":
+      return Number(value).toLocaleString()
+    case "currency":
+      return typeof currency === "string"
+        ? formatCurrency(Number(value), currency)
+        : Number(value).toFixed(2)
+    case "percent":
+      return `${Number(value).toFixed(1)}%`
+    default:
+      return String(value)
+  }
+}
+
+function formatDateRange(dateRange: StoreDateRange): string {
+  return dateRange.from === dateRange.to
+    ? dateRange.from
+    : `${dateRange.from} to ${dateRange.to}`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
@@ -0,0 +1,88 @@
+/**
+ * Scheduled Jobs
+ *
+ * Jobs run by GET /api/cron/sync?job=<name>. vercel.json schedules them on
+ * Vercel; other hosts call the endpoint on the same schedule with the cron
+ * bearer secret.
+ *
+ * - incremental: the regular incremental sync
+ * - reconciliation: reconciles the last few store days against Shopify and
+ *   re-syncs every order with a discrepancy
+ */
+
+import {
+  withShopifyFetchStats,
+  type ShopifyFetchStats,
+} from "../shopify/client"
+import { getStoreLastDays } from "../date-range"
+import { getReconciliation } from "./get-reconciliation"
+import { getStoreTimezone } from "./get-store-timezone"
+import { resyncOrders, syncOrders, type SyncResult } from "./sync-orders"
+
+export const SCHEDULED_JOBS = ["incremental", "reconciliation"] as const
+
+export type ScheduledJob = (typeof SCHEDULED_JOBS)[number]
+
+// Store days the nightly reconciliation checks, ending today
+const RECONCILIATION_DAYS = 3
+
+export function isScheduledJob(value: string): value is ScheduledJob {
+  return (SCHEDULED_JOBS as readonly string[]).includes(value)
+}
+
+/**
+ * Run a scheduled job, recorded in sync_runs with the cron trigger
+ */
+export async function runScheduledJob(job: ScheduledJob): Promise<SyncResult> {
+  console.log(`⏰ Running scheduled job: ${job}`)
+
+  switch (job) {
+    case "incremental":
+      return syncOrders({ trigger: "cron" })
+    case "reconciliation":
+      return withShopifyFetchStats(reconcileRecentOrders)
+  }
+}
+
+async function reconcileRecentOrders(
+  apiStats: ShopifyFetchStats
+): Promise<SyncResult> {
+  try {
+    const { from, to } = getStoreLastDays(
+      RECONCILIATION_DAYS,
+      await getStoreTimezone()
+    )
+    const report = await getReconciliation(from, to)
+    const orderIds = report.discrepancies.map(
+      (discrepancy) => discrepancy.shopifyOrderId
+    )
+
+    console.log(
+      `🔎 Reconciled ${from} to ${to}: ${orderIds.length} orders with discrepancies`
+    )
+
+    if (orderIds.length === 0) {
+      return {
+        success: true,
+        ordersProcessed: 0,
+        transactionsProcessed: 0,
+        apiUsage: { ...apiStats },
+      }
+    }
+
+    const result = await resyncOrders({ orderIds, trigger: "cron" })
+    return { ...result, apiUsage: { ...apiStats } }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error"
+    console.error("❌ Scheduled reconciliation failed:", errorMessage)
+
+    return {
+      success: false,
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+      apiUsage: { ...apiStats },
+      error: errorMessage,
+    }
+  }
+}
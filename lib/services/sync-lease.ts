@@ -0,0 +1,74 @@
+/**
+ * Sync Lease
+ *
+ * Only one sync may page orders into sync_state at a time. A sync takes a
+ * lease on the orders sync_state row, renews it on a heartbeat while it works
+ * and releases it when it finishes. A process that crashes stops renewing, so
+ * its lease expires and the next sync takes over. A sync whose renewal fails
+ * is aborted, and stops before its next write instead of racing the sync
+ * that takes over.
+ */
+
+import { randomUUID } from "crypto"
+import {
+  acquireSyncLease,
+  releaseSyncLease,
+  renewSyncLease,
+} from "../supabase/operations"
+import type { SyncResult } from "./sync-orders"
+
+// How long a lease outlives its last heartbeat
+const LEASE_TTL_SECONDS = 120
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+
+/**
+ * Run a sync while holding the lease
+ * Returns a failed result flagged alreadyRunning, without running, when
+ * another sync holds the lease. The sync is handed a signal that aborts when
+ * the lease is lost, to check between pages.
+ */
+export async function withSyncLease<T extends SyncResult>(
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T | SyncResult> {
+  const owner = randomUUID()
+
+  const acquired = await acquireSyncLease("orders", owner, LEASE_TTL_SECONDS)
+  if (!acquired) {
+    const error =
+      acquired === null
+        ? "Failed to acquire the sync lease"
+        : "A sync is already in progress"
+    console.log(`⏸️ ${error}, not starting another`)
+
+    return {
+      success: false,
+      alreadyRunning: acquired === false,
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+      // Nothing was asked of Shopify
+      apiUsage: { requests: 0, retries: 0, throttled: 0 },
+      error,
+    }
+  }
+
+  const lease = new AbortController()
+  const heartbeat = setInterval(async () => {
+    const renewed = await renewSyncLease("orders", owner, LEASE_TTL_SECONDS)
+    if (!renewed) {
+      console.error(
+        "❌ Sync lease lost - stopping before another sync takes over"
+      )
+      clearInterval(heartbeat)
+      lease.abort(
+        new Error("Sync lease lost, another sync may have taken over")
+      )
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    return await run(lease.signal)
+  } finally {
+    clearInterval(heartbeat)
+    await releaseSyncLease("orders", owner)
+  }
+}
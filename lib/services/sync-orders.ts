@@ -5,49 +5,176 @@
  * Uses cursor-based pagination and last_updated_at tracking for efficiency
  *
  * Features:
- * - Automatic resumption of interrupted syncs using saved cursor position
+ * - One sync at a time, guarded by a lease on sync_state (see sync-lease.ts)
+ * - Automatic resumption of interrupted syncs using saved cursor position and query
  * - Cursor preservation after successful completion for future resumption
  * - Efficient incremental sync based on last_updated_at timestamps
  */
 
-import { shopifyFetch } from "../shopify/client"
 import {
+  shopifyFetch,
+  withShopifyFetchStats,
+  createShopifyId,
+  normalizeId,
+  type ShopifyFetchStats,
+} from "../shopify/client"
+import {
+  OrderExistsDocument,
   SyncOrdersDocument,
+  type ShopifyOrderExistsQuery,
+  type ShopifyOrderExistsQueryVariables,
   type ShopifySyncOrdersQuery,
   type ShopifySyncOrdersQueryVariables,
 } from "../shopify/types"
 import {
   updateSyncState,
-  upsertOrders,
-  upsertTransactions,
   getLastUpdatedAt,
-  getOrderIdMapByShopifyIds,
   getSyncState,
+  createSyncRun,
+  updateSyncRun,
+  resumePendingSyncRun,
+  failAbandonedSyncRuns,
 } from "../supabase/operations"
-import type { DatabaseOrder, DatabaseTransaction } from "../supabase/types"
-
-interface SyncResult {
+import type { SyncMode, SyncState, SyncTrigger } from "../supabase/types"
+import { processBatch, processDeletedOrders } from "./process-orders-batch"
+import { getStoreTimezone } from "./get-store-timezone"
+import { getStoreDayBounds } from "../date-range"
+import {
+  getBackfillStartDate,
+  hasPendingBulkBackfill,
+  performBulkBackfill,
+  type BulkBackfillOptions,
+  type BulkBackfillResult,
+} from "./bulk-sync-orders"
+import { withSyncLease } from "./sync-lease"
+
+// Shopify rejects a query whose requested cost is over this many points
+const MAX_QUERY_COST = 1000
+// Most orders Shopify returns in one page
+const MAX_ORDERS_PAGE_SIZE = 250
+
+// Requested cost of one order in a SyncOrders page, measured from the last
+// page Shopify returned. Until then a page of one order measures it.
+let orderQueryCost: number | null = null
+
+// Order ids or names OR-ed into one re-sync search query
+const RESYNC_TERMS_PER_QUERY = 50
+
+export interface SyncResult {
   success: boolean
   ordersProcessed: number
   transactionsProcessed: number
+  // Shopify requests, retries and throttled responses during this run
+  apiUsage: ShopifyFetchStats
   error?: string
+  // Set when another sync held the lease and this one did not run
+  alreadyRunning?: boolean
+}
+
+export interface SyncOrdersOptions {
+  // Recorded in sync_runs, defaults to "api"
+  trigger?: SyncTrigger
+}
+
+export interface BackfillOrdersOptions extends BulkBackfillOptions {
+  // Recorded in sync_runs, defaults to "api"
+  trigger?: SyncTrigger
+}
+
+// Progress of a run as it goes, recorded in sync_runs when it finishes
+interface SyncRunProgress {
+  batches: number
+  ordersProcessed: number
+  transactionsProcessed: number
+  cursorEnd: string | null
+  warnings: string[]
+}
+
+// Saved cursor of an interrupted run and the search query it pages through
+interface ResumePoint {
+  cursor: string
+  query: string
+}
+
+// Modes that run under the sync lease
+const LEASED_SYNC_MODES: SyncMode[] = ["incremental", "initial", "backfill"]
+
+/**
+ * Run (or resume) the bulk operation backfill, recorded in sync_runs
+ * Returns alreadyRunning without starting when another sync is in progress
+ */
+export async function backfillOrders({
+  trigger = "api",
+  ...options
+}: BackfillOrdersOptions = {}): Promise<BulkBackfillResult> {
+  return withSyncLease(async (signal) => {
+    // We hold the lease, so runs still recorded as running died with their process
+    await failAbandonedSyncRuns(
+      LEASED_SYNC_MODES,
+      "Sync stopped without finishing (lease expired)"
+    )
+
+    return withShopifyFetchStats((apiStats) =>
+      runBackfill(trigger, apiStats, signal, options)
+    )
+  })
 }
 
 /**
  * Unified sync function - always incremental, handles both initial and ongoing syncs
+ * Returns alreadyRunning without syncing when another sync is in progress
  */
-export async function syncOrders(): Promise<SyncResult> {
+export async function syncOrders(
+  options: SyncOrdersOptions = {}
+): Promise<SyncResult> {
+  return withSyncLease((signal) =>
+    withShopifyFetchStats((apiStats) =>
+      runSync(options.trigger || "api", apiStats, signal)
+    )
+  )
+}
+
+async function runSync(
+  trigger: SyncTrigger,
+  apiStats: ShopifyFetchStats,
+  signal: AbortSignal
+): Promise<SyncResult> {
   console.log("🚀 Starting incremental sync...")
+  const progress = newSyncRunProgress()
+  let runId: number | null = null
 
   try {
     // Debug: Show current sync state
-    const debugSyncState = await getSyncState("orders")
+    const syncState = await getSyncState("orders")
     console.log("🔍 Current sync state:", {
-      status: debugSyncState?.sync_status,
-      last_sync_at: debugSyncState?.last_sync_at,
-      last_cursor: debugSyncState?.last_cursor,
+      status: syncState?.sync_status,
+      last_sync_at: syncState?.last_sync_at,
+      last_cursor: syncState?.last_cursor,
+      cursor_query: syncState?.cursor_query,
     })
 
+    // We hold the lease, so runs still recorded as running died with their process
+    await failAbandonedSyncRuns(
+      LEASED_SYNC_MODES,
+      "Sync stopped without finishing (lease expired)"
+    )
+
+    // A bulk backfill that was interrupted takes priority - pick it back up
+    if (await hasPendingBulkBackfill()) {
+      console.log("📦 Pending bulk backfill found, resuming it...")
+      return runBackfill(trigger, apiStats, signal)
+    }
+
+    // Nothing else holds the lease, so a running state is left over from a crashed sync
+    const resume =
+      syncState?.sync_status === "running"
+        ? await recoverStaleSync(syncState)
+        : null
+
+    if (resume && isInitialSyncQuery(resume.query)) {
+      return await performInitialSync(trigger, resume, apiStats, signal)
+    }
+
     // Get the last updated timestamp from our database
     const lastUpdatedAt = await getLastUpdatedAt()
     console.log(
@@ -59,25 +186,19 @@ export async function syncOrders(): Promise<SyncResult> {
     let totalTransactions = 0
     let hasNextPage = true
     let cursor: string | undefined = undefined
+    let query: string
 
-    if (!lastUpdatedAt) {
-      // No data in database, perform initial sync (1 year back)
-      console.log("🎯 No previous sync found, starting initial sync...")
-      return await performInitialSync()
-    }
-
-    // Check if there's an interrupted sync we can resume from
-    const currentSyncState = await getSyncState("orders")
-    if (
-      currentSyncState?.sync_status === "running" &&
-      currentSyncState.last_cursor
-    ) {
-      console.log(
-        "🔄 Resuming interrupted sync from cursor:",
-        currentSyncState.last_cursor
-      )
-      cursor = currentSyncState.last_cursor
+    if (resume) {
+      console.log("🔄 Resuming interrupted sync from cursor:", resume.cursor)
+      cursor = resume.cursor
+      query = resume.query
     } else {
+      if (!lastUpdatedAt) {
+        // No data in database, perform initial sync from the backfill start date
+        console.log("🎯 No previous sync found, starting initial sync...")
+        return await performInitialSync(trigger, null, apiStats, signal)
+      }
+
       // Mark sync as running (new sync)
       console.log("🆕 Starting new incremental sync...")
       console.log("🔍 Looking for orders updated since:", lastUpdatedAt)
@@ -85,21 +206,23 @@ export async function syncOrders(): Promise<SyncResult> {
         sync_status: "running",
         error_message: null,
       })
-    }
 
-    // Query for orders updated since last sync
-    // Convert timestamp to Shopify's required format: ISO 8601 with Z timezone, no milliseconds, quoted
-    const shopifyTimestamp =
-      new Date(lastUpdatedAt).toISOString().split(".")[0] + "Z"
-    console.log(
-      "🔧 Converting timestamp:",
-      lastUpdatedAt,
-      "→",
-      shopifyTimestamp
-    )
-    const query = `updated_at:>='${shopifyTimestamp}'`
+      // Query for orders updated since last sync
+      // Convert timestamp to Shopify's required format: ISO 8601 with Z timezone, no milliseconds, quoted
+      const shopifyTimestamp =
+        new Date(lastUpdatedAt).toISOString().split(".")[0] + "Z"
+      console.log(
+        "🔧 Converting timestamp:",
+        lastUpdatedAt,
+        "→",
+        shopifyTimestamp
+      )
+      query = `updated_at:>='${shopifyTimestamp}'`
+    }
     console.log("🔍 Shopify query:", query)
 
+    runId = await startSyncRun(trigger, "incremental", query, cursor)
+
     let batchCount = 0
     while (hasNextPage) {
       batchCount++
@@ -107,26 +230,8 @@ export async function syncOrders(): Promise<SyncResult> {
         `📦 Processing batch ${batchCount}${cursor ? ` (cursor: ${cursor.slice(-8)})` : ""}...`
       )
 
-      const variables: ShopifySyncOrdersQueryVariables = {
-        first: 250,
-        after: cursor,
-        query: query,
-      }
-
-      const response = await shopifyFetch<
-        ShopifySyncOrdersQuery,
-        ShopifySyncOrdersQueryVariables
-      >({
-        query: SyncOrdersDocument,
-        variables,
-        cache: "no-store",
-      })
-
-      if (!response.orders) {
-        throw new Error("Failed to fetch orders from Shopify")
-      }
-
-      const orders = response.orders.edges
+      const page = await fetchOrdersPage(query, cursor)
+      const orders = page.edges
       console.log(`📋 Fetched ${orders.length} orders in batch ${batchCount}`)
 
       if (orders.length === 0) {
@@ -135,25 +240,32 @@ export async function syncOrders(): Promise<SyncResult> {
       }
 
       // Process this batch
-      const { ordersCount, transactionsCount } = await processBatch(orders)
+      const { ordersCount, transactionsCount, warnings } =
+        await processBatch(orders)
       totalOrders += ordersCount
       totalTransactions += transactionsCount
+      progress.warnings.push(...warnings)
       console.log(
         `✨ Processed: ${ordersCount} orders, ${transactionsCount} transactions (Total: ${totalOrders}/${totalTransactions})`
       )
 
       // Update pagination
-      hasNextPage = response.orders.pageInfo.hasNextPage
-      cursor = response.orders.pageInfo.endCursor || undefined
+      hasNextPage = page.pageInfo.hasNextPage
+      cursor = page.pageInfo.endCursor || undefined
 
-      // Save cursor progress
+      // Save cursor progress, unless another sync has taken the lease over
+      signal.throwIfAborted()
       await updateSyncState("orders", {
         last_cursor: cursor,
+        cursor_query: query,
         sync_status: "running",
       })
-
-      // Small delay to be respectful to Shopify API
-      await new Promise((resolve) => setTimeout(resolve, 100))
+      Object.assign(progress, {
+        batches: batchCount,
+        ordersProcessed: totalOrders,
+        transactionsProcessed: totalTransactions,
+        cursorEnd: cursor || null,
+      })
     }
 
     // Mark sync as completed - keep the final cursor for potential future resume
@@ -177,53 +289,66 @@ export async function syncOrders(): Promise<SyncResult> {
     console.log(`🔍 Verified last_sync_at in DB: ${verifyState?.last_sync_at}`)
     console.log(`🔍 Verified sync_status in DB: ${verifyState?.sync_status}`)
 
-    return {
+    const result: SyncResult = {
       success: true,
       ordersProcessed: totalOrders,
       transactionsProcessed: totalTransactions,
+      apiUsage: { ...apiStats },
     }
+    await finishSyncRun(runId, result, progress)
+    return result
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error"
     console.error("❌ Incremental sync failed:", errorMessage)
 
-    await updateSyncState("orders", {
-      sync_status: "failed",
-      error_message: errorMessage,
-    })
+    // After losing the lease sync_state belongs to the sync that took over
+    if (!signal.aborted) {
+      await updateSyncState("orders", {
+        sync_status: "failed",
+        error_message: errorMessage,
+      })
+    }
 
-    return {
+    const result: SyncResult = {
       success: false,
       ordersProcessed: 0,
       transactionsProcessed: 0,
+      apiUsage: { ...apiStats },
       error: errorMessage,
     }
+    await finishSyncRun(runId, result, progress)
+    return result
   }
 }
 
 /**
  * Perform initial historical sync (first time only)
  */
-async function performInitialSync(): Promise<SyncResult> {
+async function performInitialSync(
+  trigger: SyncTrigger,
+  resume: ResumePoint | null,
+  apiStats: ShopifyFetchStats,
+  signal: AbortSignal
+): Promise<SyncResult> {
   console.log("🏁 Starting initial historical sync...")
+  const progress = newSyncRunProgress()
+  let runId: number | null = null
 
   try {
     let totalOrders = 0
     let totalTransactions = 0
     let hasNextPage = true
     let cursor: string | undefined = undefined
+    let query: string
 
-    // Check if there's an interrupted initial sync we can resume from
-    const currentSyncState = await getSyncState("orders")
-    if (
-      currentSyncState?.sync_status === "running" &&
-      currentSyncState.last_cursor
-    ) {
+    if (resume) {
       console.log(
         "🔄 Resuming interrupted initial sync from cursor:",
-        currentSyncState.last_cursor
+        resume.cursor
       )
-      cursor = currentSyncState.last_cursor
+      cursor = resume.cursor
+      query = resume.query
     } else {
       // Mark sync as running (new initial sync)
       console.log("🆕 Starting fresh initial sync...")
@@ -231,13 +356,13 @@ async function performInitialSync(): Promise<SyncResult> {
         sync_status: "running",
         error_message: null,
       })
-    }
 
-    const oneYearAgo = new Date()
-    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1)
-    const fromDate = oneYearAgo.toISOString()
+      const fromDate = getBackfillStartDate()
+      console.log("📅 Syncing orders created since:", fromDate)
+      query = `created_at:>='${fromDate}'`
+    }
 
-    console.log("📅 Syncing orders created since:", fromDate)
+    runId = await startSyncRun(trigger, "initial", query, cursor)
 
     let batchCount = 0
     while (hasNextPage) {
@@ -246,50 +371,39 @@ async function performInitialSync(): Promise<SyncResult> {
         `📦 Processing initial batch ${batchCount}${cursor ? ` (cursor: ${cursor.slice(-8)})` : ""}...`
       )
 
-      const variables: ShopifySyncOrdersQueryVariables = {
-        first: 250, // Max allowed by Shopify
-        after: cursor,
-        query: `created_at:>='${fromDate}'`,
-      }
-
-      const response = await shopifyFetch<
-        ShopifySyncOrdersQuery,
-        ShopifySyncOrdersQueryVariables
-      >({
-        query: SyncOrdersDocument,
-        variables,
-        cache: "no-store",
-      })
-
-      if (!response.orders) {
-        throw new Error("Failed to fetch orders from Shopify")
-      }
-
-      const orders = response.orders.edges
+      const page = await fetchOrdersPage(query, cursor)
+      const orders = page.edges
       console.log(
         `📋 Fetched ${orders.length} orders in initial batch ${batchCount}`
       )
 
       // Process this batch
-      const { ordersCount, transactionsCount } = await processBatch(orders)
+      const { ordersCount, transactionsCount, warnings } =
+        await processBatch(orders)
       totalOrders += ordersCount
       totalTransactions += transactionsCount
+      progress.warnings.push(...warnings)
       console.log(
         `✨ Processed: ${ordersCount} orders, ${transactionsCount} transactions (Total: ${totalOrders}/${totalTransactions})`
       )
 
       // Update pagination
-      hasNextPage = response.orders.pageInfo.hasNextPage
-      cursor = response.orders.pageInfo.endCursor || undefined
+      hasNextPage = page.pageInfo.hasNextPage
+      cursor = page.pageInfo.endCursor || undefined
 
-      // Save cursor progress
+      // Save cursor progress, unless another sync has taken the lease over
+      signal.throwIfAborted()
       await updateSyncState("orders", {
         last_cursor: cursor,
+        cursor_query: query,
         sync_status: "running",
       })
-
-      // Small delay to be respectful to Shopify API
-      await new Promise((resolve) => setTimeout(resolve, 100))
+      Object.assign(progress, {
+        batches: batchCount,
+        ordersProcessed: totalOrders,
+        transactionsProcessed: totalTransactions,
+        cursorEnd: cursor || null,
+      })
     }
 
     // Mark sync as completed - keep the final cursor for potential future resume
@@ -306,150 +420,431 @@ async function performInitialSync(): Promise<SyncResult> {
       error_message: null,
     })
 
-    return {
+    const result: SyncResult = {
       success: true,
       ordersProcessed: totalOrders,
       transactionsProcessed: totalTransactions,
+      apiUsage: { ...apiStats },
     }
+    await finishSyncRun(runId, result, progress)
+    return result
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error"
     console.error("❌ Initial sync failed:", errorMessage)
 
-    await updateSyncState("orders", {
-      sync_status: "failed",
-      error_message: errorMessage,
-    })
+    // After losing the lease sync_state belongs to the sync that took over
+    if (!signal.aborted) {
+      await updateSyncState("orders", {
+        sync_status: "failed",
+        error_message: errorMessage,
+      })
+    }
 
-    return {
+    const result: SyncResult = {
       success: false,
       ordersProcessed: 0,
       transactionsProcessed: 0,
+      apiUsage: { ...apiStats },
       error: errorMessage,
     }
+    await finishSyncRun(runId, result, progress)
+    return result
+  }
+}
+
+/**
+ * Recover the running state of a sync that stopped without finishing
+ * Its saved cursor is only resumed together with the query it was paging
+ * through. Without one the state is marked failed, like any failed sync, so
+ * this run starts over instead of paging an unrelated query from that cursor.
+ */
+async function recoverStaleSync(
+  syncState: SyncState
+): Promise<ResumePoint | null> {
+  console.warn(
+    "⚠️ Found a running sync state with no live lease, last updated at",
+    syncState.last_sync_at
+  )
+
+  if (syncState.last_cursor && syncState.cursor_query) {
+    return { cursor: syncState.last_cursor, query: syncState.cursor_query }
   }
+
+  console.warn("⚠️ No resumable cursor saved, discarding the interrupted sync")
+  await updateSyncState("orders", {
+    sync_status: "failed",
+    error_message: "Sync stopped without finishing and could not be resumed",
+    last_cursor: null,
+    cursor_query: null,
+  })
+  return null
+}
+
+// Initial syncs page by creation date, incremental syncs by update date
+function isInitialSyncQuery(query: string): boolean {
+  return query.startsWith("created_at:")
 }
 
 /**
- * Process a batch of orders and their transactions
+ * Run the bulk backfill for a caller holding the sync lease and record it
+ * While Shopify is still running the operation the run is left pending, and
+ * the sync that resumes the operation finishes the same run. A failed
+ * backfill is recorded with its error, like a failed paged sync.
  */
-async function processBatch(
-  orders: ShopifySyncOrdersQuery["orders"]["edges"]
-): Promise<{ ordersCount: number; transactionsCount: number }> {
-  const ordersToInsert: Omit<DatabaseOrder, "id">[] = []
-  const transactionsToInsert: Omit<DatabaseTransaction, "id">[] = []
-
-  // First pass: collect all orders
-  let testOrdersSkipped = 0
-  for (const { node: order } of orders) {
-    // Skip test orders
-    if (order.test) {
-      testOrdersSkipped++
-      continue
+async function runBackfill(
+  trigger: SyncTrigger,
+  apiStats: ShopifyFetchStats,
+  signal: AbortSignal,
+  options: BulkBackfillOptions = {}
+): Promise<BulkBackfillResult> {
+  const syncState = await getSyncState("orders")
+  const pendingRun = syncState?.bulk_sync_run_id
+    ? await resumePendingSyncRun(syncState.bulk_sync_run_id)
+    : null
+  const runId = pendingRun
+    ? pendingRun.id
+    : await startSyncRun(trigger, "backfill")
+
+  const result = await performBulkBackfill(options, apiStats, signal)
+
+  // Requests of the earlier calls that waited on the same operation
+  if (pendingRun) {
+    result.apiUsage = {
+      requests: result.apiUsage.requests + pendingRun.api_requests,
+      retries: result.apiUsage.retries + pendingRun.throttle_retries,
+      throttled: result.apiUsage.throttled + pendingRun.throttled_requests,
     }
+  }
 
-    // Prepare order data
-    const orderData: Omit<DatabaseOrder, "id"> = {
-      shopify_order_id: order.id,
-      name: order.name,
-      created_at: order.createdAt,
-      processed_at: order.processedAt || null,
-      updated_at: order.updatedAt,
-      financial_status: order.displayFinancialStatus || null,
-      source_name: order.sourceName || null,
-      channel_id: order.channelInformation?.channelId || null,
-      channel_display_name:
-        order.channelInformation?.displayName || order.sourceName || null,
-      subtotal_amount: parseFloat(
-        String(order.subtotalPriceSet?.presentmentMoney?.amount || "0")
-      ),
-      total_amount: parseFloat(
-        String(order.totalPriceSet?.presentmentMoney?.amount || "0")
-      ),
-      total_tax_amount: parseFloat(
-        String(order.totalTaxSet?.presentmentMoney?.amount || "0")
-      ),
-      total_discounts_amount: parseFloat(
-        String(order.totalDiscountsSet?.presentmentMoney?.amount || "0")
-      ),
-      total_shipping_amount: parseFloat(
-        String(order.totalShippingPriceSet?.presentmentMoney?.amount || "0")
-      ),
-      currency: order.subtotalPriceSet?.presentmentMoney?.currencyCode || "USD",
-      test: order.test,
-      last_synced_at: new Date().toISOString(),
+  if (result.pending) {
+    if (runId !== null) {
+      await updateSyncRun(runId, {
+        status: "pending",
+        api_requests: result.apiUsage.requests,
+        throttle_retries: result.apiUsage.retries,
+        throttled_requests: result.apiUsage.throttled,
+      })
     }
+    await updateSyncState("orders", { bulk_sync_run_id: runId })
+    return result
+  }
 
-    ordersToInsert.push(orderData)
+  await finishSyncRun(runId, result, {
+    ...newSyncRunProgress(),
+    ordersProcessed: result.ordersProcessed,
+    transactionsProcessed: result.transactionsProcessed,
+  })
+  if (syncState?.bulk_sync_run_id && !signal.aborted) {
+    await updateSyncState("orders", { bulk_sync_run_id: null })
   }
 
-  // Insert orders first
-  if (ordersToInsert.length > 0) {
-    console.log(
-      `💾 Inserting ${ordersToInsert.length} orders${testOrdersSkipped > 0 ? ` (${testOrdersSkipped} test orders skipped)` : ""}...`
-    )
-    await upsertOrders(ordersToInsert)
-  } else if (testOrdersSkipped > 0) {
-    console.log(`⚠️ All ${testOrdersSkipped} orders were test orders - skipped`)
+  return result
+}
+
+function newSyncRunProgress(): SyncRunProgress {
+  return {
+    batches: 0,
+    ordersProcessed: 0,
+    transactionsProcessed: 0,
+    cursorEnd: null,
+    warnings: [],
+  }
+}
+
+/**
+ * Record the start of a run in sync_runs
+ * A failed insert is logged and the sync carries on unrecorded
+ */
+async function startSyncRun(
+  trigger: SyncTrigger,
+  mode: SyncMode,
+  query?: string,
+  cursorStart?: string
+): Promise<number | null> {
+  return createSyncRun({
+    trigger,
+    mode,
+    search_query: query || null,
+    cursor_start: cursorStart || null,
+  })
+}
+
+async function finishSyncRun(
+  runId: number | null,
+  result: SyncResult,
+  progress: SyncRunProgress
+): Promise<void> {
+  if (runId === null) return
+
+  await updateSyncRun(runId, {
+    status: result.success ? "completed" : "failed",
+    finished_at: new Date().toISOString(),
+    // Progress keeps the batches a failed run got through
+    orders_processed: progress.ordersProcessed,
+    transactions_processed: progress.transactionsProcessed,
+    batches: progress.batches,
+    api_requests: result.apiUsage.requests,
+    throttle_retries: result.apiUsage.retries,
+    throttled_requests: result.apiUsage.throttled,
+    cursor_end: progress.cursorEnd,
+    warnings: progress.warnings,
+    error_message: result.error || null,
+  })
+}
+
+/**
+ * Fetch a page of orders matching a Shopify search query
+ * Each page asks for as many orders as fit under the query cost limit, going
+ * by the requested cost Shopify reported for the previous page
+ */
+export async function fetchOrdersPage(
+  query: string,
+  after?: string
+): Promise<ShopifySyncOrdersQuery["orders"]> {
+  const first = orderQueryCost
+    ? Math.max(
+        1,
+        Math.min(
+          MAX_ORDERS_PAGE_SIZE,
+          Math.floor(MAX_QUERY_COST / orderQueryCost)
+        )
+      )
+    : 1
+
+  const response = await shopifyFetch<
+    ShopifySyncOrdersQuery,
+    ShopifySyncOrdersQueryVariables
+  >({
+    query: SyncOrdersDocument,
+    variables: { first, after, query },
+    cache: "no-store",
+    // The connection's own cost is spread over its orders, erring high
+    onQueryCost: (cost) => {
+      orderQueryCost = cost.requestedQueryCost / first
+    },
+  })
+
+  if (!response.orders) {
+    throw new Error("Failed to fetch orders from Shopify")
+  }
+
+  return response.orders
+}
+
+/**
+ * Fetch and upsert every order matching a Shopify search query
+ * Used for targeted updates (e.g. webhooks) - does not touch the sync cursor in sync_state
+ */
+export async function syncOrdersMatching(query: string): Promise<{
+  ordersCount: number
+  transactionsCount: number
+  batches: number
+  warnings: string[]
+  // Every order Shopify returned, including skipped test orders
+  shopifyOrderIds: string[]
+}> {
+  let ordersCount = 0
+  let transactionsCount = 0
+  let batches = 0
+  const warnings: string[] = []
+  const shopifyOrderIds: string[] = []
+  let hasNextPage = true
+  let cursor: string | undefined = undefined
+
+  while (hasNextPage) {
+    const page = await fetchOrdersPage(query, cursor)
+
+    const result = await processBatch(page.edges)
+    shopifyOrderIds.push(...page.edges.map(({ node }) => node.id))
+    batches++
+    ordersCount += result.ordersCount
+    transactionsCount += result.transactionsCount
+    warnings.push(...result.warnings)
+
+    hasNextPage = page.pageInfo.hasNextPage
+    cursor = page.pageInfo.endCursor || undefined
   }
 
-  // Get all order IDs in one batch query
-  const shopifyOrderIds = ordersToInsert.map((o) => o.shopify_order_id)
-  const orderIdMap = await getOrderIdMapByShopifyIds(shopifyOrderIds)
+  return { ordersCount, transactionsCount, batches, warnings, shopifyOrderIds }
+}
+
+/**
+ * Which orders resyncOrders fetches. Ids and names select single orders; a
+ * from/to window selects every order updated (or created) within it.
+ */
+export interface ResyncOrdersOptions {
+  // Shopify order GIDs or numeric ids
+  orderIds?: string[]
+  // Order names, e.g. "#1001"
+  names?: string[]
+  // Window bounds as YYYY-MM-DD or ISO timestamps, either may be left open
+  from?: string
+  to?: string
+  // Timestamp the window applies to, defaults to updated_at
+  dateField?: "updated_at" | "created_at"
+  // Recorded in sync_runs, defaults to "api"
+  trigger?: SyncTrigger
+}
+
+/**
+ * Re-fetch and upsert specific orders or a date window
+ * Requested order ids Shopify no longer has are marked deleted
+ * Runs outside the incremental sync - does not touch the sync cursor in sync_state
+ */
+export async function resyncOrders(
+  options: ResyncOrdersOptions
+): Promise<SyncResult> {
+  return withShopifyFetchStats((apiStats) => runResync(options, apiStats))
+}
 
-  // Second pass: collect all transactions with resolved order IDs
-  for (const { node: order } of orders) {
-    // Skip test orders
-    if (order.test) continue
+async function runResync(
+  options: ResyncOrdersOptions,
+  apiStats: ShopifyFetchStats
+): Promise<SyncResult> {
+  const progress = newSyncRunProgress()
+  let runId: number | null = null
 
-    const dbOrderId = orderIdMap[order.id]
-    if (!dbOrderId) {
-      // Skip if order not found
-      continue
+  try {
+    const queries = buildResyncQueries(options, await getStoreTimezone())
+    if (queries.length === 0) {
+      throw new Error("Pass orderIds, names or a from/to window to re-sync")
     }
 
-    // Process transactions for this order
-    if (order.transactions && order.transactions.length > 0) {
-      for (const transaction of order.transactions) {
-        const orderRecord = ordersToInsert.find(
-          (o) => o.shopify_order_id === order.id
-        )
-        const transactionData: Omit<DatabaseTransaction, "id"> = {
-          shopify_transaction_id: transaction.id,
-          order_id: dbOrderId, // Use the resolved database order ID
-          kind: transaction.kind,
-          status: transaction.status,
-          amount: parseFloat(
-            String(transaction.amountSet?.presentmentMoney?.amount || "0")
-          ),
-          currency:
-            transaction.amountSet?.presentmentMoney?.currencyCode ||
-            orderRecord?.currency ||
-            "USD",
-          processed_at: transaction.processedAt || transaction.createdAt,
-          created_at: transaction.createdAt,
-          gateway: transaction.gateway || null,
-          source_name: orderRecord?.source_name || null,
-          channel_id: orderRecord?.channel_id || null,
-          channel_display_name: orderRecord?.channel_display_name || null,
-          last_synced_at: new Date().toISOString(),
-        }
-
-        transactionsToInsert.push(transactionData)
-      }
+    runId = await startSyncRun(
+      options.trigger || "api",
+      "resync",
+      queries.join(" | ")
+    )
+
+    let totalOrders = 0
+    let totalTransactions = 0
+    const returnedOrderIds = new Set<string>()
+
+    for (const query of queries) {
+      console.log("🔁 Re-syncing orders matching:", query)
+      const {
+        ordersCount,
+        transactionsCount,
+        batches,
+        warnings,
+        shopifyOrderIds,
+      } = await syncOrdersMatching(query)
+      shopifyOrderIds.forEach((id) => returnedOrderIds.add(id))
+      totalOrders += ordersCount
+      totalTransactions += transactionsCount
+      progress.batches += batches
+      progress.warnings.push(...warnings)
+      progress.ordersProcessed = totalOrders
+      progress.transactionsProcessed = totalTransactions
+    }
+
+    // Search leaves out deleted orders, confirm each one before marking it
+    const unreturnedOrderIds = (options.orderIds || [])
+      .map((id) => createShopifyId("Order", normalizeId(id)))
+      .filter((id) => !returnedOrderIds.has(id))
+    const deletedOrderIds = await findDeletedOrders(unreturnedOrderIds)
+    if (deletedOrderIds.length > 0) {
+      const markedCount = await processDeletedOrders(deletedOrderIds)
+      progress.warnings.push(
+        `${deletedOrderIds.length} requested orders no longer exist in Shopify, ${markedCount} stored orders marked deleted`
+      )
+    }
+
+    console.log(
+      `✅ Re-sync completed: ${totalOrders} orders, ${totalTransactions} transactions`
+    )
+
+    const result: SyncResult = {
+      success: true,
+      ordersProcessed: totalOrders,
+      transactionsProcessed: totalTransactions,
+      apiUsage: { ...apiStats },
+    }
+    await finishSyncRun(runId, result, progress)
+    return result
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error"
+    console.error("❌ Re-sync failed:", errorMessage)
+
+    const result: SyncResult = {
+      success: false,
+      ordersProcessed: 0,
+      transactionsProcessed: 0,
+      apiUsage: { ...apiStats },
+      error: errorMessage,
     }
+    await finishSyncRun(runId, result, progress)
+    return result
   }
+}
+
+// Orders Shopify returns null for, one lookup per order
+async function findDeletedOrders(shopifyOrderIds: string[]): Promise<string[]> {
+  const deletedOrderIds: string[] = []
+
+  for (const id of shopifyOrderIds) {
+    const response = await shopifyFetch<
+      ShopifyOrderExistsQuery,
+      ShopifyOrderExistsQueryVariables
+    >({
+      query: OrderExistsDocument,
+      variables: { id },
+      cache: "no-store",
+    })
 
-  // Insert all transactions in one batch
-  if (transactionsToInsert.length > 0) {
-    console.log(`💳 Inserting ${transactionsToInsert.length} transactions...`)
-    await upsertTransactions(transactionsToInsert)
+    if (!response.order) {
+      deletedOrderIds.push(id)
+    }
   }
 
-  return {
-    ordersCount: ordersToInsert.length,
-    transactionsCount: transactionsToInsert.length,
+  return deletedOrderIds
+}
+
+// Shopify search queries for resyncOrders, ids and names in OR-ed chunks
+function buildResyncQueries(
+  options: ResyncOrdersOptions,
+  timeZone: string
+): string[] {
+  const queries: string[] = []
+  const chunked = (terms: string[]) => {
+    for (let i = 0; i < terms.length; i += RESYNC_TERMS_PER_QUERY) {
+      queries.push(terms.slice(i, i + RESYNC_TERMS_PER_QUERY).join(" OR "))
+    }
+  }
+
+  // Search filters by the numeric id at the end of the GID
+  chunked((options.orderIds || []).map((id) => `id:${id.split("/").pop()}`))
+  chunked(
+    (options.names || []).map(
+      (name) => `name:'${name.startsWith("#") ? name : `#${name}`}'`
+    )
+  )
+
+  if (options.from || options.to) {
+    const field = options.dateField || "updated_at"
+    // Same timestamp format as the incremental sync: ISO 8601, no milliseconds
+    const toShopifyTimestamp = (value: string) =>
+      new Date(value).toISOString().split(".")[0] + "Z"
+    const bounds: string[] = []
+    // Plain dates are store days, like the report date ranges
+    if (options.from) {
+      const { fromUTC } = getStoreDayBounds(
+        options.from,
+        options.from,
+        timeZone
+      )
+      bounds.push(`${field}:>='${toShopifyTimestamp(fromUTC)}'`)
+    }
+    if (options.to) {
+      const { toUTC } = getStoreDayBounds(options.to, options.to, timeZone)
+      bounds.push(`${field}:<='${toShopifyTimestamp(toUTC)}'`)
+    }
+    queries.push(bounds.join(" "))
   }
+
+  return queries
 }
 
 /**
@@ -460,6 +855,7 @@ export async function resetSyncCursor(): Promise<boolean> {
   try {
     await updateSyncState("orders", {
       last_cursor: null,
+      cursor_query: null,
       sync_status: "completed",
       error_message: null,
     })
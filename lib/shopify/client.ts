@@ -5,8 +5,15 @@
  * Uses Next.js 15 best practices with proper error handling and TypeScript.
  */
 
+import { AsyncLocalStorage } from "async_hooks"
 import type { TypedDocumentNode } from "@graphql-typed-document-node/core"
 import { print } from "graphql"
+import {
+  estimateQueryCost,
+  recordQueryCost,
+  waitForCapacity,
+  type ShopifyQueryCost,
+} from "./rate-limiter"
 
 // Types for Shopify API
 interface ShopifyConfig {
@@ -17,9 +24,24 @@ interface ShopifyConfig {
 
 interface ShopifyResponse<T = unknown> {
   data?: T
-  errors?: Array<{ message: string }>
+  errors?: Array<{ message: string; extensions?: { code?: string } }>
+  extensions?: { cost?: ShopifyQueryCost }
 }
 
+export interface ShopifyFetchStats {
+  requests: number
+  retries: number
+  throttled: number
+}
+
+// Retry settings for throttled and transient failures
+const MAX_RETRIES = 5
+const BASE_RETRY_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 30000
+
+// Counters of the withShopifyFetchStats calls the current request runs within
+const statsCollectors = new AsyncLocalStorage<ShopifyFetchStats[]>()
+
 // Configuration from environment variables
 const config: ShopifyConfig = {
   domain: process.env.SHOPIFY_STORE_DOMAIN!,
@@ -41,10 +63,13 @@ const endpoint = `https://${config.domain}/admin/api/${config.apiVersion}/graphq
 
 /**
  * Make a GraphQL request to the Shopify Storefront API
+ * Calls are paced by the cost-based rate limiter, and throttled or transient
+ * failures (THROTTLED, 429, 5xx, network errors) are retried with backoff
  *
  * @param query - GraphQL query string or DocumentNode
  * @param variables - Variables for the query
  * @param tags - Cache tags for Next.js revalidation
+ * @param onQueryCost - Receives the cost Shopify reports for the request
  * @returns Promise with the API response
  */
 export async function shopifyFetch<T, V = Record<string, unknown>>({
@@ -52,56 +77,105 @@ export async function shopifyFetch<T, V = Record<string, unknown>>({
   variables = {} as V,
   tags = [],
   cache = "force-cache",
+  onQueryCost,
 }: {
   query: string | TypedDocumentNode<T, V>
   variables?: V
   tags?: string[]
   cache?: RequestCache
+  onQueryCost?: (cost: ShopifyQueryCost) => void
 }): Promise<T> {
   try {
     // Convert DocumentNode to string if needed
     const queryString = typeof query === "string" ? query : print(query)
+    const expectedCost = estimateQueryCost(queryString)
 
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Shopify-Access-Token": config.apiAccessToken,
-        // Optional: Include admin API specific headers
-        ...(process.env.NODE_ENV === "development" && {
-          "User-Agent": "Shopify Analytics Dashboard/1.0",
-        }),
-      },
-      body: JSON.stringify({
-        query: queryString,
-        variables,
-      }),
-      cache,
-      // Next.js 15 cache tags for revalidation
-      next: {
-        tags: ["shopify", ...tags],
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < MAX_RETRIES
 
-    const json: ShopifyResponse<T> = await response.json()
+      // Pace requests so we stay within the cost bucket
+      await waitForCapacity(expectedCost)
+      countFetch("requests")
 
-    // Handle GraphQL errors
-    if (json.errors) {
-      console.error("Shopify GraphQL errors:", json.errors)
-      throw new Error(
-        `GraphQL error: ${json.errors.map((e: { message: string }) => e.message).join(", ")}`
-      )
-    }
+      let response: Response
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Shopify-Access-Token": config.apiAccessToken,
+            // Optional: Include admin API specific headers
+            ...(process.env.NODE_ENV === "development" && {
+              "User-Agent": "Shopify Analytics Dashboard/1.0",
+            }),
+          },
+          body: JSON.stringify({
+            query: queryString,
+            variables,
+          }),
+          cache,
+          // Next.js 15 cache tags for revalidation
+          next: {
+            tags: ["shopify", ...tags],
+          },
+        })
+      } catch (error) {
+        // Network failures are transient
+        if (!canRetry) throw error
+        await waitBeforeRetry(attempt, "network error")
+        continue
+      }
 
-    if (!json.data) {
-      throw new Error("No data returned from Shopify API")
-    }
+      if (response.status === 429 || response.status >= 500) {
+        if (canRetry) {
+          if (response.status === 429) countFetch("throttled")
+          const retryAfterSeconds = Number(response.headers.get("Retry-After"))
+          await waitBeforeRetry(
+            attempt,
+            `HTTP ${response.status}`,
+            retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined
+          )
+          continue
+        }
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const json: ShopifyResponse<T> = await response.json()
+
+      // Keep the limiter in step with Shopify's view of the bucket
+      if (json.extensions?.cost) {
+        recordQueryCost(queryString, json.extensions.cost)
+        onQueryCost?.(json.extensions.cost)
+      }
+
+      // Handle GraphQL errors
+      if (json.errors) {
+        const isThrottled = json.errors.some(
+          (e) => e.extensions?.code === "THROTTLED"
+        )
+
+        if (isThrottled && canRetry) {
+          // The limiter now knows the bucket is empty and will wait for it to refill
+          countFetch("throttled")
+          await waitBeforeRetry(attempt, "THROTTLED")
+          continue
+        }
+
+        console.error("Shopify GraphQL errors:", json.errors)
+        throw new Error(
+          `GraphQL error: ${json.errors.map((e: { message: string }) => e.message).join(", ")}`
+        )
+      }
+
+      if (!json.data) {
+        throw new Error("No data returned from Shopify API")
+      }
 
-    return json.data
+      return json.data
+    }
   } catch (error) {
     console.error("Shopify API request failed:", error)
 
@@ -114,6 +188,47 @@ export async function shopifyFetch<T, V = Record<string, unknown>>({
   }
 }
 
+/**
+ * Exponential backoff with full jitter before retrying a request
+ */
+async function waitBeforeRetry(
+  attempt: number,
+  reason: string,
+  minimumDelayMs: number = 0
+): Promise<void> {
+  countFetch("retries")
+
+  const backoff = Math.min(
+    MAX_RETRY_DELAY_MS,
+    BASE_RETRY_DELAY_MS * 2 ** attempt
+  )
+  const delay = Math.max(minimumDelayMs, Math.random() * backoff)
+
+  console.warn(
+    `⚠️ Shopify request failed (${reason}), retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`
+  )
+  await new Promise((resolve) => setTimeout(resolve, delay))
+}
+
+/**
+ * Run `work` with counters of the Shopify requests, retries and throttles it
+ * makes. Requests made elsewhere at the same time, e.g. webhooks, are not
+ * counted. The counters are live, copy them when reporting usage.
+ */
+export function withShopifyFetchStats<T>(
+  work: (stats: ShopifyFetchStats) => Promise<T>
+): Promise<T> {
+  const stats: ShopifyFetchStats = { requests: 0, retries: 0, throttled: 0 }
+  const collectors = statsCollectors.getStore() || []
+
+  // Nested calls count toward the outer ones too
+  return statsCollectors.run([...collectors, stats], () => work(stats))
+}
+
+function countFetch(counter: keyof ShopifyFetchStats) {
+  statsCollectors.getStore()?.forEach((stats) => stats[counter]++)
+}
+
 /**
  * Remove edges and node wrapper from Shopify GraphQL responses
  * This is a common pattern in Shopify's GraphQL API
@@ -0,0 +1,82 @@
+/**
+ * Shopify Admin API Rate Limiter
+ *
+ * Leaky-bucket pacing based on the GraphQL cost information Shopify returns in
+ * extensions.cost. The bucket state is refreshed from every response and calls
+ * wait until enough points have been restored for their expected cost.
+ */
+
+export interface ShopifyQueryCost {
+  requestedQueryCost: number
+  actualQueryCost: number | null
+  throttleStatus: {
+    maximumAvailable: number
+    currentlyAvailable: number
+    restoreRate: number
+  }
+}
+
+// Conservative defaults until the first response tells us the real bucket size
+const DEFAULT_MAXIMUM_AVAILABLE = 1000
+const DEFAULT_RESTORE_RATE = 50
+const DEFAULT_QUERY_COST = 50
+
+const bucket = {
+  maximumAvailable: DEFAULT_MAXIMUM_AVAILABLE,
+  currentlyAvailable: DEFAULT_MAXIMUM_AVAILABLE,
+  restoreRate: DEFAULT_RESTORE_RATE,
+  updatedAt: Date.now(),
+}
+
+// Last requested cost per query document, used to estimate the next call
+const queryCosts = new Map<string, number>()
+
+/**
+ * Points available right now, accounting for the restore rate since the last update
+ */
+function getAvailablePoints(): number {
+  const elapsedSeconds = (Date.now() - bucket.updatedAt) / 1000
+  return Math.min(
+    bucket.maximumAvailable,
+    bucket.currentlyAvailable + elapsedSeconds * bucket.restoreRate
+  )
+}
+
+/**
+ * Expected cost of a query, based on what Shopify charged for it last time
+ */
+export function estimateQueryCost(query: string): number {
+  return queryCosts.get(query) ?? DEFAULT_QUERY_COST
+}
+
+/**
+ * Wait until the bucket holds enough points for the given cost, then reserve them
+ */
+export async function waitForCapacity(cost: number): Promise<void> {
+  // A query can never need more than the whole bucket
+  const required = Math.min(cost, bucket.maximumAvailable)
+  const available = getAvailablePoints()
+
+  if (available < required) {
+    const waitMs = ((required - available) / bucket.restoreRate) * 1000
+    console.log(
+      `🪣 Waiting ${Math.ceil(waitMs)}ms for Shopify API capacity (${Math.floor(available)}/${required} points)`
+    )
+    await new Promise((resolve) => setTimeout(resolve, waitMs))
+  }
+
+  bucket.currentlyAvailable = getAvailablePoints() - required
+  bucket.updatedAt = Date.now()
+}
+
+/**
+ * Sync the bucket with the cost block of a Shopify response
+ */
+export function recordQueryCost(query: string, cost: ShopifyQueryCost): void {
+  queryCosts.set(query, cost.requestedQueryCost)
+
+  bucket.maximumAvailable = cost.throttleStatus.maximumAvailable
+  bucket.currentlyAvailable = cost.throttleStatus.currentlyAvailable
+  bucket.restoreRate = cost.throttleStatus.restoreRate
+  bucket.updatedAt = Date.now()
+}
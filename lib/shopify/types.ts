@@ -64517,6 +64517,48 @@ export type ShopifyWeightUnit =
   | "POUNDS"
   | "%future added value"
 
+export type ShopifyBulkOperationRunQueryMutationVariables = Exact<{
+  query: Scalars["String"]["input"]
+}>
+
+export type ShopifyBulkOperationRunQueryMutation = {
+  __typename?: "Mutation"
+  bulkOperationRunQuery?: {
+    __typename?: "BulkOperationRunQueryPayload"
+    bulkOperation?: {
+      __typename?: "BulkOperation"
+      id: string
+      status: ShopifyBulkOperationStatus
+      createdAt: string
+    } | null
+    userErrors: Array<{
+      __typename?: "BulkOperationUserError"
+      field?: Array<string> | null
+      message: string
+    }>
+  } | null
+}
+
+export type ShopifyCurrentBulkOperationQueryVariables = Exact<{
+  [key: string]: never
+}>
+
+export type ShopifyCurrentBulkOperationQuery = {
+  __typename?: "QueryRoot"
+  currentBulkOperation?: {
+    __typename?: "BulkOperation"
+    id: string
+    status: ShopifyBulkOperationStatus
+    errorCode?: ShopifyBulkOperationErrorCode | null
+    createdAt: string
+    completedAt?: string | null
+    objectCount: string
+    rootObjectCount: string
+    url?: string | null
+    partialDataUrl?: string | null
+  } | null
+}
+
 export type ShopifySyncOrdersQueryVariables = Exact<{
   first: Scalars["Int"]["input"]
   after?: InputMaybe<Scalars["String"]["input"]>
@@ -64537,8 +64579,12 @@ export type ShopifySyncOrdersQuery = {
         createdAt: string
         processedAt: string
         updatedAt: string
+        cancelledAt?: string | null
+        cancelReason?: ShopifyOrderCancelReason | null
         displayFinancialStatus?: ShopifyOrderDisplayFinancialStatus | null
         sourceName?: string | null
+        tags: Array<string>
+        paymentGatewayNames: Array<string>
         test: boolean
         subtotalPriceSet?: {
           __typename?: "MoneyBag"
@@ -64547,6 +64593,11 @@ export type ShopifySyncOrdersQuery = {
             amount: number
             currencyCode: ShopifyCurrencyCode
           }
+          shopMoney: {
+            __typename?: "MoneyV2"
+            amount: number
+            currencyCode: ShopifyCurrencyCode
+          }
         } | null
         totalPriceSet: {
           __typename?: "MoneyBag"
@@ -64555,6 +64606,11 @@ export type ShopifySyncOrdersQuery = {
             amount: number
             currencyCode: ShopifyCurrencyCode
           }
+          shopMoney: {
+            __typename?: "MoneyV2"
+            amount: number
+            currencyCode: ShopifyCurrencyCode
+          }
         }
         totalTaxSet?: {
           __typename?: "MoneyBag"
@@ -64563,6 +64619,11 @@ export type ShopifySyncOrdersQuery = {
             amount: number
             currencyCode: ShopifyCurrencyCode
           }
+          shopMoney: {
+            __typename?: "MoneyV2"
+            amount: number
+            currencyCode: ShopifyCurrencyCode
+          }
         } | null
         totalDiscountsSet?: {
           __typename?: "MoneyBag"
@@ -64571,6 +64632,11 @@ export type ShopifySyncOrdersQuery = {
             amount: number
             currencyCode: ShopifyCurrencyCode
           }
+          shopMoney: {
+            __typename?: "MoneyV2"
+            amount: number
+            currencyCode: ShopifyCurrencyCode
+          }
         } | null
         totalShippingPriceSet: {
           __typename?: "MoneyBag"
@@ -64579,12 +64645,28 @@ export type ShopifySyncOrdersQuery = {
             amount: number
             currencyCode: ShopifyCurrencyCode
           }
+          shopMoney: {
+            __typename?: "MoneyV2"
+            amount: number
+            currencyCode: ShopifyCurrencyCode
+          }
         }
         channelInformation?: {
           __typename?: "ChannelInformation"
           channelId: string
           displayName?: string | null
         } | null
+        customer?: {
+          __typename?: "Customer"
+          id: string
+          createdAt: string
+          numberOfOrders: string
+          tags: Array<string>
+          defaultEmailAddress?: {
+            __typename?: "CustomerEmailAddress"
+            emailAddress: string
+          } | null
+        } | null
         transactions: Array<{
           __typename?: "OrderTransaction"
           id: string
@@ -64600,7 +64682,91 @@ export type ShopifySyncOrdersQuery = {
               amount: number
               currencyCode: ShopifyCurrencyCode
             }
+            shopMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
+          }
+        }>
+        lineItems: {
+          __typename?: "LineItemConnection"
+          edges: Array<{
+            __typename?: "LineItemEdge"
+            node: {
+              __typename?: "LineItem"
+              id: string
+              title: string
+              variantTitle?: string | null
+              sku?: string | null
+              vendor?: string | null
+              quantity: number
+              product?: { __typename?: "Product"; id: string } | null
+              variant?: { __typename?: "ProductVariant"; id: string } | null
+              originalUnitPriceSet: {
+                __typename?: "MoneyBag"
+                presentmentMoney: {
+                  __typename?: "MoneyV2"
+                  amount: number
+                  currencyCode: ShopifyCurrencyCode
+                }
+              }
+              discountedUnitPriceSet: {
+                __typename?: "MoneyBag"
+                presentmentMoney: {
+                  __typename?: "MoneyV2"
+                  amount: number
+                  currencyCode: ShopifyCurrencyCode
+                }
+              }
+              totalDiscountSet: {
+                __typename?: "MoneyBag"
+                presentmentMoney: {
+                  __typename?: "MoneyV2"
+                  amount: number
+                  currencyCode: ShopifyCurrencyCode
+                }
+              }
+              taxLines: Array<{
+                __typename?: "TaxLine"
+                title: string
+                rate?: number | null
+                priceSet: {
+                  __typename?: "MoneyBag"
+                  presentmentMoney: {
+                    __typename?: "MoneyV2"
+                    amount: number
+                    currencyCode: ShopifyCurrencyCode
+                  }
+                }
+              }>
+            }
+          }>
+          pageInfo: {
+            __typename?: "PageInfo"
+            hasNextPage: boolean
+            endCursor?: string | null
+          }
+        }
+        refunds: Array<{
+          __typename?: "Refund"
+          id: string
+          createdAt?: string | null
+          note?: string | null
+          totalRefundedSet: {
+            __typename?: "MoneyBag"
+            presentmentMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
           }
+          return?: {
+            __typename?: "Return"
+            id: string
+            name: string
+            status: ShopifyReturnStatus
+          } | null
         }>
       }
     }>
@@ -64612,40 +64778,369 @@ export type ShopifySyncOrdersQuery = {
   }
 }
 
-export const SyncOrdersDocument = {
+export type ShopifyOrderLineItemsQueryVariables = Exact<{
+  id: Scalars["ID"]["input"]
+  after?: InputMaybe<Scalars["String"]["input"]>
+}>
+
+export type ShopifyOrderLineItemsQuery = {
+  __typename?: "QueryRoot"
+  order?: {
+    __typename?: "Order"
+    id: string
+    lineItems: {
+      __typename?: "LineItemConnection"
+      edges: Array<{
+        __typename?: "LineItemEdge"
+        node: {
+          __typename?: "LineItem"
+          id: string
+          title: string
+          variantTitle?: string | null
+          sku?: string | null
+          vendor?: string | null
+          quantity: number
+          product?: { __typename?: "Product"; id: string } | null
+          variant?: { __typename?: "ProductVariant"; id: string } | null
+          originalUnitPriceSet: {
+            __typename?: "MoneyBag"
+            presentmentMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
+          }
+          discountedUnitPriceSet: {
+            __typename?: "MoneyBag"
+            presentmentMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
+          }
+          totalDiscountSet: {
+            __typename?: "MoneyBag"
+            presentmentMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
+          }
+          taxLines: Array<{
+            __typename?: "TaxLine"
+            title: string
+            rate?: number | null
+            priceSet: {
+              __typename?: "MoneyBag"
+              presentmentMoney: {
+                __typename?: "MoneyV2"
+                amount: number
+                currencyCode: ShopifyCurrencyCode
+              }
+            }
+          }>
+        }
+      }>
+      pageInfo: {
+        __typename?: "PageInfo"
+        hasNextPage: boolean
+        endCursor?: string | null
+      }
+    }
+  } | null
+}
+
+export type ShopifyOrderTransactionsQueryVariables = Exact<{
+  id: Scalars["ID"]["input"]
+}>
+
+export type ShopifyOrderTransactionsQuery = {
+  __typename?: "QueryRoot"
+  order?: {
+    __typename?: "Order"
+    id: string
+    transactions: Array<{
+      __typename?: "OrderTransaction"
+      id: string
+      kind: ShopifyOrderTransactionKind
+      status: ShopifyOrderTransactionStatus
+      processedAt?: string | null
+      createdAt: string
+      gateway?: string | null
+      amountSet: {
+        __typename?: "MoneyBag"
+        presentmentMoney: {
+          __typename?: "MoneyV2"
+          amount: number
+          currencyCode: ShopifyCurrencyCode
+        }
+        shopMoney: {
+          __typename?: "MoneyV2"
+          amount: number
+          currencyCode: ShopifyCurrencyCode
+        }
+      }
+    }>
+  } | null
+}
+
+export type ShopifyOrderRefundsQueryVariables = Exact<{
+  id: Scalars["ID"]["input"]
+}>
+
+export type ShopifyOrderRefundsQuery = {
+  __typename?: "QueryRoot"
+  order?: {
+    __typename?: "Order"
+    id: string
+    refunds: Array<{
+      __typename?: "Refund"
+      id: string
+      createdAt?: string | null
+      note?: string | null
+      totalRefundedSet: {
+        __typename?: "MoneyBag"
+        presentmentMoney: {
+          __typename?: "MoneyV2"
+          amount: number
+          currencyCode: ShopifyCurrencyCode
+        }
+      }
+      return?: {
+        __typename?: "Return"
+        id: string
+        name: string
+        status: ShopifyReturnStatus
+      } | null
+    }>
+  } | null
+}
+
+export type ShopifyRefundDetailsQueryVariables = Exact<{
+  ids: Array<Scalars["ID"]["input"]> | Scalars["ID"]["input"]
+}>
+
+export type ShopifyRefundDetailsQuery = {
+  __typename?: "QueryRoot"
+  nodes: Array<
+    | {
+        __typename?: "Refund"
+        id: string
+        refundLineItems: {
+          __typename?: "RefundLineItemConnection"
+          edges: Array<{
+            __typename?: "RefundLineItemEdge"
+            node: {
+              __typename?: "RefundLineItem"
+              id?: string | null
+              quantity: number
+              restockType: ShopifyRefundLineItemRestockType
+              lineItem: { __typename?: "LineItem"; id: string }
+              subtotalSet: {
+                __typename?: "MoneyBag"
+                presentmentMoney: {
+                  __typename?: "MoneyV2"
+                  amount: number
+                  currencyCode: ShopifyCurrencyCode
+                }
+              }
+              totalTaxSet: {
+                __typename?: "MoneyBag"
+                presentmentMoney: {
+                  __typename?: "MoneyV2"
+                  amount: number
+                  currencyCode: ShopifyCurrencyCode
+                }
+              }
+            }
+          }>
+          pageInfo: {
+            __typename?: "PageInfo"
+            hasNextPage: boolean
+            endCursor?: string | null
+          }
+        }
+      }
+    | {
+        __typename?: "Return"
+        id: string
+        returnLineItems: {
+          __typename?: "ReturnLineItemTypeConnection"
+          edges: Array<{
+            __typename?: "ReturnLineItemTypeEdge"
+            node:
+              | {
+                  __typename?: "ReturnLineItem"
+                  id: string
+                  quantity: number
+                  returnReason: ShopifyReturnReason
+                  returnReasonNote: string
+                  customerNote?: string | null
+                  fulfillmentLineItem: {
+                    __typename?: "FulfillmentLineItem"
+                    lineItem: { __typename?: "LineItem"; id: string }
+                  }
+                }
+              | {
+                  __typename?: "UnverifiedReturnLineItem"
+                  id: string
+                  quantity: number
+                  returnReason: ShopifyReturnReason
+                  returnReasonNote: string
+                  customerNote?: string | null
+                }
+          }>
+          pageInfo: {
+            __typename?: "PageInfo"
+            hasNextPage: boolean
+            endCursor?: string | null
+          }
+        }
+      }
+    | null
+  >
+}
+
+export type ShopifyRefundLineItemsQueryVariables = Exact<{
+  id: Scalars["ID"]["input"]
+  after?: InputMaybe<Scalars["String"]["input"]>
+}>
+
+export type ShopifyRefundLineItemsQuery = {
+  __typename?: "QueryRoot"
+  refund?: {
+    __typename?: "Refund"
+    id: string
+    refundLineItems: {
+      __typename?: "RefundLineItemConnection"
+      edges: Array<{
+        __typename?: "RefundLineItemEdge"
+        node: {
+          __typename?: "RefundLineItem"
+          id?: string | null
+          quantity: number
+          restockType: ShopifyRefundLineItemRestockType
+          lineItem: { __typename?: "LineItem"; id: string }
+          subtotalSet: {
+            __typename?: "MoneyBag"
+            presentmentMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
+          }
+          totalTaxSet: {
+            __typename?: "MoneyBag"
+            presentmentMoney: {
+              __typename?: "MoneyV2"
+              amount: number
+              currencyCode: ShopifyCurrencyCode
+            }
+          }
+        }
+      }>
+      pageInfo: {
+        __typename?: "PageInfo"
+        hasNextPage: boolean
+        endCursor?: string | null
+      }
+    }
+  } | null
+}
+
+export type ShopifyReturnLineItemsQueryVariables = Exact<{
+  id: Scalars["ID"]["input"]
+  after?: InputMaybe<Scalars["String"]["input"]>
+}>
+
+export type ShopifyReturnLineItemsQuery = {
+  __typename?: "QueryRoot"
+  return?: {
+    __typename?: "Return"
+    id: string
+    returnLineItems: {
+      __typename?: "ReturnLineItemTypeConnection"
+      edges: Array<{
+        __typename?: "ReturnLineItemTypeEdge"
+        node:
+          | {
+              __typename?: "ReturnLineItem"
+              id: string
+              quantity: number
+              returnReason: ShopifyReturnReason
+              returnReasonNote: string
+              customerNote?: string | null
+              fulfillmentLineItem: {
+                __typename?: "FulfillmentLineItem"
+                lineItem: { __typename?: "LineItem"; id: string }
+              }
+            }
+          | {
+              __typename?: "UnverifiedReturnLineItem"
+              id: string
+              quantity: number
+              returnReason: ShopifyReturnReason
+              returnReasonNote: string
+              customerNote?: string | null
+            }
+      }>
+      pageInfo: {
+        __typename?: "PageInfo"
+        hasNextPage: boolean
+        endCursor?: string | null
+      }
+    }
+  } | null
+}
+
+export type ShopifyOrderExistsQueryVariables = Exact<{
+  id: Scalars["ID"]["input"]
+}>
+
+export type ShopifyOrderExistsQuery = {
+  __typename?: "QueryRoot"
+  order?: { __typename?: "Order"; id: string } | null
+}
+
+export type ShopifyShopTimezoneQueryVariables = Exact<{
+  [key: string]: never
+}>
+
+export type ShopifyShopTimezoneQuery = {
+  __typename?: "QueryRoot"
+  shop: { __typename?: "Shop"; id: string; ianaTimezone: string }
+}
+
+export type ShopifyShopCurrencyQueryVariables = Exact<{
+  [key: string]: never
+}>
+
+export type ShopifyShopCurrencyQuery = {
+  __typename?: "QueryRoot"
+  shop: { __typename?: "Shop"; id: string; currencyCode: ShopifyCurrencyCode }
+}
+
+export const BulkOperationRunQueryDocument = {
   kind: "Document",
   definitions: [
     {
       kind: "OperationDefinition",
-      operation: "query",
-      name: { kind: "Name", value: "SyncOrders" },
+      operation: "mutation",
+      name: { kind: "Name", value: "BulkOperationRunQuery" },
       variableDefinitions: [
         {
           kind: "VariableDefinition",
           variable: {
             kind: "Variable",
-            name: { kind: "Name", value: "first" },
+            name: { kind: "Name", value: "query" },
           },
           type: {
             kind: "NonNullType",
-            type: { kind: "NamedType", name: { kind: "Name", value: "Int" } },
-          },
-        },
-        {
-          kind: "VariableDefinition",
-          variable: {
-            kind: "Variable",
-            name: { kind: "Name", value: "after" },
-          },
-          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
-        },
-        {
-          kind: "VariableDefinition",
-          variable: {
-            kind: "Variable",
-            name: { kind: "Name", value: "query" },
+            type: {
+              kind: "NamedType",
+              name: { kind: "Name", value: "String" },
+            },
           },
-          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
         },
       ],
       selectionSet: {
@@ -64653,24 +65148,8 @@ export const SyncOrdersDocument = {
         selections: [
           {
             kind: "Field",
-            name: { kind: "Name", value: "orders" },
+            name: { kind: "Name", value: "bulkOperationRunQuery" },
             arguments: [
-              {
-                kind: "Argument",
-                name: { kind: "Name", value: "first" },
-                value: {
-                  kind: "Variable",
-                  name: { kind: "Name", value: "first" },
-                },
-              },
-              {
-                kind: "Argument",
-                name: { kind: "Name", value: "after" },
-                value: {
-                  kind: "Variable",
-                  name: { kind: "Name", value: "after" },
-                },
-              },
               {
                 kind: "Argument",
                 name: { kind: "Name", value: "query" },
@@ -64679,62 +65158,301 @@ export const SyncOrdersDocument = {
                   name: { kind: "Name", value: "query" },
                 },
               },
-              {
-                kind: "Argument",
-                name: { kind: "Name", value: "sortKey" },
-                value: { kind: "EnumValue", value: "UPDATED_AT" },
-              },
-              {
-                kind: "Argument",
-                name: { kind: "Name", value: "reverse" },
-                value: { kind: "BooleanValue", value: false },
-              },
             ],
             selectionSet: {
               kind: "SelectionSet",
               selections: [
                 {
                   kind: "Field",
-                  name: { kind: "Name", value: "edges" },
+                  name: { kind: "Name", value: "bulkOperation" },
                   selectionSet: {
                     kind: "SelectionSet",
                     selections: [
+                      { kind: "Field", name: { kind: "Name", value: "id" } },
                       {
                         kind: "Field",
-                        name: { kind: "Name", value: "node" },
-                        selectionSet: {
-                          kind: "SelectionSet",
-                          selections: [
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "id" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "legacyResourceId" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "name" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "createdAt" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "processedAt" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "updatedAt" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "subtotalPriceSet" },
-                              selectionSet: {
-                                kind: "SelectionSet",
-                                selections: [
+                        name: { kind: "Name", value: "status" },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "createdAt" },
+                      },
+                    ],
+                  },
+                },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "userErrors" },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      { kind: "Field", name: { kind: "Name", value: "field" } },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "message" },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyBulkOperationRunQueryMutation,
+  ShopifyBulkOperationRunQueryMutationVariables
+>
+
+export const CurrentBulkOperationDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "CurrentBulkOperation" },
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "currentBulkOperation" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "type" },
+                value: { kind: "EnumValue", value: "QUERY" },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                { kind: "Field", name: { kind: "Name", value: "status" } },
+                { kind: "Field", name: { kind: "Name", value: "errorCode" } },
+                { kind: "Field", name: { kind: "Name", value: "createdAt" } },
+                { kind: "Field", name: { kind: "Name", value: "completedAt" } },
+                { kind: "Field", name: { kind: "Name", value: "objectCount" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "rootObjectCount" },
+                },
+                { kind: "Field", name: { kind: "Name", value: "url" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "partialDataUrl" },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyCurrentBulkOperationQuery,
+  ShopifyCurrentBulkOperationQueryVariables
+>
+
+export const ShopTimezoneDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "ShopTimezone" },
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "shop" },
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "ianaTimezone" },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyShopTimezoneQuery,
+  ShopifyShopTimezoneQueryVariables
+>
+
+export const ShopCurrencyDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "ShopCurrency" },
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "shop" },
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "currencyCode" },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyShopCurrencyQuery,
+  ShopifyShopCurrencyQueryVariables
+>
+
+export const SyncOrdersDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "SyncOrders" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: {
+            kind: "Variable",
+            name: { kind: "Name", value: "first" },
+          },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "Int" } },
+          },
+        },
+        {
+          kind: "VariableDefinition",
+          variable: {
+            kind: "Variable",
+            name: { kind: "Name", value: "after" },
+          },
+          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
+        },
+        {
+          kind: "VariableDefinition",
+          variable: {
+            kind: "Variable",
+            name: { kind: "Name", value: "query" },
+          },
+          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "orders" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "first" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "first" },
+                },
+              },
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "after" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "after" },
+                },
+              },
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "query" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "query" },
+                },
+              },
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "sortKey" },
+                value: { kind: "EnumValue", value: "UPDATED_AT" },
+              },
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "reverse" },
+                value: { kind: "BooleanValue", value: false },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "edges" },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "node" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "id" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "legacyResourceId" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "name" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "createdAt" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "processedAt" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "updatedAt" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "cancelledAt" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "cancelReason" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "subtotalPriceSet" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
                                   {
                                     kind: "Field",
                                     name: {
@@ -64748,14 +65466,1704 @@ export const SyncOrdersDocument = {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "amount",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "shopMoney" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "totalPriceSet" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "presentmentMoney",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "shopMoney" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "totalTaxSet" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "presentmentMoney",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "shopMoney" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: {
+                                kind: "Name",
+                                value: "totalDiscountsSet",
+                              },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "presentmentMoney",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "shopMoney" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: {
+                                kind: "Name",
+                                value: "totalShippingPriceSet",
+                              },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "presentmentMoney",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "shopMoney" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "amount",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "currencyCode",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: {
+                                kind: "Name",
+                                value: "displayFinancialStatus",
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "sourceName" },
+                            },
+                            {
+                              kind: "Field",
+                              name: {
+                                kind: "Name",
+                                value: "channelInformation",
+                              },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "channelId" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "displayName",
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "tags" },
+                            },
+                            {
+                              kind: "Field",
+                              name: {
+                                kind: "Name",
+                                value: "paymentGatewayNames",
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "test" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "customer" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "id" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "createdAt" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "numberOfOrders",
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "tags" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "defaultEmailAddress",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "emailAddress",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "transactions" },
+                              arguments: [
+                                {
+                                  kind: "Argument",
+                                  name: { kind: "Name", value: "first" },
+                                  value: { kind: "IntValue", value: "5" },
+                                },
+                              ],
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "id" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "kind" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "status" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "amountSet" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "presentmentMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "shopMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "processedAt",
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "createdAt" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "gateway" },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "lineItems" },
+                              arguments: [
+                                {
+                                  kind: "Argument",
+                                  name: { kind: "Name", value: "first" },
+                                  value: { kind: "IntValue", value: "5" },
+                                },
+                              ],
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "edges" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "node" },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "id",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "title",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "variantTitle",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "sku",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "vendor",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "quantity",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "product",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "id",
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "variant",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "id",
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "originalUnitPriceSet",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value:
+                                                          "presentmentMoney",
+                                                      },
+                                                      selectionSet: {
+                                                        kind: "SelectionSet",
+                                                        selections: [
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value: "amount",
+                                                            },
+                                                          },
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value:
+                                                                "currencyCode",
+                                                            },
+                                                          },
+                                                        ],
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value:
+                                                    "discountedUnitPriceSet",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value:
+                                                          "presentmentMoney",
+                                                      },
+                                                      selectionSet: {
+                                                        kind: "SelectionSet",
+                                                        selections: [
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value: "amount",
+                                                            },
+                                                          },
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value:
+                                                                "currencyCode",
+                                                            },
+                                                          },
+                                                        ],
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "totalDiscountSet",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value:
+                                                          "presentmentMoney",
+                                                      },
+                                                      selectionSet: {
+                                                        kind: "SelectionSet",
+                                                        selections: [
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value: "amount",
+                                                            },
+                                                          },
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value:
+                                                                "currencyCode",
+                                                            },
+                                                          },
+                                                        ],
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "taxLines",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "title",
+                                                      },
+                                                    },
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "rate",
+                                                      },
+                                                    },
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "priceSet",
+                                                      },
+                                                      selectionSet: {
+                                                        kind: "SelectionSet",
+                                                        selections: [
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value:
+                                                                "presentmentMoney",
+                                                            },
+                                                            selectionSet: {
+                                                              kind: "SelectionSet",
+                                                              selections: [
+                                                                {
+                                                                  kind: "Field",
+                                                                  name: {
+                                                                    kind: "Name",
+                                                                    value:
+                                                                      "amount",
+                                                                  },
+                                                                },
+                                                                {
+                                                                  kind: "Field",
+                                                                  name: {
+                                                                    kind: "Name",
+                                                                    value:
+                                                                      "currencyCode",
+                                                                  },
+                                                                },
+                                                              ],
+                                                            },
+                                                          },
+                                                        ],
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "pageInfo" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "hasNextPage",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "endCursor",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "refunds" },
+                              arguments: [
+                                {
+                                  kind: "Argument",
+                                  name: { kind: "Name", value: "first" },
+                                  value: { kind: "IntValue", value: "3" },
+                                },
+                              ],
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "id" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "createdAt" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "note" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "totalRefundedSet",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "presentmentMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "return" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "id" },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "name" },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "status",
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "pageInfo" },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "hasNextPage" },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "endCursor" },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifySyncOrdersQuery,
+  ShopifySyncOrdersQueryVariables
+>
+
+export const OrderLineItemsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "OrderLineItems" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "id" } },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "ID" } },
+          },
+        },
+        {
+          kind: "VariableDefinition",
+          variable: {
+            kind: "Variable",
+            name: { kind: "Name", value: "after" },
+          },
+          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "order" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "id" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "id" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "lineItems" },
+                  arguments: [
+                    {
+                      kind: "Argument",
+                      name: { kind: "Name", value: "first" },
+                      value: { kind: "IntValue", value: "50" },
+                    },
+                    {
+                      kind: "Argument",
+                      name: { kind: "Name", value: "after" },
+                      value: {
+                        kind: "Variable",
+                        name: { kind: "Name", value: "after" },
+                      },
+                    },
+                  ],
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "edges" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "node" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "id" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "title" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "variantTitle",
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "sku" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "vendor" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "quantity" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "product" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "id" },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "variant" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "id" },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "originalUnitPriceSet",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "presentmentMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "discountedUnitPriceSet",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "presentmentMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "totalDiscountSet",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "presentmentMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "taxLines" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "title",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "rate" },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "priceSet",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "presentmentMoney",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "amount",
+                                                      },
+                                                    },
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "currencyCode",
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                      ],
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                          ],
+                        },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "pageInfo" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "hasNextPage" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "endCursor" },
+                            },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyOrderLineItemsQuery,
+  ShopifyOrderLineItemsQueryVariables
+>
+
+export const OrderTransactionsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "OrderTransactions" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "id" } },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "ID" } },
+          },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "order" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "id" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "id" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "transactions" },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      { kind: "Field", name: { kind: "Name", value: "id" } },
+                      { kind: "Field", name: { kind: "Name", value: "kind" } },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "status" },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "amountSet" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "presentmentMoney" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "amount" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "currencyCode",
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "shopMoney" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "amount" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "currencyCode",
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                          ],
+                        },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "processedAt" },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "createdAt" },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "gateway" },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyOrderTransactionsQuery,
+  ShopifyOrderTransactionsQueryVariables
+>
+
+export const OrderRefundsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "OrderRefunds" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "id" } },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "ID" } },
+          },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "order" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "id" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "id" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "refunds" },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      { kind: "Field", name: { kind: "Name", value: "id" } },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "createdAt" },
+                      },
+                      { kind: "Field", name: { kind: "Name", value: "note" } },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "totalRefundedSet" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "presentmentMoney" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "amount" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "currencyCode",
+                                    },
+                                  },
+                                ],
+                              },
+                            },
+                          ],
+                        },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "return" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "id" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "name" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "status" },
+                            },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyOrderRefundsQuery,
+  ShopifyOrderRefundsQueryVariables
+>
+
+export const RefundDetailsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "RefundDetails" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "ids" } },
+          type: {
+            kind: "NonNullType",
+            type: {
+              kind: "ListType",
+              type: {
+                kind: "NonNullType",
+                type: {
+                  kind: "NamedType",
+                  name: { kind: "Name", value: "ID" },
+                },
+              },
+            },
+          },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "nodes" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "ids" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "ids" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                {
+                  kind: "InlineFragment",
+                  typeCondition: {
+                    kind: "NamedType",
+                    name: { kind: "Name", value: "Refund" },
+                  },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      { kind: "Field", name: { kind: "Name", value: "id" } },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "refundLineItems" },
+                        arguments: [
+                          {
+                            kind: "Argument",
+                            name: { kind: "Name", value: "first" },
+                            value: { kind: "IntValue", value: "10" },
+                          },
+                        ],
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "edges" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "node" },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "id" },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "quantity",
                                           },
                                         },
                                         {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "currencyCode",
+                                            value: "restockType",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "lineItem",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "id",
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "subtotalSet",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "presentmentMoney",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "amount",
+                                                      },
+                                                    },
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "currencyCode",
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                            ],
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "totalTaxSet",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "presentmentMoney",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "amount",
+                                                      },
+                                                    },
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "currencyCode",
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                            ],
                                           },
                                         },
                                       ],
@@ -64766,7 +67174,7 @@ export const SyncOrdersDocument = {
                             },
                             {
                               kind: "Field",
-                              name: { kind: "Name", value: "totalPriceSet" },
+                              name: { kind: "Name", value: "pageInfo" },
                               selectionSet: {
                                 kind: "SelectionSet",
                                 selections: [
@@ -64774,23 +67182,133 @@ export const SyncOrdersDocument = {
                                     kind: "Field",
                                     name: {
                                       kind: "Name",
-                                      value: "presentmentMoney",
+                                      value: "hasNextPage",
                                     },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "endCursor" },
+                                  },
+                                ],
+                              },
+                            },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+                {
+                  kind: "InlineFragment",
+                  typeCondition: {
+                    kind: "NamedType",
+                    name: { kind: "Name", value: "Return" },
+                  },
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      { kind: "Field", name: { kind: "Name", value: "id" } },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "returnLineItems" },
+                        arguments: [
+                          {
+                            kind: "Argument",
+                            name: { kind: "Name", value: "first" },
+                            value: { kind: "IntValue", value: "10" },
+                          },
+                        ],
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "edges" },
+                              selectionSet: {
+                                kind: "SelectionSet",
+                                selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "node" },
                                     selectionSet: {
                                       kind: "SelectionSet",
                                       selections: [
+                                        {
+                                          kind: "Field",
+                                          name: { kind: "Name", value: "id" },
+                                        },
                                         {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "amount",
+                                            value: "quantity",
                                           },
                                         },
                                         {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "currencyCode",
+                                            value: "returnReason",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "returnReasonNote",
+                                          },
+                                        },
+                                        {
+                                          kind: "Field",
+                                          name: {
+                                            kind: "Name",
+                                            value: "customerNote",
+                                          },
+                                        },
+                                        {
+                                          kind: "InlineFragment",
+                                          typeCondition: {
+                                            kind: "NamedType",
+                                            name: {
+                                              kind: "Name",
+                                              value: "ReturnLineItem",
+                                            },
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "fulfillmentLineItem",
+                                                },
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "lineItem",
+                                                      },
+                                                      selectionSet: {
+                                                        kind: "SelectionSet",
+                                                        selections: [
+                                                          {
+                                                            kind: "Field",
+                                                            name: {
+                                                              kind: "Name",
+                                                              value: "id",
+                                                            },
+                                                          },
+                                                        ],
+                                                      },
+                                                    },
+                                                  ],
+                                                },
+                                              },
+                                            ],
                                           },
                                         },
                                       ],
@@ -64801,7 +67319,7 @@ export const SyncOrdersDocument = {
                             },
                             {
                               kind: "Field",
-                              name: { kind: "Name", value: "totalTaxSet" },
+                              name: { kind: "Name", value: "pageInfo" },
                               selectionSet: {
                                 kind: "SelectionSet",
                                 selections: [
@@ -64809,83 +67327,183 @@ export const SyncOrdersDocument = {
                                     kind: "Field",
                                     name: {
                                       kind: "Name",
-                                      value: "presentmentMoney",
-                                    },
-                                    selectionSet: {
-                                      kind: "SelectionSet",
-                                      selections: [
-                                        {
-                                          kind: "Field",
-                                          name: {
-                                            kind: "Name",
-                                            value: "amount",
-                                          },
-                                        },
-                                        {
-                                          kind: "Field",
-                                          name: {
-                                            kind: "Name",
-                                            value: "currencyCode",
-                                          },
-                                        },
-                                      ],
+                                      value: "hasNextPage",
                                     },
                                   },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "endCursor" },
+                                  },
                                 ],
                               },
                             },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyRefundDetailsQuery,
+  ShopifyRefundDetailsQueryVariables
+>
+
+export const RefundLineItemsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "RefundLineItems" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "id" } },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "ID" } },
+          },
+        },
+        {
+          kind: "VariableDefinition",
+          variable: {
+            kind: "Variable",
+            name: { kind: "Name", value: "after" },
+          },
+          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "refund" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "id" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "id" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "refundLineItems" },
+                  arguments: [
+                    {
+                      kind: "Argument",
+                      name: { kind: "Name", value: "first" },
+                      value: { kind: "IntValue", value: "50" },
+                    },
+                    {
+                      kind: "Argument",
+                      name: { kind: "Name", value: "after" },
+                      value: {
+                        kind: "Variable",
+                        name: { kind: "Name", value: "after" },
+                      },
+                    },
+                  ],
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "edges" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
                             {
                               kind: "Field",
-                              name: {
-                                kind: "Name",
-                                value: "totalDiscountsSet",
-                              },
+                              name: { kind: "Name", value: "node" },
                               selectionSet: {
                                 kind: "SelectionSet",
                                 selections: [
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "id" },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "quantity" },
+                                  },
                                   {
                                     kind: "Field",
                                     name: {
                                       kind: "Name",
-                                      value: "presentmentMoney",
+                                      value: "restockType",
                                     },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: { kind: "Name", value: "lineItem" },
                                     selectionSet: {
                                       kind: "SelectionSet",
                                       selections: [
                                         {
                                           kind: "Field",
-                                          name: {
-                                            kind: "Name",
-                                            value: "amount",
-                                          },
+                                          name: { kind: "Name", value: "id" },
                                         },
+                                      ],
+                                    },
+                                  },
+                                  {
+                                    kind: "Field",
+                                    name: {
+                                      kind: "Name",
+                                      value: "subtotalSet",
+                                    },
+                                    selectionSet: {
+                                      kind: "SelectionSet",
+                                      selections: [
                                         {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "currencyCode",
+                                            value: "presentmentMoney",
+                                          },
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
                                           },
                                         },
                                       ],
                                     },
                                   },
-                                ],
-                              },
-                            },
-                            {
-                              kind: "Field",
-                              name: {
-                                kind: "Name",
-                                value: "totalShippingPriceSet",
-                              },
-                              selectionSet: {
-                                kind: "SelectionSet",
-                                selections: [
                                   {
                                     kind: "Field",
                                     name: {
                                       kind: "Name",
-                                      value: "presentmentMoney",
+                                      value: "totalTaxSet",
                                     },
                                     selectionSet: {
                                       kind: "SelectionSet",
@@ -64894,14 +67512,26 @@ export const SyncOrdersDocument = {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "amount",
+                                            value: "presentmentMoney",
                                           },
-                                        },
-                                        {
-                                          kind: "Field",
-                                          name: {
-                                            kind: "Name",
-                                            value: "currencyCode",
+                                          selectionSet: {
+                                            kind: "SelectionSet",
+                                            selections: [
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "amount",
+                                                },
+                                              },
+                                              {
+                                                kind: "Field",
+                                                name: {
+                                                  kind: "Name",
+                                                  value: "currencyCode",
+                                                },
+                                              },
+                                            ],
                                           },
                                         },
                                       ],
@@ -64910,72 +67540,157 @@ export const SyncOrdersDocument = {
                                 ],
                               },
                             },
+                          ],
+                        },
+                      },
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "pageInfo" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
                             {
                               kind: "Field",
-                              name: {
-                                kind: "Name",
-                                value: "displayFinancialStatus",
-                              },
+                              name: { kind: "Name", value: "hasNextPage" },
                             },
                             {
                               kind: "Field",
-                              name: { kind: "Name", value: "sourceName" },
+                              name: { kind: "Name", value: "endCursor" },
                             },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyRefundLineItemsQuery,
+  ShopifyRefundLineItemsQueryVariables
+>
+
+export const ReturnLineItemsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "ReturnLineItems" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "id" } },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "ID" } },
+          },
+        },
+        {
+          kind: "VariableDefinition",
+          variable: {
+            kind: "Variable",
+            name: { kind: "Name", value: "after" },
+          },
+          type: { kind: "NamedType", name: { kind: "Name", value: "String" } },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "return" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "id" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "id" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+                {
+                  kind: "Field",
+                  name: { kind: "Name", value: "returnLineItems" },
+                  arguments: [
+                    {
+                      kind: "Argument",
+                      name: { kind: "Name", value: "first" },
+                      value: { kind: "IntValue", value: "50" },
+                    },
+                    {
+                      kind: "Argument",
+                      name: { kind: "Name", value: "after" },
+                      value: {
+                        kind: "Variable",
+                        name: { kind: "Name", value: "after" },
+                      },
+                    },
+                  ],
+                  selectionSet: {
+                    kind: "SelectionSet",
+                    selections: [
+                      {
+                        kind: "Field",
+                        name: { kind: "Name", value: "edges" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
                             {
                               kind: "Field",
-                              name: {
-                                kind: "Name",
-                                value: "channelInformation",
-                              },
+                              name: { kind: "Name", value: "node" },
                               selectionSet: {
                                 kind: "SelectionSet",
                                 selections: [
                                   {
                                     kind: "Field",
-                                    name: { kind: "Name", value: "channelId" },
+                                    name: { kind: "Name", value: "id" },
                                   },
                                   {
                                     kind: "Field",
-                                    name: {
-                                      kind: "Name",
-                                      value: "displayName",
-                                    },
+                                    name: { kind: "Name", value: "quantity" },
                                   },
-                                ],
-                              },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "test" },
-                            },
-                            {
-                              kind: "Field",
-                              name: { kind: "Name", value: "transactions" },
-                              arguments: [
-                                {
-                                  kind: "Argument",
-                                  name: { kind: "Name", value: "first" },
-                                  value: { kind: "IntValue", value: "50" },
-                                },
-                              ],
-                              selectionSet: {
-                                kind: "SelectionSet",
-                                selections: [
                                   {
                                     kind: "Field",
-                                    name: { kind: "Name", value: "id" },
+                                    name: {
+                                      kind: "Name",
+                                      value: "returnReason",
+                                    },
                                   },
                                   {
                                     kind: "Field",
-                                    name: { kind: "Name", value: "kind" },
+                                    name: {
+                                      kind: "Name",
+                                      value: "returnReasonNote",
+                                    },
                                   },
                                   {
                                     kind: "Field",
-                                    name: { kind: "Name", value: "status" },
+                                    name: {
+                                      kind: "Name",
+                                      value: "customerNote",
+                                    },
                                   },
                                   {
-                                    kind: "Field",
-                                    name: { kind: "Name", value: "amountSet" },
+                                    kind: "InlineFragment",
+                                    typeCondition: {
+                                      kind: "NamedType",
+                                      name: {
+                                        kind: "Name",
+                                        value: "ReturnLineItem",
+                                      },
+                                    },
                                     selectionSet: {
                                       kind: "SelectionSet",
                                       selections: [
@@ -64983,7 +67698,7 @@ export const SyncOrdersDocument = {
                                           kind: "Field",
                                           name: {
                                             kind: "Name",
-                                            value: "presentmentMoney",
+                                            value: "fulfillmentLineItem",
                                           },
                                           selectionSet: {
                                             kind: "SelectionSet",
@@ -64992,14 +67707,19 @@ export const SyncOrdersDocument = {
                                                 kind: "Field",
                                                 name: {
                                                   kind: "Name",
-                                                  value: "amount",
+                                                  value: "lineItem",
                                                 },
-                                              },
-                                              {
-                                                kind: "Field",
-                                                name: {
-                                                  kind: "Name",
-                                                  value: "currencyCode",
+                                                selectionSet: {
+                                                  kind: "SelectionSet",
+                                                  selections: [
+                                                    {
+                                                      kind: "Field",
+                                                      name: {
+                                                        kind: "Name",
+                                                        value: "id",
+                                                      },
+                                                    },
+                                                  ],
                                                 },
                                               },
                                             ],
@@ -65008,43 +67728,28 @@ export const SyncOrdersDocument = {
                                       ],
                                     },
                                   },
-                                  {
-                                    kind: "Field",
-                                    name: {
-                                      kind: "Name",
-                                      value: "processedAt",
-                                    },
-                                  },
-                                  {
-                                    kind: "Field",
-                                    name: { kind: "Name", value: "createdAt" },
-                                  },
-                                  {
-                                    kind: "Field",
-                                    name: { kind: "Name", value: "gateway" },
-                                  },
                                 ],
                               },
                             },
                           ],
                         },
                       },
-                    ],
-                  },
-                },
-                {
-                  kind: "Field",
-                  name: { kind: "Name", value: "pageInfo" },
-                  selectionSet: {
-                    kind: "SelectionSet",
-                    selections: [
-                      {
-                        kind: "Field",
-                        name: { kind: "Name", value: "hasNextPage" },
-                      },
                       {
                         kind: "Field",
-                        name: { kind: "Name", value: "endCursor" },
+                        name: { kind: "Name", value: "pageInfo" },
+                        selectionSet: {
+                          kind: "SelectionSet",
+                          selections: [
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "hasNextPage" },
+                            },
+                            {
+                              kind: "Field",
+                              name: { kind: "Name", value: "endCursor" },
+                            },
+                          ],
+                        },
                       },
                     ],
                   },
@@ -65057,6 +67762,55 @@ export const SyncOrdersDocument = {
     },
   ],
 } as unknown as DocumentNode<
-  ShopifySyncOrdersQuery,
-  ShopifySyncOrdersQueryVariables
+  ShopifyReturnLineItemsQuery,
+  ShopifyReturnLineItemsQueryVariables
+>
+
+export const OrderExistsDocument = {
+  kind: "Document",
+  definitions: [
+    {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: { kind: "Name", value: "OrderExists" },
+      variableDefinitions: [
+        {
+          kind: "VariableDefinition",
+          variable: { kind: "Variable", name: { kind: "Name", value: "id" } },
+          type: {
+            kind: "NonNullType",
+            type: { kind: "NamedType", name: { kind: "Name", value: "ID" } },
+          },
+        },
+      ],
+      selectionSet: {
+        kind: "SelectionSet",
+        selections: [
+          {
+            kind: "Field",
+            name: { kind: "Name", value: "order" },
+            arguments: [
+              {
+                kind: "Argument",
+                name: { kind: "Name", value: "id" },
+                value: {
+                  kind: "Variable",
+                  name: { kind: "Name", value: "id" },
+                },
+              },
+            ],
+            selectionSet: {
+              kind: "SelectionSet",
+              selections: [
+                { kind: "Field", name: { kind: "Name", value: "id" } },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as DocumentNode<
+  ShopifyOrderExistsQuery,
+  ShopifyOrderExistsQueryVariables
 >
@@ -0,0 +1,76 @@
+/**
+ * Shopify Webhook Helpers
+ *
+ * HMAC verification and payload helpers for Shopify webhook deliveries.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto"
+import { createShopifyId } from "./client"
+
+// Topics we subscribe to for near-real-time order updates
+export const SUPPORTED_WEBHOOK_TOPICS = [
+  "orders/create",
+  "orders/updated",
+  "orders/paid",
+  "orders/cancelled",
+  "orders/delete",
+  "refunds/create",
+  "order_transactions/create",
+] as const
+
+export type ShopifyWebhookTopic = (typeof SUPPORTED_WEBHOOK_TOPICS)[number]
+
+export function isSupportedWebhookTopic(
+  topic: string
+): topic is ShopifyWebhookTopic {
+  return (SUPPORTED_WEBHOOK_TOPICS as readonly string[]).includes(topic)
+}
+
+/**
+ * Verify the X-Shopify-Hmac-Sha256 header against the raw request body
+ *
+ * @param rawBody - Untouched request body (must not be re-serialized JSON)
+ * @param hmacHeader - Base64 HMAC sent by Shopify
+ * @returns true when the signature matches SHOPIFY_WEBHOOK_SECRET
+ */
+export function verifyShopifyWebhook(
+  rawBody: string,
+  hmacHeader: string | null
+): boolean {
+  const secret = process.env.SHOPIFY_WEBHOOK_SECRET
+
+  if (!secret) {
+    console.error("❌ SHOPIFY_WEBHOOK_SECRET environment variable is not set")
+    return false
+  }
+
+  if (!hmacHeader) {
+    return false
+  }
+
+  const digest = createHmac("sha256", secret).update(rawBody, "utf8").digest()
+  const received = Buffer.from(hmacHeader, "base64")
+
+  if (digest.length !== received.length) {
+    return false
+  }
+
+  return timingSafeEqual(digest, received)
+}
+
+/**
+ * Resolve the Shopify order GID a webhook payload refers to
+ * Order topics carry the order itself, refund and transaction topics reference it via order_id
+ */
+export function getWebhookOrderId(
+  topic: ShopifyWebhookTopic,
+  payload: Record<string, unknown>
+): string | null {
+  const legacyId = topic.startsWith("orders/") ? payload.id : payload.order_id
+
+  if (typeof legacyId !== "number" && typeof legacyId !== "string") {
+    return null
+  }
+
+  return createShopifyId("Order", String(legacyId))
+}
@@ -6,10 +6,19 @@ import { createClient } from "../supabase/server"
 import type {
   DatabaseOrder,
   DatabaseTransaction,
+  DatabaseCustomer,
+  DatabaseLineItem,
+  DatabaseRefund,
+  DatabaseRefundLineItem,
+  DatabaseFxRate,
   SyncState,
+  SyncRun,
   ChannelAnalytics,
   AnalyticsQuery,
+  WebhookDelivery,
+  ReportSubscription,
 } from "./types"
+import { applyOrderFilters } from "./order-filters"
 
 /**
  * Sync State Operations
@@ -42,8 +51,8 @@ export async function updateSyncState(
   const { error } = await supabase
     .from("sync_state")
     .update({
-      ...updates,
       last_sync_at: new Date().toISOString(),
+      ...updates,
     })
     .eq("entity_type", entityType)
 
@@ -55,11 +64,191 @@ export async function updateSyncState(
   return true
 }
 
+/**
+ * Sync Lease Operations
+ * Acquire returns null when the database call fails, so callers can tell an
+ * error from a lease held by another sync
+ */
+export async function acquireSyncLease(
+  entityType: "orders" | "transactions",
+  owner: string,
+  ttlSeconds: number
+): Promise<boolean | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc("acquire_sync_lease", {
+    p_entity_type: entityType,
+    p_owner: owner,
+    p_ttl_seconds: ttlSeconds,
+  })
+
+  if (error) {
+    console.error("Error acquiring sync lease:", error)
+    return null
+  }
+
+  return data as boolean
+}
+
+export async function renewSyncLease(
+  entityType: "orders" | "transactions",
+  owner: string,
+  ttlSeconds: number
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc("renew_sync_lease", {
+    p_entity_type: entityType,
+    p_owner: owner,
+    p_ttl_seconds: ttlSeconds,
+  })
+
+  if (error) {
+    console.error("Error renewing sync lease:", error)
+    return false
+  }
+
+  return data as boolean
+}
+
+export async function releaseSyncLease(
+  entityType: "orders" | "transactions",
+  owner: string
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc("release_sync_lease", {
+    p_entity_type: entityType,
+    p_owner: owner,
+  })
+
+  if (error) {
+    console.error("Error releasing sync lease:", error)
+    return false
+  }
+
+  return data as boolean
+}
+
+/**
+ * Sync Run Operations
+ */
+export async function createSyncRun(
+  run: Pick<SyncRun, "trigger" | "mode"> &
+    Partial<Pick<SyncRun, "search_query" | "cursor_start">>
+): Promise<number | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .insert({ ...run, status: "running" })
+    .select("id")
+    .single()
+
+  if (error) {
+    console.error("Error creating sync run:", error)
+    return null
+  }
+
+  return data.id
+}
+
+export async function updateSyncRun(
+  id: number,
+  updates: Partial<Omit<SyncRun, "id" | "trigger" | "mode" | "started_at">>
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("sync_runs")
+    .update(updates)
+    .eq("id", id)
+
+  if (error) {
+    console.error("Error updating sync run:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Set a pending run running again, returning it
+ * Null when the run is no longer pending, e.g. it was failed or finished
+ */
+export async function resumePendingSyncRun(
+  id: number
+): Promise<SyncRun | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .update({ status: "running" })
+    .eq("id", id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error resuming sync run:", error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Mark runs of the given modes still recorded as running as failed
+ * Only safe while holding the sync lease, when none of them can be alive
+ */
+export async function failAbandonedSyncRuns(
+  modes: SyncRun["mode"][],
+  errorMessage: string
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({
+      status: "failed",
+      finished_at: new Date().toISOString(),
+      error_message: errorMessage,
+    })
+    .eq("status", "running")
+    .in("mode", modes)
+
+  if (error) {
+    console.error("Error failing abandoned sync runs:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function getRecentSyncRuns(
+  limit: number = 50
+): Promise<SyncRun[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error getting sync runs:", error)
+    return []
+  }
+
+  return data
+}
+
 /**
  * Order Operations
  */
 export async function upsertOrders(
-  orders: Omit<DatabaseOrder, "id">[]
+  orders: Omit<DatabaseOrder, "id" | "channel">[]
 ): Promise<boolean> {
   if (orders.length === 0) return true
 
@@ -96,6 +285,51 @@ export async function getOrderByShopifyId(
   return data
 }
 
+/**
+ * Mark orders as deleted in Shopify, returns the orders newly marked
+ */
+export async function markOrdersDeleted(
+  shopifyOrderIds: string[],
+  deletedAt: string
+): Promise<Pick<DatabaseOrder, "id" | "created_at">[] | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("orders")
+    .update({ deleted_at: deletedAt })
+    .in("shopify_order_id", shopifyOrderIds)
+    .is("deleted_at", null)
+    .select("id, created_at")
+
+  if (error) {
+    console.error("Error marking orders deleted:", error)
+    return null
+  }
+
+  return data || []
+}
+
+/**
+ * Processed timestamps of every transaction of the given orders
+ */
+export async function getTransactionDatesByOrderIds(
+  orderIds: number[]
+): Promise<string[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("processed_at")
+    .in("order_id", orderIds)
+
+  if (error) {
+    console.error("Error getting transaction dates:", error)
+    return []
+  }
+
+  return (data || []).map((transaction) => transaction.processed_at)
+}
+
 export async function getOrderIdMapByShopifyIds(
   shopifyOrderIds: string[]
 ): Promise<Record<string, number>> {
@@ -122,6 +356,51 @@ export async function getOrderIdMapByShopifyIds(
   return orderIdMap
 }
 
+/**
+ * Customer Operations
+ */
+export async function upsertCustomers(
+  customers: Omit<DatabaseCustomer, "id">[]
+): Promise<boolean> {
+  if (customers.length === 0) return true
+
+  const supabase = await createClient()
+
+  const { error } = await supabase.from("customers").upsert(customers, {
+    onConflict: "shopify_customer_id",
+    ignoreDuplicates: false,
+  })
+
+  if (error) {
+    console.error("Error upserting customers:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function getCustomersByShopifyIds(
+  shopifyCustomerIds: string[]
+): Promise<
+  Pick<DatabaseCustomer, "id" | "shopify_customer_id" | "first_order_at">[]
+> {
+  if (shopifyCustomerIds.length === 0) return []
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("customers")
+    .select("id, shopify_customer_id, first_order_at")
+    .in("shopify_customer_id", shopifyCustomerIds)
+
+  if (error || !data) {
+    console.error("Error fetching customers:", error)
+    return []
+  }
+
+  return data
+}
+
 /**
  * Transaction Operations
  */
@@ -145,6 +424,198 @@ export async function upsertTransactions(
   return true
 }
 
+/**
+ * Line Item Operations
+ */
+export async function upsertLineItems(
+  lineItems: Omit<DatabaseLineItem, "id">[]
+): Promise<boolean> {
+  if (lineItems.length === 0) return true
+
+  const supabase = await createClient()
+
+  const { error } = await supabase.from("order_line_items").upsert(lineItems, {
+    onConflict: "shopify_line_item_id",
+    ignoreDuplicates: false,
+  })
+
+  if (error) {
+    console.error("Error upserting line items:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Refund Operations
+ */
+export async function upsertRefunds(
+  refunds: Omit<DatabaseRefund, "id">[]
+): Promise<boolean> {
+  if (refunds.length === 0) return true
+
+  const supabase = await createClient()
+
+  const { error } = await supabase.from("refunds").upsert(refunds, {
+    onConflict: "shopify_refund_id",
+    ignoreDuplicates: false,
+  })
+
+  if (error) {
+    console.error("Error upserting refunds:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function getRefundIdMapByShopifyIds(
+  shopifyRefundIds: string[]
+): Promise<Record<string, number>> {
+  if (shopifyRefundIds.length === 0) return {}
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("refunds")
+    .select("id, shopify_refund_id")
+    .in("shopify_refund_id", shopifyRefundIds)
+
+  if (error || !data) {
+    console.error("Error fetching refund IDs:", error)
+    return {}
+  }
+
+  const refundIdMap: Record<string, number> = {}
+  for (const refund of data) {
+    refundIdMap[refund.shopify_refund_id] = refund.id
+  }
+
+  return refundIdMap
+}
+
+export async function upsertRefundLineItems(
+  refundLineItems: Omit<DatabaseRefundLineItem, "id">[]
+): Promise<boolean> {
+  if (refundLineItems.length === 0) return true
+
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("refund_line_items")
+    .upsert(refundLineItems, {
+      onConflict: "shopify_refund_line_item_id",
+      ignoreDuplicates: false,
+    })
+
+  if (error) {
+    console.error("Error upserting refund line items:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Webhook Delivery Operations
+ */
+export async function getWebhookDelivery(
+  webhookId: string
+): Promise<WebhookDelivery | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("webhook_id", webhookId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error getting webhook delivery:", error)
+    return null
+  }
+
+  return data
+}
+
+export async function saveWebhookDelivery(
+  delivery: Pick<
+    WebhookDelivery,
+    "webhook_id" | "topic" | "shop_domain" | "shopify_order_id" | "payload"
+  > &
+    Partial<Pick<WebhookDelivery, "status" | "received_at">>
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from("webhook_deliveries").upsert(
+    {
+      ...delivery,
+      received_at: delivery.received_at || new Date().toISOString(),
+    },
+    {
+      onConflict: "webhook_id",
+      ignoreDuplicates: false,
+    }
+  )
+
+  if (error) {
+    console.error("Error saving webhook delivery:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function updateWebhookDelivery(
+  webhookId: string,
+  updates: Partial<
+    Pick<
+      WebhookDelivery,
+      "status" | "attempts" | "error_message" | "processed_at"
+    >
+  >
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("webhook_deliveries")
+    .update(updates)
+    .eq("webhook_id", webhookId)
+
+  if (error) {
+    console.error("Error updating webhook delivery:", error)
+    return false
+  }
+
+  return true
+}
+
+// Failed deliveries, and deliveries still "received" since before
+// staleBefore, whose processing never finished
+export async function getFailedWebhookDeliveries(
+  staleBefore: string,
+  limit: number = 100
+): Promise<WebhookDelivery[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .or(
+      `status.eq.failed,and(status.eq.received,received_at.lt.${staleBefore})`
+    )
+    .order("received_at", { ascending: true })
+    .limit(limit)
+
+  if (error || !data) {
+    console.error("Error fetching failed webhook deliveries:", error)
+    return []
+  }
+
+  return data
+}
+
 /**
  * Analytics Operations
  */
@@ -163,16 +634,17 @@ export async function getChannelAnalytics(
       status,
       amount,
       currency,
-      processed_at
+      processed_at,
+      orders!inner(id)
     `
     )
     .gte("processed_at", query.fromDate)
     .lte("processed_at", query.toDate)
     .eq("status", "success")
 
-  // Add channel filter if specified
-  if (query.channel) {
-    dbQuery = dbQuery.eq("source_name", query.channel)
+  // Add report filters if specified, they apply to the transaction's order
+  if (query.filters) {
+    dbQuery = applyOrderFilters(dbQuery, query.filters, "orders")
   }
 
   const { data: transactions, error } = await dbQuery
@@ -244,3 +716,161 @@ export async function getLastUpdatedAt(): Promise<string | null> {
 
   return data.last_sync_at
 }
+
+/**
+ * Daily Channel Metrics Operations
+ */
+export async function refreshDailyChannelMetrics(
+  days: string[],
+  timeZone: string
+): Promise<number | null> {
+  if (days.length === 0) return 0
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc("refresh_daily_channel_metrics", {
+    p_days: days,
+    p_timezone: timeZone,
+  })
+
+  if (error) {
+    console.error("Error refreshing daily channel metrics:", error)
+    return null
+  }
+
+  return data as number
+}
+
+export async function getFirstOrderCreatedAt(): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select("created_at")
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) {
+    return null
+  }
+
+  return data.created_at
+}
+
+/**
+ * FX Rate Operations
+ */
+export async function upsertFxRates(rates: DatabaseFxRate[]): Promise<boolean> {
+  if (rates.length === 0) return true
+
+  const supabase = await createClient()
+
+  const { error } = await supabase.from("fx_rates").upsert(
+    rates.map((rate) => ({ ...rate, loaded_at: new Date().toISOString() })),
+    {
+      onConflict: "rate_date,base_currency,quote_currency",
+      ignoreDuplicates: false,
+    }
+  )
+
+  if (error) {
+    console.error("Error upserting FX rates:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Report Subscription Operations
+ */
+export async function getReportSubscriptions(): Promise<ReportSubscription[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("report_subscriptions")
+    .select("*")
+    .order("name")
+
+  if (error) {
+    console.error("Error getting report subscriptions:", error)
+    return []
+  }
+
+  return data
+}
+
+export async function getReportSubscription(
+  id: number
+): Promise<ReportSubscription | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("report_subscriptions")
+    .select("*")
+    .eq("id", id)
+    .single()
+
+  if (error) {
+    console.error("Error getting report subscription:", error)
+    return null
+  }
+
+  return data
+}
+
+export async function createReportSubscription(
+  subscription: Omit<
+    ReportSubscription,
+    "id" | "last_sent_at" | "last_error" | "created_at" | "updated_at"
+  >
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("report_subscriptions")
+    .insert(subscription)
+
+  if (error) {
+    console.error("Error creating report subscription:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function updateReportSubscription(
+  id: number,
+  updates: Partial<Omit<ReportSubscription, "id" | "created_at">>
+): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("report_subscriptions")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+
+  if (error) {
+    console.error("Error updating report subscription:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function deleteReportSubscription(id: number): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("report_subscriptions")
+    .delete()
+    .eq("id", id)
+
+  if (error) {
+    console.error("Error deleting report subscription:", error)
+    return false
+  }
+
+  return true
+}
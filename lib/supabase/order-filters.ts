@@ -0,0 +1,106 @@
+/**
+ * Report filters in database queries
+ *
+ * Every filter is a condition on the order, so each report keeps the orders
+ * that match (and their transactions, line items and refunds). PostgREST
+ * queries use applyOrderFilters, the analytics functions take the filters as
+ * JSON and apply the same conditions in analytics_order_matches_filters
+ * (supabase/migrations/017_add_report_filters.sql). The order value range
+ * compares filter_order_value, the shop currency total with fallback to the
+ * presentment total (020_add_order_filter_value.sql).
+ */
+
+import type { ReportFilters } from "../report-filters"
+
+// Filters as the analytics functions' p_filters argument
+export interface OrderFilterArgs {
+  channels?: string[]
+  financial_statuses?: string[]
+  gateways?: string[]
+  currencies?: string[]
+  tags?: string[]
+  min_order_value?: number
+  max_order_value?: number
+}
+
+// Any PostgREST query builder, filters are added with .filter()
+interface FilterableQuery {
+  filter(column: string, operator: string, value: unknown): this
+}
+
+// Quote every value so channel names and tags with commas or brackets stay whole
+const quote = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`
+
+/**
+ * Restrict a PostgREST query to orders matching the filters. Pass the
+ * embedded orders table (e.g. "orders" for `orders!inner(...)`) when the
+ * query reads transactions or refunds.
+ */
+export function applyOrderFilters<Query extends FilterableQuery>(
+  query: Query,
+  filters: ReportFilters,
+  table?: string
+): Query {
+  const column = (name: string) => (table ? `${table}.${name}` : name)
+  const isIn = (name: string, values: string[]) =>
+    query.filter(column(name), "in", `(${values.map(quote).join(",")})`)
+  const overlaps = (name: string, values: string[]) =>
+    query.filter(column(name), "ov", `{${values.map(quote).join(",")}}`)
+
+  if (filters.channels?.length) {
+    query = isIn("channel", filters.channels)
+  }
+  if (filters.financialStatuses?.length) {
+    query = isIn("financial_status", filters.financialStatuses)
+  }
+  if (filters.gateways?.length) {
+    query = overlaps("payment_gateway_names", filters.gateways)
+  }
+  if (filters.currencies?.length) {
+    query = isIn("currency", filters.currencies)
+  }
+  if (filters.tags?.length) {
+    query = overlaps("tags", filters.tags)
+  }
+  if (filters.minOrderValue !== undefined) {
+    query = query.filter(
+      column("filter_order_value"),
+      "gte",
+      filters.minOrderValue
+    )
+  }
+  if (filters.maxOrderValue !== undefined) {
+    query = query.filter(
+      column("filter_order_value"),
+      "lte",
+      filters.maxOrderValue
+    )
+  }
+
+  return query
+}
+
+/**
+ * The filters as JSON for the analytics functions, null when none are set
+ */
+export function toOrderFilterArgs(
+  filters: ReportFilters
+): OrderFilterArgs | null {
+  const args: OrderFilterArgs = {}
+
+  if (filters.channels?.length) args.channels = filters.channels
+  if (filters.financialStatuses?.length) {
+    args.financial_statuses = filters.financialStatuses
+  }
+  if (filters.gateways?.length) args.gateways = filters.gateways
+  if (filters.currencies?.length) args.currencies = filters.currencies
+  if (filters.tags?.length) args.tags = filters.tags
+  if (filters.minOrderValue !== undefined) {
+    args.min_order_value = filters.minOrderValue
+  }
+  if (filters.maxOrderValue !== undefined) {
+    args.max_order_value = filters.maxOrderValue
+  }
+
+  return Object.keys(args).length > 0 ? args : null
+}
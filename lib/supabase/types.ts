@@ -2,6 +2,9 @@
  * Database types for Shopify Analytics
  */
 
+import type { ReportDateRange } from "../date-range"
+import type { ReportFilters } from "../report-filters"
+
 export interface DatabaseOrder {
   id: number
   shopify_order_id: string
@@ -13,13 +16,41 @@ export interface DatabaseOrder {
   source_name: string | null
   channel_id: string | null
   channel_display_name: string | null
+  // Generated from channel_display_name and source_name, never written
+  channel: string
+  customer_id: number | null
   subtotal_amount: number
   total_amount: number
   total_tax_amount: number
   total_discounts_amount: number
   total_shipping_amount: number
-  currency: string
+  currency: string // presentment currency of the amounts above
+  // Shopify shopMoney, null until the order is synced after migration 010
+  shop_currency: string | null
+  shop_subtotal_amount: number | null
+  shop_total_amount: number | null
+  shop_total_tax_amount: number | null
+  shop_total_discounts_amount: number | null
+  shop_total_shipping_amount: number | null
   test: boolean
+  tags: string[]
+  // Shopify paymentGatewayNames, e.g. shopify_payments, paypal, manual
+  payment_gateway_names: string[]
+  // Cancelled orders are left out of order counts, deleted ones out of every report
+  cancelled_at: string | null
+  cancel_reason: string | null
+  deleted_at: string | null
+  last_synced_at: string
+}
+
+export interface DatabaseCustomer {
+  id: number
+  shopify_customer_id: string
+  email_hash: string | null
+  customer_created_at: string | null
+  first_order_at: string | null
+  orders_count: number
+  tags: string[]
   last_synced_at: string
 }
 
@@ -31,6 +62,8 @@ export interface DatabaseTransaction {
   status: string
   amount: number
   currency: string
+  shop_amount: number | null
+  shop_currency: string | null
   processed_at: string
   created_at: string
   gateway: string | null
@@ -40,6 +73,63 @@ export interface DatabaseTransaction {
   last_synced_at: string
 }
 
+export interface LineItemTaxLine {
+  title: string
+  rate: number | null
+  amount: number
+}
+
+export interface DatabaseLineItem {
+  id: number
+  shopify_line_item_id: string
+  order_id: number
+  product_id: string | null
+  variant_id: string | null
+  sku: string | null
+  title: string
+  variant_title: string | null
+  vendor: string | null
+  quantity: number
+  original_unit_price: number
+  discounted_unit_price: number
+  total_discount_amount: number
+  total_tax_amount: number
+  tax_lines: LineItemTaxLine[]
+  currency: string
+  last_synced_at: string
+}
+
+export interface DatabaseRefund {
+  id: number
+  shopify_refund_id: string
+  order_id: number
+  created_at: string
+  note: string | null
+  total_refunded_amount: number
+  currency: string
+  shopify_return_id: string | null
+  return_name: string | null
+  return_status: string | null
+  last_synced_at: string
+}
+
+export interface DatabaseRefundLineItem {
+  id: number
+  shopify_refund_line_item_id: string
+  refund_id: number
+  order_id: number
+  shopify_line_item_id: string
+  quantity: number
+  restock_type: string
+  subtotal_amount: number
+  total_tax_amount: number
+  currency: string
+  return_reason: string | null
+  return_reason_note: string | null
+  customer_note: string | null
+  last_synced_at: string
+}
+
 export interface SyncState {
   id: number
   entity_type: "orders" | "transactions"
@@ -47,12 +137,76 @@ export interface SyncState {
   last_sync_at: string
   sync_status: "running" | "completed" | "failed"
   error_message: string | null
+  bulk_operation_id: string | null
+  bulk_operation_status: string | null
+  bulk_objects_processed: number
+  backfill_from: string | null
+  // Held by the running sync, see lib/services/sync-lease.ts
+  lease_owner: string | null
+  lease_expires_at: string | null
+  lease_heartbeat_at: string | null
+  // Search query last_cursor belongs to
+  cursor_query: string | null
+  // Run of the backfill importing bulk_operation_id
+  bulk_sync_run_id: number | null
+}
+
+export type SyncTrigger = "api" | "dashboard" | "cron"
+
+export type SyncMode = "incremental" | "initial" | "resync" | "backfill"
+
+export interface SyncRun {
+  id: number
+  trigger: SyncTrigger
+  mode: SyncMode
+  // pending: a backfill waiting on its bulk operation, resumed by a later sync
+  status: "running" | "pending" | "completed" | "failed"
+  started_at: string
+  finished_at: string | null
+  orders_processed: number
+  transactions_processed: number
+  batches: number
+  api_requests: number
+  throttle_retries: number
+  throttled_requests: number
+  search_query: string | null
+  cursor_start: string | null
+  cursor_end: string | null
+  // Non-fatal problems, e.g. orders whose transactions needed a follow-up query
+  warnings: string[]
+  error_message: string | null
+}
+
+export type ReportCadence = "daily" | "weekly" | "monthly"
+
+export interface ReportSubscription {
+  id: number
+  name: string
+  // Report export key, e.g. "sales-by-channel"
+  report: string
+  recipients: string[]
+  cadence: ReportCadence
+  // 0 (Sunday) to 6, for weekly reports
+  day_of_week: number | null
+  // 1 to 28, for monthly reports
+  day_of_month: number | null
+  // Local hour in time_zone
+  send_hour: number
+  date_range: ReportDateRange
+  time_zone: string
+  // pdf attaches the board pack instead of the report tables
+  attachment_format: "csv" | "xlsx" | "pdf"
+  enabled: boolean
+  last_sent_at: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
 }
 
 export interface AnalyticsQuery {
   fromDate: string
   toDate: string
-  channel?: string
+  filters?: ReportFilters
 }
 
 export interface ChannelAnalytics {
@@ -62,3 +216,106 @@ export interface ChannelAnalytics {
   total_orders: number
   currency: string
 }
+
+export interface WebhookDelivery {
+  id: number
+  webhook_id: string
+  topic: string
+  shop_domain: string | null
+  shopify_order_id: string | null
+  payload: Record<string, unknown>
+  status: "received" | "processed" | "failed" | "ignored"
+  attempts: number
+  error_message: string | null
+  received_at: string
+  processed_at: string | null
+}
+
+/**
+ * Rows returned by the analytics database functions (migration 008)
+ */
+export interface AnalyticsDailyChannelSales {
+  day: string // store day, YYYY-MM-DD
+  channel: string
+  gross_sales: number
+  refunds: number
+  changes: number
+  taxes: number
+  discounts: number
+  shipping: number
+  order_count: number // orders whose first successful transaction is on this day
+  currency: string
+  // The amounts in the shop currency, null when a row has no shop money (migration 019)
+  shop_gross_sales: number | null
+  shop_refunds: number | null
+  shop_changes: number | null
+  shop_taxes: number | null
+  shop_discounts: number | null
+  shop_shipping: number | null
+}
+
+export interface AnalyticsDailyOrders {
+  day: string // store day, YYYY-MM-DD
+  source_name: string | null
+  order_count: number
+  total_value: number
+  currency: string
+  shop_total_value: number | null // null when an order has no shop money
+}
+
+export interface AnalyticsOrderStatus {
+  day: string // store day, YYYY-MM-DD
+  financial_status: string | null
+  order_count: number
+  total_amount: number
+  currency: string
+  shop_total_amount: number | null // null when an order has no shop money
+}
+
+export interface AnalyticsTransactionKind {
+  day: string // store day, YYYY-MM-DD
+  kind: string | null
+  transaction_count: number
+  successful_count: number
+  successful_amount: number
+  currency: string
+  shop_successful_amount: number | null // null when a transaction has no shop money
+}
+
+// Filter bar values (migration 017), filter is a ReportFilterList key
+export interface AnalyticsReportFilterOption {
+  filter: string
+  value: string
+}
+
+export interface DailyChannelMetrics {
+  day: string // store day, YYYY-MM-DD
+  channel: string
+  currency: string
+  gross_sales: number
+  refunds: number
+  net_sales: number
+  discounts: number // of orders created on the day
+  taxes: number
+  shipping: number
+  order_count: number // orders created on the day
+  order_value: number
+  transaction_count: number // successful transactions processed on the day
+  cancelled_order_count: number // cancelled orders created on the day
+  // The amounts in the shop currency, null when a row has no shop money (migration 019)
+  shop_gross_sales: number | null
+  shop_refunds: number | null
+  shop_net_sales: number | null
+  shop_discounts: number | null
+  shop_taxes: number | null
+  shop_shipping: number | null
+  shop_order_value: number | null
+}
+
+export interface DatabaseFxRate {
+  rate_date: string
+  base_currency: string
+  quote_currency: string
+  rate: number // units of quote_currency per one base_currency
+  source: string | null
+}
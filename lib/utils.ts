@@ -1,29 +1,55 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { format, isValid } from "date-fns"
+import { DEFAULT_STORE_TIMEZONE, getStoreLastDays } from "./date-range"
+import {
+  differenceInCalendarDays,
+  format,
+  isValid,
+  subDays,
+  subYears,
+} from "date-fns"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+export type ComparisonMode = "previous_period" | "previous_year" | "custom"
+
+export const COMPARISON_MODES: ComparisonMode[] = [
+  "previous_period",
+  "previous_year",
+  "custom",
+]
+
+export interface ComparisonRange {
+  mode: ComparisonMode
+  from: Date
+  to: Date
+}
+
 export interface DateRange {
   from: Date
   to: Date
+  // Set when the `compare` search param selects a comparison period
+  comparison?: ComparisonRange
 }
 
+/**
+ * Parse the report date range from search params. The returned dates hold the
+ * store's calendar days (format them with "yyyy-MM-dd" for the services); the
+ * default range ends on the store's today.
+ */
 export function getDateRangeFromParams(
-  searchParams: URLSearchParams
+  searchParams: URLSearchParams,
+  timeZone: string = DEFAULT_STORE_TIMEZONE
 ): DateRange {
   const fromParam = searchParams.get("from")
   const toParam = searchParams.get("to")
 
-  // Default to last 7 days (including today)
-  const defaultFrom = new Date()
-  defaultFrom.setDate(defaultFrom.getDate() - 6)
-  defaultFrom.setHours(0, 0, 0, 0)
-
-  const defaultTo = new Date()
-  defaultTo.setHours(23, 59, 59, 999)
+  // Default to last 7 store days (including today)
+  const lastWeek = getStoreLastDays(7, timeZone)
+  const defaultFrom = new Date(lastWeek.from + "T00:00:00")
+  const defaultTo = new Date(lastWeek.to + "T23:59:59.999")
 
   let from = defaultFrom
   let to = defaultTo
@@ -56,7 +82,82 @@ export function getDateRangeFromParams(
     }
   }
 
-  return { from, to }
+  const comparison = getComparisonRange(searchParams, { from, to })
+
+  return comparison ? { from, to, comparison } : { from, to }
+}
+
+/**
+ * Resolve the comparison period for `compare=previous_period|previous_year|custom`.
+ * Custom comparisons read `compareFrom`/`compareTo` and are ignored without them
+ * or when compareFrom is after compareTo.
+ */
+function getComparisonRange(
+  searchParams: URLSearchParams,
+  range: DateRange
+): ComparisonRange | undefined {
+  const mode = searchParams.get("compare") as ComparisonMode | null
+
+  switch (mode) {
+    case "previous_period": {
+      // Same number of days, ending the day before the range starts
+      const days = differenceInCalendarDays(range.to, range.from) + 1
+      return {
+        mode,
+        from: subDays(range.from, days),
+        to: subDays(range.to, days),
+      }
+    }
+    case "previous_year":
+      return {
+        mode,
+        from: subYears(range.from, 1),
+        to: subYears(range.to, 1),
+      }
+    case "custom": {
+      const compareFrom = new Date(
+        searchParams.get("compareFrom") + "T00:00:00"
+      )
+      const compareTo = new Date(searchParams.get("compareTo") + "T23:59:59")
+      if (
+        !isValid(compareFrom) ||
+        !isValid(compareTo) ||
+        compareFrom > compareTo
+      ) {
+        return undefined
+      }
+      compareTo.setHours(23, 59, 59, 999)
+      return { mode, from: compareFrom, to: compareTo }
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Comparison period as YYYY-MM-DD strings for the analytics services
+ */
+export function getComparisonDates(
+  dateRange: DateRange
+): { from: string; to: string } | undefined {
+  if (!dateRange.comparison) {
+    return undefined
+  }
+  return {
+    from: format(dateRange.comparison.from, "yyyy-MM-dd"),
+    to: format(dateRange.comparison.to, "yyyy-MM-dd"),
+  }
+}
+
+export function formatComparisonMode(mode: ComparisonMode): string {
+  switch (mode) {
+    case "previous_period":
+      return "previous period"
+    case "previous_year":
+      return "previous year"
+    default:
+      return "comparison period"
+  }
 }
 
 export function formatDateRange(dateRange: DateRange): string {
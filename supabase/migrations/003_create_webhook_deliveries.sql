@@ -0,0 +1,28 @@
+-- Webhook delivery log for Shopify webhook ingestion
+-- Migration: 003_create_webhook_deliveries.sql
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  webhook_id TEXT UNIQUE NOT NULL, -- X-Shopify-Webhook-Id, used for idempotency
+  topic TEXT NOT NULL,
+  shop_domain TEXT,
+  shopify_order_id TEXT, -- order GID the delivery refers to
+  payload JSONB NOT NULL, -- raw payload kept for replays
+  status TEXT NOT NULL DEFAULT 'received',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('received', 'processed', 'failed', 'ignored'))
+);
+
+-- Indexes for replaying failures and troubleshooting
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_topic ON webhook_deliveries(topic);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at);
+
+COMMENT ON TABLE webhook_deliveries IS 'Shopify webhook deliveries with outcome, used for idempotency and replays';
+COMMENT ON COLUMN webhook_deliveries.webhook_id IS 'Unique delivery ID from the X-Shopify-Webhook-Id header';
+COMMENT ON COLUMN webhook_deliveries.payload IS 'Raw webhook payload, kept so failed deliveries can be replayed';
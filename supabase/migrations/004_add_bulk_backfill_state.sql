@@ -0,0 +1,13 @@
+-- Track Shopify bulk operation backfills in sync_state
+-- Migration: 004_add_bulk_backfill_state.sql
+
+ALTER TABLE sync_state
+ADD COLUMN IF NOT EXISTS bulk_operation_id TEXT,
+ADD COLUMN IF NOT EXISTS bulk_operation_status TEXT,
+ADD COLUMN IF NOT EXISTS bulk_objects_processed INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS backfill_from TIMESTAMPTZ;
+
+COMMENT ON COLUMN sync_state.bulk_operation_id IS 'GID of the Shopify bulk operation used for the current backfill';
+COMMENT ON COLUMN sync_state.bulk_operation_status IS 'Last known bulk operation status (CREATED, RUNNING, COMPLETED, FAILED, ...) or IMPORTED once consumed';
+COMMENT ON COLUMN sync_state.bulk_objects_processed IS 'Number of JSONL lines already imported, used to resume an interrupted import';
+COMMENT ON COLUMN sync_state.backfill_from IS 'Start date of the historical backfill';
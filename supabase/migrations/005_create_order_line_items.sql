@@ -0,0 +1,38 @@
+-- Line items for product-level sales reporting
+-- Migration: 005_create_order_line_items.sql
+
+CREATE TABLE IF NOT EXISTS order_line_items (
+  id BIGSERIAL PRIMARY KEY,
+  shopify_line_item_id TEXT UNIQUE NOT NULL,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id TEXT, -- product GID, null for custom items or deleted products
+  variant_id TEXT, -- variant GID, null for custom items or deleted variants
+  sku TEXT,
+  title TEXT NOT NULL,
+  variant_title TEXT,
+  vendor TEXT,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  original_unit_price DECIMAL(10,2) NOT NULL DEFAULT 0,
+  discounted_unit_price DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total_discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total_tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  tax_lines JSONB NOT NULL DEFAULT '[]', -- [{ title, rate, amount }]
+  currency TEXT NOT NULL DEFAULT 'USD',
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT order_line_items_currency_check CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT order_line_items_quantity_check CHECK (quantity >= 0)
+);
+
+-- Indexes for product reporting
+CREATE INDEX IF NOT EXISTS idx_order_line_items_order_id ON order_line_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_line_items_product_id ON order_line_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_order_line_items_variant_id ON order_line_items(variant_id);
+CREATE INDEX IF NOT EXISTS idx_order_line_items_sku ON order_line_items(sku);
+
+COMMENT ON TABLE order_line_items IS 'Shopify order line items, one row per line with product and variant references';
+COMMENT ON COLUMN order_line_items.original_unit_price IS 'Unit price before discounts, in the order presentment currency';
+COMMENT ON COLUMN order_line_items.discounted_unit_price IS 'Unit price after line-level discounts, in the order presentment currency';
+COMMENT ON COLUMN order_line_items.total_discount_amount IS 'Total discount allocated to the line, including order-level discounts';
+COMMENT ON COLUMN order_line_items.tax_lines IS 'Tax lines charged on the line item';
@@ -0,0 +1,53 @@
+-- Refunds, refunded line items and return reasons
+-- Migration: 006_create_refunds.sql
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id BIGSERIAL PRIMARY KEY,
+  shopify_refund_id TEXT UNIQUE NOT NULL,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL,
+  note TEXT, -- staff note entered when issuing the refund
+  total_refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  shopify_return_id TEXT, -- return GID when the refund was issued against a return
+  return_name TEXT,
+  return_status TEXT,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT refunds_currency_check CHECK (currency ~ '^[A-Z]{3}$')
+);
+
+CREATE TABLE IF NOT EXISTS refund_line_items (
+  id BIGSERIAL PRIMARY KEY,
+  shopify_refund_line_item_id TEXT UNIQUE NOT NULL,
+  refund_id BIGINT NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  shopify_line_item_id TEXT NOT NULL, -- joins to order_line_items.shopify_line_item_id
+  quantity INTEGER NOT NULL DEFAULT 0,
+  restock_type TEXT NOT NULL,
+  subtotal_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total_tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  return_reason TEXT, -- Shopify ReturnReason, null when refunded without a return
+  return_reason_note TEXT,
+  customer_note TEXT,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT refund_line_items_currency_check CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT refund_line_items_restock_type_check CHECK (restock_type IN ('CANCEL', 'LEGACY_RESTOCK', 'NO_RESTOCK', 'RETURN'))
+);
+
+-- Indexes for returns reporting
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_refund_line_items_refund_id ON refund_line_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_line_items_order_id ON refund_line_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_refund_line_items_line_item ON refund_line_items(shopify_line_item_id);
+CREATE INDEX IF NOT EXISTS idx_refund_line_items_return_reason ON refund_line_items(return_reason);
+
+COMMENT ON TABLE refunds IS 'Shopify refunds with their staff note and originating return';
+COMMENT ON TABLE refund_line_items IS 'Refunded line items with restock type and, when refunded through a return, the return reason';
+COMMENT ON COLUMN refund_line_items.subtotal_amount IS 'Refunded amount for the line before tax, in the order presentment currency';
+COMMENT ON COLUMN refund_line_items.return_reason IS 'Return reason from the matching return line item (SIZE_TOO_SMALL, DEFECTIVE, ...)';
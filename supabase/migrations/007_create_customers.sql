@@ -0,0 +1,28 @@
+-- Customers linked from orders for unique, new and returning customer reporting
+-- Migration: 007_create_customers.sql
+
+CREATE TABLE IF NOT EXISTS customers (
+  id BIGSERIAL PRIMARY KEY,
+  shopify_customer_id TEXT UNIQUE NOT NULL,
+  email_hash TEXT, -- SHA-256 of the lowercased email, the address itself is not stored
+  customer_created_at TIMESTAMPTZ,
+  first_order_at TIMESTAMPTZ, -- earliest synced order for this customer
+  orders_count INTEGER NOT NULL DEFAULT 0, -- lifetime order count reported by Shopify
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Link orders to their customer (guest checkouts stay null)
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS customer_id BIGINT REFERENCES customers(id) ON DELETE SET NULL;
+
+-- Indexes for customer reporting
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id ON orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_customers_first_order_at ON customers(first_order_at);
+CREATE INDEX IF NOT EXISTS idx_customers_email_hash ON customers(email_hash);
+
+COMMENT ON TABLE customers IS 'Shopify customers referenced by synced orders';
+COMMENT ON COLUMN customers.email_hash IS 'SHA-256 hex digest of the trimmed, lowercased email address';
+COMMENT ON COLUMN customers.first_order_at IS 'Earliest processed_at among synced orders - bounded by how far back the order sync goes';
+COMMENT ON COLUMN customers.orders_count IS 'Lifetime number of orders from Shopify Customer.numberOfOrders';
+COMMENT ON COLUMN orders.customer_id IS 'Customer who placed the order, null for guest checkouts';
@@ -0,0 +1,169 @@
+-- Server-side aggregation for the analytics reports
+-- Migration: 008_create_analytics_functions.sql
+--
+-- The report services call these through supabase.rpc instead of paging raw
+-- transactions and orders into the app. p_from/p_to are the UTC bounds of the
+-- selected store days, p_timezone is the store's IANA timezone used to bucket
+-- timestamps into store days.
+
+-- Daily sales per channel from successful transactions on non-test orders.
+-- Order-level taxes, discounts and shipping land on the first day in the range
+-- the order has a successful transaction, so summing days counts each order once.
+CREATE OR REPLACE FUNCTION analytics_daily_channel_sales(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  changes NUMERIC,
+  taxes NUMERIC,
+  discounts NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH successful_transactions AS (
+    SELECT
+      t.order_id,
+      (t.processed_at AT TIME ZONE p_timezone)::DATE AS day,
+      LOWER(t.kind) AS kind,
+      t.amount
+    FROM transactions t
+    JOIN orders o ON o.id = t.order_id
+    WHERE t.processed_at >= p_from
+      AND t.processed_at <= p_to
+      AND LOWER(t.status) = 'success'
+      AND o.test = false
+  ),
+  order_days AS (
+    SELECT
+      order_id,
+      day,
+      SUM(CASE WHEN kind IN ('sale', 'capture') THEN amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN kind = 'refund' THEN ABS(amount) ELSE 0 END) AS refunds,
+      SUM(CASE WHEN kind = 'change' THEN ABS(amount) ELSE 0 END) AS changes
+    FROM successful_transactions
+    GROUP BY order_id, day
+  ),
+  first_order_days AS (
+    SELECT order_id, MIN(day) AS day
+    FROM order_days
+    GROUP BY order_id
+  )
+  SELECT
+    od.day,
+    COALESCE(o.channel_display_name, o.source_name, 'Unknown'),
+    SUM(od.gross_sales),
+    SUM(od.refunds),
+    SUM(od.changes),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_tax_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_discounts_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_shipping_amount ELSE 0 END),
+    COUNT(f.order_id),
+    MIN(o.currency)
+  FROM order_days od
+  JOIN orders o ON o.id = od.order_id
+  LEFT JOIN first_order_days f ON f.order_id = od.order_id AND f.day = od.day
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- Daily order counts and totals by order creation date and source
+CREATE OR REPLACE FUNCTION analytics_daily_orders(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  source_name TEXT,
+  order_count BIGINT,
+  total_value NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.created_at AT TIME ZONE p_timezone)::DATE,
+    o.source_name,
+    COUNT(*),
+    SUM(o.total_amount),
+    MIN(o.currency)
+  FROM orders o
+  WHERE o.created_at >= p_from
+    AND o.created_at <= p_to
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- Non-test orders processed in the range, grouped by financial status
+CREATE OR REPLACE FUNCTION analytics_order_status_breakdown(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  financial_status TEXT,
+  order_count BIGINT,
+  total_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    o.financial_status,
+    COUNT(*),
+    SUM(o.total_amount),
+    MIN(o.currency)
+  FROM orders o
+  WHERE o.processed_at >= p_from
+    AND o.processed_at <= p_to
+    AND o.test = false
+  GROUP BY 1
+  ORDER BY 2 DESC, 1;
+$$;
+
+-- Transactions processed in the range grouped by kind, with success counts
+-- and the summed amount of the successful ones
+CREATE OR REPLACE FUNCTION analytics_transaction_kind_summary(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  kind TEXT,
+  transaction_count BIGINT,
+  successful_count BIGINT,
+  successful_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    t.kind,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE LOWER(t.status) = 'success'),
+    COALESCE(SUM(t.amount) FILTER (WHERE LOWER(t.status) = 'success'), 0),
+    MIN(t.currency)
+  FROM transactions t
+  WHERE t.processed_at >= p_from
+    AND t.processed_at <= p_to
+  GROUP BY 1
+  ORDER BY 2 DESC, 1;
+$$;
+
+-- Order creation date lookups for the daily order series
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+
+COMMENT ON FUNCTION analytics_daily_channel_sales(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) IS 'Gross sales, refunds, changes and once-per-order taxes/discounts/shipping per store day and channel';
+COMMENT ON FUNCTION analytics_daily_orders(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) IS 'Order count and total value per store day (by created_at) and source_name';
+COMMENT ON FUNCTION analytics_order_status_breakdown(TIMESTAMPTZ, TIMESTAMPTZ) IS 'Non-test order count and total amount per financial status';
+COMMENT ON FUNCTION analytics_transaction_kind_summary(TIMESTAMPTZ, TIMESTAMPTZ) IS 'Transaction count, success count and successful amount per kind';
@@ -0,0 +1,140 @@
+-- Daily per-channel rollup read by the Overview and over-time reports
+-- Migration: 009_create_daily_channel_metrics.sql
+--
+-- processBatch refreshes the store days touched by every ingested batch, so
+-- reports read a few rows per day instead of re-aggregating transactions.
+-- Days are store days in the timezone passed at refresh time; rebuild the
+-- table (POST /api/metrics/rebuild) after changing the store timezone.
+
+CREATE TABLE IF NOT EXISTS daily_channel_metrics (
+  day DATE NOT NULL, -- store day
+  channel TEXT NOT NULL, -- channel display name with fallback to source name
+  currency TEXT NOT NULL,
+  gross_sales DECIMAL(12,2) NOT NULL DEFAULT 0, -- successful sale + capture transactions
+  refunds DECIMAL(12,2) NOT NULL DEFAULT 0, -- successful refund + change transactions
+  net_sales DECIMAL(12,2) NOT NULL DEFAULT 0,
+  discounts DECIMAL(12,2) NOT NULL DEFAULT 0, -- of orders created on the day
+  taxes DECIMAL(12,2) NOT NULL DEFAULT 0, -- of orders created on the day
+  shipping DECIMAL(12,2) NOT NULL DEFAULT 0, -- of orders created on the day
+  order_count INTEGER NOT NULL DEFAULT 0, -- orders created on the day
+  order_value DECIMAL(12,2) NOT NULL DEFAULT 0, -- total amount of orders created on the day
+  transaction_count INTEGER NOT NULL DEFAULT 0, -- successful transactions processed on the day
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (day, channel, currency),
+
+  -- Constraints
+  CONSTRAINT daily_channel_metrics_currency_check CHECK (currency ~ '^[A-Z]{3}$')
+);
+
+-- Metrics for the given store days, from non-test orders and their
+-- successful transactions. Each day is bounded by its own UTC instants so
+-- scattered days (an old order refunded today) stay index range scans.
+CREATE OR REPLACE FUNCTION analytics_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  currency TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  net_sales NUMERIC,
+  discounts NUMERIC,
+  taxes NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  order_value NUMERIC,
+  transaction_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH store_days AS (
+    SELECT
+      d AS day,
+      d::TIMESTAMP AT TIME ZONE p_timezone AS day_start,
+      (d + 1)::TIMESTAMP AT TIME ZONE p_timezone AS day_end
+    FROM unnest(p_days) AS d
+  ),
+  sales AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(CASE WHEN LOWER(t.kind) IN ('sale', 'capture') THEN t.amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN LOWER(t.kind) IN ('refund', 'change') THEN ABS(t.amount) ELSE 0 END) AS refunds,
+      COUNT(*) AS transaction_count
+    FROM store_days sd
+    JOIN transactions t ON t.processed_at >= sd.day_start AND t.processed_at < sd.day_end
+    JOIN orders o ON o.id = t.order_id
+    WHERE LOWER(t.status) = 'success'
+      AND o.test = false
+    GROUP BY 1, 2, 3
+  ),
+  placed AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(o.total_discounts_amount) AS discounts,
+      SUM(o.total_tax_amount) AS taxes,
+      SUM(o.total_shipping_amount) AS shipping,
+      COUNT(*) AS order_count,
+      SUM(o.total_amount) AS order_value
+    FROM store_days sd
+    JOIN orders o ON o.created_at >= sd.day_start AND o.created_at < sd.day_end
+    WHERE o.test = false
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    day,
+    channel,
+    currency,
+    COALESCE(s.gross_sales, 0),
+    COALESCE(s.refunds, 0),
+    COALESCE(s.gross_sales, 0) - COALESCE(s.refunds, 0),
+    COALESCE(p.discounts, 0),
+    COALESCE(p.taxes, 0),
+    COALESCE(p.shipping, 0),
+    COALESCE(p.order_count, 0),
+    COALESCE(p.order_value, 0),
+    COALESCE(s.transaction_count, 0)
+  FROM sales s
+  FULL OUTER JOIN placed p USING (day, channel, currency)
+  ORDER BY 1, 2, 3;
+$$;
+
+-- Replace the rollup rows for the given store days, returns the rows written
+CREATE OR REPLACE FUNCTION refresh_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  DELETE FROM daily_channel_metrics WHERE day = ANY(p_days);
+
+  INSERT INTO daily_channel_metrics (
+    day, channel, currency, gross_sales, refunds, net_sales, discounts,
+    taxes, shipping, order_count, order_value, transaction_count, refreshed_at
+  )
+  SELECT m.*, NOW()
+  FROM analytics_daily_channel_metrics(p_days, p_timezone) m;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
+
+-- Indexes for rollup reads by date range
+CREATE INDEX IF NOT EXISTS idx_daily_channel_metrics_channel ON daily_channel_metrics(channel, day);
+
+COMMENT ON TABLE daily_channel_metrics IS 'Per store day, channel and currency sales and order totals, refreshed by the sync';
+COMMENT ON COLUMN daily_channel_metrics.order_count IS 'Non-test orders created on the day, sales columns come from transactions processed on the day';
+COMMENT ON FUNCTION analytics_daily_channel_metrics(DATE[], TEXT) IS 'Computes daily_channel_metrics rows for the given store days without writing them';
+COMMENT ON FUNCTION refresh_daily_channel_metrics(DATE[], TEXT) IS 'Recomputes daily_channel_metrics for the given store days';
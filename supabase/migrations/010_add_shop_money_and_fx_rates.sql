@@ -0,0 +1,206 @@
+-- Shop-currency amounts next to the presentment amounts, and FX rates for
+-- converting reports into a reporting currency
+-- Migration: 010_add_shop_money_and_fx_rates.sql
+--
+-- Existing amount columns keep the presentment money (what the customer paid,
+-- in orders.currency). The shop_* columns hold Shopify's shopMoney conversion
+-- and stay null until the order is synced again.
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS shop_currency TEXT,
+ADD COLUMN IF NOT EXISTS shop_subtotal_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS shop_total_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS shop_total_tax_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS shop_total_discounts_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS shop_total_shipping_amount DECIMAL(10,2);
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS shop_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS shop_currency TEXT;
+
+-- Daily exchange rates, loaded from CSV through POST /api/fx-rates
+CREATE TABLE IF NOT EXISTS fx_rates (
+  rate_date DATE NOT NULL,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate DECIMAL(18,8) NOT NULL, -- units of quote_currency per one base_currency
+  source TEXT, -- where the rate came from, e.g. the CSV file name
+  loaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (rate_date, base_currency, quote_currency),
+
+  -- Constraints
+  CONSTRAINT fx_rates_currency_check CHECK (base_currency ~ '^[A-Z]{3}$' AND quote_currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT fx_rates_rate_check CHECK (rate > 0)
+);
+
+-- Indexes for rate lookups per currency pair
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair_date ON fx_rates(base_currency, quote_currency, rate_date);
+
+-- Group the analytics functions by presentment currency so each amount can be
+-- converted on its own instead of summing currencies together
+CREATE OR REPLACE FUNCTION analytics_daily_channel_sales(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  changes NUMERIC,
+  taxes NUMERIC,
+  discounts NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH successful_transactions AS (
+    SELECT
+      t.order_id,
+      (t.processed_at AT TIME ZONE p_timezone)::DATE AS day,
+      LOWER(t.kind) AS kind,
+      t.amount
+    FROM transactions t
+    JOIN orders o ON o.id = t.order_id
+    WHERE t.processed_at >= p_from
+      AND t.processed_at <= p_to
+      AND LOWER(t.status) = 'success'
+      AND o.test = false
+  ),
+  order_days AS (
+    SELECT
+      order_id,
+      day,
+      SUM(CASE WHEN kind IN ('sale', 'capture') THEN amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN kind = 'refund' THEN ABS(amount) ELSE 0 END) AS refunds,
+      SUM(CASE WHEN kind = 'change' THEN ABS(amount) ELSE 0 END) AS changes
+    FROM successful_transactions
+    GROUP BY order_id, day
+  ),
+  first_order_days AS (
+    SELECT order_id, MIN(day) AS day
+    FROM order_days
+    GROUP BY order_id
+  )
+  SELECT
+    od.day,
+    COALESCE(o.channel_display_name, o.source_name, 'Unknown'),
+    SUM(od.gross_sales),
+    SUM(od.refunds),
+    SUM(od.changes),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_tax_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_discounts_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_shipping_amount ELSE 0 END),
+    COUNT(f.order_id),
+    o.currency
+  FROM order_days od
+  JOIN orders o ON o.id = od.order_id
+  LEFT JOIN first_order_days f ON f.order_id = od.order_id AND f.day = od.day
+  GROUP BY 1, 2, 10
+  ORDER BY 1, 2, 10;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_orders(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  source_name TEXT,
+  order_count BIGINT,
+  total_value NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.created_at AT TIME ZONE p_timezone)::DATE,
+    o.source_name,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency
+  FROM orders o
+  WHERE o.created_at >= p_from
+    AND o.created_at <= p_to
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+-- The status and transaction kind summaries gain a store day so amounts
+-- convert at the rate of the day they happened on
+DROP FUNCTION IF EXISTS analytics_order_status_breakdown(TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS analytics_transaction_kind_summary(TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION analytics_order_status_breakdown(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  financial_status TEXT,
+  order_count BIGINT,
+  total_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.processed_at AT TIME ZONE p_timezone)::DATE,
+    o.financial_status,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency
+  FROM orders o
+  WHERE o.processed_at >= p_from
+    AND o.processed_at <= p_to
+    AND o.test = false
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_transaction_kind_summary(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  kind TEXT,
+  transaction_count BIGINT,
+  successful_count BIGINT,
+  successful_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (t.processed_at AT TIME ZONE p_timezone)::DATE,
+    t.kind,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE LOWER(t.status) = 'success'),
+    COALESCE(SUM(t.amount) FILTER (WHERE LOWER(t.status) = 'success'), 0),
+    t.currency
+  FROM transactions t
+  WHERE t.processed_at >= p_from
+    AND t.processed_at <= p_to
+  GROUP BY 1, 2, 6
+  ORDER BY 1, 2, 6;
+$$;
+
+COMMENT ON TABLE fx_rates IS 'Daily exchange rates used to convert reports into the reporting currency';
+COMMENT ON COLUMN fx_rates.rate IS 'Units of quote_currency per one unit of base_currency';
+COMMENT ON COLUMN orders.currency IS 'Presentment currency the customer paid in, the currency of the unprefixed amount columns';
+COMMENT ON COLUMN orders.shop_currency IS 'Shop currency of the shop_* amounts (Shopify shopMoney)';
+COMMENT ON COLUMN transactions.shop_amount IS 'Transaction amount in the shop currency (Shopify shopMoney)';
+COMMENT ON FUNCTION analytics_order_status_breakdown(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) IS 'Non-test order count and total amount per store day, financial status and currency';
+COMMENT ON FUNCTION analytics_transaction_kind_summary(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) IS 'Transaction count, success count and successful amount per store day, kind and currency';
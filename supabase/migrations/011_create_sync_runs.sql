@@ -0,0 +1,33 @@
+-- History of every sync run, kept next to the single sync_state row
+-- Migration: 011_create_sync_runs.sql
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id BIGSERIAL PRIMARY KEY,
+  trigger TEXT NOT NULL, -- what started the run: api, dashboard, cron
+  mode TEXT NOT NULL, -- incremental, initial, resync or backfill
+  status TEXT NOT NULL DEFAULT 'running',
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  orders_processed INTEGER NOT NULL DEFAULT 0,
+  transactions_processed INTEGER NOT NULL DEFAULT 0,
+  batches INTEGER NOT NULL DEFAULT 0,
+  api_requests INTEGER NOT NULL DEFAULT 0,
+  throttle_retries INTEGER NOT NULL DEFAULT 0,
+  throttled_requests INTEGER NOT NULL DEFAULT 0,
+  search_query TEXT, -- Shopify search query the run fetched
+  cursor_start TEXT, -- cursor a resumed run started from
+  cursor_end TEXT, -- last cursor the run saved
+  error_message TEXT,
+
+  -- Constraints
+  CONSTRAINT sync_runs_status_check CHECK (status IN ('running', 'completed', 'failed')),
+  CONSTRAINT sync_runs_mode_check CHECK (mode IN ('incremental', 'initial', 'resync', 'backfill'))
+);
+
+-- Indexes for listing recent runs
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status);
+
+COMMENT ON TABLE sync_runs IS 'One row per sync run with its outcome, counts and cursors, shown on the Sync Status page';
+COMMENT ON COLUMN sync_runs.throttle_retries IS 'Shopify requests retried after throttling or transient errors during the run';
+COMMENT ON COLUMN sync_runs.throttled_requests IS 'Shopify responses that reported throttling during the run';
@@ -0,0 +1,78 @@
+-- Lease on sync_state so only one sync writes the cursor at a time
+-- Migration: 012_add_sync_lease.sql
+--
+-- A sync takes the lease before touching sync_state and renews it with a
+-- heartbeat. A process that crashes stops renewing, and the lease expires so
+-- the next sync can take over and recover the run it left behind.
+
+ALTER TABLE sync_state
+ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS lease_heartbeat_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cursor_query TEXT;
+
+-- Take the lease when it is free or expired, true when this owner now holds it
+CREATE OR REPLACE FUNCTION acquire_sync_lease(
+  p_entity_type TEXT,
+  p_owner TEXT,
+  p_ttl_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH acquired AS (
+    UPDATE sync_state
+    SET lease_owner = p_owner,
+        lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds),
+        lease_heartbeat_at = NOW()
+    WHERE entity_type = p_entity_type
+      AND (lease_owner IS NULL OR lease_expires_at < NOW())
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM acquired);
+$$;
+
+-- Extend a held lease, false when the owner lost it
+CREATE OR REPLACE FUNCTION renew_sync_lease(
+  p_entity_type TEXT,
+  p_owner TEXT,
+  p_ttl_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH renewed AS (
+    UPDATE sync_state
+    SET lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds),
+        lease_heartbeat_at = NOW()
+    WHERE entity_type = p_entity_type
+      AND lease_owner = p_owner
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM renewed);
+$$;
+
+CREATE OR REPLACE FUNCTION release_sync_lease(
+  p_entity_type TEXT,
+  p_owner TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH released AS (
+    UPDATE sync_state
+    SET lease_owner = NULL,
+        lease_expires_at = NULL
+    WHERE entity_type = p_entity_type
+      AND lease_owner = p_owner
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM released);
+$$;
+
+COMMENT ON COLUMN sync_state.lease_owner IS 'Id of the sync process holding the lease, null when no sync is running';
+COMMENT ON COLUMN sync_state.lease_expires_at IS 'When the lease lapses unless renewed by the holder''s heartbeat';
+COMMENT ON COLUMN sync_state.cursor_query IS 'Shopify search query last_cursor belongs to, an interrupted run resumes with it';
@@ -0,0 +1,10 @@
+-- Warnings recorded on sync runs
+-- Migration: 013_add_sync_run_warnings.sql
+--
+-- Non-fatal problems a run worked around, e.g. orders whose transactions
+-- exceeded the SyncOrders limit and were fetched with a follow-up query.
+
+ALTER TABLE sync_runs
+ADD COLUMN IF NOT EXISTS warnings TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN sync_runs.warnings IS 'Non-fatal problems the run worked around, one message each';
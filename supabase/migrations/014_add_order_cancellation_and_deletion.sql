@@ -0,0 +1,303 @@
+-- Cancelled and deleted orders
+-- Migration: 014_add_order_cancellation_and_deletion.sql
+--
+-- Orders keep Shopify's cancellation, and orders deleted in Shopify are marked
+-- rather than removed. Every report applies the same rule:
+-- - Deleted orders are excluded from every report.
+-- - Cancelled orders are excluded from order counts and order-level amounts
+--   (order value, taxes, discounts, shipping, products sold, customer orders)
+--   and counted separately as cancelled. Their successful transactions still
+--   count in sales, because a cancellation's refund or void is a transaction.
+--
+-- Rebuild daily_channel_metrics (POST /api/metrics/rebuild) after applying.
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancel_reason TEXT,
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE daily_channel_metrics
+ADD COLUMN IF NOT EXISTS cancelled_order_count INTEGER NOT NULL DEFAULT 0;
+
+-- Indexes for the few orders that are cancelled or deleted
+CREATE INDEX IF NOT EXISTS idx_orders_cancelled_at ON orders(cancelled_at) WHERE cancelled_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_deleted_at ON orders(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION analytics_daily_channel_sales(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  changes NUMERIC,
+  taxes NUMERIC,
+  discounts NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH successful_transactions AS (
+    SELECT
+      t.order_id,
+      (t.processed_at AT TIME ZONE p_timezone)::DATE AS day,
+      LOWER(t.kind) AS kind,
+      t.amount
+    FROM transactions t
+    JOIN orders o ON o.id = t.order_id
+    WHERE t.processed_at >= p_from
+      AND t.processed_at <= p_to
+      AND LOWER(t.status) = 'success'
+      AND o.test = false
+      AND o.deleted_at IS NULL
+  ),
+  order_days AS (
+    SELECT
+      order_id,
+      day,
+      SUM(CASE WHEN kind IN ('sale', 'capture') THEN amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN kind = 'refund' THEN ABS(amount) ELSE 0 END) AS refunds,
+      SUM(CASE WHEN kind = 'change' THEN ABS(amount) ELSE 0 END) AS changes
+    FROM successful_transactions
+    GROUP BY order_id, day
+  ),
+  -- Cancelled orders add no order-level amounts or order count
+  first_order_days AS (
+    SELECT od.order_id, MIN(od.day) AS day
+    FROM order_days od
+    JOIN orders o ON o.id = od.order_id
+    WHERE o.cancelled_at IS NULL
+    GROUP BY od.order_id
+  )
+  SELECT
+    od.day,
+    COALESCE(o.channel_display_name, o.source_name, 'Unknown'),
+    SUM(od.gross_sales),
+    SUM(od.refunds),
+    SUM(od.changes),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_tax_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_discounts_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_shipping_amount ELSE 0 END),
+    COUNT(f.order_id),
+    o.currency
+  FROM order_days od
+  JOIN orders o ON o.id = od.order_id
+  LEFT JOIN first_order_days f ON f.order_id = od.order_id AND f.day = od.day
+  GROUP BY 1, 2, 10
+  ORDER BY 1, 2, 10;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_orders(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  source_name TEXT,
+  order_count BIGINT,
+  total_value NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.created_at AT TIME ZONE p_timezone)::DATE,
+    o.source_name,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency
+  FROM orders o
+  WHERE o.created_at >= p_from
+    AND o.created_at <= p_to
+    AND o.cancelled_at IS NULL
+    AND o.deleted_at IS NULL
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+-- Cancelled orders form their own CANCELLED group instead of their financial status
+CREATE OR REPLACE FUNCTION analytics_order_status_breakdown(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  financial_status TEXT,
+  order_count BIGINT,
+  total_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.processed_at AT TIME ZONE p_timezone)::DATE,
+    CASE WHEN o.cancelled_at IS NOT NULL THEN 'CANCELLED' ELSE o.financial_status END,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency
+  FROM orders o
+  WHERE o.processed_at >= p_from
+    AND o.processed_at <= p_to
+    AND o.test = false
+    AND o.deleted_at IS NULL
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_transaction_kind_summary(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  kind TEXT,
+  transaction_count BIGINT,
+  successful_count BIGINT,
+  successful_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (t.processed_at AT TIME ZONE p_timezone)::DATE,
+    t.kind,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE LOWER(t.status) = 'success'),
+    COALESCE(SUM(t.amount) FILTER (WHERE LOWER(t.status) = 'success'), 0),
+    t.currency
+  FROM transactions t
+  JOIN orders o ON o.id = t.order_id
+  WHERE t.processed_at >= p_from
+    AND t.processed_at <= p_to
+    AND o.deleted_at IS NULL
+  GROUP BY 1, 2, 6
+  ORDER BY 1, 2, 6;
+$$;
+
+-- The rollup gains cancelled_order_count, so the function is recreated
+DROP FUNCTION IF EXISTS analytics_daily_channel_metrics(DATE[], TEXT);
+
+CREATE OR REPLACE FUNCTION analytics_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  currency TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  net_sales NUMERIC,
+  discounts NUMERIC,
+  taxes NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  order_value NUMERIC,
+  transaction_count BIGINT,
+  cancelled_order_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH store_days AS (
+    SELECT
+      d AS day,
+      d::TIMESTAMP AT TIME ZONE p_timezone AS day_start,
+      (d + 1)::TIMESTAMP AT TIME ZONE p_timezone AS day_end
+    FROM unnest(p_days) AS d
+  ),
+  sales AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(CASE WHEN LOWER(t.kind) IN ('sale', 'capture') THEN t.amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN LOWER(t.kind) IN ('refund', 'change') THEN ABS(t.amount) ELSE 0 END) AS refunds,
+      COUNT(*) AS transaction_count
+    FROM store_days sd
+    JOIN transactions t ON t.processed_at >= sd.day_start AND t.processed_at < sd.day_end
+    JOIN orders o ON o.id = t.order_id
+    WHERE LOWER(t.status) = 'success'
+      AND o.test = false
+      AND o.deleted_at IS NULL
+    GROUP BY 1, 2, 3
+  ),
+  placed AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(o.total_discounts_amount) FILTER (WHERE o.cancelled_at IS NULL) AS discounts,
+      SUM(o.total_tax_amount) FILTER (WHERE o.cancelled_at IS NULL) AS taxes,
+      SUM(o.total_shipping_amount) FILTER (WHERE o.cancelled_at IS NULL) AS shipping,
+      COUNT(*) FILTER (WHERE o.cancelled_at IS NULL) AS order_count,
+      SUM(o.total_amount) FILTER (WHERE o.cancelled_at IS NULL) AS order_value,
+      COUNT(*) FILTER (WHERE o.cancelled_at IS NOT NULL) AS cancelled_order_count
+    FROM store_days sd
+    JOIN orders o ON o.created_at >= sd.day_start AND o.created_at < sd.day_end
+    WHERE o.test = false
+      AND o.deleted_at IS NULL
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    day,
+    channel,
+    currency,
+    COALESCE(s.gross_sales, 0),
+    COALESCE(s.refunds, 0),
+    COALESCE(s.gross_sales, 0) - COALESCE(s.refunds, 0),
+    COALESCE(p.discounts, 0),
+    COALESCE(p.taxes, 0),
+    COALESCE(p.shipping, 0),
+    COALESCE(p.order_count, 0),
+    COALESCE(p.order_value, 0),
+    COALESCE(s.transaction_count, 0),
+    COALESCE(p.cancelled_order_count, 0)
+  FROM sales s
+  FULL OUTER JOIN placed p USING (day, channel, currency)
+  ORDER BY 1, 2, 3;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  DELETE FROM daily_channel_metrics WHERE day = ANY(p_days);
+
+  INSERT INTO daily_channel_metrics (
+    day, channel, currency, gross_sales, refunds, net_sales, discounts,
+    taxes, shipping, order_count, order_value, transaction_count,
+    cancelled_order_count, refreshed_at
+  )
+  SELECT m.*, NOW()
+  FROM analytics_daily_channel_metrics(p_days, p_timezone) m;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
+
+COMMENT ON COLUMN orders.cancelled_at IS 'When the order was cancelled in Shopify, cancelled orders are left out of order counts and order-level amounts';
+COMMENT ON COLUMN orders.cancel_reason IS 'Shopify cancel reason, e.g. CUSTOMER, FRAUD, INVENTORY, DECLINED, STAFF, OTHER';
+COMMENT ON COLUMN orders.deleted_at IS 'When the order was found deleted in Shopify, deleted orders are left out of every report';
+COMMENT ON COLUMN daily_channel_metrics.order_count IS 'Non-test orders created on the day that are not cancelled, sales columns come from transactions processed on the day';
+COMMENT ON COLUMN daily_channel_metrics.cancelled_order_count IS 'Non-test orders created on the day that have been cancelled';
+COMMENT ON FUNCTION analytics_daily_channel_metrics(DATE[], TEXT) IS 'Computes daily_channel_metrics rows for the given store days without writing them';
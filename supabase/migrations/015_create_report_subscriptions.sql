@@ -0,0 +1,39 @@
+-- Scheduled email reports, managed on the Email Reports settings page
+-- Migration: 015_create_report_subscriptions.sql
+
+CREATE TABLE IF NOT EXISTS report_subscriptions (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  report TEXT NOT NULL, -- report export key, e.g. sales-by-channel
+  recipients TEXT[] NOT NULL,
+  cadence TEXT NOT NULL, -- daily, weekly or monthly
+  day_of_week SMALLINT, -- weekly: 0 (Sunday) to 6 (Saturday)
+  day_of_month SMALLINT, -- monthly: 1 to 28
+  send_hour SMALLINT NOT NULL DEFAULT 7, -- local hour in time_zone
+  date_range TEXT NOT NULL, -- date range rule, e.g. last_7_days
+  time_zone TEXT NOT NULL, -- IANA timezone for the schedule and date range
+  attachment_format TEXT NOT NULL DEFAULT 'xlsx',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_sent_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT report_subscriptions_recipients_check CHECK (cardinality(recipients) > 0),
+  CONSTRAINT report_subscriptions_cadence_check CHECK (cadence IN ('daily', 'weekly', 'monthly')),
+  CONSTRAINT report_subscriptions_day_of_week_check CHECK (
+    cadence <> 'weekly' OR day_of_week BETWEEN 0 AND 6
+  ),
+  CONSTRAINT report_subscriptions_day_of_month_check CHECK (
+    cadence <> 'monthly' OR day_of_month BETWEEN 1 AND 28
+  ),
+  CONSTRAINT report_subscriptions_send_hour_check CHECK (send_hour BETWEEN 0 AND 23),
+  CONSTRAINT report_subscriptions_attachment_format_check CHECK (attachment_format IN ('csv', 'xlsx'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_enabled ON report_subscriptions(enabled);
+
+COMMENT ON TABLE report_subscriptions IS 'Reports emailed on a schedule with a CSV or XLSX attachment';
+COMMENT ON COLUMN report_subscriptions.date_range IS 'yesterday, last_7_days, last_30_days, previous_week, previous_month or month_to_date, complete days before the send date';
+COMMENT ON COLUMN report_subscriptions.last_sent_at IS 'When the last scheduled send ran, successful or not';
@@ -0,0 +1,10 @@
+-- Allow scheduled email reports to attach the PDF board pack
+-- Migration: 016_add_board_pack_attachment.sql
+
+ALTER TABLE report_subscriptions
+  DROP CONSTRAINT IF EXISTS report_subscriptions_attachment_format_check;
+
+ALTER TABLE report_subscriptions
+  ADD CONSTRAINT report_subscriptions_attachment_format_check CHECK (attachment_format IN ('csv', 'xlsx', 'pdf'));
+
+COMMENT ON COLUMN report_subscriptions.attachment_format IS 'csv or xlsx attach the report tables, pdf attaches the board pack for the same date range compared with the previous period';
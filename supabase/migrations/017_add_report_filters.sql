@@ -0,0 +1,355 @@
+-- Report filters
+-- Migration: 017_add_report_filters.sql
+--
+-- Reports can be narrowed by channel, financial status, payment gateway,
+-- currency, order tag and order value (lib/report-filters.ts). Orders gain the
+-- tags and gateways Shopify reports for them and a generated channel column,
+-- and the analytics functions take the filters as an optional JSON argument.
+-- Filtered reports compute daily channel metrics live, the rollup is unchanged.
+--
+-- Gateways are backfilled from synced transactions; run a full sync after
+-- applying to fill in order tags.
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS payment_gateway_names TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS channel TEXT GENERATED ALWAYS AS (COALESCE(channel_display_name, source_name, 'Unknown')) STORED;
+
+UPDATE orders o
+SET payment_gateway_names = g.gateways
+FROM (
+  SELECT order_id, ARRAY_AGG(DISTINCT gateway ORDER BY gateway) AS gateways
+  FROM transactions
+  WHERE gateway IS NOT NULL
+  GROUP BY order_id
+) g
+WHERE g.order_id = o.id;
+
+CREATE INDEX IF NOT EXISTS idx_orders_channel ON orders(channel);
+CREATE INDEX IF NOT EXISTS idx_orders_tags ON orders USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_gateway_names ON orders USING GIN (payment_gateway_names);
+
+-- Whether an order matches every filter in p_filters, NULL matches everything.
+-- Keys: channels, financial_statuses, gateways, currencies, tags (any listed
+-- value matches), min_order_value and max_order_value (shop currency total).
+CREATE OR REPLACE FUNCTION analytics_order_matches_filters(
+  o orders,
+  p_filters JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_filters IS NULL OR (
+    (NOT p_filters ? 'channels'
+      OR o.channel = ANY (ARRAY(SELECT jsonb_array_elements_text(p_filters->'channels'))))
+    AND (NOT p_filters ? 'financial_statuses'
+      OR o.financial_status = ANY (ARRAY(SELECT jsonb_array_elements_text(p_filters->'financial_statuses'))))
+    AND (NOT p_filters ? 'gateways'
+      OR o.payment_gateway_names && ARRAY(SELECT jsonb_array_elements_text(p_filters->'gateways')))
+    AND (NOT p_filters ? 'currencies'
+      OR o.currency = ANY (ARRAY(SELECT jsonb_array_elements_text(p_filters->'currencies'))))
+    AND (NOT p_filters ? 'tags'
+      OR o.tags && ARRAY(SELECT jsonb_array_elements_text(p_filters->'tags')))
+    AND (NOT p_filters ? 'min_order_value'
+      OR o.shop_total_amount >= (p_filters->>'min_order_value')::NUMERIC)
+    AND (NOT p_filters ? 'max_order_value'
+      OR o.shop_total_amount <= (p_filters->>'max_order_value')::NUMERIC)
+  );
+$$;
+
+-- The functions gain p_filters, so they are recreated rather than overloaded
+DROP FUNCTION IF EXISTS analytics_daily_channel_sales(TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS analytics_daily_orders(TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS analytics_order_status_breakdown(TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS analytics_transaction_kind_summary(TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS analytics_daily_channel_metrics(DATE[], TEXT);
+
+CREATE OR REPLACE FUNCTION analytics_daily_channel_sales(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  changes NUMERIC,
+  taxes NUMERIC,
+  discounts NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH successful_transactions AS (
+    SELECT
+      t.order_id,
+      (t.processed_at AT TIME ZONE p_timezone)::DATE AS day,
+      LOWER(t.kind) AS kind,
+      t.amount
+    FROM transactions t
+    JOIN orders o ON o.id = t.order_id
+    WHERE t.processed_at >= p_from
+      AND t.processed_at <= p_to
+      AND LOWER(t.status) = 'success'
+      AND o.test = false
+      AND o.deleted_at IS NULL
+      AND analytics_order_matches_filters(o, p_filters)
+  ),
+  order_days AS (
+    SELECT
+      order_id,
+      day,
+      SUM(CASE WHEN kind IN ('sale', 'capture') THEN amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN kind = 'refund' THEN ABS(amount) ELSE 0 END) AS refunds,
+      SUM(CASE WHEN kind = 'change' THEN ABS(amount) ELSE 0 END) AS changes
+    FROM successful_transactions
+    GROUP BY order_id, day
+  ),
+  -- Cancelled orders add no order-level amounts or order count
+  first_order_days AS (
+    SELECT od.order_id, MIN(od.day) AS day
+    FROM order_days od
+    JOIN orders o ON o.id = od.order_id
+    WHERE o.cancelled_at IS NULL
+    GROUP BY od.order_id
+  )
+  SELECT
+    od.day,
+    COALESCE(o.channel_display_name, o.source_name, 'Unknown'),
+    SUM(od.gross_sales),
+    SUM(od.refunds),
+    SUM(od.changes),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_tax_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_discounts_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_shipping_amount ELSE 0 END),
+    COUNT(f.order_id),
+    o.currency
+  FROM order_days od
+  JOIN orders o ON o.id = od.order_id
+  LEFT JOIN first_order_days f ON f.order_id = od.order_id AND f.day = od.day
+  GROUP BY 1, 2, 10
+  ORDER BY 1, 2, 10;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_orders(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  source_name TEXT,
+  order_count BIGINT,
+  total_value NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.created_at AT TIME ZONE p_timezone)::DATE,
+    o.source_name,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency
+  FROM orders o
+  WHERE o.created_at >= p_from
+    AND o.created_at <= p_to
+    AND o.cancelled_at IS NULL
+    AND o.deleted_at IS NULL
+    AND analytics_order_matches_filters(o, p_filters)
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+-- Cancelled orders form their own CANCELLED group instead of their financial status
+CREATE OR REPLACE FUNCTION analytics_order_status_breakdown(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  financial_status TEXT,
+  order_count BIGINT,
+  total_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.processed_at AT TIME ZONE p_timezone)::DATE,
+    CASE WHEN o.cancelled_at IS NOT NULL THEN 'CANCELLED' ELSE o.financial_status END,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency
+  FROM orders o
+  WHERE o.processed_at >= p_from
+    AND o.processed_at <= p_to
+    AND o.test = false
+    AND o.deleted_at IS NULL
+    AND analytics_order_matches_filters(o, p_filters)
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_transaction_kind_summary(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  kind TEXT,
+  transaction_count BIGINT,
+  successful_count BIGINT,
+  successful_amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (t.processed_at AT TIME ZONE p_timezone)::DATE,
+    t.kind,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE LOWER(t.status) = 'success'),
+    COALESCE(SUM(t.amount) FILTER (WHERE LOWER(t.status) = 'success'), 0),
+    t.currency
+  FROM transactions t
+  JOIN orders o ON o.id = t.order_id
+  WHERE t.processed_at >= p_from
+    AND t.processed_at <= p_to
+    AND o.deleted_at IS NULL
+    AND analytics_order_matches_filters(o, p_filters)
+  GROUP BY 1, 2, 6
+  ORDER BY 1, 2, 6;
+$$;
+
+-- refresh_daily_channel_metrics keeps calling this without filters
+CREATE OR REPLACE FUNCTION analytics_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  currency TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  net_sales NUMERIC,
+  discounts NUMERIC,
+  taxes NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  order_value NUMERIC,
+  transaction_count BIGINT,
+  cancelled_order_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH store_days AS (
+    SELECT
+      d AS day,
+      d::TIMESTAMP AT TIME ZONE p_timezone AS day_start,
+      (d + 1)::TIMESTAMP AT TIME ZONE p_timezone AS day_end
+    FROM unnest(p_days) AS d
+  ),
+  sales AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(CASE WHEN LOWER(t.kind) IN ('sale', 'capture') THEN t.amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN LOWER(t.kind) IN ('refund', 'change') THEN ABS(t.amount) ELSE 0 END) AS refunds,
+      COUNT(*) AS transaction_count
+    FROM store_days sd
+    JOIN transactions t ON t.processed_at >= sd.day_start AND t.processed_at < sd.day_end
+    JOIN orders o ON o.id = t.order_id
+    WHERE LOWER(t.status) = 'success'
+      AND o.test = false
+      AND o.deleted_at IS NULL
+      AND analytics_order_matches_filters(o, p_filters)
+    GROUP BY 1, 2, 3
+  ),
+  placed AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(o.total_discounts_amount) FILTER (WHERE o.cancelled_at IS NULL) AS discounts,
+      SUM(o.total_tax_amount) FILTER (WHERE o.cancelled_at IS NULL) AS taxes,
+      SUM(o.total_shipping_amount) FILTER (WHERE o.cancelled_at IS NULL) AS shipping,
+      COUNT(*) FILTER (WHERE o.cancelled_at IS NULL) AS order_count,
+      SUM(o.total_amount) FILTER (WHERE o.cancelled_at IS NULL) AS order_value,
+      COUNT(*) FILTER (WHERE o.cancelled_at IS NOT NULL) AS cancelled_order_count
+    FROM store_days sd
+    JOIN orders o ON o.created_at >= sd.day_start AND o.created_at < sd.day_end
+    WHERE o.test = false
+      AND o.deleted_at IS NULL
+      AND analytics_order_matches_filters(o, p_filters)
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    day,
+    channel,
+    currency,
+    COALESCE(s.gross_sales, 0),
+    COALESCE(s.refunds, 0),
+    COALESCE(s.gross_sales, 0) - COALESCE(s.refunds, 0),
+    COALESCE(p.discounts, 0),
+    COALESCE(p.taxes, 0),
+    COALESCE(p.shipping, 0),
+    COALESCE(p.order_count, 0),
+    COALESCE(p.order_value, 0),
+    COALESCE(s.transaction_count, 0),
+    COALESCE(p.cancelled_order_count, 0)
+  FROM sales s
+  FULL OUTER JOIN placed p USING (day, channel, currency)
+  ORDER BY 1, 2, 3;
+$$;
+
+-- Values the filter bar offers, from non-test orders that are not deleted
+CREATE OR REPLACE FUNCTION analytics_report_filter_options()
+RETURNS TABLE (
+  filter TEXT,
+  value TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH reported_orders AS (
+    SELECT channel, financial_status, payment_gateway_names, currency, tags
+    FROM orders
+    WHERE test = false
+      AND deleted_at IS NULL
+  )
+  SELECT DISTINCT 'channels', channel FROM reported_orders
+  UNION
+  SELECT DISTINCT 'financial_statuses', financial_status FROM reported_orders WHERE financial_status IS NOT NULL
+  UNION
+  SELECT DISTINCT 'gateways', unnest(payment_gateway_names) FROM reported_orders
+  UNION
+  SELECT DISTINCT 'currencies', currency FROM reported_orders
+  UNION
+  SELECT DISTINCT 'tags', unnest(tags) FROM reported_orders
+  ORDER BY 1, 2;
+$$;
+
+COMMENT ON COLUMN orders.tags IS 'Shopify order tags, for the order tag report filter';
+COMMENT ON COLUMN orders.payment_gateway_names IS 'Shopify paymentGatewayNames, for the payment gateway report filter';
+COMMENT ON COLUMN orders.channel IS 'Channel display name with fallback to source name, as the reports group orders';
+COMMENT ON FUNCTION analytics_order_matches_filters(orders, JSONB) IS 'Whether an order matches the report filters, see lib/supabase/order-filters.ts';
+COMMENT ON FUNCTION analytics_daily_channel_metrics(DATE[], TEXT, JSONB) IS 'Computes daily_channel_metrics rows for the given store days without writing them, optionally for filtered orders only';
@@ -0,0 +1,18 @@
+-- Keep a backfill's sync run open while Shopify runs its bulk operation
+-- Migration: 018_add_pending_backfill_runs.sql
+--
+-- A backfill that stops waiting before the bulk operation finishes leaves its
+-- run pending. The sync that resumes the operation picks the same run back up
+-- and finishes it once the results are imported.
+
+ALTER TABLE sync_runs
+  DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+
+ALTER TABLE sync_runs
+  ADD CONSTRAINT sync_runs_status_check CHECK (status IN ('running', 'pending', 'completed', 'failed'));
+
+ALTER TABLE sync_state
+ADD COLUMN IF NOT EXISTS bulk_sync_run_id BIGINT REFERENCES sync_runs(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN sync_runs.status IS 'running, pending (a backfill waiting on its bulk operation), completed or failed';
+COMMENT ON COLUMN sync_state.bulk_sync_run_id IS 'Sync run of the backfill importing bulk_operation_id, finished once the operation is imported';
@@ -0,0 +1,365 @@
+-- Shop-currency amounts in the analytics functions and the daily rollup
+-- Migration: 019_add_shop_money_to_analytics.sql
+--
+-- Every amount the analytics functions sum per presentment currency gains a
+-- shop_ twin summing the same rows' shopMoney. Reports in the shop currency
+-- use it as is instead of converting with fx_rates. A shop_ amount is NULL
+-- when any of its rows has no shop money yet (synced before migration 010),
+-- and such groups are converted from the presentment amount instead.
+--
+-- Rebuild daily_channel_metrics (POST /api/metrics/rebuild) after applying.
+
+ALTER TABLE daily_channel_metrics
+ADD COLUMN IF NOT EXISTS shop_gross_sales DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS shop_refunds DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS shop_net_sales DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS shop_discounts DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS shop_taxes DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS shop_shipping DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS shop_order_value DECIMAL(12,2);
+
+-- The functions return more columns, so they are recreated rather than replaced
+DROP FUNCTION IF EXISTS analytics_daily_channel_sales(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB);
+DROP FUNCTION IF EXISTS analytics_daily_orders(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB);
+DROP FUNCTION IF EXISTS analytics_order_status_breakdown(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB);
+DROP FUNCTION IF EXISTS analytics_transaction_kind_summary(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB);
+DROP FUNCTION IF EXISTS analytics_daily_channel_metrics(DATE[], TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION analytics_daily_channel_sales(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  changes NUMERIC,
+  taxes NUMERIC,
+  discounts NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  currency TEXT,
+  shop_gross_sales NUMERIC,
+  shop_refunds NUMERIC,
+  shop_changes NUMERIC,
+  shop_taxes NUMERIC,
+  shop_discounts NUMERIC,
+  shop_shipping NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH successful_transactions AS (
+    SELECT
+      t.order_id,
+      (t.processed_at AT TIME ZONE p_timezone)::DATE AS day,
+      LOWER(t.kind) AS kind,
+      t.amount,
+      t.shop_amount
+    FROM transactions t
+    JOIN orders o ON o.id = t.order_id
+    WHERE t.processed_at >= p_from
+      AND t.processed_at <= p_to
+      AND LOWER(t.status) = 'success'
+      AND o.test = false
+      AND o.deleted_at IS NULL
+      AND analytics_order_matches_filters(o, p_filters)
+  ),
+  order_days AS (
+    SELECT
+      order_id,
+      day,
+      SUM(CASE WHEN kind IN ('sale', 'capture') THEN amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN kind = 'refund' THEN ABS(amount) ELSE 0 END) AS refunds,
+      SUM(CASE WHEN kind = 'change' THEN ABS(amount) ELSE 0 END) AS changes,
+      SUM(CASE WHEN kind IN ('sale', 'capture') THEN shop_amount ELSE 0 END) AS shop_gross_sales,
+      SUM(CASE WHEN kind = 'refund' THEN ABS(shop_amount) ELSE 0 END) AS shop_refunds,
+      SUM(CASE WHEN kind = 'change' THEN ABS(shop_amount) ELSE 0 END) AS shop_changes,
+      BOOL_AND(shop_amount IS NOT NULL) AS has_shop_money
+    FROM successful_transactions
+    GROUP BY order_id, day
+  ),
+  -- Cancelled orders add no order-level amounts or order count
+  first_order_days AS (
+    SELECT od.order_id, MIN(od.day) AS day
+    FROM order_days od
+    JOIN orders o ON o.id = od.order_id
+    WHERE o.cancelled_at IS NULL
+    GROUP BY od.order_id
+  )
+  SELECT
+    od.day,
+    COALESCE(o.channel_display_name, o.source_name, 'Unknown'),
+    SUM(od.gross_sales),
+    SUM(od.refunds),
+    SUM(od.changes),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_tax_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_discounts_amount ELSE 0 END),
+    SUM(CASE WHEN f.order_id IS NOT NULL THEN o.total_shipping_amount ELSE 0 END),
+    COUNT(f.order_id),
+    o.currency,
+    CASE WHEN BOOL_AND(od.has_shop_money) THEN SUM(od.shop_gross_sales) END,
+    CASE WHEN BOOL_AND(od.has_shop_money) THEN SUM(od.shop_refunds) END,
+    CASE WHEN BOOL_AND(od.has_shop_money) THEN SUM(od.shop_changes) END,
+    CASE WHEN BOOL_AND(f.order_id IS NULL OR o.shop_total_tax_amount IS NOT NULL)
+      THEN SUM(CASE WHEN f.order_id IS NOT NULL THEN o.shop_total_tax_amount ELSE 0 END) END,
+    CASE WHEN BOOL_AND(f.order_id IS NULL OR o.shop_total_discounts_amount IS NOT NULL)
+      THEN SUM(CASE WHEN f.order_id IS NOT NULL THEN o.shop_total_discounts_amount ELSE 0 END) END,
+    CASE WHEN BOOL_AND(f.order_id IS NULL OR o.shop_total_shipping_amount IS NOT NULL)
+      THEN SUM(CASE WHEN f.order_id IS NOT NULL THEN o.shop_total_shipping_amount ELSE 0 END) END
+  FROM order_days od
+  JOIN orders o ON o.id = od.order_id
+  LEFT JOIN first_order_days f ON f.order_id = od.order_id AND f.day = od.day
+  GROUP BY 1, 2, 10
+  ORDER BY 1, 2, 10;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_orders(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  source_name TEXT,
+  order_count BIGINT,
+  total_value NUMERIC,
+  currency TEXT,
+  shop_total_value NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.created_at AT TIME ZONE p_timezone)::DATE,
+    o.source_name,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency,
+    CASE WHEN BOOL_AND(o.shop_total_amount IS NOT NULL) THEN SUM(o.shop_total_amount) END
+  FROM orders o
+  WHERE o.created_at >= p_from
+    AND o.created_at <= p_to
+    AND o.cancelled_at IS NULL
+    AND o.deleted_at IS NULL
+    AND analytics_order_matches_filters(o, p_filters)
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+-- Cancelled orders form their own CANCELLED group instead of their financial status
+CREATE OR REPLACE FUNCTION analytics_order_status_breakdown(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  financial_status TEXT,
+  order_count BIGINT,
+  total_amount NUMERIC,
+  currency TEXT,
+  shop_total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (o.processed_at AT TIME ZONE p_timezone)::DATE,
+    CASE WHEN o.cancelled_at IS NOT NULL THEN 'CANCELLED' ELSE o.financial_status END,
+    COUNT(*),
+    SUM(o.total_amount),
+    o.currency,
+    CASE WHEN BOOL_AND(o.shop_total_amount IS NOT NULL) THEN SUM(o.shop_total_amount) END
+  FROM orders o
+  WHERE o.processed_at >= p_from
+    AND o.processed_at <= p_to
+    AND o.test = false
+    AND o.deleted_at IS NULL
+    AND analytics_order_matches_filters(o, p_filters)
+  GROUP BY 1, 2, 5
+  ORDER BY 1, 2, 5;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_transaction_kind_summary(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  kind TEXT,
+  transaction_count BIGINT,
+  successful_count BIGINT,
+  successful_amount NUMERIC,
+  currency TEXT,
+  shop_successful_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (t.processed_at AT TIME ZONE p_timezone)::DATE,
+    t.kind,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE LOWER(t.status) = 'success'),
+    COALESCE(SUM(t.amount) FILTER (WHERE LOWER(t.status) = 'success'), 0),
+    t.currency,
+    CASE WHEN BOOL_AND(t.shop_amount IS NOT NULL) FILTER (WHERE LOWER(t.status) = 'success') IS NOT FALSE
+      THEN COALESCE(SUM(t.shop_amount) FILTER (WHERE LOWER(t.status) = 'success'), 0) END
+  FROM transactions t
+  JOIN orders o ON o.id = t.order_id
+  WHERE t.processed_at >= p_from
+    AND t.processed_at <= p_to
+    AND o.deleted_at IS NULL
+    AND analytics_order_matches_filters(o, p_filters)
+  GROUP BY 1, 2, 6
+  ORDER BY 1, 2, 6;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC',
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  channel TEXT,
+  currency TEXT,
+  gross_sales NUMERIC,
+  refunds NUMERIC,
+  net_sales NUMERIC,
+  discounts NUMERIC,
+  taxes NUMERIC,
+  shipping NUMERIC,
+  order_count BIGINT,
+  order_value NUMERIC,
+  transaction_count BIGINT,
+  cancelled_order_count BIGINT,
+  shop_gross_sales NUMERIC,
+  shop_refunds NUMERIC,
+  shop_net_sales NUMERIC,
+  shop_discounts NUMERIC,
+  shop_taxes NUMERIC,
+  shop_shipping NUMERIC,
+  shop_order_value NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH store_days AS (
+    SELECT
+      d AS day,
+      d::TIMESTAMP AT TIME ZONE p_timezone AS day_start,
+      (d + 1)::TIMESTAMP AT TIME ZONE p_timezone AS day_end
+    FROM unnest(p_days) AS d
+  ),
+  sales AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(CASE WHEN LOWER(t.kind) IN ('sale', 'capture') THEN t.amount ELSE 0 END) AS gross_sales,
+      SUM(CASE WHEN LOWER(t.kind) IN ('refund', 'change') THEN ABS(t.amount) ELSE 0 END) AS refunds,
+      COUNT(*) AS transaction_count,
+      CASE WHEN BOOL_AND(t.shop_amount IS NOT NULL)
+        THEN SUM(CASE WHEN LOWER(t.kind) IN ('sale', 'capture') THEN t.shop_amount ELSE 0 END) END AS shop_gross_sales,
+      CASE WHEN BOOL_AND(t.shop_amount IS NOT NULL)
+        THEN SUM(CASE WHEN LOWER(t.kind) IN ('refund', 'change') THEN ABS(t.shop_amount) ELSE 0 END) END AS shop_refunds
+    FROM store_days sd
+    JOIN transactions t ON t.processed_at >= sd.day_start AND t.processed_at < sd.day_end
+    JOIN orders o ON o.id = t.order_id
+    WHERE LOWER(t.status) = 'success'
+      AND o.test = false
+      AND o.deleted_at IS NULL
+      AND analytics_order_matches_filters(o, p_filters)
+    GROUP BY 1, 2, 3
+  ),
+  placed AS (
+    SELECT
+      sd.day,
+      COALESCE(o.channel_display_name, o.source_name, 'Unknown') AS channel,
+      o.currency,
+      SUM(o.total_discounts_amount) FILTER (WHERE o.cancelled_at IS NULL) AS discounts,
+      SUM(o.total_tax_amount) FILTER (WHERE o.cancelled_at IS NULL) AS taxes,
+      SUM(o.total_shipping_amount) FILTER (WHERE o.cancelled_at IS NULL) AS shipping,
+      COUNT(*) FILTER (WHERE o.cancelled_at IS NULL) AS order_count,
+      SUM(o.total_amount) FILTER (WHERE o.cancelled_at IS NULL) AS order_value,
+      COUNT(*) FILTER (WHERE o.cancelled_at IS NOT NULL) AS cancelled_order_count,
+      -- Zero when every order of the group is cancelled
+      CASE WHEN BOOL_AND(o.shop_total_discounts_amount IS NOT NULL) FILTER (WHERE o.cancelled_at IS NULL) IS NOT FALSE
+        THEN COALESCE(SUM(o.shop_total_discounts_amount) FILTER (WHERE o.cancelled_at IS NULL), 0) END AS shop_discounts,
+      CASE WHEN BOOL_AND(o.shop_total_tax_amount IS NOT NULL) FILTER (WHERE o.cancelled_at IS NULL) IS NOT FALSE
+        THEN COALESCE(SUM(o.shop_total_tax_amount) FILTER (WHERE o.cancelled_at IS NULL), 0) END AS shop_taxes,
+      CASE WHEN BOOL_AND(o.shop_total_shipping_amount IS NOT NULL) FILTER (WHERE o.cancelled_at IS NULL) IS NOT FALSE
+        THEN COALESCE(SUM(o.shop_total_shipping_amount) FILTER (WHERE o.cancelled_at IS NULL), 0) END AS shop_shipping,
+      CASE WHEN BOOL_AND(o.shop_total_amount IS NOT NULL) FILTER (WHERE o.cancelled_at IS NULL) IS NOT FALSE
+        THEN COALESCE(SUM(o.shop_total_amount) FILTER (WHERE o.cancelled_at IS NULL), 0) END AS shop_order_value
+    FROM store_days sd
+    JOIN orders o ON o.created_at >= sd.day_start AND o.created_at < sd.day_end
+    WHERE o.test = false
+      AND o.deleted_at IS NULL
+      AND analytics_order_matches_filters(o, p_filters)
+    GROUP BY 1, 2, 3
+  )
+  -- A side with no rows for the day contributes zero, in both currencies
+  SELECT
+    day,
+    channel,
+    currency,
+    COALESCE(s.gross_sales, 0),
+    COALESCE(s.refunds, 0),
+    COALESCE(s.gross_sales, 0) - COALESCE(s.refunds, 0),
+    COALESCE(p.discounts, 0),
+    COALESCE(p.taxes, 0),
+    COALESCE(p.shipping, 0),
+    COALESCE(p.order_count, 0),
+    COALESCE(p.order_value, 0),
+    COALESCE(s.transaction_count, 0),
+    COALESCE(p.cancelled_order_count, 0),
+    CASE WHEN s.transaction_count IS NULL THEN 0 ELSE s.shop_gross_sales END,
+    CASE WHEN s.transaction_count IS NULL THEN 0 ELSE s.shop_refunds END,
+    CASE WHEN s.transaction_count IS NULL THEN 0 ELSE s.shop_gross_sales - s.shop_refunds END,
+    CASE WHEN p.order_count IS NULL THEN 0 ELSE p.shop_discounts END,
+    CASE WHEN p.order_count IS NULL THEN 0 ELSE p.shop_taxes END,
+    CASE WHEN p.order_count IS NULL THEN 0 ELSE p.shop_shipping END,
+    CASE WHEN p.order_count IS NULL THEN 0 ELSE p.shop_order_value END
+  FROM sales s
+  FULL OUTER JOIN placed p USING (day, channel, currency)
+  ORDER BY 1, 2, 3;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_daily_channel_metrics(
+  p_days DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  DELETE FROM daily_channel_metrics WHERE day = ANY(p_days);
+
+  INSERT INTO daily_channel_metrics (
+    day, channel, currency, gross_sales, refunds, net_sales, discounts,
+    taxes, shipping, order_count, order_value, transaction_count,
+    cancelled_order_count, shop_gross_sales, shop_refunds, shop_net_sales,
+    shop_discounts, shop_taxes, shop_shipping, shop_order_value, refreshed_at
+  )
+  SELECT m.*, NOW()
+  FROM analytics_daily_channel_metrics(p_days, p_timezone) m;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
+
+COMMENT ON COLUMN daily_channel_metrics.shop_net_sales IS 'Net sales in the shop currency, NULL when a transaction of the day has no shop money; likewise the other shop_ columns';
+COMMENT ON FUNCTION analytics_daily_channel_metrics(DATE[], TEXT, JSONB) IS 'Computes daily_channel_metrics rows for the given store days without writing them, optionally for filtered orders only';
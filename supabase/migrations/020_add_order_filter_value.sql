@@ -0,0 +1,46 @@
+-- Order value filter for orders without shop money
+-- Migration: 020_add_order_filter_value.sql
+--
+-- The order value filter compared shop_total_amount, which stays NULL for
+-- orders synced before 010_add_shop_money_and_fx_rates.sql until they are
+-- synced again, so a min or max value dropped those orders from every report.
+-- Orders gain a generated filter_order_value column that falls back to the
+-- presentment total, which PostgREST can filter on, and the analytics
+-- functions filter on the same column.
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS filter_order_value DECIMAL(10,2) GENERATED ALWAYS AS (COALESCE(shop_total_amount, total_amount)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_orders_filter_order_value ON orders(filter_order_value);
+
+-- Whether an order matches every filter in p_filters, NULL matches everything.
+-- Keys: channels, financial_statuses, gateways, currencies, tags (any listed
+-- value matches), min_order_value and max_order_value (shop currency total,
+-- the presentment total for orders without shop money).
+CREATE OR REPLACE FUNCTION analytics_order_matches_filters(
+  o orders,
+  p_filters JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_filters IS NULL OR (
+    (NOT p_filters ? 'channels'
+      OR o.channel = ANY (ARRAY(SELECT jsonb_array_elements_text(p_filters->'channels'))))
+    AND (NOT p_filters ? 'financial_statuses'
+      OR o.financial_status = ANY (ARRAY(SELECT jsonb_array_elements_text(p_filters->'financial_statuses'))))
+    AND (NOT p_filters ? 'gateways'
+      OR o.payment_gateway_names && ARRAY(SELECT jsonb_array_elements_text(p_filters->'gateways')))
+    AND (NOT p_filters ? 'currencies'
+      OR o.currency = ANY (ARRAY(SELECT jsonb_array_elements_text(p_filters->'currencies'))))
+    AND (NOT p_filters ? 'tags'
+      OR o.tags && ARRAY(SELECT jsonb_array_elements_text(p_filters->'tags')))
+    AND (NOT p_filters ? 'min_order_value'
+      OR o.filter_order_value >= (p_filters->>'min_order_value')::NUMERIC)
+    AND (NOT p_filters ? 'max_order_value'
+      OR o.filter_order_value <= (p_filters->>'max_order_value')::NUMERIC)
+  );
+$$;
+
+COMMENT ON COLUMN orders.filter_order_value IS 'Order total the order value filter compares: shop_total_amount, or total_amount for orders synced before shop money';